@@ -1,16 +1,138 @@
-import { lazy, Suspense } from 'react';
+import { lazy, Suspense, useEffect, useRef, useState, MutableRefObject } from 'react';
+import type { BeforeMount, OnMount } from '@monaco-editor/react';
 import { Skeleton } from '@/components/ui/skeleton';
+import { DiagramDiagnostic } from '@/types/diagram';
+import { MERMAID_LANGUAGE_ID, registerMermaidLanguage } from '@/lib/mermaidLanguage';
+import { registerMermaidCompletionProvider } from '@/lib/mermaidCompletion';
 
 const MonacoEditor = lazy(() => import('@monaco-editor/react'));
 
+const MARKER_OWNER = 'mermaid';
+
+type MonacoEditorInstance = Parameters<OnMount>[0];
+type MonacoInstance = Parameters<OnMount>[1];
+
+const handleBeforeMount: BeforeMount = (monaco) => {
+  registerMermaidLanguage(monaco);
+  registerMermaidCompletionProvider(monaco);
+};
+
+export interface CodeEditorControls {
+  revealLine: (line: number, column?: number) => void;
+  /** Select a range without taking focus from the preview */
+  selectRange: (start: CursorPosition, end: CursorPosition) => void;
+}
+
+/** 1-based line and column */
+export interface CursorPosition {
+  line: number;
+  column: number;
+}
+
 interface CodeEditorProps {
   code: string;
   onChange: (code: string) => void;
   isValid: boolean;
   error: string | null;
+  diagnostic?: DiagramDiagnostic | null;
+  controlsRef?: MutableRefObject<CodeEditorControls>;
+  onCursorChange?: (position: CursorPosition) => void;
+  /** Show the code without letting it be changed */
+  readOnly?: boolean;
 }
 
-export const CodeEditor = ({ code, onChange, isValid, error }: CodeEditorProps) => {
+export const CodeEditor = ({ code, onChange, isValid, error, diagnostic, controlsRef, onCursorChange, readOnly }: CodeEditorProps) => {
+  const editorRef = useRef<MonacoEditorInstance | null>(null);
+  const monacoRef = useRef<MonacoInstance | null>(null);
+  const decorationsRef = useRef<ReturnType<MonacoEditorInstance['createDecorationsCollection']> | null>(null);
+  const [isMounted, setIsMounted] = useState(false);
+  const onCursorChangeRef = useRef(onCursorChange);
+  onCursorChangeRef.current = onCursorChange;
+
+  const handleMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    decorationsRef.current = editor.createDecorationsCollection();
+    editor.onDidChangeCursorPosition(({ position }) => {
+      onCursorChangeRef.current?.({ line: position.lineNumber, column: position.column });
+    });
+    setIsMounted(true);
+  };
+
+  // Expose navigation via ref so the status bar and preview can move the selection
+  useEffect(() => {
+    if (!controlsRef) return;
+    controlsRef.current = {
+      revealLine: (line: number, column: number = 1) => {
+        const editor = editorRef.current;
+        if (!editor) return;
+        editor.revealLineInCenter(line);
+        editor.setPosition({ lineNumber: line, column });
+        editor.focus();
+      },
+      selectRange: (start: CursorPosition, end: CursorPosition) => {
+        const editor = editorRef.current;
+        if (!editor) return;
+        const range = {
+          startLineNumber: start.line,
+          startColumn: start.column,
+          endLineNumber: end.line,
+          endColumn: end.column,
+        };
+        editor.setSelection(range);
+        editor.revealRangeInCenterIfOutsideViewport(range);
+      },
+    };
+  }, [controlsRef]);
+
+  // Show render failures as model markers plus a gutter glyph
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = editor?.getModel();
+    if (!isMounted || !editor || !monaco || !model) return;
+
+    if (!diagnostic || isValid) {
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, []);
+      decorationsRef.current?.clear();
+      return;
+    }
+
+    const line = Math.min(diagnostic.line, model.getLineCount());
+    const lineMaxColumn = model.getLineMaxColumn(line);
+    // Keep at least one character underlined, even for errors at the end of a line
+    const startColumn = Math.max(1, Math.min(diagnostic.column, lineMaxColumn - 1));
+    const endColumn = diagnostic.endColumn && diagnostic.endColumn > startColumn
+      ? Math.min(diagnostic.endColumn, lineMaxColumn)
+      : lineMaxColumn;
+
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, [{
+      severity: monaco.MarkerSeverity.Error,
+      message: diagnostic.message,
+      source: 'mermaid',
+      startLineNumber: line,
+      startColumn,
+      endLineNumber: line,
+      endColumn: Math.max(endColumn, startColumn + 1),
+    }]);
+
+    decorationsRef.current?.set([{
+      range: new monaco.Range(line, 1, line, 1),
+      options: {
+        isWholeLine: true,
+        className: 'mermaid-error-line',
+        glyphMarginClassName: 'mermaid-error-glyph',
+        glyphMarginHoverMessage: { value: diagnostic.message },
+      },
+    }]);
+  }, [diagnostic, isValid, isMounted, code]);
+
+  const handleErrorClick = () => {
+    if (diagnostic) {
+      controlsRef?.current.revealLine(diagnostic.line, diagnostic.column);
+    }
+  };
+
   return (
     <div className="h-full flex flex-col">
       <Suspense
@@ -25,11 +147,14 @@ export const CodeEditor = ({ code, onChange, isValid, error }: CodeEditorProps)
       >
         <MonacoEditor
           height="100%"
-          defaultLanguage="markdown"
+          defaultLanguage={MERMAID_LANGUAGE_ID}
+          beforeMount={handleBeforeMount}
+          onMount={handleMount}
           value={code}
           onChange={(value) => onChange(value || '')}
           theme="vs-dark"
           options={{
+            readOnly,
             minimap: { enabled: false },
             fontSize: 14,
             fontFamily: 'JetBrains Mono, monospace',
@@ -40,6 +165,7 @@ export const CodeEditor = ({ code, onChange, isValid, error }: CodeEditorProps)
             automaticLayout: true,
             tabSize: 2,
             renderLineHighlight: 'gutter',
+            glyphMargin: true,
             scrollbar: {
               verticalScrollbarSize: 8,
               horizontalScrollbarSize: 8,
@@ -47,14 +173,19 @@ export const CodeEditor = ({ code, onChange, isValid, error }: CodeEditorProps)
           }}
         />
       </Suspense>
-      
+
       {/* Error display */}
       {!isValid && error && (
-        <div className="px-4 py-2 bg-destructive/10 border-t border-destructive/20 animate-fade-in">
+        <button
+          type="button"
+          onClick={handleErrorClick}
+          title={error}
+          className="px-4 py-2 bg-destructive/10 border-t border-destructive/20 animate-fade-in text-left"
+        >
           <p className="text-sm text-destructive font-mono truncate">
-            {error}
+            {diagnostic ? `Line ${diagnostic.line}: ${diagnostic.message}` : error}
           </p>
-        </div>
+        </button>
       )}
     </div>
   );
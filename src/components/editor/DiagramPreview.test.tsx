@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { DiagramPreview } from '@/components/editor/DiagramPreview';
+import { parseDiagram } from '@/lib/mermaidParser';
 
 describe('DiagramPreview', () => {
     const defaultProps = {
@@ -21,6 +22,13 @@ describe('DiagramPreview', () => {
             expect(screen.getByText('Drag to pan')).toBeInTheDocument();
         });
 
+        it('should render embeds without controls at their initial zoom', () => {
+            render(<DiagramPreview {...defaultProps} interactive={false} initialScale={2} background="transparent" />);
+
+            expect(screen.queryByText('Drag to pan')).not.toBeInTheDocument();
+            expect((screen.getByTestId('test-svg').closest('.absolute') as HTMLElement).style.transform).toContain('scale(2)');
+        });
+
         it('should display SVG output when valid', () => {
             render(<DiagramPreview {...defaultProps} />);
 
@@ -111,4 +119,106 @@ describe('DiagramPreview', () => {
             expect(previewArea).toBeInTheDocument();
         });
     });
+
+    describe('comparison', () => {
+        const comparison = {
+            baseLabel: 'v1 sent to client',
+            targetLabel: 'Current',
+            baseSvg: '<svg><g class="node" id="flowchart-A-1"><text>A</text></g></svg>',
+            targetSvg: '<svg><g class="node" id="flowchart-A-7"><text>A</text></g><g class="node" id="flowchart-B-8"><text>B</text></g></svg>',
+        };
+
+        it('should show both renders with added elements highlighted', () => {
+            render(<DiagramPreview {...defaultProps} comparison={comparison} />);
+
+            expect(screen.getByText('v1 sent to client')).toBeInTheDocument();
+            expect(screen.getByText('1 added')).toBeInTheDocument();
+            expect(document.querySelectorAll('.diagram-diff')).toHaveLength(2);
+            expect(document.querySelector('#flowchart-B-8')).toHaveClass('diff-added');
+            expect(screen.queryByTestId('test-svg')).not.toBeInTheDocument();
+        });
+
+        it('should call onExitComparison', () => {
+            const onExitComparison = vi.fn();
+            render(<DiagramPreview {...defaultProps} comparison={comparison} onExitComparison={onExitComparison} />);
+
+            fireEvent.click(screen.getByText('Exit comparison'));
+
+            expect(onExitComparison).toHaveBeenCalled();
+        });
+    });
+
+    describe('canvas editing', () => {
+        const flowchartSvg = '<svg><g class="node" id="flowchart-A-1"><rect/><text>Start</text></g><g class="node" id="flowchart-B-2"><rect/><text>End</text></g></svg>';
+        const createCanvasEdit = () => ({
+            onAddNode: vi.fn(),
+            onConnect: vi.fn(),
+            onDelete: vi.fn(),
+            onChangeShape: vi.fn(),
+        });
+
+        it('should select nodes and delete the selection with the keyboard', () => {
+            const canvasEdit = createCanvasEdit();
+            render(<DiagramPreview {...defaultProps} svgOutput={flowchartSvg} canvasEdit={canvasEdit} />);
+
+            fireEvent.click(screen.getByText('Start'));
+            fireEvent.click(screen.getByText('End'), { shiftKey: true });
+
+            expect(document.querySelector('#flowchart-A-1')).toHaveClass('node-selected');
+            expect(document.querySelector('#flowchart-B-2')).toHaveClass('node-selected');
+
+            fireEvent.keyDown(document.activeElement, { key: 'Delete' });
+
+            expect(canvasEdit.onDelete).toHaveBeenCalledWith(['A', 'B']);
+        });
+
+        it('should add a connected node from the handle of a single selection', () => {
+            const canvasEdit = createCanvasEdit();
+            render(<DiagramPreview {...defaultProps} svgOutput={flowchartSvg} canvasEdit={canvasEdit} />);
+
+            fireEvent.click(screen.getByText('Start'));
+            const handle = screen.getByRole('button', { name: 'Add connected node' });
+            fireEvent.mouseDown(handle);
+            fireEvent.mouseUp(handle);
+
+            expect(canvasEdit.onAddNode).toHaveBeenCalledWith('A');
+        });
+
+        it('should clear the selection when clicking the empty canvas', () => {
+            render(<DiagramPreview {...defaultProps} svgOutput={flowchartSvg} canvasEdit={createCanvasEdit()} />);
+
+            fireEvent.click(screen.getByText('Start'));
+            fireEvent.click(document.querySelector('.diagram-render'));
+
+            expect(document.querySelector('.node-selected')).not.toBeInTheDocument();
+            expect(screen.queryByRole('button', { name: 'Add connected node' })).not.toBeInTheDocument();
+        });
+    });
+
+    describe('source sync', () => {
+        const ast = parseDiagram('flowchart TD\n    A[Start] --> B[End]');
+        const flowchartSvg = '<svg><g class="node" id="flowchart-A-1"><rect/><text>Start</text></g><g class="node" id="flowchart-B-2"><rect/><text>End</text></g></svg>';
+
+        it('should highlight the element under the editor cursor', () => {
+            const { rerender } = render(
+                <DiagramPreview {...defaultProps} svgOutput={flowchartSvg} ast={ast} highlightedElement={{ kind: 'node', id: 'A' }} />
+            );
+
+            expect(document.querySelector('#flowchart-A-1')).toHaveClass('sync-highlight');
+
+            rerender(<DiagramPreview {...defaultProps} svgOutput={flowchartSvg} ast={ast} highlightedElement={{ kind: 'node', id: 'B' }} />);
+
+            expect(document.querySelector('#flowchart-A-1')).not.toHaveClass('sync-highlight');
+            expect(document.querySelector('#flowchart-B-2')).toHaveClass('sync-highlight');
+        });
+
+        it('should report clicked elements', () => {
+            const onSelectElement = vi.fn();
+            render(<DiagramPreview {...defaultProps} svgOutput={flowchartSvg} ast={ast} onSelectElement={onSelectElement} />);
+
+            fireEvent.click(screen.getByText('End'));
+
+            expect(onSelectElement).toHaveBeenCalledWith({ kind: 'node', id: 'B' });
+        });
+    });
 });
@@ -1,11 +1,17 @@
-import { useRef, useState, useEffect, MutableRefObject, useCallback } from 'react';
+import { useRef, useState, useEffect, useMemo, MutableRefObject, useCallback } from 'react';
 import { MermaidTheme } from '@/types/diagram';
-import { motion, useMotionValue } from 'framer-motion';
-import { ZoomIn, ZoomOut, RotateCcw, Move, Edit3 } from 'lucide-react';
+import { animate, motion, useMotionValue } from 'framer-motion';
+import { ZoomIn, ZoomOut, RotateCcw, Move, Edit3, X, Plus, MousePointerClick } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { ContextMenu, ContextMenuTrigger } from '@/components/ui/context-menu';
+import { NodeContextMenuContent } from './NodeContextMenu';
 import { cn } from '@/lib/utils';
 import { sanitizeSvg } from '@/lib/svgSanitizer';
+import { diffSvgs, findSvgNodeId, getSvgNodeId } from '@/lib/svgDiff';
+import { RenameTarget } from '@/lib/mermaidRename';
+import { DiagramAst, FlowchartShape } from '@/lib/mermaidAst';
+import { DiagramElementRef, elementKey, findElementForSvg, findSvgElements } from '@/lib/sourceSync';
 
 interface ZoomControls {
   zoomIn: () => void;
@@ -16,17 +22,75 @@ interface ZoomControls {
 interface EditState {
   isEditing: boolean;
   originalText: string;
+  /** Source id of the clicked node, when Mermaid tagged it */
+  nodeId?: string;
+  /** AST index of the clicked edge, for labels that may repeat */
+  edgeIndex?: number;
   newText: string;
   position: { x: number; y: number };
 }
 
+interface CanvasPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Edge being drawn from the connect handle
+ */
+interface Connection {
+  fromId: string;
+  /** Handle position the line starts from */
+  from: CanvasPoint;
+  /** Pointer position when the drag started */
+  start: CanvasPoint;
+  to: CanvasPoint;
+  moved: boolean;
+}
+
+/**
+ * Flowchart structure edits made on the canvas; each one is written back to the code
+ */
+export interface CanvasEditHandlers {
+  onAddNode: (fromId: string) => void;
+  onConnect: (fromId: string, toId: string) => void;
+  onDelete: (ids: string[]) => void;
+  onChangeShape: (id: string, shape: FlowchartShape) => void;
+}
+
+/**
+ * Two renders shown side by side, with removed and added elements highlighted
+ */
+export interface PreviewComparison {
+  baseLabel: string;
+  targetLabel: string;
+  /** Null while a side is still rendering or failed to render */
+  baseSvg: string | null;
+  targetSvg: string | null;
+  error?: string | null;
+}
+
 interface DiagramPreviewProps {
   svgOutput: string;
   theme: MermaidTheme;
   isRendering: boolean;
   isValid: boolean;
   zoomRef?: MutableRefObject<ZoomControls>;
-  onRename?: (oldText: string, newText: string) => void;
+  onRename?: (target: RenameTarget, newText: string) => void;
+  comparison?: PreviewComparison | null;
+  onExitComparison?: () => void;
+  canvasEdit?: CanvasEditHandlers | null;
+  /** Parsed code, used to match rendered elements with their source */
+  ast?: DiagramAst | null;
+  /** Element under the code editor's cursor */
+  highlightedElement?: DiagramElementRef | null;
+  onSelectElement?: (element: DiagramElementRef) => void;
+  /** Zoom to start at and return to on reset */
+  initialScale?: number;
+  /** Set to false to hide the controls and turn off panning and zooming */
+  interactive?: boolean;
+  /** CSS background replacing the theme's, e.g. for embeds */
+  background?: string;
 }
 
 export const DiagramPreview = ({
@@ -35,12 +99,21 @@ export const DiagramPreview = ({
   isRendering,
   isValid,
   zoomRef,
-  onRename
+  onRename,
+  comparison,
+  onExitComparison,
+  canvasEdit,
+  ast,
+  highlightedElement,
+  onSelectElement,
+  initialScale = 1,
+  interactive = true,
+  background,
 }: DiagramPreviewProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const diagramRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  const [scale, setScale] = useState(1);
+  const [scale, setScale] = useState(initialScale);
   // Use motion values for pan position (no re-render on change)
   const panX = useMotionValue(0);
   const panY = useMotionValue(0);
@@ -55,10 +128,22 @@ export const DiagramPreview = ({
     position: { x: 0, y: 0 }
   });
 
+  // Canvas editing state (flowcharts only)
+  const canEditCanvas = Boolean(canvasEdit) && !comparison;
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [handlePosition, setHandlePosition] = useState<CanvasPoint | null>(null);
+  const [connection, setConnection] = useState<Connection | null>(null);
+  const [contextNodeId, setContextNodeId] = useState<string | null>(null);
+
+  const comparisonDiff = useMemo(
+    () => (comparison?.baseSvg && comparison.targetSvg ? diffSvgs(comparison.baseSvg, comparison.targetSvg) : null),
+    [comparison?.baseSvg, comparison?.targetSvg]
+  );
+
   const handleZoomIn = () => setScale(prev => Math.min(prev + 0.25, 5));
   const handleZoomOut = () => setScale(prev => Math.max(prev - 0.25, 0.25));
   const handleReset = () => {
-    setScale(1);
+    setScale(initialScale);
     panX.set(0);
     panY.set(0);
   };
@@ -82,8 +167,76 @@ export const DiagramPreview = ({
     }
   }, [editState.isEditing]);
 
+  /**
+   * Convert a pointer position to coordinates inside the panned and zoomed diagram layer
+   */
+  const toCanvasPoint = useCallback((clientX: number, clientY: number): CanvasPoint => {
+    const layer = diagramRef.current;
+    if (!layer) return { x: 0, y: 0 };
+    const rect = layer.getBoundingClientRect();
+    const ratio = rect.width / (layer.offsetWidth || 1) || 1;
+    return { x: (clientX - rect.left) / ratio, y: (clientY - rect.top) / ratio };
+  }, []);
+
+  // Highlight selected nodes and place the connect handle next to a single selection
+  useEffect(() => {
+    const layer = diagramRef.current;
+    if (!layer) {
+      setHandlePosition(null);
+      return;
+    }
+
+    const nodes = Array.from(layer.querySelectorAll('g.node'));
+    const ids = nodes.map(node => getSvgNodeId(node));
+    nodes.forEach((node, index) => node.classList.toggle('node-selected', selectedIds.includes(ids[index])));
+
+    // Nodes removed from the code drop out of the selection
+    const present = selectedIds.filter(id => ids.includes(id));
+    if (present.length !== selectedIds.length) {
+      setSelectedIds(present);
+      return;
+    }
+
+    const selected = present.length === 1 ? nodes[ids.indexOf(present[0])] : undefined;
+    if (!selected) {
+      setHandlePosition(null);
+      return;
+    }
+    const rect = selected.getBoundingClientRect();
+    setHandlePosition(toCanvasPoint(rect.right, rect.top + rect.height / 2));
+  }, [selectedIds, svgOutput, scale, toCanvasPoint]);
+
+  // Highlight the element under the editor's cursor, again after each render
+  useEffect(() => {
+    const layer = diagramRef.current;
+    if (!layer) return;
+    layer.querySelectorAll('.sync-highlight').forEach(element => element.classList.remove('sync-highlight'));
+    if (!ast || !highlightedElement) return;
+    findSvgElements(layer, ast, highlightedElement).forEach(element => element.classList.add('sync-highlight'));
+  }, [ast, highlightedElement, svgOutput]);
+
+  // Pan a newly highlighted element into the middle of the view when it is off screen
+  const highlightKey = elementKey(highlightedElement ?? null);
+  useEffect(() => {
+    const container = containerRef.current;
+    const element = diagramRef.current?.querySelector('.sync-highlight');
+    if (!highlightKey || !container || !element) return;
+
+    const box = element.getBoundingClientRect();
+    const view = container.getBoundingClientRect();
+    if (box.left >= view.left && box.right <= view.right && box.top >= view.top && box.bottom <= view.bottom) return;
+
+    const offsetX = view.left + view.width / 2 - (box.left + box.width / 2);
+    const offsetY = view.top + view.height / 2 - (box.top + box.height / 2);
+    const controls = [
+      animate(panX, panX.get() + offsetX, { duration: 0.3 }),
+      animate(panY, panY.get() + offsetY, { duration: 0.3 }),
+    ];
+    return () => controls.forEach(control => control.stop());
+  }, [highlightKey, panX, panY]);
+
   const handleWheel = (e: React.WheelEvent) => {
-    if (e.ctrlKey || e.metaKey) {
+    if (interactive && (e.ctrlKey || e.metaKey)) {
       e.preventDefault();
       const delta = e.deltaY > 0 ? -0.1 : 0.1;
       setScale(prev => Math.min(Math.max(prev + delta, 0.25), 5));
@@ -92,7 +245,7 @@ export const DiagramPreview = ({
 
   const handleMouseDown = (e: React.MouseEvent) => {
     // Don't start drag if clicking on editable text or already editing
-    if (editState.isEditing) return;
+    if (editState.isEditing || !interactive) return;
 
     if (e.button === 0) {
       setIsDragging(true);
@@ -106,6 +259,16 @@ export const DiagramPreview = ({
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (connection) {
+      const to = toCanvasPoint(e.clientX, e.clientY);
+      setConnection(prev => prev && {
+        ...prev,
+        to,
+        moved: prev.moved || Math.hypot(to.x - prev.start.x, to.y - prev.start.y) > 4,
+      });
+      return;
+    }
+
     if (isDragging) {
       const deltaX = e.clientX - dragStartRef.current.x;
       const deltaY = e.clientY - dragStartRef.current.y;
@@ -114,10 +277,71 @@ export const DiagramPreview = ({
     }
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (connection && canvasEdit) {
+      // A click on the handle adds a node; a drag onto another node links the two
+      const targetId = findSvgNodeId(e.target as Element);
+      if (!connection.moved) {
+        canvasEdit.onAddNode(connection.fromId);
+      } else if (targetId && targetId !== connection.fromId) {
+        canvasEdit.onConnect(connection.fromId, targetId);
+      }
+      setConnection(null);
+    }
     setIsDragging(false);
   };
 
+  const handleConnectStart = (e: React.MouseEvent) => {
+    if (e.button !== 0 || !handlePosition) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const start = toCanvasPoint(e.clientX, e.clientY);
+    setConnection({ fromId: selectedIds[0], from: handlePosition, start, to: start, moved: false });
+  };
+
+  /**
+   * Select flowchart nodes; shift-click adds to or removes from the selection
+   */
+  const handleCanvasClick = (e: React.MouseEvent) => {
+    // Ignore the click that ends a pan
+    if (Math.hypot(e.clientX - dragStartRef.current.x, e.clientY - dragStartRef.current.y) > 3) return;
+
+    const nodeId = findSvgNodeId(e.target as Element);
+    if (!nodeId) {
+      setSelectedIds([]);
+      return;
+    }
+
+    setSelectedIds(prev => {
+      if (!e.shiftKey) return [nodeId];
+      return prev.includes(nodeId) ? prev.filter(id => id !== nodeId) : [...prev, nodeId];
+    });
+    containerRef.current?.focus();
+  };
+
+  const handleCanvasKeyDown = (e: React.KeyboardEvent) => {
+    if (!canEditCanvas || editState.isEditing || selectedIds.length === 0) return;
+
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      canvasEdit.onDelete(selectedIds);
+      setSelectedIds([]);
+    } else if (e.key === 'Escape') {
+      setSelectedIds([]);
+    }
+  };
+
+  const handleContextMenu = (e: React.MouseEvent) => {
+    const nodeId = findSvgNodeId(e.target as Element);
+    if (!nodeId) {
+      // Only nodes have a menu
+      e.preventDefault();
+      return;
+    }
+    setContextNodeId(nodeId);
+    setSelectedIds([nodeId]);
+  };
+
   /**
    * Get text from the nearest text element for a clicked SVG element
    * This handles cases where user clicks on rect/path but we need the sibling text
@@ -150,7 +374,7 @@ export const DiagramPreview = ({
    * Handle click on diagram - detect text elements for editing
    */
   const handleDiagramClick = useCallback((e: React.MouseEvent) => {
-    if (!onRename || isDragging) return;
+    if (!onRename || isDragging || comparison) return;
 
     const target = e.target as Element;
     const tagName = target.tagName.toLowerCase();
@@ -204,20 +428,40 @@ export const DiagramPreview = ({
     const containerRect = containerRef.current?.getBoundingClientRect();
     if (!containerRect) return;
 
+    const element = ast ? findElementForSvg(target, ast) : null;
     setEditState({
       isEditing: true,
       originalText: text,
+      nodeId: findSvgNodeId(target) ?? undefined,
+      edgeIndex: element?.kind === 'edge' ? element.index : undefined,
       newText: text,
       position: {
         x: e.clientX - containerRect.left,
         y: e.clientY - containerRect.top
       }
     });
-  }, [onRename, isDragging]);
+  }, [onRename, isDragging, comparison, ast]);
+
+  /**
+   * Select the clicked element's defining line in the code, then run the canvas or rename handler
+   */
+  const handleLayerClick = (e: React.MouseEvent) => {
+    const isPanEnd = Math.hypot(e.clientX - dragStartRef.current.x, e.clientY - dragStartRef.current.y) > 3;
+    if (ast && onSelectElement && !isPanEnd) {
+      const element = findElementForSvg(e.target as Element, ast);
+      if (element) onSelectElement(element);
+    }
+
+    if (canEditCanvas) {
+      handleCanvasClick(e);
+    } else {
+      handleDiagramClick(e);
+    }
+  };
 
   const handleEditSubmit = () => {
     if (editState.newText && editState.newText !== editState.originalText) {
-      onRename?.(editState.originalText, editState.newText);
+      onRename?.({ text: editState.originalText, nodeId: editState.nodeId, edgeIndex: editState.edgeIndex }, editState.newText);
     }
     setEditState({
       isEditing: false,
@@ -247,7 +491,10 @@ export const DiagramPreview = ({
   };
 
   useEffect(() => {
-    const handleGlobalMouseUp = () => setIsDragging(false);
+    const handleGlobalMouseUp = () => {
+      setIsDragging(false);
+      setConnection(null);
+    };
     window.addEventListener('mouseup', handleGlobalMouseUp);
     return () => window.removeEventListener('mouseup', handleGlobalMouseUp);
   }, []);
@@ -257,144 +504,264 @@ export const DiagramPreview = ({
   return (
     <div className="h-full flex flex-col">
       {/* Controls */}
-      <div className="flex items-center gap-1 px-3 py-2 border-b border-border bg-muted/30">
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={handleZoomOut}
-          className="h-7 w-7 p-0"
-        >
-          <ZoomOut className="h-4 w-4" />
-        </Button>
-        <span className="text-xs text-muted-foreground min-w-[50px] text-center font-mono">
-          {Math.round(scale * 100)}%
-        </span>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={handleZoomIn}
-          className="h-7 w-7 p-0"
-        >
-          <ZoomIn className="h-4 w-4" />
-        </Button>
-        <div className="w-px h-4 bg-border mx-1" />
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={handleReset}
-          className="h-7 w-7 p-0"
-        >
-          <RotateCcw className="h-4 w-4" />
-        </Button>
-        <div className="flex-1" />
-        <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
-          <Edit3 className="h-3 w-3" />
-          <span>Click text to edit</span>
-          <span className="mx-1">|</span>
-          <Move className="h-3 w-3" />
-          <span>Drag to pan</span>
-        </div>
-      </div>
-
-      {/* Preview area */}
-      <div
-        ref={containerRef}
-        className={cn(
-          'flex-1 overflow-hidden relative',
-          bgClass,
-          editState.isEditing ? 'cursor-default' : isDragging ? 'cursor-grabbing' : 'cursor-grab'
-        )}
-        onWheel={handleWheel}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-      >
-        {/* Grid pattern */}
-        <div
-          className="absolute inset-0 opacity-[0.03]"
-          style={{
-            backgroundImage: 'radial-gradient(circle, #000 1px, transparent 1px)',
-            backgroundSize: '20px 20px'
-          }}
-        />
-
-        {isRendering && (
-          <div className="absolute inset-0 flex items-center justify-center bg-background/50 z-10">
-            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-          </div>
-        )}
-
-        {!isValid && !isRendering && (
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="text-center p-6">
-              <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-destructive/10 flex items-center justify-center">
-                <span className="text-2xl">⚠️</span>
-              </div>
-              <p className="text-muted-foreground">Fix syntax errors to see preview</p>
-            </div>
-          </div>
-        )}
-
-        {isValid && svgOutput && (
-          <motion.div
-            ref={diagramRef}
-            className="absolute inset-0 flex items-center justify-center p-8"
-            style={{
-              x: panX,
-              y: panY,
-              scale: scale,
-              touchAction: 'none'
-            }}
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ duration: 0.15 }}
-            onClick={handleDiagramClick}
+      {interactive && (
+        <div className="flex items-center gap-1 px-3 py-2 border-b border-border bg-muted/30">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleZoomOut}
+            className="h-7 w-7 p-0"
           >
-            <div
-              className={cn(
-                "diagram-render",
-                onRename && "[&_text]:cursor-pointer [&_text]:hover:fill-primary [&_.nodeLabel]:cursor-pointer [&_.actor]:cursor-pointer"
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="text-xs text-muted-foreground min-w-[50px] text-center font-mono">
+            {Math.round(scale * 100)}%
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleZoomIn}
+            className="h-7 w-7 p-0"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <div className="w-px h-4 bg-border mx-1" />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleReset}
+            className="h-7 w-7 p-0"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <div className="flex-1" />
+          {comparison ? (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {comparisonDiff && (
+                <>
+                  <span className="text-green-600">{comparisonDiff.added} added</span>
+                  <span className="text-red-600">{comparisonDiff.removed} removed</span>
+                </>
               )}
-              dangerouslySetInnerHTML={{ __html: sanitizeSvg(svgOutput) }}
-            />
-          </motion.div>
-        )}
-
-        {!svgOutput && isValid && !isRendering && (
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="text-center p-6 text-muted-foreground">
-              <p>Start typing to see your diagram</p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onExitComparison}
+                className="h-7 gap-1 px-2 text-xs"
+              >
+                <X className="h-3 w-3" />
+                Exit comparison
+              </Button>
             </div>
-          </div>
-        )}
+          ) : (
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              {canvasEdit && (
+                <>
+                  <MousePointerClick className="h-3 w-3" />
+                  <span>Click nodes to select</span>
+                  <span className="mx-1">|</span>
+                </>
+              )}
+              {onRename && (
+                <>
+                  <Edit3 className="h-3 w-3" />
+                  <span>{canvasEdit ? 'Double-click text to edit' : 'Click text to edit'}</span>
+                  <span className="mx-1">|</span>
+                </>
+              )}
+              <Move className="h-3 w-3" />
+              <span>Drag to pan</span>
+            </div>
+          )}
+        </div>
+      )}
 
-        {/* Inline Edit Overlay */}
-        {editState.isEditing && (
+      {/* Preview area */}
+      <ContextMenu>
+        <ContextMenuTrigger asChild disabled={!canEditCanvas} onContextMenu={handleContextMenu}>
           <div
-            className="absolute z-50"
-            style={{
-              left: editState.position.x,
-              top: editState.position.y,
-              transform: 'translate(-50%, -50%)'
-            }}
+            ref={containerRef}
+            className={cn(
+              'flex-1 overflow-hidden relative outline-none',
+              !background && bgClass,
+              editState.isEditing || !interactive ? 'cursor-default' : isDragging ? 'cursor-grabbing' : 'cursor-grab'
+            )}
+            style={background ? { background } : undefined}
+            tabIndex={canEditCanvas ? 0 : undefined}
+            onWheel={handleWheel}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onKeyDown={handleCanvasKeyDown}
           >
-            <div className="bg-popover border border-border rounded-lg shadow-lg p-2 flex gap-2 items-center">
-              <Input
-                ref={inputRef}
-                value={editState.newText}
-                onChange={(e) => setEditState(prev => ({ ...prev, newText: e.target.value }))}
-                onKeyDown={handleEditKeyDown}
-                onBlur={handleEditSubmit}
-                className="h-8 w-40 text-sm"
-                placeholder="Enter new name..."
+            {/* Grid pattern */}
+            {!background && (
+              <div
+                className="absolute inset-0 opacity-[0.03]"
+                style={{
+                  backgroundImage: 'radial-gradient(circle, #000 1px, transparent 1px)',
+                  backgroundSize: '20px 20px'
+                }}
               />
-              <Button size="sm" className="h-8" onClick={handleEditSubmit}>
-                Save
-              </Button>
-            </div>
+            )}
+
+            {isRendering && (
+              <div className="absolute inset-0 flex items-center justify-center bg-background/50 z-10">
+                <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
+
+            {comparison && (
+              <motion.div
+                className="absolute inset-0 grid grid-cols-2 gap-4 p-8"
+                style={{
+                  x: panX,
+                  y: panY,
+                  scale: scale,
+                  touchAction: 'none'
+                }}
+              >
+                {[
+                  { label: comparison.baseLabel, svg: comparisonDiff?.base },
+                  { label: comparison.targetLabel, svg: comparisonDiff?.target },
+                ].map(({ label, svg }, index) => (
+                  <div key={index} className="flex flex-col items-center gap-3 min-w-0">
+                    <span className="rounded bg-muted px-2 py-0.5 text-xs font-medium text-muted-foreground">
+                      {label}
+                    </span>
+                    {svg ? (
+                      <div
+                        className="diagram-render diagram-diff"
+                        dangerouslySetInnerHTML={{ __html: sanitizeSvg(svg) }}
+                      />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        {comparison.error || 'Rendering...'}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </motion.div>
+            )}
+
+            {!comparison && !isValid && !isRendering && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <div className="text-center p-6">
+                  <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-destructive/10 flex items-center justify-center">
+                    <span className="text-2xl">⚠️</span>
+                  </div>
+                  <p className="text-muted-foreground">Fix syntax errors to see preview</p>
+                </div>
+              </div>
+            )}
+
+            {!comparison && isValid && svgOutput && (
+              <motion.div
+                ref={diagramRef}
+                className="absolute inset-0 flex items-center justify-center p-8"
+                style={{
+                  x: panX,
+                  y: panY,
+                  scale: scale,
+                  touchAction: 'none'
+                }}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ duration: 0.15 }}
+                onClick={handleLayerClick}
+                onDoubleClick={canEditCanvas ? handleDiagramClick : undefined}
+              >
+                <div
+                  className={cn(
+                    "diagram-render",
+                    onRename && "[&_text]:cursor-pointer [&_text]:hover:fill-primary [&_.nodeLabel]:cursor-pointer [&_.actor]:cursor-pointer",
+                    canEditCanvas && "[&_.node]:cursor-pointer"
+                  )}
+                  dangerouslySetInnerHTML={{ __html: sanitizeSvg(svgOutput) }}
+                />
+
+                {canEditCanvas && handlePosition && (
+                  <Button
+                    variant="default"
+                    size="icon"
+                    className="absolute h-5 w-5 -translate-y-1/2 translate-x-1 rounded-full shadow cursor-crosshair"
+                    style={{ left: handlePosition.x, top: handlePosition.y }}
+                    onMouseDown={handleConnectStart}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      // Keyboard activation; mouse clicks are handled on mouseup
+                      if (e.detail === 0) canvasEdit.onAddNode(selectedIds[0]);
+                    }}
+                    aria-label="Add connected node"
+                    title="Click to add a connected node, or drag onto another node to link them"
+                  >
+                    <Plus className="h-3 w-3" />
+                  </Button>
+                )}
+
+                {connection?.moved && (
+                  <svg className="absolute inset-0 h-full w-full overflow-visible pointer-events-none">
+                    <line
+                      x1={connection.from.x}
+                      y1={connection.from.y}
+                      x2={connection.to.x}
+                      y2={connection.to.y}
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      strokeDasharray="6 4"
+                    />
+                  </svg>
+                )}
+              </motion.div>
+            )}
+
+            {!comparison && !svgOutput && isValid && !isRendering && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <div className="text-center p-6 text-muted-foreground">
+                  <p>Start typing to see your diagram</p>
+                </div>
+              </div>
+            )}
+
+            {/* Inline Edit Overlay */}
+            {editState.isEditing && (
+              <div
+                className="absolute z-50"
+                style={{
+                  left: editState.position.x,
+                  top: editState.position.y,
+                  transform: 'translate(-50%, -50%)'
+                }}
+              >
+                <div className="bg-popover border border-border rounded-lg shadow-lg p-2 flex gap-2 items-center">
+                  <Input
+                    ref={inputRef}
+                    value={editState.newText}
+                    onChange={(e) => setEditState(prev => ({ ...prev, newText: e.target.value }))}
+                    onKeyDown={handleEditKeyDown}
+                    onBlur={handleEditSubmit}
+                    className="h-8 w-40 text-sm"
+                    placeholder="Enter new name..."
+                  />
+                  <Button size="sm" className="h-8" onClick={handleEditSubmit}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
+        </ContextMenuTrigger>
+        {canEditCanvas && contextNodeId && (
+          <NodeContextMenuContent
+            onAddNode={() => canvasEdit.onAddNode(contextNodeId)}
+            onChangeShape={(shape) => canvasEdit.onChangeShape(contextNodeId, shape)}
+            onDelete={() => {
+              canvasEdit.onDelete([contextNodeId]);
+              setSelectedIds([]);
+            }}
+          />
         )}
-      </div>
+      </ContextMenu>
     </div>
   );
 };
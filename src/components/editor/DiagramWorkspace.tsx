@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SidebarProvider } from '@/components/ui/sidebar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { ImportedDiagram } from '@/hooks/useFileImport';
+import { toast } from '@/hooks/use-toast';
+import { DocumentHistory } from '@/lib/diagramRepository';
+import { replaceMermaidBlocks } from '@/lib/markdownImport';
+import { downloadBlob } from '@/lib/mermaidFileUtils';
+import { DiagramDocument, DiagramDocumentContent, ImportReport, SharedDiagram } from '@/types/diagram';
+import { FlowEditor } from './FlowEditor';
+import { ImportReportDialog } from './ImportReportDialog';
+import { WorkspaceSidebar } from './WorkspaceSidebar';
+
+interface DiagramWorkspaceProps {
+  /** Diagram from a share link to open as a new document once the workspace has loaded */
+  sharedDiagram?: SharedDiagram | null;
+  onSharedDiagramOpened?: () => void;
+}
+
+export const DiagramWorkspace = ({ sharedDiagram, onSharedDiagramOpened }: DiagramWorkspaceProps) => {
+  const {
+    isLoading,
+    documents,
+    activeId,
+    activeDocument,
+    selectDocument,
+    addDocument,
+    openDocuments,
+    duplicateDocument,
+    updateDocument,
+    renameDocument,
+    deleteDocument,
+    loadHistory,
+    saveHistory,
+  } = useWorkspace();
+
+  // Undo history of the active document, loaded before its editor mounts
+  const [loadedHistory, setLoadedHistory] = useState<{ id: string; history?: DocumentHistory } | null>(null);
+
+  useEffect(() => {
+    if (!activeId) return;
+    let cancelled = false;
+
+    loadHistory(activeId).then((history) => {
+      if (!cancelled) {
+        setLoadedHistory({ id: activeId, history });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeId, loadHistory]);
+
+  const handleDocumentChange = useCallback((changes: Partial<DiagramDocumentContent & Pick<DiagramDocument, 'createdAt'>>) => {
+    updateDocument(activeId, changes);
+  }, [activeId, updateDocument]);
+
+  const handleHistoryChange = useCallback((history: DocumentHistory) => {
+    saveHistory(activeId, history);
+  }, [activeId, saveHistory]);
+
+  // Files dropped together open as separate diagrams; their report outlives the editor switch
+  const [importReports, setImportReports] = useState<ImportReport[]>([]);
+
+  const handleOpenDiagrams = useCallback((diagrams: ImportedDiagram[]) => {
+    openDocuments(diagrams.map(diagram => ({
+      code: diagram.code,
+      diagramType: diagram.diagramType,
+      theme: diagram.theme,
+      projectTitle: diagram.title || diagram.fileName.replace(/\.[^.]+$/, ''),
+      createdAt: diagram.createdAt,
+      markdownSource: diagram.markdownSource,
+    })));
+    setImportReports(diagrams
+      .filter(diagram => diagram.warnings?.length)
+      .map(diagram => ({ fileName: diagram.fileName, warnings: diagram.warnings })));
+  }, [openDocuments]);
+
+  // A shared diagram the user chose to edit joins the saved ones rather than replacing any
+  useEffect(() => {
+    if (isLoading || !sharedDiagram) return;
+    openDocuments([{
+      code: sharedDiagram.code,
+      diagramType: sharedDiagram.diagramType,
+      theme: sharedDiagram.theme,
+      projectTitle: sharedDiagram.title,
+    }]);
+    onSharedDiagramOpened?.();
+  }, [isLoading, sharedDiagram, openDocuments, onSharedDiagramOpened]);
+
+  // Every diagram opened from the active document's Markdown file goes back into its block
+  const markdownSource = activeDocument?.markdownSource;
+  const handleExportMarkdown = useCallback(() => {
+    if (!markdownSource) return;
+    const edited = documents.filter(doc => doc.markdownSource?.id === markdownSource.id);
+    const markdown = replaceMermaidBlocks(
+      markdownSource.markdown,
+      new Map(edited.map(doc => [doc.markdownSource.blockIndex, doc.code]))
+    );
+
+    downloadBlob(new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), markdownSource.fileName);
+    toast({
+      title: 'Export successful',
+      description: `Wrote ${edited.length} ${edited.length === 1 ? 'diagram' : 'diagrams'} back into "${markdownSource.fileName}".`,
+    });
+  }, [documents, markdownSource]);
+
+  if (isLoading) {
+    return (
+      <div className="h-screen flex flex-col gap-3 p-4 bg-background">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="flex-1 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <WorkspaceSidebar
+        documents={documents}
+        activeId={activeId}
+        onSelect={selectDocument}
+        onCreate={() => addDocument()}
+        onDuplicate={duplicateDocument}
+        onRename={renameDocument}
+        onDelete={deleteDocument}
+      />
+      <div className="flex-1 min-w-0">
+        {loadedHistory?.id === activeId ? (
+          // Remount the editor per document so history and render state start fresh
+          <FlowEditor
+            key={activeId}
+            diagram={activeDocument}
+            history={loadedHistory.history}
+            onDocumentChange={handleDocumentChange}
+            onHistoryChange={handleHistoryChange}
+            onOpenDiagrams={handleOpenDiagrams}
+            onExportMarkdown={markdownSource ? handleExportMarkdown : undefined}
+          />
+        ) : (
+          <Skeleton className="h-screen w-full rounded-none" />
+        )}
+      </div>
+      <ImportReportDialog reports={importReports} onClose={() => setImportReports([])} />
+    </SidebarProvider>
+  );
+};
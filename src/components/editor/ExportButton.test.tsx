@@ -8,6 +8,12 @@ vi.mock('@/hooks/use-toast', () => ({
     toast: (props: unknown) => mockToast(props),
 }));
 
+const mockCopyDiagram = vi.fn();
+vi.mock('@/lib/clipboard', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@/lib/clipboard')>(),
+    copyDiagram: (...args: unknown[]) => mockCopyDiagram(...args),
+}));
+
 describe('ExportButton', () => {
     beforeEach(() => {
         vi.clearAllMocks();
@@ -68,4 +74,32 @@ describe('ExportButton', () => {
             expect(button).toBeDisabled();
         });
     });
+
+    describe('clipboard', () => {
+        it('should copy the diagram as PNG with Shift+Alt+C', async () => {
+            mockCopyDiagram.mockResolvedValue(undefined);
+            render(<ExportButton svgOutput="<svg></svg>" isValid={true} code="graph TD" diagramType="flowchart" />);
+
+            fireEvent.keyDown(document.body, { key: 'Ç', code: 'KeyC', altKey: true, shiftKey: true });
+
+            await waitFor(() => {
+                expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Copied to clipboard' }));
+            });
+            expect(mockCopyDiagram).toHaveBeenCalledWith('png', expect.objectContaining({ svg: '<svg></svg>', code: 'graph TD' }));
+        });
+
+        it('should report clipboard failures', async () => {
+            mockCopyDiagram.mockRejectedValue(new Error('Copying images is not supported in this browser.'));
+            render(<ExportButton svgOutput="<svg></svg>" isValid={true} code="graph TD" diagramType="flowchart" />);
+
+            fireEvent.keyDown(document.body, { code: 'KeyC', altKey: true, shiftKey: true });
+
+            await waitFor(() => {
+                expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({
+                    title: 'Copy failed',
+                    description: 'Copying images is not supported in this browser.',
+                }));
+            });
+        });
+    });
 });
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Download, ChevronDown, Image, FileCode, FileImage, FileText, Database } from 'lucide-react';
+import { Download, ChevronDown, Image, FileCode, FileImage, FileText, Database, FileType, Copy, Globe, Network, FileDown, Link2, Code } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -7,230 +7,103 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
   DropdownMenuSeparator,
+  DropdownMenuShortcut,
 } from '@/components/ui/dropdown-menu';
 import { toast } from '@/hooks/use-toast';
-import { MermaidTheme, DiagramType } from '@/types/diagram';
-import { exportAsMermaid, exportAsProject, generateFilename } from '@/lib/mermaidFileUtils';
+import { useExportOptions } from '@/hooks/useExportOptions';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { MermaidTheme, DiagramType, ExportOptions, CustomTheme } from '@/types/diagram';
+import { downloadBlob, exportAsMermaid, exportAsProject, generateFilename } from '@/lib/mermaidFileUtils';
+import { exportRaster, getSvgDimensions, prepareSvgForExport } from '@/lib/svgExport';
+import { COPY_FORMAT_LABELS, CopyFormat, copyDiagram, copyText } from '@/lib/clipboard';
+import { createEmbedCode, createEmbedUrl, createShareUrl } from '@/lib/shareLink';
+import { createHtmlDocument } from '@/lib/htmlExport';
+import { createDrawioXml, isDrawioDiagramType } from '@/lib/drawioExport';
+import { parseDiagram } from '@/lib/mermaidParser';
+import { DEFAULT_PDF_OPTIONS, PdfExportOptions, createPdf } from '@/lib/pdfExport';
+import { ExportDialog } from './ExportDialog';
+import { PdfExportDialog } from './PdfExportDialog';
 
 interface ExportButtonProps {
   svgOutput: string;
   isValid: boolean;
   theme?: MermaidTheme;
+  /** Saved in project files along with the theme */
+  customTheme?: CustomTheme;
   code: string;
   diagramType: DiagramType;
   projectTitle?: string;
+  /** Workspace document the export settings are remembered for */
+  diagramId?: string;
+  /** When the diagram was first created, kept in exported project files */
+  createdAt?: string;
+  /** Markdown file the diagram was imported from, which can be written back */
+  markdownFileName?: string;
+  onExportMarkdown?: () => void;
 }
 
-// Theme background colors
-const themeBackgrounds: Record<MermaidTheme, string> = {
-  default: '#ffffff',
-  dark: '#0f172a', // slate-900
-  forest: '#ecfdf5', // emerald-50
-  neutral: '#f5f5f5', // neutral-100
-};
-
-export const ExportButton = ({ svgOutput, isValid, theme = 'default', code, diagramType, projectTitle }: ExportButtonProps) => {
+export const ExportButton = ({
+  svgOutput,
+  isValid,
+  theme = 'default',
+  customTheme,
+  code,
+  diagramType,
+  projectTitle,
+  diagramId,
+  createdAt,
+  markdownFileName,
+  onExportMarkdown,
+}: ExportButtonProps) => {
   const [isExporting, setIsExporting] = useState(false);
-
-  const bgColor = themeBackgrounds[theme] || themeBackgrounds.default;
-
-  /**
-   * Prepare SVG for export by ensuring proper attributes
-   * For SVG export, we add a background rect matching the theme
-   */
-  const prepareSvgForExport = (svg: string, includeBg: boolean = true): string => {
-    // Parse SVG to add necessary attributes
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(svg, 'image/svg+xml');
-    const svgElement = doc.querySelector('svg');
-
-    if (svgElement) {
-      // Ensure xmlns is set
-      if (!svgElement.hasAttribute('xmlns')) {
-        svgElement.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
-      }
-
-      // Add background rect at the start if requested
-      if (includeBg) {
-        const existingBg = svgElement.querySelector('rect.export-bg');
-        if (!existingBg) {
-          const bgRect = doc.createElementNS('http://www.w3.org/2000/svg', 'rect');
-          bgRect.setAttribute('class', 'export-bg');
-          bgRect.setAttribute('width', '100%');
-          bgRect.setAttribute('height', '100%');
-          bgRect.setAttribute('fill', bgColor);
-          svgElement.insertBefore(bgRect, svgElement.firstChild);
-        } else {
-          // Update existing bg color
-          existingBg.setAttribute('fill', bgColor);
-        }
-      }
-
-      return new XMLSerializer().serializeToString(svgElement);
-    }
-
-    return svg;
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isPdfDialogOpen, setIsPdfDialogOpen] = useState(false);
+  const [pdfOptions, setPdfOptions] = useState<PdfExportOptions>(DEFAULT_PDF_OPTIONS);
+  const { options, setOptions, saveOptions } = useExportOptions(diagramId);
+
+  const openExportDialog = (format: ExportOptions['format']) => {
+    setOptions({ ...options, format });
+    setIsExportDialogOpen(true);
   };
 
   /**
-   * Export as SVG - direct blob download with theme background
+   * Export as SVG, PNG or JPG with the dialog's size, padding and background
    */
-  const exportSvg = (): void => {
-    const preparedSvg = prepareSvgForExport(svgOutput, true);
-    const blob = new Blob([preparedSvg], { type: 'image/svg+xml;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-
-    const link = document.createElement('a');
-    link.download = `${generateFilename(diagramType, projectTitle)}.svg`;
-    link.href = url;
-    link.click();
-
-    URL.revokeObjectURL(url);
+  const exportImage = async (): Promise<void> => {
+    const blob = options.format === 'svg'
+      ? new Blob([prepareSvgForExport(svgOutput, options, theme, customTheme)], { type: 'image/svg+xml;charset=utf-8' })
+      : await exportRaster(svgOutput, options, theme, customTheme);
+    downloadBlob(blob, `${generateFilename(diagramType, projectTitle)}.${options.format}`);
   };
 
   /**
-   * Get SVG dimensions from viewBox or width/height attributes
+   * Export as PDF - vector drawing of the padded SVG, using the image export background
    */
-  const getSvgDimensions = (svg: string): { width: number; height: number } => {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(svg, 'image/svg+xml');
-    const svgElement = doc.querySelector('svg');
-
-    if (svgElement) {
-      const viewBox = svgElement.getAttribute('viewBox');
-      if (viewBox) {
-        const parts = viewBox.split(/[\s,]+/).map(Number);
-        if (parts.length === 4) {
-          // viewBox format: minX minY width height
-          return { width: parts[2], height: parts[3] };
-        }
-      }
-
-      // Fallback to width/height attributes
-      const width = parseFloat(svgElement.getAttribute('width') || '800');
-      const height = parseFloat(svgElement.getAttribute('height') || '600');
-      return { width, height };
-    }
-
-    return { width: 800, height: 600 };
+  const exportPdf = async (): Promise<void> => {
+    const preparedSvg = prepareSvgForExport(svgOutput, options, theme, customTheme);
+    const blob = await createPdf(preparedSvg, getSvgDimensions(preparedSvg), pdfOptions, projectTitle || 'Untitled Project');
+    downloadBlob(blob, `${generateFilename(diagramType, projectTitle)}.pdf`);
   };
 
   /**
-   * Prepare SVG for raster export - set explicit dimensions from viewBox
+   * Export as a standalone HTML page with a pan/zoom viewer and the Mermaid source
    */
-  const prepareSvgForRasterExport = (svg: string): string => {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(svg, 'image/svg+xml');
-    const svgElement = doc.querySelector('svg');
-
-    if (svgElement) {
-      // Ensure xmlns is set
-      if (!svgElement.hasAttribute('xmlns')) {
-        svgElement.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
-      }
-
-      // Parse viewBox to get real dimensions
-      const viewBox = svgElement.getAttribute('viewBox');
-      if (viewBox) {
-        const parts = viewBox.split(/[\s,]+/).map(Number);
-        if (parts.length === 4) {
-          const [minX, minY, vbWidth, vbHeight] = parts;
-          // Add padding
-          const padding = 40;
-          const newWidth = vbWidth + padding * 2;
-          const newHeight = vbHeight + padding * 2;
-
-          // Update viewBox to include padding
-          svgElement.setAttribute('viewBox', `${minX - padding} ${minY - padding} ${newWidth} ${newHeight}`);
-          // Set explicit pixel dimensions for Image loading
-          svgElement.setAttribute('width', String(newWidth));
-          svgElement.setAttribute('height', String(newHeight));
-        }
-      }
-
-      // Add background rect with theme color
-      const existingBg = svgElement.querySelector('rect.export-bg');
-      if (!existingBg) {
-        const bgRect = doc.createElementNS('http://www.w3.org/2000/svg', 'rect');
-        bgRect.setAttribute('class', 'export-bg');
-        bgRect.setAttribute('x', svgElement.getAttribute('viewBox')?.split(/[\s,]+/)[0] || '0');
-        bgRect.setAttribute('y', svgElement.getAttribute('viewBox')?.split(/[\s,]+/)[1] || '0');
-        bgRect.setAttribute('width', '100%');
-        bgRect.setAttribute('height', '100%');
-        bgRect.setAttribute('fill', bgColor);
-        svgElement.insertBefore(bgRect, svgElement.firstChild);
-      } else {
-        existingBg.setAttribute('fill', bgColor);
-      }
-
-      return new XMLSerializer().serializeToString(svgElement);
-    }
-
-    return svg;
+  const exportHtml = (): void => {
+    const html = createHtmlDocument({ svg: svgOutput, code, title: projectTitle || 'Untitled Project', theme, customTheme });
+    downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `${generateFilename(diagramType, projectTitle)}.html`);
   };
 
   /**
-   * Export as PNG or JPG using Canvas with theme background
+   * Export as an editable draw.io file, laid out like the current render
    */
-  const exportRaster = (format: 'png' | 'jpg'): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      // Prepare SVG with explicit dimensions from viewBox
-      const preparedSvg = prepareSvgForRasterExport(svgOutput);
-      const dimensions = getSvgDimensions(preparedSvg);
-
-      const blob = new Blob([preparedSvg], { type: 'image/svg+xml;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-
-      const img = new window.Image();
-      img.onload = () => {
-        // Create canvas with viewBox dimensions (not CSS dimensions)
-        const scale = 3;
-        const width = dimensions.width || img.width;
-        const height = dimensions.height || img.height;
-
-        const canvas = document.createElement('canvas');
-        canvas.width = width * scale;
-        canvas.height = height * scale;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error('Could not get canvas context'));
-          return;
-        }
-
-        // Theme background (already in SVG, but fill canvas too for safety)
-        ctx.fillStyle = bgColor;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-        // Scale and draw SVG
-        ctx.scale(scale, scale);
-        ctx.drawImage(img, 0, 0, width, height);
-
-        // Convert to data URL
-        const mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
-        const quality = format === 'png' ? 1 : 0.95;
-        const dataUrl = canvas.toDataURL(mimeType, quality);
-
-        const link = document.createElement('a');
-        link.download = `${generateFilename(diagramType, projectTitle)}.${format}`;
-        link.href = dataUrl;
-        link.href = dataUrl;
-        link.click();
-
-        URL.revokeObjectURL(url);
-        resolve();
-      };
-
-      img.onerror = () => {
-        URL.revokeObjectURL(url);
-        reject(new Error('Failed to load SVG for export'));
-      };
-
-      img.src = url;
-    });
+  const exportDrawio = (): void => {
+    const ast = parseDiagram(code);
+    if (!ast) throw new Error('Could not read the diagram structure.');
+    const xml = createDrawioXml(ast, svgOutput, projectTitle || 'Untitled Project');
+    downloadBlob(new Blob([xml], { type: 'application/xml;charset=utf-8' }), `${generateFilename(diagramType, projectTitle)}.drawio`);
   };
 
-  const handleExport = async (format: 'svg' | 'png' | 'jpg') => {
+  const handleExport = async (format: ExportOptions['format'] | 'pdf' | 'html' | 'drawio') => {
     if (!svgOutput || !isValid) {
       toast({
         title: 'Cannot export',
@@ -243,14 +116,17 @@ export const ExportButton = ({ svgOutput, isValid, theme = 'default', code, diag
     setIsExporting(true);
 
     try {
-      switch (format) {
-        case 'svg':
-          exportSvg();
-          break;
-        case 'png':
-        case 'jpg':
-          await exportRaster(format);
-          break;
+      if (format === 'pdf') {
+        await exportPdf();
+        setIsPdfDialogOpen(false);
+      } else if (format === 'html') {
+        exportHtml();
+      } else if (format === 'drawio') {
+        exportDrawio();
+      } else {
+        await exportImage();
+        setIsExportDialogOpen(false);
+        saveOptions(options);
       }
 
       toast({
@@ -269,6 +145,67 @@ export const ExportButton = ({ svgOutput, isValid, theme = 'default', code, diag
     }
   };
 
+  /**
+   * Copy the rendered diagram or its code, using the remembered export settings for images
+   */
+  const handleCopy = async (format: CopyFormat) => {
+    const isImage = format === 'png' || format === 'svg';
+    if (isImage ? !svgOutput || !isValid : !code) {
+      toast({
+        title: 'Cannot copy',
+        description: isImage ? 'Please fix any errors before copying.' : 'No diagram code to copy.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await copyDiagram(format, { svg: svgOutput, code, theme, customTheme, options });
+      toast({
+        title: 'Copied to clipboard',
+        description: `Your diagram has been copied as ${COPY_FORMAT_LABELS[format]}.`,
+      });
+    } catch (error) {
+      console.error('Copy error:', error);
+      toast({
+        title: 'Copy failed',
+        description: error instanceof Error ? error.message : 'There was an error copying your diagram.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  useKeyboardShortcuts({ copyImage: () => handleCopy('png') });
+
+  /**
+   * Copy a link to the view-only page, or an iframe snippet for the embed route using the
+   * remembered export background
+   */
+  const handleCopyLink = async (kind: 'link' | 'embed') => {
+    const diagram = { code, diagramType, theme, title: projectTitle || undefined };
+    try {
+      if (kind === 'link') {
+        await copyText(await createShareUrl(diagram));
+      } else {
+        const url = await createEmbedUrl(diagram, { background: options.background, customBackground: options.customBackground });
+        await copyText(createEmbedCode(url, projectTitle || 'Untitled Project'));
+      }
+      toast({
+        title: kind === 'link' ? 'Link copied' : 'Embed code copied',
+        description: kind === 'link'
+          ? 'Anyone with the link can view this diagram.'
+          : 'Paste the iframe snippet into any page that allows embeds.',
+      });
+    } catch (error) {
+      console.error('Share link error:', error);
+      toast({
+        title: 'Could not create link',
+        description: error instanceof Error ? error.message : 'There was an error creating the link.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   /**
    * Handle code export (Mermaid syntax or project file)
    */
@@ -288,7 +225,7 @@ export const ExportButton = ({ svgOutput, isValid, theme = 'default', code, diag
       if (format === 'mmd') {
         exportAsMermaid(code, filename);
       } else {
-        exportAsProject(code, diagramType, theme, filename);
+        exportAsProject(code, diagramType, theme, filename, { title: projectTitle || undefined, createdAt, customTheme });
       }
 
       toast({
@@ -307,42 +244,104 @@ export const ExportButton = ({ svgOutput, isValid, theme = 'default', code, diag
 
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button
-          variant="default"
-          size="sm"
-          disabled={!isValid || !svgOutput || isExporting}
-          className="gap-2"
-        >
-          <Download className="h-4 w-4" />
-          Export
-          <ChevronDown className="h-3 w-3" />
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="bg-popover border-border">
-        <DropdownMenuItem onClick={() => handleExport('svg')} className="cursor-pointer gap-2">
-          <FileCode className="h-4 w-4" />
-          <span>SVG (Vector)</span>
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => handleExport('png')} className="cursor-pointer gap-2">
-          <Image className="h-4 w-4" />
-          <span>PNG (High Quality)</span>
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => handleExport('jpg')} className="cursor-pointer gap-2">
-          <FileImage className="h-4 w-4" />
-          <span>JPG</span>
-        </DropdownMenuItem>
-        <DropdownMenuSeparator />
-        <DropdownMenuItem onClick={() => handleCodeExport('mmd')} className="cursor-pointer gap-2">
-          <FileText className="h-4 w-4" />
-          <span>Mermaid Code (.mmd)</span>
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => handleCodeExport('flowilham')} className="cursor-pointer gap-2">
-          <Database className="h-4 w-4" />
-          <span>Project File (.flowilham)</span>
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="default"
+            size="sm"
+            disabled={!isValid || !svgOutput || isExporting}
+            className="gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Export
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="bg-popover border-border">
+          <DropdownMenuItem onClick={() => openExportDialog('svg')} className="cursor-pointer gap-2">
+            <FileCode className="h-4 w-4" />
+            <span>SVG (Vector)...</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openExportDialog('png')} className="cursor-pointer gap-2">
+            <Image className="h-4 w-4" />
+            <span>PNG (High Quality)...</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openExportDialog('jpg')} className="cursor-pointer gap-2">
+            <FileImage className="h-4 w-4" />
+            <span>JPG...</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setIsPdfDialogOpen(true)} className="cursor-pointer gap-2">
+            <FileType className="h-4 w-4" />
+            <span>PDF Document...</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('html')} className="cursor-pointer gap-2">
+            <Globe className="h-4 w-4" />
+            <span>Interactive HTML (.html)</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => handleExport('drawio')}
+            disabled={!isDrawioDiagramType(diagramType)}
+            className="cursor-pointer gap-2"
+          >
+            <Network className="h-4 w-4" />
+            <span>draw.io Diagram (.drawio)</span>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => handleCodeExport('mmd')} className="cursor-pointer gap-2">
+            <FileText className="h-4 w-4" />
+            <span>Mermaid Code (.mmd)</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleCodeExport('flowilham')} className="cursor-pointer gap-2">
+            <Database className="h-4 w-4" />
+            <span>Project File (.flowilham)</span>
+          </DropdownMenuItem>
+          {markdownFileName && onExportMarkdown && (
+            <DropdownMenuItem onClick={onExportMarkdown} className="cursor-pointer gap-2">
+              <FileDown className="h-4 w-4" />
+              <span>Updated Markdown ({markdownFileName})</span>
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          {(Object.keys(COPY_FORMAT_LABELS) as CopyFormat[]).map(format => (
+            <DropdownMenuItem key={format} onClick={() => handleCopy(format)} className="cursor-pointer gap-2">
+              <Copy className="h-4 w-4" />
+              <span>Copy {COPY_FORMAT_LABELS[format]}</span>
+              {format === 'png' && <DropdownMenuShortcut>⇧⌥C</DropdownMenuShortcut>}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => handleCopyLink('link')} className="cursor-pointer gap-2">
+            <Link2 className="h-4 w-4" />
+            <span>Copy share link</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleCopyLink('embed')} className="cursor-pointer gap-2">
+            <Code className="h-4 w-4" />
+            <span>Copy embed code</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ExportDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        svgOutput={svgOutput}
+        theme={theme}
+        customTheme={customTheme}
+        options={options}
+        onOptionsChange={setOptions}
+        onExport={() => handleExport(options.format)}
+        isExporting={isExporting}
+      />
+
+      <PdfExportDialog
+        open={isPdfDialogOpen}
+        onOpenChange={setIsPdfDialogOpen}
+        options={pdfOptions}
+        onOptionsChange={setPdfOptions}
+        onExport={() => handleExport('pdf')}
+        isExporting={isExporting}
+      />
+    </>
   );
 };
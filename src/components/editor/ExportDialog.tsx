@@ -0,0 +1,240 @@
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { CustomTheme, ExportBackground, ExportOptions, MermaidTheme } from '@/types/diagram';
+import { getRasterSize, getSvgDimensions, prepareSvgForExport } from '@/lib/svgExport';
+
+const FORMAT_LABELS: Record<ExportOptions['format'], string> = {
+  svg: 'SVG (Vector)',
+  png: 'PNG',
+  jpg: 'JPG',
+};
+
+const BACKGROUND_LABELS: Record<ExportBackground, string> = {
+  theme: 'Theme',
+  transparent: 'Transparent',
+  white: 'White',
+  dark: 'Dark',
+  custom: 'Custom',
+};
+
+const SCALES = [1, 2, 3, 4];
+
+// Shows through transparent exports
+const CHECKERBOARD = 'repeating-conic-gradient(#e5e7eb 0% 25%, #ffffff 0% 50%) 50% / 16px 16px';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  svgOutput: string;
+  theme: MermaidTheme;
+  /** Its background replaces the theme's */
+  customTheme?: CustomTheme;
+  options: ExportOptions;
+  onOptionsChange: (options: ExportOptions) => void;
+  onExport: () => void;
+  isExporting: boolean;
+}
+
+/**
+ * Image export settings with a live preview of the result
+ */
+export const ExportDialog = ({
+  open,
+  onOpenChange,
+  svgOutput,
+  theme,
+  customTheme,
+  options,
+  onOptionsChange,
+  onExport,
+  isExporting,
+}: ExportDialogProps) => {
+  const update = (changes: Partial<ExportOptions>) => onOptionsChange({ ...options, ...changes });
+  const isRaster = options.format !== 'svg';
+
+  const preparedSvg = useMemo(
+    () => (open && svgOutput ? prepareSvgForExport(svgOutput, options, theme, customTheme) : ''),
+    [open, svgOutput, options, theme, customTheme]
+  );
+  const dimensions = useMemo(() => getSvgDimensions(preparedSvg), [preparedSvg]);
+  const outputSize = isRaster ? getRasterSize(dimensions, options) : dimensions;
+  const previewUrl = preparedSvg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(preparedSvg)}` : '';
+  const isTransparent = options.background === 'transparent';
+  // JPEG exports fill transparency with white
+  const previewBackground = isTransparent ? (options.format === 'jpg' ? '#ffffff' : CHECKERBOARD) : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Export image</DialogTitle>
+          <DialogDescription>
+            Settings are remembered for this diagram.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)]">
+          {/* Live preview */}
+          <div className="flex flex-col gap-2">
+            <div
+              className="flex h-72 items-center justify-center overflow-hidden rounded-md border border-border p-2"
+              style={{ background: previewBackground }}
+            >
+              {previewUrl && (
+                <img src={previewUrl} alt="Export preview" className="max-h-full max-w-full object-contain" />
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground font-mono text-center" data-testid="export-size">
+              {Math.round(outputSize.width)} × {Math.round(outputSize.height)} {isRaster ? 'px' : 'units'}
+            </p>
+          </div>
+
+          <div className="grid content-start gap-4">
+            <div className="grid gap-1.5">
+              <Label htmlFor="export-format">Format</Label>
+              <Select value={options.format} onValueChange={(value) => update({ format: value as ExportOptions['format'] })}>
+                <SelectTrigger id="export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FORMAT_LABELS) as ExportOptions['format'][]).map(format => (
+                    <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isRaster && (
+              <div className="grid gap-2">
+                <Label>Size</Label>
+                <RadioGroup
+                  value={options.width ? 'width' : 'scale'}
+                  onValueChange={(mode) => update({
+                    width: mode === 'width' ? getRasterSize(dimensions, { ...options, width: undefined }).width : undefined,
+                  })}
+                  className="gap-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="scale" id="export-size-scale" />
+                    <Label htmlFor="export-size-scale" className="w-12 font-normal">Scale</Label>
+                    <Select
+                      value={String(options.scale)}
+                      onValueChange={(value) => update({ scale: Number(value), width: undefined })}
+                    >
+                      <SelectTrigger className="h-8 flex-1" aria-label="Scale" disabled={Boolean(options.width)}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SCALES.map(scale => (
+                          <SelectItem key={scale} value={String(scale)}>{scale}x</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="width" id="export-size-width" />
+                    <Label htmlFor="export-size-width" className="w-12 font-normal">Width</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="h-8 flex-1"
+                      aria-label="Width in pixels"
+                      disabled={!options.width}
+                      value={options.width ?? ''}
+                      onChange={(e) => {
+                        const width = Math.round(Number(e.target.value));
+                        if (width > 0) update({ width });
+                      }}
+                    />
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="export-padding">Padding</Label>
+                <span className="text-xs text-muted-foreground font-mono">{options.padding}</span>
+              </div>
+              <Slider
+                id="export-padding"
+                min={0}
+                max={200}
+                step={4}
+                value={[options.padding]}
+                onValueChange={([padding]) => update({ padding })}
+              />
+            </div>
+
+            <div className="grid gap-1.5">
+              <Label htmlFor="export-background">Background</Label>
+              <div className="flex items-center gap-2">
+                <Select value={options.background} onValueChange={(value) => update({ background: value as ExportBackground })}>
+                  <SelectTrigger id="export-background" className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BACKGROUND_LABELS) as ExportBackground[]).map(background => (
+                      <SelectItem key={background} value={background}>{BACKGROUND_LABELS[background]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {options.background === 'custom' && (
+                  <input
+                    type="color"
+                    aria-label="Custom background color"
+                    className="h-9 w-10 cursor-pointer rounded border border-border bg-transparent"
+                    value={options.customBackground}
+                    onChange={(e) => update({ customBackground: e.target.value })}
+                  />
+                )}
+              </div>
+              {isTransparent && options.format === 'jpg' && (
+                <p className="text-xs text-muted-foreground">JPG has no transparency; white is used instead.</p>
+              )}
+            </div>
+
+            {options.format === 'jpg' && (
+              <div className="grid gap-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="export-quality">JPEG quality</Label>
+                  <span className="text-xs text-muted-foreground font-mono">{Math.round(options.quality * 100)}%</span>
+                </div>
+                <Slider
+                  id="export-quality"
+                  min={10}
+                  max={100}
+                  step={5}
+                  value={[Math.round(options.quality * 100)]}
+                  onValueChange={([quality]) => update({ quality: quality / 100 })}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={onExport} disabled={isExporting}>
+            {isExporting ? 'Exporting...' : `Export ${options.format.toUpperCase()}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
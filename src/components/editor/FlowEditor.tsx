@@ -1,31 +1,69 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { useDiagramEditor } from '@/hooks/useDiagramEditor';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { ImportedDiagram, useFileImport, useImportDropZone } from '@/hooks/useFileImport';
+import { useDiagramVersions, useVersionPreview } from '@/hooks/useDiagramVersions';
+import { useRenderSettings } from '@/hooks/useRenderSettings';
 import { Toolbar } from './Toolbar';
-import { CodeEditor } from './CodeEditor';
-import { DiagramPreview } from './DiagramPreview';
+import { CodeEditor, CodeEditorControls, CursorPosition } from './CodeEditor';
+import { CanvasEditHandlers, DiagramPreview, PreviewComparison } from './DiagramPreview';
+import { CURRENT_VERSION_ID } from './VersionsPanel';
 import { StatusBar } from './StatusBar';
+import { ImportReportDialog } from './ImportReportDialog';
+import { MarkdownImportDialog } from './MarkdownImportDialog';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
-import { Code2, Eye, GripVertical } from 'lucide-react';
+import { Code2, Eye, GripVertical, Upload } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { DiagramType, MermaidTheme } from '@/types/diagram';
+import { ImportedFile } from '@/lib/mermaidFileUtils';
+import { RenameTarget, renameInCode } from '@/lib/mermaidRename';
+import { addConnectedNode, addEdge, deleteNodes, setNodeShape } from '@/lib/flowchartEdits';
+import { offsetAt, positionAt } from '@/lib/mermaidAst';
+import { parseDiagram } from '@/lib/mermaidParser';
+import { DiagramElementRef, findElementAtOffset, getElementRange } from '@/lib/sourceSync';
+import { toast } from '@/hooks/use-toast';
+import { DiagramDocument, DiagramDocumentContent, DiagramVersion } from '@/types/diagram';
+import { DocumentHistory } from '@/lib/diagramRepository';
 
 type ViewMode = 'split' | 'code' | 'preview';
 
-export const FlowEditor = () => {
+interface FlowEditorProps {
+  diagram?: DiagramDocument;
+  onDocumentChange?: (changes: Partial<DiagramDocumentContent & Pick<DiagramDocument, 'createdAt'>>) => void;
+  history?: DocumentHistory;
+  onHistoryChange?: (history: DocumentHistory) => void;
+  /** Open several dropped files, or diagrams picked from Markdown, as documents of their own */
+  onOpenDiagrams?: (diagrams: ImportedDiagram[]) => void;
+  /** Download the Markdown file this diagram came from, with edited diagrams written back */
+  onExportMarkdown?: () => void;
+}
+
+export const FlowEditor = ({
+  diagram,
+  onDocumentChange,
+  history: initialHistory,
+  onHistoryChange,
+  onOpenDiagrams,
+  onExportMarkdown,
+}: FlowEditorProps) => {
+  const { settings: renderSettings, updateSettings: updateRenderSettings } = useRenderSettings();
   const {
     code,
     diagramType,
     theme,
+    customTheme,
     projectTitle,
     isValid,
     error,
+    diagnostic,
     svgOutput,
     isRendering,
+    renderDuration,
     setCode,
+    replaceCode,
     setDiagramType,
     setTheme,
+    setCustomTheme,
     setProjectTitle,
     resetToTemplate,
     undo,
@@ -33,14 +71,98 @@ export const FlowEditor = () => {
     canUndo,
     canRedo,
     importProject,
-  } = useDiagramEditor();
+    history,
+    restoreSnapshot,
+  } = useDiagramEditor({
+    initialDocument: diagram,
+    onPersist: onDocumentChange,
+    initialHistory,
+    onHistoryChange,
+    renderSettings,
+  });
+
+  // Pick up renames made from the workspace sidebar
+  const externalTitle = diagram?.projectTitle;
+  useEffect(() => {
+    if (externalTitle !== undefined) {
+      setProjectTitle(externalTitle);
+    }
+  }, [externalTitle, setProjectTitle]);
 
   const [viewMode, setViewMode] = useState<ViewMode>('split');
+
+  // Named versions and the pair currently compared in the preview
+  const { isAvailable: hasVersions, versions, saveVersion, deleteVersion } = useDiagramVersions(diagram?.id);
+  const [comparedIds, setComparedIds] = useState<{ baseId: string; targetId: string } | null>(null);
+  const baseVersion = versions.find(version => version.id === comparedIds?.baseId);
+  const targetVersion = versions.find(version => version.id === comparedIds?.targetId);
+  const basePreview = useVersionPreview(baseVersion);
+  const targetPreview = useVersionPreview(targetVersion);
+
+  const comparison = useMemo<PreviewComparison | null>(() => {
+    if (!comparedIds) return null;
+
+    const sideOf = (id: string, version?: DiagramVersion, preview?: ReturnType<typeof useVersionPreview>) =>
+      id === CURRENT_VERSION_ID
+        ? { label: 'Current', svg: isValid ? svgOutput : null, error: isValid ? null : 'Fix syntax errors to compare' }
+        : { label: version?.name || 'Deleted version', svg: preview?.svg ?? null, error: version ? preview?.error : 'Version no longer exists' };
+
+    const base = sideOf(comparedIds.baseId, baseVersion, basePreview);
+    const target = sideOf(comparedIds.targetId, targetVersion, targetPreview);
+    return {
+      baseLabel: base.label,
+      targetLabel: target.label,
+      baseSvg: base.svg,
+      targetSvg: target.svg,
+      error: base.error || target.error,
+    };
+  }, [comparedIds, baseVersion, targetVersion, basePreview, targetPreview, isValid, svgOutput]);
+
+  const handleSaveVersion = useCallback((name: string) => (
+    saveVersion(name, { code, diagramType, theme, projectTitle, customTheme })
+  ), [saveVersion, code, diagramType, theme, projectTitle, customTheme]);
+
+  const handleRestoreVersion = useCallback((version: DiagramVersion) => {
+    importProject({ code: version.code, diagramType: version.diagramType, theme: version.theme, customTheme: version.customTheme });
+  }, [importProject]);
+
+  const handleCompareVersions = useCallback((baseId: string, targetId: string) => {
+    setComparedIds({ baseId, targetId });
+    // The preview panel is hidden in mobile code mode
+    setViewMode(prev => (prev === 'code' ? 'preview' : prev));
+  }, []);
+
   const [splitPosition, setSplitPosition] = useState(50);
   const [isResizing, setIsResizing] = useState(false);
 
   // Zoom controls ref for keyboard shortcuts
   const zoomRef = useRef({ zoomIn: () => { }, zoomOut: () => { }, reset: () => { } });
+  // Editor navigation ref for jumping to errors
+  const editorControlsRef = useRef<CodeEditorControls>({ revealLine: () => { }, selectRange: () => { } });
+
+  const handleErrorClick = useCallback(() => {
+    if (diagnostic) {
+      // The code panel is hidden in mobile preview mode
+      setViewMode(prev => (prev === 'preview' ? 'code' : prev));
+      editorControlsRef.current.revealLine(diagnostic.line, diagnostic.column);
+    }
+  }, [diagnostic]);
+
+  // Project files bring their original creation date, which the next project export keeps
+  const handleImport = useCallback((data: ImportedFile) => {
+    importProject(data);
+    if (data.createdAt) onDocumentChange?.({ createdAt: data.createdAt });
+  }, [importProject, onDocumentChange]);
+
+  // Files dropped anywhere on the editor, or pasted outside the code editor
+  const {
+    importFiles,
+    reports: importReports,
+    closeReports,
+    pendingMarkdown,
+    pickMarkdownBlocks,
+  } = useFileImport({ onImport: handleImport, onOpenDiagrams });
+  const { isDraggingFiles, dropZoneProps } = useImportDropZone(importFiles);
 
   // Keyboard shortcuts
   useKeyboardShortcuts({
@@ -69,85 +191,101 @@ export const FlowEditor = () => {
   };
 
   /**
-   * Handle rename from preview - finds and replaces text in code
+   * Handle rename from preview - rewrites the clicked node or text and every reference as one edit
    */
-  const handleRename = useCallback((oldText: string, newText: string) => {
-    if (!oldText || !newText || oldText === newText) return;
-
-    // Escape special regex characters
-    const escapedOldText = oldText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-    // Simple, direct replacement - just replace the exact text
-    // This is more reliable than complex patterns
-    let newCode = code;
-
-    // Try to replace in common Mermaid patterns
-    const patterns = [
-      // participant Alice -> participant NewName
-      new RegExp(`(participant\\s+)${escapedOldText}(\\s|$)`, 'gm'),
-      // actor Alice -> actor NewName  
-      new RegExp(`(actor\\s+)${escapedOldText}(\\s|$)`, 'gm'),
-      // Text in brackets: [Alice] -> [NewName]
-      new RegExp(`(\\[)${escapedOldText}(\\])`, 'g'),
-      // Text in parens: (Alice) -> (NewName)
-      new RegExp(`(\\()${escapedOldText}(\\))`, 'g'),
-      // Text in braces: {Alice} -> {NewName}
-      new RegExp(`(\\{)${escapedOldText}(\\})`, 'g'),
-      // Message sender: Alice->>Bob -> NewName->>Bob
-      new RegExp(`^(\\s*)${escapedOldText}(\\s*[-<>]+)`, 'gm'),
-      // Message receiver before colon: ->>Alice: -> ->>NewName:
-      new RegExp(`([-<>]+\\s*)${escapedOldText}(\\s*:)`, 'gm'),
-      // MESSAGE TEXT after colon: ->Bob: Hello -> ->Bob: NewText
-      new RegExp(`(:\\s*)${escapedOldText}(\\s*$)`, 'gm'),
-      // Note content: Note over Alice: Hello -> Note over Alice: NewText
-      new RegExp(`(Note[^:]*:\\s*)${escapedOldText}(\\s*$)`, 'gmi'),
-    ];
-
-    let replaced = false;
-
-    for (const pattern of patterns) {
-      if (pattern.test(newCode)) {
-        // Reset lastIndex after test
-        pattern.lastIndex = 0;
-        // Use simple string replacement with captured groups
-        newCode = newCode.replace(pattern, `$1${newText}$2`);
-        replaced = true;
-        break;
+  const handleRename = useCallback((target: RenameTarget, newText: string) => {
+    try {
+      const newCode = renameInCode(code, target, newText);
+      if (newCode === null) {
+        toast({
+          title: 'Nothing renamed',
+          description: `Could not find "${target.text}" in the code.`,
+        });
+        return;
       }
+      replaceCode(newCode);
+    } catch (error) {
+      toast({
+        title: 'Could not rename',
+        description: error instanceof Error ? error.message : 'Failed to rename.',
+        variant: 'destructive',
+      });
     }
+  }, [code, replaceCode]);
 
-    // Fallback: simple word boundary replacement if no pattern matched
-    if (!replaced) {
-      const fallbackPattern = new RegExp(`\\b${escapedOldText}\\b`, 'g');
-      if (fallbackPattern.test(code)) {
-        newCode = code.replace(fallbackPattern, newText);
-        replaced = true;
-      }
+  /**
+   * Apply a structural edit from the preview canvas as one undo step
+   */
+  const applyCanvasEdit = useCallback((edit: (code: string) => string) => {
+    try {
+      replaceCode(edit(code));
+    } catch (error) {
+      toast({
+        title: 'Could not update diagram',
+        description: error instanceof Error ? error.message : 'Failed to apply the change.',
+        variant: 'destructive',
+      });
     }
+  }, [code, replaceCode]);
 
-    if (replaced && newCode !== code) {
-      setCode(newCode);
-    }
-  }, [code, setCode]);
+  // Source-to-preview selection sync: the cursor highlights its element, clicks select its line
+  const ast = useMemo(() => parseDiagram(code), [code]);
+  const [cursor, setCursor] = useState<CursorPosition | null>(null);
+  const highlightedElement = useMemo(() => (
+    ast && cursor ? findElementAtOffset(ast, offsetAt(code, cursor)) : null
+  ), [ast, code, cursor]);
+
+  const handleSelectElement = useCallback((element: DiagramElementRef) => {
+    const range = ast && getElementRange(ast, element);
+    if (!range) return;
+    editorControlsRef.current.selectRange(positionAt(code, range.start), positionAt(code, range.end));
+  }, [ast, code]);
+
+  const canvasEdit = useMemo<CanvasEditHandlers | null>(() => (
+    diagramType === 'flowchart'
+      ? {
+        onAddNode: (fromId) => applyCanvasEdit(current => addConnectedNode(current, fromId).code),
+        onConnect: (fromId, toId) => applyCanvasEdit(current => addEdge(current, fromId, toId)),
+        onDelete: (ids) => applyCanvasEdit(current => deleteNodes(current, ids)),
+        onChangeShape: (id, shape) => applyCanvasEdit(current => setNodeShape(current, id, shape)),
+      }
+      : null
+  ), [diagramType, applyCanvasEdit]);
 
   return (
-    <div className="h-screen flex flex-col bg-background">
+    <div className="relative h-screen flex flex-col bg-background" {...dropZoneProps}>
       <Toolbar
         diagramType={diagramType}
         theme={theme}
+        customTheme={customTheme}
         projectTitle={projectTitle}
         isValid={isValid}
         svgOutput={svgOutput}
         code={code}
         onDiagramTypeChange={setDiagramType}
         onThemeChange={setTheme}
+        onCustomThemeChange={setCustomTheme}
+        renderSettings={renderSettings}
+        onRenderSettingsChange={updateRenderSettings}
         onProjectTitleChange={setProjectTitle}
         onReset={resetToTemplate}
-        onImport={importProject}
+        onImport={handleImport}
+        onOpenDiagrams={onOpenDiagrams}
         canUndo={canUndo}
         canRedo={canRedo}
         onUndo={undo}
         onRedo={redo}
+        history={history}
+        onRestoreSnapshot={restoreSnapshot}
+        versions={versions}
+        onSaveVersion={hasVersions ? handleSaveVersion : undefined}
+        onDeleteVersion={deleteVersion}
+        onRestoreVersion={handleRestoreVersion}
+        onCompareVersions={handleCompareVersions}
+        diagramId={diagram?.id}
+        createdAt={diagram?.createdAt}
+        markdownFileName={diagram?.markdownSource?.fileName}
+        onExportMarkdown={onExportMarkdown}
       />
 
       {/* View mode tabs (mobile) */}
@@ -210,6 +348,9 @@ export const FlowEditor = () => {
                 onChange={setCode}
                 isValid={isValid}
                 error={error}
+                diagnostic={diagnostic}
+                controlsRef={editorControlsRef}
+                onCursorChange={setCursor}
               />
             </div>
           </ErrorBoundary>
@@ -254,8 +395,15 @@ export const FlowEditor = () => {
                 theme={theme}
                 isRendering={isRendering}
                 isValid={isValid}
+                background={customTheme?.variables.background}
                 zoomRef={zoomRef}
                 onRename={handleRename}
+                comparison={comparison}
+                onExitComparison={() => setComparedIds(null)}
+                canvasEdit={canvasEdit}
+                ast={ast}
+                highlightedElement={highlightedElement}
+                onSelectElement={handleSelectElement}
               />
             </div>
           </ErrorBoundary>
@@ -269,7 +417,20 @@ export const FlowEditor = () => {
         codeLength={code.length}
         canUndo={canUndo}
         canRedo={canRedo}
+        errorLine={diagnostic?.line}
+        onErrorClick={diagnostic ? handleErrorClick : undefined}
+        renderDuration={renderDuration}
       />
+
+      {isDraggingFiles && (
+        <div className="pointer-events-none absolute inset-2 z-50 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-primary bg-background/80 backdrop-blur-sm">
+          <Upload className="h-8 w-8 text-primary" />
+          <p className="text-sm font-medium">Drop files to import</p>
+          <p className="text-xs text-muted-foreground">Several files open as separate diagrams</p>
+        </div>
+      )}
+      <ImportReportDialog reports={importReports} onClose={closeReports} />
+      <MarkdownImportDialog file={pendingMarkdown} onOpen={pickMarkdownBlocks} onCancel={() => pickMarkdownBlocks([])} />
     </div>
   );
 };
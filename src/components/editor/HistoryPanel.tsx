@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { GitBranch, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { DocumentHistory } from '@/lib/diagramRepository';
+import { HistoryNode, getPathToNode } from '@/lib/history';
+import { cn } from '@/lib/utils';
+
+interface HistoryPanelProps {
+  history: DocumentHistory;
+  onRestore: (id: string) => void;
+}
+
+/**
+ * Snapshots reachable with undo/redo from the current one; everything else is an alternate branch
+ */
+const getMainLine = (history: DocumentHistory): Set<string> => {
+  const ids = new Set(getPathToNode(history, history.currentId));
+  let node = history.nodes[history.currentId];
+  while (node?.activeChildId && history.nodes[node.activeChildId]) {
+    node = history.nodes[node.activeChildId];
+    ids.add(node.id);
+  }
+  return ids;
+};
+
+// SVG thumbnails are shown through <img> so their styles and ids stay isolated
+const toPreviewUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const SnapshotThumbnail = ({ node }: { node: HistoryNode<string> }) => {
+  if (node.preview) {
+    return (
+      <img
+        src={toPreviewUrl(node.preview)}
+        alt=""
+        className="h-full w-full object-contain"
+      />
+    );
+  }
+
+  return (
+    <pre className="h-full w-full overflow-hidden p-1.5 text-[9px] leading-tight text-muted-foreground font-mono">
+      {node.value.split('\n').slice(0, 6).join('\n')}
+    </pre>
+  );
+};
+
+export const HistoryPanel = ({ history, onRestore }: HistoryPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const snapshots = useMemo(
+    () => Object.values(history.nodes).sort((a, b) => b.savedAt.localeCompare(a.savedAt)),
+    [history.nodes]
+  );
+  const mainLine = useMemo(() => getMainLine(history), [history]);
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <SheetTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              aria-label="History"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+          </SheetTrigger>
+        </TooltipTrigger>
+        <TooltipContent>History</TooltipContent>
+      </Tooltip>
+
+      <SheetContent className="flex flex-col gap-4 p-0 sm:max-w-sm">
+        <SheetHeader className="px-6 pt-6">
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>
+            Restore any snapshot. Edits made after an undo start a new branch, so nothing is lost.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 px-6 pb-6">
+          <ol className="space-y-2">
+            {snapshots.map((node) => {
+              const isCurrent = node.id === history.currentId;
+              const isBranch = !mainLine.has(node.id);
+              const savedAt = new Date(node.savedAt);
+
+              return (
+                <li key={node.id}>
+                  <button
+                    type="button"
+                    onClick={() => onRestore(node.id)}
+                    disabled={isCurrent}
+                    aria-current={isCurrent ? 'step' : undefined}
+                    className={cn(
+                      'w-full flex items-center gap-3 rounded-md border p-2 text-left transition-colors',
+                      isCurrent ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50',
+                      isBranch && 'border-dashed'
+                    )}
+                  >
+                    <div className="h-14 w-20 shrink-0 overflow-hidden rounded bg-white">
+                      <SnapshotThumbnail node={node} />
+                    </div>
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <p className="text-sm font-medium" title={format(savedAt, 'PPpp')}>
+                        {format(savedAt, 'HH:mm:ss')}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {formatDistanceToNow(savedAt, { addSuffix: true })}
+                      </p>
+                      <div className="flex gap-1">
+                        {isCurrent && <Badge className="h-5 px-1.5 text-[10px]">Current</Badge>}
+                        {isBranch && (
+                          <Badge variant="outline" className="h-5 gap-1 px-1.5 text-[10px]">
+                            <GitBranch className="h-3 w-3" />
+                            Branch
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
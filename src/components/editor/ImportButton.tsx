@@ -2,9 +2,11 @@ import { useRef } from 'react';
 import { Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { toast } from '@/hooks/use-toast';
+import { ImportedDiagram, useFileImport } from '@/hooks/useFileImport';
 import { DiagramType, MermaidTheme } from '@/types/diagram';
-import { parseImportedFile, getAcceptedFileTypes } from '@/lib/mermaidFileUtils';
+import { getAcceptedFileTypes } from '@/lib/mermaidFileUtils';
+import { ImportReportDialog } from './ImportReportDialog';
+import { MarkdownImportDialog } from './MarkdownImportDialog';
 
 interface ImportButtonProps {
     onImport: (data: {
@@ -13,10 +15,13 @@ interface ImportButtonProps {
         theme?: MermaidTheme;
         title?: string;
     }) => void;
+    /** Open diagrams picked from a Markdown file as documents of their own */
+    onOpenDiagrams?: (diagrams: ImportedDiagram[]) => void;
 }
 
-export const ImportButton = ({ onImport }: ImportButtonProps) => {
+export const ImportButton = ({ onImport, onOpenDiagrams }: ImportButtonProps) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const { importFiles, reports, closeReports, pendingMarkdown, pickMarkdownBlocks } = useFileImport({ onImport, onOpenDiagrams });
 
     const handleClick = () => {
         fileInputRef.current?.click();
@@ -26,42 +31,7 @@ export const ImportButton = ({ onImport }: ImportButtonProps) => {
         const file = event.target.files?.[0];
         if (!file) return;
 
-        try {
-            const maxFileSize = 1 * 1024 * 1024;
-
-            if (file.size > maxFileSize) {
-                throw new Error('File size exceeds maximum limit of 1MB');
-            }
-
-            const allowedExtensions = ['mmd', 'txt', 'flowilham', 'json'];
-            const fileExtension = file.name.split('.').pop()?.toLowerCase();
-
-            if (!fileExtension || !allowedExtensions.includes(fileExtension)) {
-                throw new Error('Invalid file type. Only .mmd, .txt, .flowilham, and .json files are allowed.');
-            }
-
-            const data = await parseImportedFile(file);
-
-            onImport({
-                code: data.code,
-                diagramType: data.diagramType,
-                theme: data.theme,
-                title: data.title,
-            });
-
-            toast({
-                title: 'Import successful',
-                description: `Loaded "${file.name}" successfully.`,
-            });
-        } catch (error) {
-            console.error('Import error:', error);
-            toast({
-                title: 'Import failed',
-                description: error instanceof Error ? error.message : 'Failed to import file.',
-                variant: 'destructive',
-            });
-        }
-
+        await importFiles([file]);
         event.target.value = '';
     };
 
@@ -89,6 +59,8 @@ export const ImportButton = ({ onImport }: ImportButtonProps) => {
                 </TooltipTrigger>
                 <TooltipContent>Import Diagram (Ctrl+O)</TooltipContent>
             </Tooltip>
+            <ImportReportDialog reports={reports} onClose={closeReports} />
+            <MarkdownImportDialog file={pendingMarkdown} onOpen={pickMarkdownBlocks} onCancel={() => pickMarkdownBlocks([])} />
         </>
     );
 };
@@ -0,0 +1,57 @@
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ImportReport } from '@/types/diagram';
+
+interface ImportReportDialogProps {
+  reports: ImportReport[];
+  onClose: () => void;
+}
+
+/**
+ * Lists what converted files lost on their way to Mermaid
+ */
+export const ImportReportDialog = ({ reports, onClose }: ImportReportDialogProps) => (
+  <Dialog open={reports.length > 0} onOpenChange={(open) => !open && onClose()}>
+    <DialogContent className="max-w-lg">
+      <DialogHeader>
+        <DialogTitle>Import report</DialogTitle>
+        <DialogDescription>
+          {reports.length === 1
+            ? `"${reports[0].fileName}" was converted to Mermaid. Some parts could not be converted exactly:`
+            : `${reports.length} files were converted to Mermaid. Some parts could not be converted exactly:`}
+        </DialogDescription>
+      </DialogHeader>
+
+      <ScrollArea className="max-h-72 pr-3">
+        <div className="space-y-4">
+          {reports.map((report) => (
+            <section key={report.fileName} className="space-y-2">
+              {reports.length > 1 && <h3 className="text-sm font-medium">{report.fileName}</h3>}
+              <ul className="space-y-2 text-sm">
+                {report.warnings.map((warning) => (
+                  <li key={warning} className="flex items-start gap-2">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+                    <span className="break-words">{warning}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <DialogFooter>
+        <Button onClick={onClose}>OK</Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { PendingMarkdownImport } from '@/hooks/useFileImport';
+import { detectDiagramType } from '@/lib/mermaidFileUtils';
+
+interface MarkdownImportDialogProps {
+  file: PendingMarkdownImport | null;
+  onOpen: (blockIndexes: number[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Pick which Mermaid blocks of a Markdown file to open
+ */
+export const MarkdownImportDialog = ({ file, onOpen, onCancel }: MarkdownImportDialogProps) => {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  // Everything is selected for each new file
+  useEffect(() => {
+    setSelected(new Set(file?.blocks.map(block => block.index)));
+  }, [file]);
+
+  const toggle = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const allSelected = !!file && selected.size === file.blocks.length;
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import from Markdown</DialogTitle>
+          <DialogDescription>
+            "{file?.fileName}" contains {file?.blocks.length} Mermaid diagrams. Each one you pick opens as its own diagram,
+            and edits can be written back with Export → Markdown.
+          </DialogDescription>
+        </DialogHeader>
+
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <Checkbox
+            checked={allSelected}
+            onCheckedChange={(checked) => setSelected(new Set(checked ? file?.blocks.map(block => block.index) : []))}
+          />
+          Select all
+        </label>
+
+        <ScrollArea className="max-h-80 pr-3">
+          <ul className="space-y-1">
+            {file?.blocks.map((block) => (
+              <li key={block.index}>
+                <label className="flex cursor-pointer items-start gap-3 rounded-md p-2 hover:bg-muted">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={selected.has(block.index)}
+                    onCheckedChange={(checked) => toggle(block.index, checked === true)}
+                    aria-label={block.title || `Diagram ${block.index + 1}`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-sm font-medium">{block.title || `Diagram ${block.index + 1}`}</span>
+                      <Badge variant="outline" className="h-5 px-1.5 text-[10px]">{detectDiagramType(block.code)}</Badge>
+                    </div>
+                    <p className="truncate font-mono text-xs text-muted-foreground">
+                      Line {block.line}: {block.code.split('\n')[0]}
+                    </p>
+                  </div>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onOpen(file?.blocks.map(block => block.index).filter(index => selected.has(index)) ?? [])}
+            disabled={selected.size === 0}
+          >
+            Open {selected.size} {selected.size === 1 ? 'diagram' : 'diagrams'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
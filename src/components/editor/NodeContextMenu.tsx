@@ -0,0 +1,49 @@
+import { Plus, Shapes, Trash2 } from 'lucide-react';
+import {
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+} from '@/components/ui/context-menu';
+import { FlowchartShape } from '@/lib/mermaidAst';
+import { FLOWCHART_SHAPE_NAMES } from '@/lib/flowchartEdits';
+
+interface NodeContextMenuContentProps {
+  onAddNode: () => void;
+  onChangeShape: (shape: FlowchartShape) => void;
+  onDelete: () => void;
+}
+
+/**
+ * Actions for a flowchart node right-clicked on the preview canvas
+ */
+export const NodeContextMenuContent = ({ onAddNode, onChangeShape, onDelete }: NodeContextMenuContentProps) => (
+  <ContextMenuContent className="w-52">
+    <ContextMenuItem onSelect={onAddNode}>
+      <Plus className="mr-2 h-4 w-4" />
+      Add connected node
+    </ContextMenuItem>
+    <ContextMenuSub>
+      <ContextMenuSubTrigger>
+        <Shapes className="mr-2 h-4 w-4" />
+        Shape
+      </ContextMenuSubTrigger>
+      <ContextMenuSubContent className="w-48">
+        {(Object.entries(FLOWCHART_SHAPE_NAMES) as [FlowchartShape, string][]).map(([shape, name]) => (
+          <ContextMenuItem key={shape} onSelect={() => onChangeShape(shape)}>
+            {name}
+          </ContextMenuItem>
+        ))}
+      </ContextMenuSubContent>
+    </ContextMenuSub>
+    <ContextMenuSeparator />
+    <ContextMenuItem onSelect={onDelete} className="text-destructive focus:text-destructive">
+      <Trash2 className="mr-2 h-4 w-4" />
+      Delete
+      <ContextMenuShortcut>Del</ContextMenuShortcut>
+    </ContextMenuItem>
+  </ContextMenuContent>
+);
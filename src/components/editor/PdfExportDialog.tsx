@@ -0,0 +1,108 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { PDF_PAGE_SIZES, PdfExportOptions, PdfLayout, PdfOrientation, PdfPageSize } from '@/lib/pdfExport';
+
+interface PdfExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  options: PdfExportOptions;
+  onOptionsChange: (options: PdfExportOptions) => void;
+  onExport: () => void;
+  isExporting: boolean;
+}
+
+/**
+ * Page setup for PDF export
+ */
+export const PdfExportDialog = ({ open, onOpenChange, options, onOptionsChange, onExport, isExporting }: PdfExportDialogProps) => {
+  const update = (changes: Partial<PdfExportOptions>) => onOptionsChange({ ...options, ...changes });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export as PDF</DialogTitle>
+          <DialogDescription>
+            Text and shapes stay as vectors. The file is created in your browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-1.5">
+              <Label htmlFor="pdf-page-size">Page size</Label>
+              <Select value={options.pageSize} onValueChange={(value) => update({ pageSize: value as PdfPageSize })}>
+                <SelectTrigger id="pdf-page-size">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map(size => (
+                    <SelectItem key={size} value={size}>{PDF_PAGE_SIZES[size].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="pdf-orientation">Orientation</Label>
+              <Select value={options.orientation} onValueChange={(value) => update({ orientation: value as PdfOrientation })}>
+                <SelectTrigger id="pdf-orientation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="portrait">Portrait</SelectItem>
+                  <SelectItem value="landscape">Landscape</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <RadioGroup value={options.layout} onValueChange={(value) => update({ layout: value as PdfLayout })} className="gap-2">
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="fit" id="pdf-layout-fit" className="mt-0.5" />
+              <Label htmlFor="pdf-layout-fit" className="grid gap-0.5 font-normal">
+                <span className="font-medium">Fit to page</span>
+                <span className="text-xs text-muted-foreground">Shrink large diagrams onto a single page</span>
+              </Label>
+            </div>
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="tile" id="pdf-layout-tile" className="mt-0.5" />
+              <Label htmlFor="pdf-layout-tile" className="grid gap-0.5 font-normal">
+                <span className="font-medium">Tile across pages</span>
+                <span className="text-xs text-muted-foreground">Print at full size, split over numbered pages</span>
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="pdf-header">Title and export date header</Label>
+            <Switch
+              id="pdf-header"
+              checked={options.includeHeader}
+              onCheckedChange={(checked) => update({ includeHeader: checked })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={onExport} disabled={isExporting}>
+            {isExporting ? 'Exporting...' : 'Export PDF'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
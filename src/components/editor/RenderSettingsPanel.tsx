@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react';
+import { ShieldCheck, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Switch } from '@/components/ui/switch';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { DEFAULT_RENDER_SETTINGS, FLOWCHART_CURVES, flattenConfig, readDiagramConfig } from '@/lib/mermaidConfig';
+import { FlowchartCurve, RenderSettings } from '@/types/diagram';
+
+interface RenderSettingsPanelProps {
+  settings: RenderSettings;
+  onChange: (changes: Partial<RenderSettings>) => void;
+  /** Diagram whose own config is listed */
+  code: string;
+}
+
+const SWITCHES: { key: 'showSequenceNumbers' | 'mirrorActors' | 'wrap'; label: string }[] = [
+  { key: 'showSequenceNumbers', label: 'Number sequence messages' },
+  { key: 'mirrorActors', label: 'Repeat actors below sequences' },
+  { key: 'wrap', label: 'Wrap long labels' },
+];
+
+const formatValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+export const RenderSettingsPanel = ({ settings, onChange, code }: RenderSettingsPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [fontSize, setFontSize] = useState<string | null>(null);
+
+  // Only read while the panel is open, the editor re-renders on every keystroke
+  const diagramConfig = useMemo(() => (isOpen ? readDiagramConfig(code) : null), [isOpen, code]);
+  const overrides = diagramConfig ? flattenConfig(diagramConfig.config) : [];
+
+  const commitFontSize = () => {
+    const size = Math.round(Number(fontSize));
+    if (fontSize !== null && size >= 8 && size <= 32) onChange({ fontSize: size });
+    setFontSize(null);
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <SheetTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              aria-label="Render settings"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+            </Button>
+          </SheetTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Render settings</TooltipContent>
+      </Tooltip>
+
+      <SheetContent className="flex flex-col gap-4 p-0 sm:max-w-sm">
+        <SheetHeader className="px-6 pt-6">
+          <SheetTitle>Render settings</SheetTitle>
+          <SheetDescription>
+            Apply to every diagram. A diagram's own <code>%%{'{init}'}%%</code> directive or frontmatter config wins over them.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 px-6 pb-6">
+          <div className="grid gap-5">
+            <div className="grid gap-1.5">
+              <Label htmlFor="render-curve">Flowchart curve</Label>
+              <Select
+                value={settings.flowchartCurve}
+                onValueChange={(value) => onChange({ flowchartCurve: value as FlowchartCurve })}
+              >
+                <SelectTrigger id="render-curve">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FLOWCHART_CURVES.map(curve => (
+                    <SelectItem key={curve} value={curve}>{curve}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {SWITCHES.map(({ key, label }) => (
+              <div key={key} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`render-${key}`} className="font-normal">{label}</Label>
+                <Switch
+                  id={`render-${key}`}
+                  checked={settings[key]}
+                  onCheckedChange={(checked) => onChange({ [key]: checked })}
+                />
+              </div>
+            ))}
+
+            <div className="grid gap-1.5">
+              <Label htmlFor="render-font-size">Font size (px)</Label>
+              <Input
+                id="render-font-size"
+                type="number"
+                min={8}
+                max={32}
+                value={fontSize ?? settings.fontSize}
+                onChange={(e) => setFontSize(e.target.value)}
+                onBlur={commitFontSize}
+                onKeyDown={(e) => e.key === 'Enter' && commitFontSize()}
+              />
+            </div>
+
+            <Button variant="outline" size="sm" onClick={() => onChange(DEFAULT_RENDER_SETTINGS)}>
+              Reset to defaults
+            </Button>
+
+            <div className="grid gap-2">
+              <h3 className="text-sm font-medium">Set by this diagram</h3>
+              {overrides.length > 0 ? (
+                <ul className="space-y-1 rounded-md border border-border p-2 font-mono text-xs">
+                  {overrides.map(([path, value]) => (
+                    <li key={path} className="flex justify-between gap-3">
+                      <span className="text-muted-foreground">{path}</span>
+                      <span className="truncate">{formatValue(value)}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-muted-foreground">Nothing. Add a directive such as <code>%%{"{init: {'theme': 'forest'}}"}%%</code> to override settings for one diagram.</p>
+              )}
+              {diagramConfig?.errors.map(error => (
+                <p key={error} className="text-xs text-destructive">{error}</p>
+              ))}
+            </div>
+
+            <p className="flex gap-2 text-xs text-muted-foreground">
+              <ShieldCheck className="h-4 w-4 shrink-0" />
+              Security level, HTML labels and theme CSS are fixed, so neither settings nor diagrams can change them.
+            </p>
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Code2, Eye, Pencil } from 'lucide-react';
+import { useDiagramEditor } from '@/hooks/useDiagramEditor';
+import { createDocument } from '@/lib/diagramRepository';
+import { decodeSharedDiagram } from '@/lib/shareLink';
+import { cn } from '@/lib/utils';
+import { SharedDiagram } from '@/types/diagram';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CodeEditor } from './CodeEditor';
+import { DiagramPreview } from './DiagramPreview';
+
+interface SharedDiagramViewProps {
+  /** Encoded diagram from a share link */
+  payload: string;
+  /** Add the diagram to the workspace as a new document */
+  onEditCopy: (diagram: SharedDiagram) => void;
+  /** Leave for the workspace without keeping the diagram */
+  onExit: () => void;
+}
+
+interface SharedDiagramViewerProps extends Omit<SharedDiagramViewProps, 'payload'> {
+  diagram: SharedDiagram;
+}
+
+const SharedDiagramViewer = ({ diagram, onEditCopy, onExit }: SharedDiagramViewerProps) => {
+  // Rendered like any other diagram, but never persisted
+  const [initialDocument] = useState(() => createDocument({
+    code: diagram.code,
+    diagramType: diagram.diagramType,
+    theme: diagram.theme,
+    projectTitle: diagram.title,
+  }));
+  const { code, theme, svgOutput, isRendering, isValid, error, diagnostic } = useDiagramEditor({ initialDocument });
+  const [showCode, setShowCode] = useState(false);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const title = diagram.title || 'Untitled Project';
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <header className="h-14 bg-toolbar-bg border-b border-border px-4 flex items-center justify-between gap-4">
+        <div className="flex min-w-0 items-center gap-3">
+          <Button variant="ghost" size="sm" className="gap-2" onClick={onExit}>
+            <ArrowLeft className="h-4 w-4" />
+            <span className="hidden sm:inline">My diagrams</span>
+          </Button>
+          <div className="w-px h-6 bg-border hidden sm:block" />
+          <h1 className="truncate text-sm font-semibold">{title}</h1>
+          <Badge variant="outline" className="hidden sm:inline-flex">{diagram.diagramType}</Badge>
+          <Badge variant="secondary" className="gap-1">
+            <Eye className="h-3 w-3" />
+            View only
+          </Badge>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-2"
+            onClick={() => setShowCode(value => !value)}
+            aria-pressed={showCode}
+          >
+            <Code2 className="h-4 w-4" />
+            <span className="hidden sm:inline">{showCode ? 'Hide code' : 'Show code'}</span>
+          </Button>
+          <Button size="sm" className="gap-2" onClick={() => setIsConfirmOpen(true)}>
+            <Pencil className="h-4 w-4" />
+            Edit a copy
+          </Button>
+        </div>
+      </header>
+
+      <div className="flex-1 flex overflow-hidden">
+        {showCode && (
+          <div className="w-full sm:w-2/5 border-r border-border">
+            <CodeEditor code={code} onChange={() => undefined} isValid={isValid} error={error} diagnostic={diagnostic} readOnly />
+          </div>
+        )}
+        <div className={cn('flex-1', showCode && 'hidden sm:block')}>
+          <DiagramPreview svgOutput={svgOutput} theme={theme} isRendering={isRendering} isValid={isValid} />
+        </div>
+      </div>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Edit a copy?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{title}" will be added to your workspace as a new diagram. Your saved diagrams are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onEditCopy(diagram)}>Add to my diagrams</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+/**
+ * View-only page for a diagram opened from a share link. Nothing is saved unless the
+ * user chooses to edit a copy.
+ */
+export const SharedDiagramView = ({ payload, onEditCopy, onExit }: SharedDiagramViewProps) => {
+  const [shared, setShared] = useState<{ payload: string; diagram?: SharedDiagram; error?: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeSharedDiagram(payload).then(
+      (diagram) => !cancelled && setShared({ payload, diagram }),
+      (error) => !cancelled && setShared({ payload, error: error instanceof Error ? error.message : 'This link could not be opened.' })
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [payload]);
+
+  if (shared?.payload !== payload) {
+    return (
+      <div className="h-screen flex flex-col gap-3 p-4 bg-background">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="flex-1 w-full" />
+      </div>
+    );
+  }
+
+  if (!shared.diagram) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center gap-4 bg-background p-4 text-center">
+        <h1 className="text-lg font-semibold">Could not open this diagram</h1>
+        <p className="max-w-md text-sm text-muted-foreground">{shared.error}</p>
+        <Button variant="outline" onClick={onExit}>Go to my diagrams</Button>
+      </div>
+    );
+  }
+
+  // A new link starts a fresh viewer
+  return <SharedDiagramViewer key={payload} diagram={shared.diagram} onEditCopy={onEditCopy} onExit={onExit} />;
+};
@@ -9,9 +9,18 @@ interface StatusBarProps {
   codeLength: number;
   canUndo?: boolean;
   canRedo?: boolean;
+  errorLine?: number;
+  onErrorClick?: () => void;
+  /** Milliseconds the last successful render took */
+  renderDuration?: number | null;
 }
 
-export const StatusBar = ({ isValid, isRendering, diagramType, codeLength, canUndo, canRedo }: StatusBarProps) => {
+// Renders slower than this make typing feel sluggish
+const SLOW_RENDER_MS = 1000;
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+export const StatusBar = ({ isValid, isRendering, diagramType, codeLength, canUndo, canRedo, errorLine, onErrorClick, renderDuration }: StatusBarProps) => {
   return (
     <footer className="h-7 bg-muted/30 border-t border-border px-4 flex items-center justify-between text-xs text-muted-foreground">
       <div className="flex items-center gap-4">
@@ -28,10 +37,16 @@ export const StatusBar = ({ isValid, isRendering, diagramType, codeLength, canUn
               <span>Valid</span>
             </>
           ) : (
-            <>
+            <button
+              type="button"
+              onClick={onErrorClick}
+              disabled={!onErrorClick}
+              className="flex items-center gap-1.5 hover:text-destructive transition-colors disabled:pointer-events-none"
+              title="Jump to error"
+            >
               <AlertCircle className="h-3 w-3 text-destructive" />
-              <span>Syntax Error</span>
-            </>
+              <span>Syntax Error{errorLine ? ` (line ${errorLine})` : ''}</span>
+            </button>
           )}
         </div>
 
@@ -42,6 +57,21 @@ export const StatusBar = ({ isValid, isRendering, diagramType, codeLength, canUn
       </div>
 
       <div className="flex items-center gap-4">
+        {/* Render time */}
+        {renderDuration != null && (
+          <>
+            <span
+              className={cn(renderDuration > SLOW_RENDER_MS && 'text-warning')}
+              title="Time the last render took"
+              data-testid="render-duration"
+            >
+              Rendered in {formatDuration(renderDuration)}
+            </span>
+
+            <div className="w-px h-3 bg-border" />
+          </>
+        )}
+
         {/* Character count */}
         <span>{codeLength} chars</span>
 
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { THEME_VARIABLE_FIELDS, validateThemeVariables } from '@/lib/customThemes';
+import { createRenderChannel } from '@/lib/mermaidRenderer';
+import { sanitizeSvg } from '@/lib/svgSanitizer';
+import { CustomTheme, ThemeVariables } from '@/types/diagram';
+
+interface ThemeEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Theme to start editing from */
+  theme: CustomTheme;
+  /** Current diagram, used for the preview */
+  code: string;
+  /** Whether the theme is already in the library */
+  isSaved: boolean;
+  onSave: (theme: CustomTheme) => void;
+  onDelete: (id: string) => void;
+}
+
+const SAMPLE_CODE = `flowchart LR
+    A[Start] --> B{Decision}
+    B -->|Yes| C[Ship it]
+    B -->|No| D[Iterate]
+    D --> A`;
+
+const PREVIEW_DELAY = 200;
+
+/**
+ * Edit the variables of a custom theme with a live preview of the diagram
+ */
+export const ThemeEditorDialog = ({ open, onOpenChange, theme, code, isSaved, onSave, onDelete }: ThemeEditorDialogProps) => {
+  const [draft, setDraft] = useState(theme);
+  const [preview, setPreview] = useState<{ svg?: string; error?: string }>({});
+
+  // Each opening starts from the given theme
+  useEffect(() => {
+    if (open) setDraft(theme);
+  }, [open, theme]);
+
+  const errors = validateThemeVariables(draft.variables);
+  const hasErrors = Object.keys(errors).length > 0;
+  const canSave = !hasErrors && draft.name.trim().length > 0;
+
+  // Dragging a colour picker requests many renders; only the last one is drawn
+  const [renderChannel] = useState(createRenderChannel);
+
+  useEffect(() => {
+    if (!open || hasErrors) return;
+    const timer = setTimeout(() => {
+      renderChannel.render(code.trim() || SAMPLE_CODE, 'default', draft).then(
+        (result) => result && setPreview({ svg: result.svg }),
+        () => setPreview(prev => ({ ...prev, error: 'The diagram has errors, so the preview shows the last working version.' }))
+      );
+    }, PREVIEW_DELAY);
+    return () => {
+      renderChannel.cancel();
+      clearTimeout(timer);
+    };
+  }, [open, code, draft, hasErrors, renderChannel]);
+
+  const updateVariable = (key: keyof ThemeVariables, value: string) => {
+    setDraft(prev => ({ ...prev, variables: { ...prev.variables, [key]: value || undefined } }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Custom theme</DialogTitle>
+          <DialogDescription>
+            Builds on Mermaid's base theme. Custom themes are saved in this browser and in exported project files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)]">
+          <div className="flex flex-col gap-2">
+            <div
+              className="flex h-80 items-center justify-center overflow-hidden rounded-md border border-border p-2 [&_svg]:max-h-full [&_svg]:max-w-full"
+              style={{ background: draft.variables.background }}
+              data-testid="theme-preview"
+              dangerouslySetInnerHTML={{ __html: preview.svg ? sanitizeSvg(preview.svg) : '' }}
+            />
+            {preview.error && <p className="text-xs text-muted-foreground">{preview.error}</p>}
+          </div>
+
+          <ScrollArea className="max-h-96 pr-3">
+            <div className="grid gap-3">
+              <div className="grid gap-1.5">
+                <Label htmlFor="theme-name">Name</Label>
+                <Input
+                  id="theme-name"
+                  value={draft.name}
+                  maxLength={100}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+
+              {THEME_VARIABLE_FIELDS.map(field => (
+                <div key={field.key} className="grid gap-1.5">
+                  <Label htmlFor={`theme-${field.key}`}>{field.label}</Label>
+                  <div className="flex items-center gap-2">
+                    {field.kind === 'color' && (
+                      <input
+                        type="color"
+                        aria-label={`${field.label} color`}
+                        className="h-9 w-10 shrink-0 cursor-pointer rounded border border-border bg-transparent"
+                        // The picker only takes six-digit colours
+                        value={/^#[0-9a-f]{6}$/i.test(draft.variables[field.key] ?? '') ? draft.variables[field.key] : '#000000'}
+                        onChange={(e) => updateVariable(field.key, e.target.value)}
+                      />
+                    )}
+                    <Input
+                      id={`theme-${field.key}`}
+                      className="h-9 font-mono text-xs"
+                      placeholder={field.placeholder}
+                      value={draft.variables[field.key] ?? ''}
+                      aria-invalid={Boolean(errors[field.key])}
+                      onChange={(e) => updateVariable(field.key, e.target.value)}
+                    />
+                  </div>
+                  {errors[field.key] && (
+                    <p className="text-xs text-destructive">{field.label} {errors[field.key]}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {isSaved ? (
+            <Button variant="ghost" className="text-destructive" onClick={() => onDelete(draft.id)}>
+              Delete theme
+            </Button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={() => onSave({ ...draft, name: draft.name.trim() })} disabled={!canSave}>
+              Save and apply
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
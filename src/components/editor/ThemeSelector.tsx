@@ -1,16 +1,33 @@
-import { MermaidTheme } from '@/types/diagram';
+import { useState } from 'react';
+import { CustomTheme, MermaidTheme } from '@/types/diagram';
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Palette } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { toast } from '@/hooks/use-toast';
+import { useCustomThemes } from '@/hooks/useCustomThemes';
+import { DEFAULT_THEME_VARIABLES } from '@/lib/customThemes';
+import { createDocumentId } from '@/lib/diagramRepository';
+import { Paintbrush, Palette } from 'lucide-react';
+import { ThemeEditorDialog } from './ThemeEditorDialog';
 
 interface ThemeSelectorProps {
   value: MermaidTheme;
   onChange: (theme: MermaidTheme) => void;
+  /** Active custom theme, which takes over from `value` */
+  customTheme?: CustomTheme;
+  /** Without it only the built-in themes are offered */
+  onCustomThemeChange?: (theme: CustomTheme) => void;
+  /** Diagram shown in the theme editor's preview */
+  code?: string;
 }
 
 const themes: { value: MermaidTheme; label: string; preview: string }[] = [
@@ -20,33 +37,140 @@ const themes: { value: MermaidTheme; label: string; preview: string }[] = [
   { value: 'neutral', label: 'Neutral', preview: 'bg-gray-500' },
 ];
 
-export const ThemeSelector = ({ value, onChange }: ThemeSelectorProps) => {
+const CUSTOM_PREFIX = 'custom:';
+
+const newCustomTheme = (): CustomTheme => ({
+  id: createDocumentId(),
+  name: 'My theme',
+  variables: { ...DEFAULT_THEME_VARIABLES },
+});
+
+export const ThemeSelector = ({ value, onChange, customTheme, onCustomThemeChange, code = '' }: ThemeSelectorProps) => {
+  const { themes: savedThemes, saveTheme, deleteTheme } = useCustomThemes();
+  const [editing, setEditing] = useState<CustomTheme | null>(null);
   const currentTheme = themes.find(t => t.value === value);
 
+  // A theme that came with an opened project file is listed even before it is saved
+  const customThemes = customTheme && !savedThemes.some(theme => theme.id === customTheme.id)
+    ? [...savedThemes, customTheme]
+    : savedThemes;
+
+  const handleValueChange = (selected: string) => {
+    if (!selected.startsWith(CUSTOM_PREFIX)) {
+      onChange(selected as MermaidTheme);
+      return;
+    }
+    const theme = customThemes.find(t => t.id === selected.slice(CUSTOM_PREFIX.length));
+    if (theme) onCustomThemeChange?.(theme);
+  };
+
+  const handleSave = async (theme: CustomTheme) => {
+    try {
+      await saveTheme(theme);
+      onCustomThemeChange?.(theme);
+      setEditing(null);
+    } catch (error) {
+      toast({
+        title: 'Could not save theme',
+        description: error instanceof Error ? error.message : 'The theme could not be saved.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteTheme(id);
+      setEditing(null);
+    } catch (error) {
+      toast({
+        title: 'Could not delete theme',
+        description: error instanceof Error ? error.message : 'The theme could not be deleted.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   return (
-    <Select value={value} onValueChange={(v) => onChange(v as MermaidTheme)}>
-      <SelectTrigger className="w-[140px] bg-secondary border-border text-sm">
-        <SelectValue>
-          <span className="flex items-center gap-2">
-            <Palette className="w-4 h-4 text-muted-foreground" />
-            <span>{currentTheme?.label}</span>
-          </span>
-        </SelectValue>
-      </SelectTrigger>
-      <SelectContent className="bg-popover border-border">
-        {themes.map((theme) => (
-          <SelectItem
-            key={theme.value}
-            value={theme.value}
-            className="cursor-pointer focus:bg-secondary"
-          >
-            <div className="flex items-center gap-3">
-              <div className={`w-4 h-4 rounded ${theme.preview}`} />
-              <span>{theme.label}</span>
-            </div>
-          </SelectItem>
-        ))}
-      </SelectContent>
-    </Select>
+    <div className="flex items-center gap-1">
+      <Select value={customTheme ? `${CUSTOM_PREFIX}${customTheme.id}` : value} onValueChange={handleValueChange}>
+        <SelectTrigger className="w-[140px] bg-secondary border-border text-sm">
+          <SelectValue>
+            <span className="flex items-center gap-2">
+              <Palette className="w-4 h-4 text-muted-foreground" />
+              <span className="truncate">{customTheme ? customTheme.name : currentTheme?.label}</span>
+            </span>
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent className="bg-popover border-border">
+          {themes.map((theme) => (
+            <SelectItem
+              key={theme.value}
+              value={theme.value}
+              className="cursor-pointer focus:bg-secondary"
+            >
+              <div className="flex items-center gap-3">
+                <div className={`w-4 h-4 rounded ${theme.preview}`} />
+                <span>{theme.label}</span>
+              </div>
+            </SelectItem>
+          ))}
+          {onCustomThemeChange && customThemes.length > 0 && (
+            <>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel>Custom themes</SelectLabel>
+                {customThemes.map((theme) => (
+                  <SelectItem
+                    key={theme.id}
+                    value={`${CUSTOM_PREFIX}${theme.id}`}
+                    className="cursor-pointer focus:bg-secondary"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div
+                        className="w-4 h-4 rounded border border-border"
+                        style={{ background: theme.variables.primaryColor }}
+                      />
+                      <span className="truncate">{theme.name}</span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </>
+          )}
+        </SelectContent>
+      </Select>
+
+      {onCustomThemeChange && (
+        <>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => setEditing(customTheme ?? newCustomTheme())}
+                aria-label={customTheme ? 'Edit custom theme' : 'New custom theme'}
+              >
+                <Paintbrush className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{customTheme ? 'Edit custom theme' : 'New custom theme'}</TooltipContent>
+          </Tooltip>
+
+          {editing && (
+            <ThemeEditorDialog
+              open
+              onOpenChange={(open) => !open && setEditing(null)}
+              theme={editing}
+              code={code}
+              isSaved={savedThemes.some(theme => theme.id === editing.id)}
+              onSave={handleSave}
+              onDelete={handleDelete}
+            />
+          )}
+        </>
+      )}
+    </div>
   );
 };
@@ -1,22 +1,32 @@
-import { DiagramType, MermaidTheme } from '@/types/diagram';
+import { CustomTheme, DiagramType, DiagramVersion, MermaidTheme, RenderSettings } from '@/types/diagram';
 import { DiagramTypeSelector } from './DiagramTypeSelector';
 import { ThemeSelector } from './ThemeSelector';
+import { RenderSettingsPanel } from './RenderSettingsPanel';
 import { ExportButton } from './ExportButton';
 import { ImportButton } from './ImportButton';
 import { ProjectTitle } from './ProjectTitle';
+import { HistoryPanel } from './HistoryPanel';
+import { VersionsPanel } from './VersionsPanel';
+import { DocumentHistory } from '@/lib/diagramRepository';
+import { ImportedDiagram } from '@/hooks/useFileImport';
 import { RotateCcw, FileText, Undo2, Redo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { SidebarTrigger } from '@/components/ui/sidebar';
 
 interface ToolbarProps {
   diagramType: DiagramType;
   theme: MermaidTheme;
+  customTheme?: CustomTheme;
   projectTitle: string;
   isValid: boolean;
   svgOutput: string;
   code: string;
   onDiagramTypeChange: (type: DiagramType) => void;
   onThemeChange: (theme: MermaidTheme) => void;
+  onCustomThemeChange?: (theme: CustomTheme) => void;
+  renderSettings?: RenderSettings;
+  onRenderSettingsChange?: (changes: Partial<RenderSettings>) => void;
   onProjectTitleChange: (title: string) => void;
   onReset: () => void;
   onImport: (data: { code: string; diagramType?: DiagramType; theme?: MermaidTheme; title?: string }) => void;
@@ -24,17 +34,36 @@ interface ToolbarProps {
   canRedo?: boolean;
   onUndo?: () => void;
   onRedo?: () => void;
+  history?: DocumentHistory;
+  onRestoreSnapshot?: (id: string) => void;
+  versions?: DiagramVersion[];
+  onSaveVersion?: (name: string) => Promise<unknown>;
+  onDeleteVersion?: (id: string) => Promise<void>;
+  onRestoreVersion?: (version: DiagramVersion) => void;
+  onCompareVersions?: (baseId: string, targetId: string) => void;
+  /** Workspace document id, used to remember export settings */
+  diagramId?: string;
+  /** When the diagram was first created, kept in exported project files */
+  createdAt?: string;
+  onOpenDiagrams?: (diagrams: ImportedDiagram[]) => void;
+  /** Markdown file the diagram was imported from, if any */
+  markdownFileName?: string;
+  onExportMarkdown?: () => void;
 }
 
 export const Toolbar = ({
   diagramType,
   theme,
+  customTheme,
   projectTitle,
   isValid,
   svgOutput,
   code,
   onDiagramTypeChange,
   onThemeChange,
+  onCustomThemeChange,
+  renderSettings,
+  onRenderSettingsChange,
   onProjectTitleChange,
   onReset,
   onImport,
@@ -42,11 +71,30 @@ export const Toolbar = ({
   canRedo = false,
   onUndo,
   onRedo,
+  history,
+  onRestoreSnapshot,
+  versions = [],
+  onSaveVersion,
+  onDeleteVersion,
+  onRestoreVersion,
+  onCompareVersions,
+  diagramId,
+  createdAt,
+  onOpenDiagrams,
+  markdownFileName,
+  onExportMarkdown,
 }: ToolbarProps) => {
   return (
     <header className="h-14 bg-toolbar-bg border-b border-border px-4 flex items-center justify-between">
       {/* Left section - Logo & Type selector */}
       <div className="flex items-center gap-4">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <SidebarTrigger className="h-8 w-8" aria-label="Toggle diagram library" />
+          </TooltipTrigger>
+          <TooltipContent>Diagram library (Ctrl+B)</TooltipContent>
+        </Tooltip>
+
         <div className="flex items-center gap-2">
           <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center glow-ring overflow-hidden">
             <img src="/logo.png" alt="FlowGen Logo" className="w-full h-full object-cover" />
@@ -100,9 +148,34 @@ export const Toolbar = ({
           <TooltipContent>Redo (Ctrl+Y)</TooltipContent>
         </Tooltip>
 
+        {history && onRestoreSnapshot && (
+          <HistoryPanel history={history} onRestore={onRestoreSnapshot} />
+        )}
+
+        {onSaveVersion && (
+          <VersionsPanel
+            versions={versions}
+            code={code}
+            onSave={onSaveVersion}
+            onDelete={onDeleteVersion}
+            onRestore={onRestoreVersion}
+            onCompare={onCompareVersions}
+          />
+        )}
+
         <div className="w-px h-6 bg-border mx-1 hidden sm:block" />
 
-        <ThemeSelector value={theme} onChange={onThemeChange} />
+        <ThemeSelector
+          value={theme}
+          onChange={onThemeChange}
+          customTheme={customTheme}
+          onCustomThemeChange={onCustomThemeChange}
+          code={code}
+        />
+
+        {renderSettings && onRenderSettingsChange && (
+          <RenderSettingsPanel settings={renderSettings} onChange={onRenderSettingsChange} code={code} />
+        )}
 
         <div className="w-px h-6 bg-border hidden sm:block" />
 
@@ -136,9 +209,21 @@ export const Toolbar = ({
           <TooltipContent>Mermaid Docs</TooltipContent>
         </Tooltip>
 
-        <ImportButton onImport={onImport} />
+        <ImportButton onImport={onImport} onOpenDiagrams={onOpenDiagrams} />
 
-        <ExportButton svgOutput={svgOutput} isValid={isValid} theme={theme} code={code} diagramType={diagramType} projectTitle={projectTitle} />
+        <ExportButton
+          svgOutput={svgOutput}
+          isValid={isValid}
+          theme={theme}
+          customTheme={customTheme}
+          code={code}
+          diagramType={diagramType}
+          projectTitle={projectTitle}
+          diagramId={diagramId}
+          createdAt={createdAt}
+          markdownFileName={markdownFileName}
+          onExportMarkdown={onExportMarkdown}
+        />
       </div>
     </header>
   );
@@ -0,0 +1,267 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ArchiveRestore, Bookmark, Eye, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { toast } from '@/hooks/use-toast';
+import { DiagramVersion } from '@/types/diagram';
+import { LineDiff, diffLines, summarizeLineDiff } from '@/lib/textDiff';
+import { cn } from '@/lib/utils';
+
+/** Select value standing for the diagram as it is in the editor */
+export const CURRENT_VERSION_ID = 'current';
+
+interface VersionsPanelProps {
+  versions: DiagramVersion[];
+  code: string;
+  onSave: (name: string) => Promise<unknown>;
+  onDelete: (id: string) => Promise<void>;
+  onRestore: (version: DiagramVersion) => void;
+  onCompare: (baseId: string, targetId: string) => void;
+}
+
+const LineDiffView = ({ diff }: { diff: LineDiff[] }) => (
+  <pre className="text-xs font-mono leading-5">
+    {diff.map((line, index) => (
+      <div
+        key={index}
+        className={cn(
+          'flex px-2',
+          line.type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+          line.type === 'removed' && 'bg-red-500/10 text-red-700 dark:text-red-400'
+        )}
+      >
+        <span className="w-8 shrink-0 select-none text-right text-muted-foreground">{line.oldLine ?? ''}</span>
+        <span className="w-8 shrink-0 select-none text-right text-muted-foreground">{line.newLine ?? ''}</span>
+        <span className="w-5 shrink-0 select-none text-center">
+          {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+        </span>
+        <span className="whitespace-pre-wrap break-all">{line.text}</span>
+      </div>
+    ))}
+  </pre>
+);
+
+export const VersionsPanel = ({ versions, code, onSave, onDelete, onRestore, onCompare }: VersionsPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [baseId, setBaseId] = useState<string>('');
+  const [targetId, setTargetId] = useState<string>(CURRENT_VERSION_ID);
+
+  // Default to comparing the latest version against the editor
+  const selectedBaseId = baseId && (baseId === CURRENT_VERSION_ID || versions.some(v => v.id === baseId))
+    ? baseId
+    : versions[0]?.id || '';
+  const selectedTargetId = targetId === CURRENT_VERSION_ID || versions.some(v => v.id === targetId)
+    ? targetId
+    : CURRENT_VERSION_ID;
+
+  const codeFor = (id: string) => (id === CURRENT_VERSION_ID ? code : versions.find(v => v.id === id)?.code);
+  const baseCode = codeFor(selectedBaseId);
+  const targetCode = codeFor(selectedTargetId);
+
+  const diff = useMemo(
+    () => (baseCode !== undefined && targetCode !== undefined ? diffLines(baseCode, targetCode) : []),
+    [baseCode, targetCode]
+  );
+  const summary = summarizeLineDiff(diff);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(name);
+      toast({
+        title: 'Version saved',
+        description: `Saved "${name.trim()}".`,
+      });
+      setName('');
+    } catch (error) {
+      toast({
+        title: 'Could not save version',
+        description: error instanceof Error ? error.message : 'Failed to save version.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (version: DiagramVersion) => {
+    try {
+      await onDelete(version.id);
+    } catch (error) {
+      toast({
+        title: 'Could not delete version',
+        description: error instanceof Error ? error.message : 'Failed to delete version.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = (version: DiagramVersion) => {
+    onRestore(version);
+    setIsOpen(false);
+    toast({
+      title: 'Version restored',
+      description: `Restored "${version.name}". Use undo to go back.`,
+    });
+  };
+
+  const handleCompare = () => {
+    onCompare(selectedBaseId, selectedTargetId);
+    setIsOpen(false);
+  };
+
+  const renderOptions = () => (
+    <>
+      <SelectItem value={CURRENT_VERSION_ID}>Current diagram</SelectItem>
+      {versions.map(version => (
+        <SelectItem key={version.id} value={version.id}>{version.name}</SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DialogTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              aria-label="Versions"
+            >
+              <Bookmark className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Versions</TooltipContent>
+      </Tooltip>
+
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Versions</DialogTitle>
+          <DialogDescription>
+            Save named versions of this diagram and compare any two of them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[minmax(0,1fr)_minmax(0,1.5fr)]">
+          {/* Saved versions */}
+          <div className="space-y-3 min-w-0">
+            <form onSubmit={handleSave} className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder='e.g. "v1 sent to client"'
+                aria-label="Version name"
+                className="h-8"
+              />
+              <Button type="submit" size="sm" className="h-8 gap-1.5" disabled={!name.trim() || isSaving}>
+                <Save className="h-3.5 w-3.5" />
+                Save
+              </Button>
+            </form>
+
+            <ScrollArea className="h-80 rounded-md border border-border">
+              {versions.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">No versions saved yet.</p>
+              ) : (
+                <ul className="divide-y divide-border">
+                  {versions.map(version => (
+                    <li key={version.id} className="flex items-center gap-2 p-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium truncate">{version.name}</p>
+                        <p className="text-xs text-muted-foreground">{format(new Date(version.createdAt), 'PP p')}</p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => handleRestore(version)}
+                        aria-label={`Restore ${version.name}`}
+                        title="Restore"
+                      >
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(version)}
+                        aria-label={`Delete ${version.name}`}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* Comparison */}
+          <div className="space-y-3 min-w-0">
+            <div className="flex items-center gap-2">
+              <Select value={selectedBaseId} onValueChange={setBaseId}>
+                <SelectTrigger className="h-8" aria-label="Compare from">
+                  <SelectValue placeholder="Select a version" />
+                </SelectTrigger>
+                <SelectContent>{renderOptions()}</SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">→</span>
+              <Select value={selectedTargetId} onValueChange={setTargetId}>
+                <SelectTrigger className="h-8" aria-label="Compare to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>{renderOptions()}</SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground">
+                <span className="text-green-600">+{summary.added}</span>{' '}
+                <span className="text-red-600">-{summary.removed}</span> lines
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 gap-1.5"
+                onClick={handleCompare}
+                disabled={!selectedBaseId || selectedBaseId === selectedTargetId}
+              >
+                <Eye className="h-3.5 w-3.5" />
+                Visual diff
+              </Button>
+            </div>
+
+            <ScrollArea className="h-72 rounded-md border border-border">
+              {selectedBaseId ? (
+                <LineDiffView diff={diff} />
+              ) : (
+                <p className="p-4 text-sm text-muted-foreground">Save a version to compare it with the current diagram.</p>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
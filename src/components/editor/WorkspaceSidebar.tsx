@@ -0,0 +1,218 @@
+import { useState, useRef, useEffect, KeyboardEvent } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Plus, Search, MoreHorizontal, Pencil, Copy, Trash2 } from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { DiagramDocument } from '@/types/diagram';
+import { getTemplateByType } from '@/lib/diagramTemplates';
+import { filterDocuments } from '@/hooks/useWorkspace';
+
+interface WorkspaceSidebarProps {
+  documents: DiagramDocument[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+interface RenameInputProps {
+  value: string;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}
+
+const RenameInput = ({ value, onSubmit, onCancel }: RenameInputProps) => {
+  const [editValue, setEditValue] = useState(value);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      onSubmit(editValue);
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <SidebarInput
+      ref={inputRef}
+      value={editValue}
+      onChange={(e) => setEditValue(e.target.value)}
+      onBlur={() => onSubmit(editValue)}
+      onKeyDown={handleKeyDown}
+      placeholder="Untitled Project"
+      aria-label="Diagram name"
+    />
+  );
+};
+
+export const WorkspaceSidebar = ({
+  documents,
+  activeId,
+  onSelect,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+}: WorkspaceSidebarProps) => {
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<DiagramDocument | null>(null);
+
+  const visibleDocuments = filterDocuments(documents, query);
+
+  const handleRenameSubmit = (id: string, title: string) => {
+    onRename(id, title);
+    setRenamingId(null);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (pendingDelete) {
+      onDelete(pendingDelete.id);
+    }
+    setPendingDelete(null);
+  };
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader>
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+            <SidebarInput
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search diagrams..."
+              className="pl-7"
+              aria-label="Search diagrams"
+            />
+          </div>
+        </SidebarHeader>
+
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Diagrams</SidebarGroupLabel>
+            <SidebarGroupAction onClick={onCreate} title="New diagram" aria-label="New diagram">
+              <Plus />
+            </SidebarGroupAction>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {visibleDocuments.map((doc) => (
+                  <SidebarMenuItem key={doc.id}>
+                    {renamingId === doc.id ? (
+                      <RenameInput
+                        value={doc.projectTitle}
+                        onSubmit={(title) => handleRenameSubmit(doc.id, title)}
+                        onCancel={() => setRenamingId(null)}
+                      />
+                    ) : (
+                      <>
+                        <SidebarMenuButton
+                          isActive={doc.id === activeId}
+                          onClick={() => onSelect(doc.id)}
+                          onDoubleClick={() => setRenamingId(doc.id)}
+                          className="h-auto py-1.5"
+                        >
+                          <span className="text-base leading-none">{getTemplateByType(doc.diagramType)?.icon}</span>
+                          <span className="flex min-w-0 flex-col">
+                            <span className={doc.projectTitle ? 'truncate' : 'truncate text-muted-foreground'}>
+                              {doc.projectTitle || 'Untitled Project'}
+                            </span>
+                            <span className="truncate text-xs text-muted-foreground">
+                              {formatDistanceToNow(new Date(doc.updatedAt), { addSuffix: true })}
+                            </span>
+                          </span>
+                        </SidebarMenuButton>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <SidebarMenuAction showOnHover aria-label="Diagram actions">
+                              <MoreHorizontal />
+                            </SidebarMenuAction>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent side="right" align="start" className="bg-popover border-border">
+                            <DropdownMenuItem onClick={() => setRenamingId(doc.id)} className="cursor-pointer gap-2">
+                              <Pencil className="h-4 w-4" />
+                              <span>Rename</span>
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => onDuplicate(doc.id)} className="cursor-pointer gap-2">
+                              <Copy className="h-4 w-4" />
+                              <span>Duplicate</span>
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onClick={() => setPendingDelete(doc)}
+                              className="cursor-pointer gap-2 text-destructive focus:text-destructive"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span>Delete</span>
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </>
+                    )}
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+              {visibleDocuments.length === 0 && (
+                <p className="px-2 py-4 text-center text-xs text-muted-foreground">
+                  No diagrams match "{query}"
+                </p>
+              )}
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete diagram?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.projectTitle || 'Untitled Project'}" will be permanently removed from your workspace.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteConfirm}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,47 @@
+import { useState, useCallback, useEffect } from 'react';
+import { CustomTheme } from '@/types/diagram';
+import { openDiagramRepository } from '@/lib/diagramRepository';
+
+/**
+ * Hook holding the library of saved custom themes, shared by every document
+ */
+export const useCustomThemes = () => {
+  const [themes, setThemes] = useState<CustomTheme[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    openDiagramRepository()
+      .then(repository => repository.loadCustomThemes())
+      .then((loaded) => {
+        if (!cancelled) setThemes(loaded);
+      })
+      .catch((error) => {
+        console.error('Failed to load custom themes:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const persist = useCallback(async (next: CustomTheme[]) => {
+    setThemes(next);
+    const repository = await openDiagramRepository();
+    await repository.saveCustomThemes(next);
+  }, []);
+
+  /**
+   * Add a theme, or replace the saved theme with the same id
+   */
+  const saveTheme = useCallback(async (theme: CustomTheme) => {
+    const exists = themes.some(saved => saved.id === theme.id);
+    await persist(exists ? themes.map(saved => (saved.id === theme.id ? theme : saved)) : [...themes, theme]);
+  }, [themes, persist]);
+
+  const deleteTheme = useCallback(async (id: string) => {
+    await persist(themes.filter(theme => theme.id !== id));
+  }, [themes, persist]);
+
+  return { themes, saveTheme, deleteTheme };
+};
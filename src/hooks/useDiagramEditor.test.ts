@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { renderHook, act, waitFor } from '@testing-library/react';
+import { renderHook, act } from '@testing-library/react';
 import { useDiagramEditor } from '@/hooks/useDiagramEditor';
 
 // Mock the diagram templates
@@ -26,7 +26,7 @@ describe('useDiagramEditor', () => {
     });
 
     describe('initialization', () => {
-        it('should initialize with default state when localStorage is empty', () => {
+        it('should initialize with default state when no document is given', () => {
             const { result } = renderHook(() => useDiagramEditor());
 
             expect(result.current.diagramType).toBe('flowchart');
@@ -35,31 +35,24 @@ describe('useDiagramEditor', () => {
             expect(result.current.error).toBeNull();
         });
 
-        it('should load state from localStorage when available', () => {
-            const savedState = {
+        it('should load state from the initial document when provided', () => {
+            const initialDocument = {
+                id: 'doc-1',
                 code: 'flowchart LR\n    A --> B',
-                diagramType: 'sequence',
-                theme: 'dark',
-                isValid: true,
-                error: null,
+                diagramType: 'sequence' as const,
+                theme: 'dark' as const,
+                projectTitle: 'Saved',
+                createdAt: '2024-01-01T00:00:00.000Z',
+                updatedAt: '2024-01-01T00:00:00.000Z',
             };
-            localStorage.setItem('flowgen-diagram-state', JSON.stringify(savedState));
 
-            const { result } = renderHook(() => useDiagramEditor());
+            const { result } = renderHook(() => useDiagramEditor({ initialDocument }));
 
             expect(result.current.diagramType).toBe('sequence');
             expect(result.current.theme).toBe('dark');
+            expect(result.current.projectTitle).toBe('Saved');
             expect(result.current.code).toBe('flowchart LR\n    A --> B');
         });
-
-        it('should handle corrupted localStorage gracefully', () => {
-            localStorage.setItem('flowgen-diagram-state', 'invalid-json');
-
-            const { result } = renderHook(() => useDiagramEditor());
-
-            expect(result.current.diagramType).toBe('flowchart');
-            expect(result.current.theme).toBe('default');
-        });
     });
 
     describe('setCode', () => {
@@ -92,6 +85,20 @@ describe('useDiagramEditor', () => {
         });
     });
 
+    describe('rendering', () => {
+        it('should show the latest render and how long it took', async () => {
+            const { result } = renderHook(() => useDiagramEditor());
+
+            await act(async () => {
+                await vi.advanceTimersByTimeAsync(350);
+            });
+
+            expect(result.current.svgOutput).toContain('mermaid-svg');
+            expect(result.current.renderDuration).toEqual(expect.any(Number));
+            expect(result.current.isRendering).toBe(false);
+        });
+    });
+
     describe('setDiagramType', () => {
         it('should update diagram type and load corresponding template', () => {
             const { result } = renderHook(() => useDiagramEditor());
@@ -103,6 +110,71 @@ describe('useDiagramEditor', () => {
             expect(result.current.diagramType).toBe('sequence');
             expect(result.current.code).toContain('sequenceDiagram');
         });
+
+        it('should keep the previous code reachable with undo', () => {
+            const { result } = renderHook(() => useDiagramEditor());
+
+            act(() => {
+                result.current.setDiagramType('sequence');
+            });
+            act(() => {
+                result.current.undo();
+            });
+
+            expect(result.current.code).toContain('flowchart TD');
+        });
+    });
+
+    describe('replaceCode', () => {
+        it('should record a structured edit as its own undo step', () => {
+            const { result } = renderHook(() => useDiagramEditor());
+
+            act(() => {
+                result.current.setCode('graph TD\n    A --> B');
+            });
+            act(() => {
+                result.current.replaceCode('graph TD\n    Start --> B');
+            });
+            act(() => {
+                result.current.undo();
+            });
+
+            expect(result.current.code).toBe('graph TD\n    A --> B');
+        });
+    });
+
+    describe('history', () => {
+        it('should continue from a saved history and report changes', () => {
+            const onHistoryChange = vi.fn();
+            const { result: first } = renderHook(() => useDiagramEditor());
+            act(() => {
+                first.current.setCode('graph LR\n    A --> B');
+            });
+
+            const { result } = renderHook(() => useDiagramEditor({
+                initialDocument: {
+                    id: 'doc-1',
+                    code: 'graph LR\n    A --> B',
+                    diagramType: 'flowchart',
+                    theme: 'default',
+                    projectTitle: '',
+                    createdAt: '2024-01-01T00:00:00.000Z',
+                    updatedAt: '2024-01-01T00:00:00.000Z',
+                },
+                initialHistory: first.current.history,
+                onHistoryChange,
+            }));
+
+            expect(result.current.canUndo).toBe(true);
+            expect(onHistoryChange).not.toHaveBeenCalled();
+
+            act(() => {
+                result.current.undo();
+            });
+
+            expect(result.current.code).toContain('flowchart TD');
+            expect(onHistoryChange).toHaveBeenCalledWith(result.current.history);
+        });
     });
 
     describe('setTheme', () => {
@@ -115,6 +187,26 @@ describe('useDiagramEditor', () => {
 
             expect(result.current.theme).toBe('dark');
         });
+
+        it('should replace an active custom theme', () => {
+            const onPersist = vi.fn();
+            const { result } = renderHook(() => useDiagramEditor({ onPersist }));
+            const customTheme = { id: 'brand', name: 'Brand', variables: { primaryColor: '#1e40af' } };
+
+            act(() => {
+                result.current.setCustomTheme(customTheme);
+            });
+
+            expect(result.current.customTheme).toEqual(customTheme);
+            expect(onPersist).toHaveBeenLastCalledWith(expect.objectContaining({ customTheme }));
+
+            act(() => {
+                result.current.setTheme('forest');
+            });
+
+            expect(result.current.customTheme).toBeUndefined();
+            expect(onPersist).toHaveBeenLastCalledWith(expect.objectContaining({ theme: 'forest', customTheme: undefined }));
+        });
     });
 
     describe('resetToTemplate', () => {
@@ -135,24 +227,26 @@ describe('useDiagramEditor', () => {
         });
     });
 
-    describe('localStorage persistence', () => {
-        it('should save state to localStorage on changes', async () => {
-            vi.useRealTimers(); // Use real timers for this test
-            const { result } = renderHook(() => useDiagramEditor());
+    describe('persistence', () => {
+        it('should hand content changes to onPersist', () => {
+            const onPersist = vi.fn();
+            const { result } = renderHook(() => useDiagramEditor({ onPersist }));
 
             act(() => {
                 result.current.setTheme('forest');
             });
 
-            // Wait for the useEffect to run
-            await waitFor(() => {
-                const saved = localStorage.getItem('flowgen-diagram-state');
-                expect(saved).not.toBeNull();
-                if (saved) {
-                    const parsed = JSON.parse(saved);
-                    expect(parsed.theme).toBe('forest');
-                }
+            expect(onPersist).toHaveBeenLastCalledWith(expect.objectContaining({ theme: 'forest' }));
+        });
+
+        it('should not write the legacy localStorage entry', () => {
+            const { result } = renderHook(() => useDiagramEditor());
+
+            act(() => {
+                result.current.setCode('flowchart LR\n    X --> Y');
             });
+
+            expect(localStorage.getItem('flowgen-diagram-state')).toBeNull();
         });
     });
 });
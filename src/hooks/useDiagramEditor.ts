@@ -1,117 +1,107 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { DiagramType, MermaidTheme, EditorState } from '@/types/diagram';
+import { DiagramType, MermaidTheme, CustomTheme, DiagramDocument, DiagramDocumentContent, DiagramDiagnostic, RenderSettings } from '@/types/diagram';
 import { getDefaultCode } from '@/lib/diagramTemplates';
+import { parseMermaidError } from '@/lib/mermaidErrors';
+import { DocumentHistory } from '@/lib/diagramRepository';
+import { createRenderChannel } from '@/lib/mermaidRenderer';
 import { useHistory } from './useHistory';
-import mermaid from 'mermaid';
 
-const STORAGE_KEY = 'flowgen-diagram-state';
 const DEBOUNCE_MS = 300;
 
 interface EditorSettings {
   diagramType: DiagramType;
   theme: MermaidTheme;
+  /** Replaces `theme` while set */
+  customTheme?: CustomTheme;
   projectTitle: string;
 }
 
-export const useDiagramEditor = () => {
+interface UseDiagramEditorOptions {
+  /** Workspace document to start editing from */
+  initialDocument?: DiagramDocument;
+  /** Called with the latest content whenever it changes */
+  onPersist?: (content: DiagramDocumentContent) => void;
+  /** Saved undo history for the document */
+  initialHistory?: DocumentHistory;
+  /** Called whenever the undo history changes */
+  onHistoryChange?: (history: DocumentHistory) => void;
+  /** Preferences from the render settings panel */
+  renderSettings?: RenderSettings;
+}
+
+export const useDiagramEditor = ({
+  initialDocument,
+  onPersist,
+  initialHistory,
+  onHistoryChange,
+  renderSettings,
+}: UseDiagramEditorOptions = {}) => {
   // Settings (diagram type, theme, projectTitle) - not part of undo/redo history
-  const [settings, setSettings] = useState<EditorSettings>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        return {
-          diagramType: parsed.diagramType || 'flowchart',
-          theme: parsed.theme || 'default',
-          projectTitle: parsed.projectTitle || '',
-        };
-      } catch {
-        // ignore
-      }
-    }
-    return {
-      diagramType: 'flowchart' as DiagramType,
-      theme: 'default' as MermaidTheme,
-      projectTitle: '',
-    };
-  });
+  const [settings, setSettings] = useState<EditorSettings>(() => ({
+    diagramType: initialDocument?.diagramType || 'flowchart',
+    theme: initialDocument?.theme || 'default',
+    customTheme: initialDocument?.customTheme,
+    projectTitle: initialDocument?.projectTitle || '',
+  }));
 
   // Code with undo/redo history
-  const getInitialCode = () => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        return parsed.code || getDefaultCode('flowchart');
-      } catch {
-        // ignore
-      }
-    }
-    return getDefaultCode('flowchart');
-  };
-
-  const codeHistory = useHistory<string>(getInitialCode());
+  const [initialCode] = useState(() => initialDocument?.code ?? getDefaultCode('flowchart'));
+  const codeHistory = useHistory<string>(initialCode, { initialHistory, onChange: onHistoryChange });
+  const { setPreview } = codeHistory;
 
   // Validation state
   const [isValid, setIsValid] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [diagnostic, setDiagnostic] = useState<DiagramDiagnostic | null>(null);
   const [svgOutput, setSvgOutput] = useState<string>('');
   const [isRendering, setIsRendering] = useState(false);
+  // How long the last successful render took, in milliseconds
+  const [renderDuration, setRenderDuration] = useState<number | null>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Initialize mermaid
-  useEffect(() => {
-    mermaid.initialize({
-      startOnLoad: false,
-      theme: settings.theme,
-      // Use 'strict' security level to prevent XSS vulnerabilities
-      securityLevel: 'strict',
-      maxTextSize: 50000,
-      fontFamily: 'Inter, system-ui, sans-serif',
-      // Disable HTML labels to use SVG text elements which render more reliably
-      flowchart: {
-        htmlLabels: false,
-      },
-    });
-  }, [settings.theme]);
+  // Only the newest render of this editor may update the preview
+  const [renderChannel] = useState(createRenderChannel);
+  useEffect(() => () => renderChannel.cancel(), [renderChannel]);
 
   // Render diagram
-  const renderDiagram = useCallback(async (code: string, theme: MermaidTheme) => {
+  const renderDiagram = useCallback(async (
+    code: string,
+    theme: MermaidTheme,
+    customTheme?: CustomTheme,
+    preferences?: RenderSettings
+  ) => {
     if (!code.trim()) {
+      renderChannel.cancel();
       setSvgOutput('');
       setIsValid(true);
       setError(null);
+      setDiagnostic(null);
+      setIsRendering(false);
       return;
     }
 
     setIsRendering(true);
 
     try {
-      mermaid.initialize({
-        startOnLoad: false,
-        theme: theme,
-        // Use 'strict' security level to prevent XSS vulnerabilities
-        securityLevel: 'strict',
-        maxTextSize: 50000,
-        fontFamily: 'Inter, system-ui, sans-serif',
-        // Disable HTML labels to use SVG text elements which render more reliably
-        flowchart: {
-          htmlLabels: false,
-        },
-      });
-
-      const { svg } = await mermaid.render(`mermaid-${Date.now()}`, code);
+      const result = await renderChannel.render(code, theme, customTheme, preferences);
+      // A newer render owns the preview and the rendering flag now
+      if (!result) return;
+      const { svg, duration } = result;
       setSvgOutput(svg);
+      setRenderDuration(duration);
+      // Keep the render as the thumbnail of the matching history snapshot
+      setPreview(code, svg);
       setIsValid(true);
       setError(null);
+      setDiagnostic(null);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Invalid diagram syntax';
       setIsValid(false);
       setError(errorMessage);
-    } finally {
-      setIsRendering(false);
+      setDiagnostic(parseMermaidError(err, code));
     }
-  }, []);
+    setIsRendering(false);
+  }, [renderChannel, setPreview]);
 
   // Debounced render
   useEffect(() => {
@@ -120,7 +110,7 @@ export const useDiagramEditor = () => {
     }
 
     debounceRef.current = setTimeout(() => {
-      renderDiagram(codeHistory.state, settings.theme);
+      renderDiagram(codeHistory.state, settings.theme, settings.customTheme, renderSettings);
     }, DEBOUNCE_MS);
 
     return () => {
@@ -128,34 +118,46 @@ export const useDiagramEditor = () => {
         clearTimeout(debounceRef.current);
       }
     };
-  }, [codeHistory.state, settings.theme, renderDiagram]);
+  }, [codeHistory.state, settings.theme, settings.customTheme, renderSettings, renderDiagram]);
+
+  // Keep the latest persist callback without re-running the save effect when it changes
+  const onPersistRef = useRef(onPersist);
+  onPersistRef.current = onPersist;
 
-  // Save to localStorage
+  // Hand content to the workspace, which persists it asynchronously
   useEffect(() => {
-    const state: EditorState = {
+    onPersistRef.current?.({
       code: codeHistory.state,
       diagramType: settings.diagramType,
       theme: settings.theme,
       projectTitle: settings.projectTitle,
-      isValid,
-      error,
-    };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  }, [codeHistory.state, settings, isValid, error]);
+      customTheme: settings.customTheme,
+    });
+  }, [codeHistory.state, settings]);
 
   const setCode = useCallback((code: string) => {
     codeHistory.set(code);
   }, [codeHistory]);
 
+  // Structured edits (e.g. renames from the preview) are always one undo step
+  const replaceCode = useCallback((code: string) => {
+    codeHistory.set(code, { batch: false });
+  }, [codeHistory]);
+
   const setDiagramType = useCallback((diagramType: DiagramType) => {
     const newCode = getDefaultCode(diagramType);
     setSettings(prev => ({ ...prev, diagramType }));
+    // Switching type is an undoable step, so earlier work stays reachable
     codeHistory.set(newCode);
-    codeHistory.clear(); // Clear history when changing diagram type
   }, [codeHistory]);
 
+  // Picking a built-in theme drops the custom one
   const setTheme = useCallback((theme: MermaidTheme) => {
-    setSettings(prev => ({ ...prev, theme }));
+    setSettings(prev => ({ ...prev, theme, customTheme: undefined }));
+  }, []);
+
+  const setCustomTheme = useCallback((customTheme: CustomTheme) => {
+    setSettings(prev => ({ ...prev, customTheme }));
   }, []);
 
   const setProjectTitle = useCallback((projectTitle: string) => {
@@ -174,6 +176,7 @@ export const useDiagramEditor = () => {
     code: string;
     diagramType?: DiagramType;
     theme?: MermaidTheme;
+    customTheme?: CustomTheme;
     title?: string;
   }) => {
     if (data.code) {
@@ -183,7 +186,8 @@ export const useDiagramEditor = () => {
       setSettings(prev => ({
         ...prev,
         ...(data.diagramType && { diagramType: data.diagramType }),
-        ...(data.theme && { theme: data.theme }),
+        // A file's theme comes with its custom theme, or without one
+        ...(data.theme && { theme: data.theme, customTheme: data.customTheme }),
         ...(data.title !== undefined && { projectTitle: data.title }),
       }));
     }
@@ -193,14 +197,19 @@ export const useDiagramEditor = () => {
     code: codeHistory.state,
     diagramType: settings.diagramType,
     theme: settings.theme,
+    customTheme: settings.customTheme,
     projectTitle: settings.projectTitle,
     isValid,
     error,
+    diagnostic,
     svgOutput,
     isRendering,
+    renderDuration,
     setCode,
+    replaceCode,
     setDiagramType,
     setTheme,
+    setCustomTheme,
     setProjectTitle,
     resetToTemplate,
     importProject,
@@ -209,5 +218,7 @@ export const useDiagramEditor = () => {
     redo: codeHistory.redo,
     canUndo: codeHistory.canUndo,
     canRedo: codeHistory.canRedo,
+    history: codeHistory.history,
+    restoreSnapshot: codeHistory.jumpTo,
   };
 };
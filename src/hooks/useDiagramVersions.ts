@@ -0,0 +1,92 @@
+import { useState, useCallback, useEffect } from 'react';
+import { DiagramDocumentContent, DiagramVersion } from '@/types/diagram';
+import { createVersion, openDiagramRepository } from '@/lib/diagramRepository';
+import { renderMermaidSvg } from '@/lib/mermaidRenderer';
+
+/**
+ * Hook managing the named versions saved for one workspace document
+ */
+export const useDiagramVersions = (documentId?: string) => {
+  const [versions, setVersions] = useState<DiagramVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(Boolean(documentId));
+
+  useEffect(() => {
+    if (!documentId) return;
+    let cancelled = false;
+
+    openDiagramRepository()
+      .then(repository => repository.listVersions(documentId))
+      .then((loaded) => {
+        if (!cancelled) setVersions(loaded);
+      })
+      .catch((error) => {
+        console.error('Failed to load versions:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const saveVersion = useCallback(async (name: string, content: DiagramDocumentContent, description?: string) => {
+    if (!documentId) {
+      throw new Error('Versions are only available for saved diagrams');
+    }
+
+    const version = createVersion(documentId, name, content, description);
+    const repository = await openDiagramRepository();
+    await repository.saveVersion(version);
+    setVersions(prev => [version, ...prev]);
+    return version;
+  }, [documentId]);
+
+  const deleteVersion = useCallback(async (id: string) => {
+    const repository = await openDiagramRepository();
+    await repository.deleteVersion(id);
+    setVersions(prev => prev.filter(version => version.id !== id));
+  }, []);
+
+  return {
+    isAvailable: Boolean(documentId),
+    isLoading,
+    versions,
+    saveVersion,
+    deleteVersion,
+  };
+};
+
+/**
+ * Render a saved version so it can be compared with the live diagram
+ */
+export const useVersionPreview = (version?: DiagramVersion) => {
+  const [preview, setPreview] = useState<{ id: string; svg: string | null; error: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!version) return;
+    let cancelled = false;
+
+    renderMermaidSvg(version.code, version.theme, version.customTheme)
+      .then((svg) => {
+        if (!cancelled) setPreview({ id: version.id, svg, error: null });
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setPreview({
+            id: version.id,
+            svg: null,
+            error: error instanceof Error ? error.message : 'Invalid diagram syntax',
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  // Ignore results that belong to a previously selected version
+  return preview && version && preview.id === version.id ? preview : null;
+};
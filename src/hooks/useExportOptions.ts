@@ -0,0 +1,44 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ExportOptions } from '@/types/diagram';
+import { openDiagramRepository } from '@/lib/diagramRepository';
+import { DEFAULT_EXPORT_OPTIONS } from '@/lib/svgExport';
+
+/**
+ * Hook holding the export settings of one workspace document.
+ * Changes stay in memory until `saveOptions` is called after a successful export.
+ */
+export const useExportOptions = (documentId?: string) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  useEffect(() => {
+    setOptions(DEFAULT_EXPORT_OPTIONS);
+    if (!documentId) return;
+    let cancelled = false;
+
+    openDiagramRepository()
+      .then(repository => repository.loadExportOptions(documentId))
+      .then((saved) => {
+        // Fill in settings added since the options were saved
+        if (!cancelled && saved) setOptions({ ...DEFAULT_EXPORT_OPTIONS, ...saved });
+      })
+      .catch((error) => {
+        console.error('Failed to load export options:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const saveOptions = useCallback(async (saved: ExportOptions) => {
+    if (!documentId) return;
+    try {
+      const repository = await openDiagramRepository();
+      await repository.saveExportOptions(documentId, saved);
+    } catch (error) {
+      console.error('Failed to save export options:', error);
+    }
+  }, [documentId]);
+
+  return { options, setOptions, saveOptions };
+};
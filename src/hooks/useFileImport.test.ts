@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useFileImport, useImportDropZone } from '@/hooks/useFileImport';
+
+const mockToast = vi.fn();
+vi.mock('@/hooks/use-toast', () => ({
+    toast: (props: unknown) => mockToast(props),
+}));
+
+// jsdom's File has no text()
+const file = (name: string, content: string) =>
+    Object.assign(new File([content], name, { type: 'text/plain' }), { text: async () => content });
+
+const paste = (data: { files?: File[]; text?: string }, target: EventTarget = document.body) => {
+    const event = new Event('paste', { bubbles: true, cancelable: true });
+    Object.defineProperty(event, 'clipboardData', {
+        value: { files: data.files ?? [], getData: () => data.text ?? '' },
+    });
+    target.dispatchEvent(event);
+    return event;
+};
+
+describe('useFileImport', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should load a single file into the open diagram', async () => {
+        const onImport = vi.fn();
+        const onOpenDiagrams = vi.fn();
+        const { result } = renderHook(() => useFileImport({ onImport, onOpenDiagrams }));
+
+        await act(() => result.current.importFiles([file('flow.mmd', 'flowchart TD\n    A --> B')]));
+
+        expect(onImport).toHaveBeenCalledWith(expect.objectContaining({ code: 'flowchart TD\n    A --> B', diagramType: 'flowchart' }));
+        expect(onOpenDiagrams).not.toHaveBeenCalled();
+        expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Import successful' }));
+    });
+
+    it('should open several files as separate diagrams and skip invalid ones', async () => {
+        const onImport = vi.fn();
+        const onOpenDiagrams = vi.fn();
+        const { result } = renderHook(() => useFileImport({ onImport, onOpenDiagrams }));
+
+        await act(() => result.current.importFiles([
+            file('a.mmd', 'sequenceDiagram\n    A->>B: Hi'),
+            file('b.gv', 'digraph { x -> y }'),
+            file('notes.docx', 'not a diagram'),
+        ]));
+
+        expect(onImport).not.toHaveBeenCalled();
+        expect(onOpenDiagrams).toHaveBeenCalledWith([
+            expect.objectContaining({ fileName: 'a.mmd', diagramType: 'sequence' }),
+            expect.objectContaining({ fileName: 'b.gv', diagramType: 'flowchart' }),
+        ]);
+        expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({
+            title: 'Could not import "notes.docx"',
+            variant: 'destructive',
+        }));
+    });
+
+    it('should let the user pick Markdown diagrams and remember where they came from', async () => {
+        const onImport = vi.fn();
+        const onOpenDiagrams = vi.fn();
+        const { result } = renderHook(() => useFileImport({ onImport, onOpenDiagrams }));
+        const markdown = '# Flow\n```mermaid\nflowchart TD\n    A --> B\n```\n# Calls\n```mermaid\nsequenceDiagram\n    A->>B: Hi\n```\n';
+
+        await act(() => result.current.importFiles([file('README.md', markdown)]));
+
+        expect(result.current.pendingMarkdown?.blocks.map(block => block.title)).toEqual(['Flow', 'Calls']);
+        expect(onOpenDiagrams).not.toHaveBeenCalled();
+
+        act(() => result.current.pickMarkdownBlocks([1]));
+
+        expect(result.current.pendingMarkdown).toBeNull();
+        expect(onOpenDiagrams).toHaveBeenCalledWith([expect.objectContaining({
+            code: 'sequenceDiagram\n    A->>B: Hi',
+            diagramType: 'sequence',
+            title: 'Calls',
+            markdownSource: expect.objectContaining({ fileName: 'README.md', markdown, blockIndex: 1 }),
+        })]);
+        expect(onImport).not.toHaveBeenCalled();
+    });
+
+    it('should reject Markdown files without Mermaid diagrams', async () => {
+        const { result } = renderHook(() => useFileImport({ onImport: vi.fn() }));
+
+        await act(() => result.current.importFiles([file('notes.md', '# Notes\n\nNothing to see.')]));
+
+        expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({
+            description: 'No Mermaid diagrams found in this Markdown file.',
+            variant: 'destructive',
+        }));
+    });
+
+    it('should report what a converted file lost', async () => {
+        const { result } = renderHook(() => useFileImport({ onImport: vi.fn() }));
+
+        await act(() => result.current.importFiles([file('deps.dot', 'digraph { a -> b [color=red] }')]));
+
+        expect(result.current.reports).toEqual([{ fileName: 'deps.dot', warnings: ['Edge colors were dropped'] }]);
+    });
+});
+
+describe('useImportDropZone', () => {
+    it('should import pasted diagram text and files', async () => {
+        const onFiles = vi.fn();
+        renderHook(() => useImportDropZone(onFiles));
+
+        const event = paste({ text: '@startuml\nA -> B : hi\n@enduml' });
+        const pasted = new File(['pie\n    "A": 1'], 'share.mmd');
+        paste({ files: [pasted] });
+
+        expect(event.defaultPrevented).toBe(true);
+        await waitFor(() => expect(onFiles).toHaveBeenCalledTimes(2));
+        expect(onFiles.mock.calls[0][0][0].name).toBe('Pasted diagram.puml');
+        expect(onFiles.mock.calls[1][0]).toEqual([pasted]);
+    });
+
+    it('should leave text fields and plain text alone', () => {
+        const onFiles = vi.fn();
+        renderHook(() => useImportDropZone(onFiles));
+        const input = document.body.appendChild(document.createElement('textarea'));
+
+        paste({ text: 'flowchart TD\n    A --> B' }, input);
+        paste({ text: 'just some notes' });
+
+        expect(onFiles).not.toHaveBeenCalled();
+        input.remove();
+    });
+});
@@ -0,0 +1,208 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { createDocumentId } from '@/lib/diagramRepository';
+import { MarkdownBlock } from '@/lib/markdownImport';
+import { ImportedFile, detectDiagramType, detectPastedFileType, parseImportedFile } from '@/lib/mermaidFileUtils';
+import { ImportReport, MarkdownSource } from '@/types/diagram';
+
+export interface ImportedDiagram extends ImportedFile {
+  fileName: string;
+  markdownSource?: MarkdownSource;
+}
+
+/**
+ * A Markdown file waiting for the user to pick its diagrams
+ */
+export interface PendingMarkdownImport {
+  fileName: string;
+  blocks: MarkdownBlock[];
+}
+
+interface UseFileImportOptions {
+  /** Load a file into the open diagram */
+  onImport: (data: ImportedFile) => void;
+  /**
+   * Open several files, or diagrams picked from Markdown, as diagrams of their own. Opening
+   * switches editors, so the caller reports conversion warnings. Without it only the first is loaded.
+   */
+  onOpenDiagrams?: (diagrams: ImportedDiagram[]) => void;
+}
+
+/**
+ * One diagram per picked Mermaid block, remembering where it came from
+ */
+const fromMarkdown = (file: ImportedDiagram, blockIndexes: number[]): ImportedDiagram[] => {
+  if (!file.markdown) return [];
+  const sourceId = createDocumentId();
+  const baseName = file.fileName.replace(/\.[^.]+$/, '');
+  return file.markdown.blocks
+    .filter(block => blockIndexes.includes(block.index))
+    .map(block => ({
+      code: block.code,
+      diagramType: detectDiagramType(block.code),
+      title: block.title || `${baseName} (${block.index + 1})`,
+      fileName: file.fileName,
+      markdownSource: { id: sourceId, fileName: file.fileName, markdown: file.markdown.source, blockIndex: block.index },
+    }));
+};
+
+/**
+ * Hook that reads dropped, pasted or picked files and reports the outcome.
+ * Markdown files with several diagrams wait in `pendingMarkdown` until the user picks some.
+ */
+export const useFileImport = ({ onImport, onOpenDiagrams }: UseFileImportOptions) => {
+  const [reports, setReports] = useState<ImportReport[]>([]);
+  // Markdown files still to pick from, and the diagrams ready to open once they are done
+  const [pending, setPending] = useState<{ queue: ImportedDiagram[]; ready: ImportedDiagram[] } | null>(null);
+
+  const openDiagrams = useCallback((diagrams: ImportedDiagram[], fileCount: number) => {
+    if (diagrams.length === 0) return;
+
+    // Diagrams from Markdown always get their own document, so they can be written back
+    if (onOpenDiagrams && (diagrams.length > 1 || diagrams[0].markdownSource)) {
+      onOpenDiagrams(diagrams);
+      toast({
+        title: 'Import successful',
+        description: diagrams.length > 1 ? `Opened ${diagrams.length} diagrams.` : `Opened "${diagrams[0].title}".`,
+      });
+      return;
+    }
+
+    const [diagram] = diagrams;
+    onImport(diagram);
+    if (diagram.warnings?.length) {
+      setReports([{ fileName: diagram.fileName, warnings: diagram.warnings }]);
+    } else {
+      toast({
+        title: 'Import successful',
+        description: fileCount > 1 || diagrams.length > 1
+          ? `Loaded "${diagram.fileName}". Only one file can be imported here.`
+          : `Loaded "${diagram.fileName}" successfully.`,
+      });
+    }
+  }, [onImport, onOpenDiagrams]);
+
+  const importFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const results = await Promise.allSettled(files.map(file => parseImportedFile(file)));
+    const diagrams: ImportedDiagram[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        diagrams.push({ ...result.value, fileName: files[index].name });
+        return;
+      }
+      console.error('Import error:', result.reason);
+      toast({
+        title: files.length > 1 ? `Could not import "${files[index].name}"` : 'Import failed',
+        description: result.reason instanceof Error ? result.reason.message : 'Failed to import file.',
+        variant: 'destructive',
+      });
+    });
+
+    const queue = diagrams.filter(diagram => diagram.markdown && diagram.markdown.blocks.length > 1);
+    const ready = diagrams.flatMap(diagram => {
+      if (!diagram.markdown) return [diagram];
+      return queue.includes(diagram) ? [] : fromMarkdown(diagram, [0]);
+    });
+
+    if (queue.length > 0) {
+      setPending({ queue, ready });
+    } else {
+      openDiagrams(ready, files.length);
+    }
+  }, [openDiagrams]);
+
+  // Take the picked blocks of the first waiting Markdown file; an empty pick skips it
+  const pickMarkdownBlocks = useCallback((blockIndexes: number[]) => {
+    if (!pending) return;
+    const [current, ...queue] = pending.queue;
+    const ready = [...pending.ready, ...fromMarkdown(current, blockIndexes)];
+
+    if (queue.length > 0) {
+      setPending({ queue, ready });
+    } else {
+      setPending(null);
+      openDiagrams(ready, ready.length);
+    }
+  }, [pending, openDiagrams]);
+
+  const closeReports = useCallback(() => setReports([]), []);
+
+  const waiting = pending?.queue[0];
+  const pendingMarkdown: PendingMarkdownImport | null = waiting?.markdown
+    ? { fileName: waiting.fileName, blocks: waiting.markdown.blocks }
+    : null;
+
+  return { importFiles, reports, closeReports, pendingMarkdown, pickMarkdownBlocks };
+};
+
+// Paste and drop inside these belongs to the field, not the importer
+const EDITABLE_SELECTOR = 'input, textarea, select, [contenteditable="true"], .monaco-editor';
+
+const hasFiles = (event: React.DragEvent) => Array.from(event.dataTransfer.types).includes('Files');
+
+/**
+ * Hook that accepts files dropped onto an element, and diagram files or text pasted
+ * anywhere on the page outside text fields
+ */
+export const useImportDropZone = (onFiles: (files: File[]) => void) => {
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // dragenter and dragleave fire for every child crossed
+  const dragDepthRef = useRef(0);
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest?.(EDITABLE_SELECTOR) || !event.clipboardData) return;
+
+      const files = Array.from(event.clipboardData.files);
+      if (files.length > 0) {
+        event.preventDefault();
+        onFiles(files);
+        return;
+      }
+
+      const text = event.clipboardData.getData('text/plain');
+      const fileType = text && detectPastedFileType(text);
+      if (fileType) {
+        event.preventDefault();
+        onFiles([new File([text], `Pasted diagram.${fileType}`, { type: 'text/plain' })]);
+      }
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [onFiles]);
+
+  // Capture handlers run before the code editor gets a chance to insert the file as text
+  const dropZoneProps = {
+    onDragEnterCapture: (event: React.DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepthRef.current += 1;
+      setIsDraggingFiles(true);
+    },
+    onDragOverCapture: (event: React.DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      event.dataTransfer.dropEffect = 'copy';
+    },
+    onDragLeaveCapture: (event: React.DragEvent) => {
+      if (!hasFiles(event)) return;
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+      if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+    },
+    onDropCapture: (event: React.DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      dragDepthRef.current = 0;
+      setIsDraggingFiles(false);
+      onFiles(Array.from(event.dataTransfer.files));
+    },
+  };
+
+  return { isDraggingFiles, dropZoneProps };
+};
@@ -1,117 +1,120 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+    HistoryTree,
+    canRedo as canRedoHistory,
+    canUndo as canUndoHistory,
+    commit,
+    createHistory,
+    getCurrentNode,
+    isHistoryTree,
+    jumpTo as jumpToNode,
+    redo as redoHistory,
+    setPreview as setNodePreview,
+    undo as undoHistory,
+} from '@/lib/history';
+
+interface UseHistoryOptions<T> {
+    /** Previously saved history to continue from */
+    initialHistory?: HistoryTree<T>;
+    /** Called whenever the history tree changes, e.g. to persist it */
+    onChange?: (history: HistoryTree<T>) => void;
+}
 
-interface HistoryState<T> {
-    past: T[];
-    present: T;
-    future: T[];
+interface SetOptions {
+    /** Merge with a change made moments before, as typing does; defaults to true */
+    batch?: boolean;
 }
 
 interface UseHistoryReturn<T> {
     state: T;
-    set: (newState: T | ((prev: T) => T)) => void;
+    set: (newState: T | ((prev: T) => T), options?: SetOptions) => void;
     undo: () => void;
     redo: () => void;
     canUndo: boolean;
     canRedo: boolean;
-    clear: () => void;
+    history: HistoryTree<T>;
+    jumpTo: (id: string) => void;
+    setPreview: (value: T, preview: string) => void;
 }
 
-const MAX_HISTORY_LENGTH = 50;
-
-export function useHistory<T>(initialPresent: T): UseHistoryReturn<T> {
-    const [history, setHistory] = useState<HistoryState<T>>({
-        past: [],
-        present: initialPresent,
-        future: [],
+const BATCH_THRESHOLD_MS = 500;
+
+export function useHistory<T>(initialPresent: T, { initialHistory, onChange }: UseHistoryOptions<T> = {}): UseHistoryReturn<T> {
+    const [history, setHistory] = useState<HistoryTree<T>>(() => {
+        if (!isHistoryTree<T>(initialHistory)) {
+            return createHistory(initialPresent);
+        }
+        // The saved history may lag behind the document if the page closed mid-save
+        const current = getCurrentNode(initialHistory).value;
+        return JSON.stringify(current) === JSON.stringify(initialPresent)
+            ? initialHistory
+            : commit(initialHistory, initialPresent);
     });
 
     // Track if the current change should be batched with the previous one
-    const batchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const lastChangeTimeRef = useRef<number>(0);
-    const BATCH_THRESHOLD_MS = 500;
 
-    const set = useCallback((newState: T | ((prev: T) => T)) => {
+    const set = useCallback((newState: T | ((prev: T) => T), { batch = true }: SetOptions = {}) => {
         setHistory((prevHistory) => {
+            const present = getCurrentNode(prevHistory).value;
             const resolvedNewState =
                 typeof newState === 'function'
-                    ? (newState as (prev: T) => T)(prevHistory.present)
+                    ? (newState as (prev: T) => T)(present)
                     : newState;
 
             // Don't add to history if the state hasn't changed
-            if (JSON.stringify(resolvedNewState) === JSON.stringify(prevHistory.present)) {
+            if (JSON.stringify(resolvedNewState) === JSON.stringify(present)) {
                 return prevHistory;
             }
 
             const now = Date.now();
             const timeSinceLastChange = now - lastChangeTimeRef.current;
-            lastChangeTimeRef.current = now;
+            // Unbatched changes are a step of their own, so the next keystroke starts a new one too
+            lastChangeTimeRef.current = batch ? now : 0;
 
             // Batch rapid changes to avoid filling history with every keystroke
-            if (timeSinceLastChange < BATCH_THRESHOLD_MS && prevHistory.past.length > 0) {
-                // Update present without adding to history (batch with previous)
-                return {
-                    ...prevHistory,
-                    present: resolvedNewState,
-                    future: [], // Clear future on any new change
-                };
-            }
-
-            // Limit history length
-            const newPast = [...prevHistory.past, prevHistory.present].slice(-MAX_HISTORY_LENGTH);
-
-            return {
-                past: newPast,
-                present: resolvedNewState,
-                future: [], // Clear future on new change
-            };
+            return commit(prevHistory, resolvedNewState, batch && timeSinceLastChange < BATCH_THRESHOLD_MS);
         });
     }, []);
 
     const undo = useCallback(() => {
-        setHistory((prevHistory) => {
-            if (prevHistory.past.length === 0) return prevHistory;
-
-            const previous = prevHistory.past[prevHistory.past.length - 1];
-            const newPast = prevHistory.past.slice(0, -1);
-
-            return {
-                past: newPast,
-                present: previous,
-                future: [prevHistory.present, ...prevHistory.future],
-            };
-        });
+        lastChangeTimeRef.current = 0;
+        setHistory(undoHistory);
     }, []);
 
     const redo = useCallback(() => {
-        setHistory((prevHistory) => {
-            if (prevHistory.future.length === 0) return prevHistory;
-
-            const next = prevHistory.future[0];
-            const newFuture = prevHistory.future.slice(1);
+        lastChangeTimeRef.current = 0;
+        setHistory(redoHistory);
+    }, []);
 
-            return {
-                past: [...prevHistory.past, prevHistory.present],
-                present: next,
-                future: newFuture,
-            };
-        });
+    const jumpTo = useCallback((id: string) => {
+        lastChangeTimeRef.current = 0;
+        setHistory(prevHistory => jumpToNode(prevHistory, id));
     }, []);
 
-    const clear = useCallback(() => {
-        setHistory((prevHistory) => ({
-            past: [],
-            present: prevHistory.present,
-            future: [],
-        }));
+    const setPreview = useCallback((value: T, preview: string) => {
+        setHistory(prevHistory => setNodePreview(prevHistory, value, preview));
     }, []);
 
+    // Report changes, skipping the tree we started from
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+    const reportedRef = useRef(initialHistory);
+    useEffect(() => {
+        if (history === reportedRef.current) return;
+        reportedRef.current = history;
+        onChangeRef.current?.(history);
+    }, [history]);
+
     return {
-        state: history.present,
+        state: getCurrentNode(history).value,
         set,
         undo,
         redo,
-        canUndo: history.past.length > 0,
-        canRedo: history.future.length > 0,
-        clear,
+        canUndo: canUndoHistory(history),
+        canRedo: canRedoHistory(history),
+        history,
+        jumpTo,
+        setPreview,
     };
 }
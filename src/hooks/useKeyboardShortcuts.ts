@@ -16,6 +16,7 @@ interface UseKeyboardShortcutsOptions {
     zoomOut?: KeyboardHandler;
     zoomReset?: KeyboardHandler;
     export?: KeyboardHandler;
+    copyImage?: KeyboardHandler;
     enabled?: boolean;
 }
 
@@ -32,6 +33,7 @@ interface UseKeyboardShortcutsOptions {
  * - Ctrl+Minus: Zoom Out
  * - Ctrl+0: Reset Zoom
  * - Ctrl+E: Export dialog
+ * - Shift+Alt+C: Copy diagram as PNG
  */
 export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions) {
     const {
@@ -44,6 +46,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions) {
         zoomOut,
         zoomReset,
         export: exportFn,
+        copyImage,
         enabled = true,
     } = options;
 
@@ -59,9 +62,16 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions) {
             // Allow shortcuts in Monaco Editor but not in regular inputs
             if (isInputField) return;
 
-            const { key, ctrlKey, metaKey, shiftKey } = event;
+            const { key, code, ctrlKey, metaKey, shiftKey, altKey } = event;
             const cmdOrCtrl = ctrlKey || metaKey;
 
+            // Match the physical key: Alt changes the typed character on macOS
+            if (altKey && shiftKey && !cmdOrCtrl && code === 'KeyC' && copyImage) {
+                event.preventDefault();
+                copyImage();
+                return;
+            }
+
             if (cmdOrCtrl) {
                 switch (key.toLowerCase()) {
                     case 'z':
@@ -133,7 +143,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions) {
                 }
             }
         },
-        [enabled, undo, redo, save, open, reset, zoomIn, zoomOut, zoomReset, exportFn]
+        [enabled, undo, redo, save, open, reset, zoomIn, zoomOut, zoomReset, exportFn, copyImage]
     );
 
     useEffect(() => {
@@ -0,0 +1,43 @@
+import { useState, useCallback, useEffect } from 'react';
+import { RenderSettings } from '@/types/diagram';
+import { openDiagramRepository } from '@/lib/diagramRepository';
+import { DEFAULT_RENDER_SETTINGS, renderSettingsSchema } from '@/lib/mermaidConfig';
+
+/**
+ * Hook holding the render settings panel, shared by every document
+ */
+export const useRenderSettings = () => {
+  const [settings, setSettings] = useState<RenderSettings>(DEFAULT_RENDER_SETTINGS);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    openDiagramRepository()
+      .then(repository => repository.loadRenderSettings())
+      .then((saved) => {
+        // Fill in settings added since they were saved; anything unreadable falls back to the defaults
+        const result = renderSettingsSchema.safeParse({ ...DEFAULT_RENDER_SETTINGS, ...saved });
+        if (!cancelled && saved && result.success) setSettings(result.data as RenderSettings);
+      })
+      .catch((error) => {
+        console.error('Failed to load render settings:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateSettings = useCallback(async (changes: Partial<RenderSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    try {
+      const repository = await openDiagramRepository();
+      await repository.saveRenderSettings(next);
+    } catch (error) {
+      console.error('Failed to save render settings:', error);
+    }
+  }, [settings]);
+
+  return { settings, updateSettings };
+};
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useWorkspace, filterDocuments } from '@/hooks/useWorkspace';
+import { createDocument } from '@/lib/diagramRepository';
+
+const renderWorkspace = async () => {
+    const hook = renderHook(() => useWorkspace());
+    await waitFor(() => expect(hook.result.current.isLoading).toBe(false));
+    return hook;
+};
+
+describe('useWorkspace', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    describe('initialization', () => {
+        it('should start with a single default diagram', async () => {
+            const { result } = await renderWorkspace();
+
+            expect(result.current.documents).toHaveLength(1);
+            expect(result.current.activeDocument.diagramType).toBe('flowchart');
+        });
+    });
+
+    describe('document management', () => {
+        it('should create and select a new diagram', async () => {
+            const { result } = await renderWorkspace();
+            const firstId = result.current.activeId;
+
+            act(() => {
+                result.current.addDocument('class');
+            });
+
+            expect(result.current.documents).toHaveLength(2);
+            expect(result.current.activeId).not.toBe(firstId);
+            expect(result.current.activeDocument.diagramType).toBe('class');
+        });
+
+        it('should duplicate a diagram with its content', async () => {
+            const { result } = await renderWorkspace();
+            const sourceId = result.current.activeId;
+
+            act(() => {
+                result.current.renameDocument(sourceId, 'Checkout');
+            });
+            act(() => {
+                result.current.duplicateDocument(sourceId);
+            });
+
+            expect(result.current.documents).toHaveLength(2);
+            expect(result.current.activeDocument.projectTitle).toBe('Checkout (copy)');
+            expect(result.current.activeDocument.code).toBe(result.current.documents[0].code);
+        });
+
+        it('should open several diagrams at once and select the first', async () => {
+            const { result } = await renderWorkspace();
+
+            act(() => {
+                result.current.openDocuments([
+                    { code: 'sequenceDiagram\n    A->>B: Hi', diagramType: 'sequence', projectTitle: 'Login' },
+                    { code: 'pie\n    "A": 1', diagramType: 'pie', projectTitle: 'Share' },
+                ]);
+            });
+
+            expect(result.current.documents.map(doc => doc.projectTitle)).toEqual(['Login', 'Share', '']);
+            expect(result.current.activeDocument.diagramType).toBe('sequence');
+        });
+
+        it('should keep one diagram when the last one is deleted', async () => {
+            const { result } = await renderWorkspace();
+            const onlyId = result.current.activeId;
+
+            act(() => {
+                result.current.deleteDocument(onlyId);
+            });
+
+            expect(result.current.documents).toHaveLength(1);
+            expect(result.current.activeId).not.toBe(onlyId);
+        });
+
+        it('should persist edits and restore them on the next load', async () => {
+            const { result, unmount } = await renderWorkspace();
+
+            act(() => {
+                result.current.updateDocument(result.current.activeId, { code: 'pie\n    "A" : 1' });
+            });
+
+            await waitFor(() => {
+                const saved = JSON.parse(localStorage.getItem('flowgen-store:documents') || '{}');
+                expect(Object.values(saved)).toHaveLength(1);
+            });
+            unmount();
+
+            const { result: reloaded } = await renderWorkspace();
+            expect(reloaded.current.activeDocument.code).toBe('pie\n    "A" : 1');
+        });
+    });
+
+    describe('filterDocuments', () => {
+        it('should match titles and code case-insensitively', () => {
+            const documents = [
+                createDocument({ projectTitle: 'Billing flow' }),
+                createDocument({ diagramType: 'er', code: 'erDiagram\n    INVOICE ||--o{ LINE : has' }),
+            ];
+
+            expect(filterDocuments(documents, 'billing')).toHaveLength(1);
+            expect(filterDocuments(documents, 'INVOICE')).toHaveLength(1);
+            expect(filterDocuments(documents, '  ')).toHaveLength(2);
+        });
+    });
+});
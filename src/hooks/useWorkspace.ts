@@ -0,0 +1,274 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { DiagramDocument, DiagramDocumentContent, DiagramType, WorkspaceState } from '@/types/diagram';
+import { DiagramRepository, DocumentHistory, createDocument, openDiagramRepository } from '@/lib/diagramRepository';
+
+const SAVE_DEBOUNCE_MS = 300;
+
+const createInitialWorkspace = (): WorkspaceState => {
+  const initial = createDocument();
+  return { activeId: initial.id, documents: [initial] };
+};
+
+/**
+ * Case-insensitive search over document titles, diagram types and code
+ */
+export const filterDocuments = (documents: DiagramDocument[], query: string): DiagramDocument[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return documents;
+
+  return documents.filter(doc =>
+    doc.projectTitle.toLowerCase().includes(needle) ||
+    doc.diagramType.toLowerCase().includes(needle) ||
+    doc.code.toLowerCase().includes(needle)
+  );
+};
+
+/**
+ * Write only the documents that changed since the last save, and drop deleted ones
+ */
+const persistWorkspace = async (
+  repository: DiagramRepository,
+  workspace: WorkspaceState,
+  persisted: Map<string, DiagramDocument>
+) => {
+  const writes: Promise<void>[] = [repository.saveWorkspaceMeta(workspace)];
+  const currentIds = new Set<string>();
+
+  for (const doc of workspace.documents) {
+    currentIds.add(doc.id);
+    if (persisted.get(doc.id) !== doc) {
+      writes.push(repository.saveDocument(doc));
+      persisted.set(doc.id, doc);
+    }
+  }
+
+  for (const id of Array.from(persisted.keys())) {
+    if (!currentIds.has(id)) {
+      writes.push(repository.deleteDocument(id));
+      persisted.delete(id);
+    }
+  }
+
+  await Promise.all(writes);
+};
+
+/**
+ * Hook managing the library of diagrams shown in the workspace sidebar
+ */
+export const useWorkspace = () => {
+  const [workspace, setWorkspace] = useState<WorkspaceState | null>(null);
+  const repositoryRef = useRef<DiagramRepository | null>(null);
+  const persistedRef = useRef(new Map<string, DiagramDocument>());
+
+  // Load from the repository (IndexedDB or localStorage fallback)
+  useEffect(() => {
+    let cancelled = false;
+
+    openDiagramRepository()
+      .then(async (repository) => {
+        const loaded = await repository.loadWorkspace();
+        if (cancelled) return;
+
+        repositoryRef.current = repository;
+        if (loaded) {
+          loaded.documents.forEach(doc => persistedRef.current.set(doc.id, doc));
+        }
+        setWorkspace(loaded || createInitialWorkspace());
+      })
+      .catch((error) => {
+        console.error('Failed to open diagram storage:', error);
+        if (!cancelled) {
+          setWorkspace(createInitialWorkspace());
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Save changes asynchronously, batching rapid edits
+  useEffect(() => {
+    const repository = repositoryRef.current;
+    if (!workspace || !repository) return;
+
+    const timer = setTimeout(() => {
+      persistWorkspace(repository, workspace, persistedRef.current).catch((error) => {
+        console.error('Failed to save workspace:', error);
+      });
+    }, SAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [workspace]);
+
+  // Undo histories are saved separately from documents, batched the same way
+  const pendingHistoryRef = useRef(new Map<string, DocumentHistory>());
+  const historyTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flushHistory = useCallback(async () => {
+    if (historyTimerRef.current) {
+      clearTimeout(historyTimerRef.current);
+      historyTimerRef.current = null;
+    }
+    const repository = repositoryRef.current;
+    if (!repository) return;
+
+    const pending = Array.from(pendingHistoryRef.current);
+    pendingHistoryRef.current.clear();
+    await Promise.all(pending.map(([id, history]) => repository.saveHistory(id, history)));
+  }, []);
+
+  const saveHistory = useCallback((id: string, history: DocumentHistory) => {
+    pendingHistoryRef.current.set(id, history);
+    if (historyTimerRef.current) {
+      clearTimeout(historyTimerRef.current);
+    }
+    historyTimerRef.current = setTimeout(() => {
+      flushHistory().catch((error) => {
+        console.error('Failed to save history:', error);
+      });
+    }, SAVE_DEBOUNCE_MS);
+  }, [flushHistory]);
+
+  const loadHistory = useCallback(async (id: string): Promise<DocumentHistory | undefined> => {
+    // Prefer a history that is still waiting to be written
+    const pending = pendingHistoryRef.current.get(id);
+    if (pending) return pending;
+
+    try {
+      const repository = repositoryRef.current || await openDiagramRepository();
+      return await repository.loadHistory(id);
+    } catch (error) {
+      console.error('Failed to load history:', error);
+      return undefined;
+    }
+  }, []);
+
+  // Flush pending edits when the page is hidden or closed
+  const latestWorkspaceRef = useRef(workspace);
+  latestWorkspaceRef.current = workspace;
+  useEffect(() => {
+    const flush = () => {
+      const repository = repositoryRef.current;
+      const latest = latestWorkspaceRef.current;
+      if (repository && latest) {
+        persistWorkspace(repository, latest, persistedRef.current).catch(() => {
+          // ignore - the page is going away
+        });
+      }
+      flushHistory().catch(() => {
+        // ignore - the page is going away
+      });
+    };
+
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flushHistory]);
+
+  const activeDocument = useMemo(
+    () => workspace && (workspace.documents.find(doc => doc.id === workspace.activeId) || workspace.documents[0]),
+    [workspace]
+  );
+
+  const selectDocument = useCallback((id: string) => {
+    setWorkspace(prev =>
+      prev && prev.documents.some(doc => doc.id === id) ? { ...prev, activeId: id } : prev
+    );
+  }, []);
+
+  const addDocument = useCallback((diagramType: DiagramType = 'flowchart') => {
+    const doc = createDocument({ diagramType });
+    setWorkspace(prev => prev && { activeId: doc.id, documents: [doc, ...prev.documents] });
+    return doc.id;
+  }, []);
+
+  /**
+   * Add several diagrams at once, e.g. imported files, and select the first of them
+   */
+  const openDocuments = useCallback((contents: Partial<DiagramDocumentContent & Pick<DiagramDocument, 'markdownSource' | 'createdAt'>>[]) => {
+    const docs = contents.map(content => createDocument(content));
+    if (docs.length === 0) return [];
+    setWorkspace(prev => prev && { activeId: docs[0].id, documents: [...docs, ...prev.documents] });
+    return docs.map(doc => doc.id);
+  }, []);
+
+  const duplicateDocument = useCallback((id: string) => {
+    setWorkspace(prev => {
+      const index = prev ? prev.documents.findIndex(doc => doc.id === id) : -1;
+      if (index === -1) return prev;
+
+      const source = prev.documents[index];
+      const copy = createDocument({
+        code: source.code,
+        diagramType: source.diagramType,
+        theme: source.theme,
+        projectTitle: `${source.projectTitle || 'Untitled Project'} (copy)`,
+      });
+      const documents = [...prev.documents];
+      documents.splice(index + 1, 0, copy);
+      return { activeId: copy.id, documents };
+    });
+  }, []);
+
+  const updateDocument = useCallback((id: string, changes: Partial<DiagramDocumentContent & Pick<DiagramDocument, 'createdAt'>>) => {
+    setWorkspace(prev => {
+      const current = prev?.documents.find(doc => doc.id === id);
+      if (!current) return prev;
+
+      // An explicit undefined clears the field, e.g. a custom theme that was dropped
+      const isUnchanged = (Object.keys(changes) as (keyof typeof changes)[])
+        .every(key => changes[key] === current[key]);
+      if (isUnchanged) return prev;
+
+      return {
+        ...prev,
+        documents: prev.documents.map(doc =>
+          doc.id === id ? { ...doc, ...changes, updatedAt: new Date().toISOString() } : doc
+        ),
+      };
+    });
+  }, []);
+
+  const renameDocument = useCallback((id: string, projectTitle: string) => {
+    updateDocument(id, { projectTitle: projectTitle.trim() });
+  }, [updateDocument]);
+
+  const deleteDocument = useCallback((id: string) => {
+    // The repository drops the saved history together with the document
+    pendingHistoryRef.current.delete(id);
+    setWorkspace(prev => {
+      const index = prev ? prev.documents.findIndex(doc => doc.id === id) : -1;
+      if (index === -1) return prev;
+
+      const documents = prev.documents.filter(doc => doc.id !== id);
+      // The workspace always keeps at least one diagram open
+      if (documents.length === 0) {
+        return createInitialWorkspace();
+      }
+
+      const activeId = prev.activeId === id
+        ? documents[Math.min(index, documents.length - 1)].id
+        : prev.activeId;
+      return { activeId, documents };
+    });
+  }, []);
+
+  return {
+    isLoading: workspace === null,
+    documents: workspace?.documents || [],
+    activeId: activeDocument?.id,
+    activeDocument,
+    selectDocument,
+    addDocument,
+    openDocuments,
+    duplicateDocument,
+    updateDocument,
+    renameDocument,
+    deleteDocument,
+    loadHistory,
+    saveHistory,
+  };
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { copyDiagram, toMarkdownBlock } from '@/lib/clipboard';
+import { DEFAULT_EXPORT_OPTIONS, exportRaster } from '@/lib/svgExport';
+
+vi.mock('@/lib/svgExport', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@/lib/svgExport')>(),
+    exportRaster: vi.fn(() => Promise.resolve(new Blob(['png'], { type: 'image/png' }))),
+}));
+
+describe('clipboard', () => {
+    const source = {
+        svg: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"></svg>',
+        code: 'graph TD\n    A --> B\n',
+        theme: 'default' as const,
+        options: { ...DEFAULT_EXPORT_OPTIONS, format: 'jpg' as const },
+    };
+    const clipboard = { write: vi.fn(), writeText: vi.fn() };
+
+    beforeEach(() => {
+        Object.defineProperty(navigator, 'clipboard', { value: clipboard, configurable: true });
+        vi.stubGlobal('ClipboardItem', class {
+            constructor(public items: Record<string, Promise<Blob>>) { }
+        });
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('toMarkdownBlock', () => {
+        it('should fence code in a mermaid block longer than any backticks inside it', () => {
+            expect(toMarkdownBlock(source.code)).toBe('```mermaid\ngraph TD\n    A --> B\n```\n');
+            expect(toMarkdownBlock('graph TD\n    A["```"]')).toBe('````mermaid\ngraph TD\n    A["```"]\n````\n');
+        });
+    });
+
+    describe('copyDiagram', () => {
+        it('should copy code and Markdown as text', async () => {
+            await copyDiagram('mermaid', source);
+            await copyDiagram('markdown', source);
+
+            expect(clipboard.writeText).toHaveBeenNthCalledWith(1, source.code);
+            expect(clipboard.writeText).toHaveBeenNthCalledWith(2, toMarkdownBlock(source.code));
+        });
+
+        it('should copy SVG markup with the export padding and background', async () => {
+            await copyDiagram('svg', source);
+
+            expect(clipboard.writeText.mock.calls[0][0]).toContain('viewBox="-40 -40 90 90"');
+            expect(clipboard.writeText.mock.calls[0][0]).toContain('class="export-bg"');
+        });
+
+        it('should copy a PNG even when the export format is JPG', async () => {
+            await copyDiagram('png', source);
+
+            const [item] = clipboard.write.mock.calls[0][0];
+            expect(Object.keys(item.items)).toEqual(['image/png']);
+            expect(exportRaster).toHaveBeenCalledWith(source.svg, expect.objectContaining({ format: 'png' }), 'default', undefined);
+        });
+
+        it('should explain when the clipboard is unavailable', async () => {
+            Object.defineProperty(navigator, 'clipboard', { value: undefined, configurable: true });
+
+            await expect(copyDiagram('mermaid', source)).rejects.toThrow('not available');
+        });
+    });
+});
@@ -0,0 +1,72 @@
+import { CustomTheme, ExportOptions, MermaidTheme } from '@/types/diagram';
+import { exportRaster, prepareSvgForExport } from '@/lib/svgExport';
+
+/**
+ * Copy the diagram to the clipboard as an image, SVG markup or source code
+ */
+
+export type CopyFormat = 'png' | 'svg' | 'mermaid' | 'markdown';
+
+export const COPY_FORMAT_LABELS: Record<CopyFormat, string> = {
+    png: 'PNG image',
+    svg: 'SVG markup',
+    mermaid: 'Mermaid code',
+    markdown: 'Markdown block',
+};
+
+interface CopySource {
+    svg: string;
+    code: string;
+    theme: MermaidTheme;
+    customTheme?: CustomTheme | null;
+    options: ExportOptions;
+}
+
+/**
+ * Wrap code in a mermaid fence, longer than any backtick run inside it
+ */
+export function toMarkdownBlock(code: string): string {
+    const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `${fence}mermaid\n${code.trimEnd()}\n${fence}\n`;
+}
+
+function requireClipboard(): Clipboard {
+    if (!navigator.clipboard) {
+        throw new Error('Clipboard access is not available in this browser.');
+    }
+    return navigator.clipboard;
+}
+
+/**
+ * Write plain text, such as a share link, to the clipboard
+ */
+export async function copyText(text: string): Promise<void> {
+    await requireClipboard().writeText(text);
+}
+
+/**
+ * Write the diagram to the clipboard in the given format
+ */
+export async function copyDiagram(format: CopyFormat, { svg, code, theme, customTheme, options }: CopySource): Promise<void> {
+    const clipboard = requireClipboard();
+
+    switch (format) {
+        case 'png':
+            if (typeof ClipboardItem === 'undefined') {
+                throw new Error('Copying images is not supported in this browser.');
+            }
+            // Hand the pending blob over right away so Safari keeps the user gesture
+            await clipboard.write([new ClipboardItem({ 'image/png': exportRaster(svg, { ...options, format: 'png' }, theme, customTheme) })]);
+            break;
+        case 'svg':
+            await clipboard.writeText(prepareSvgForExport(svg, options, theme, customTheme));
+            break;
+        case 'mermaid':
+            await clipboard.writeText(code);
+            break;
+        case 'markdown':
+            await clipboard.writeText(toMarkdownBlock(code));
+            break;
+    }
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_THEME_VARIABLES, validateThemeVariables } from '@/lib/customThemes';
+import { getMermaidConfig } from '@/lib/mermaidRenderer';
+
+const brand = { id: 'brand', name: 'Brand', variables: { primaryColor: '#1e40af', lineColor: '#f97316', fontFamily: 'Georgia, serif' } };
+
+describe('customThemes', () => {
+    it('should accept the default variables', () => {
+        expect(validateThemeVariables(DEFAULT_THEME_VARIABLES)).toEqual({});
+    });
+
+    it('should name every invalid variable', () => {
+        expect(validateThemeVariables({
+            primaryColor: 'red',
+            lineColor: '#12345',
+            fontFamily: 'Inter; } svg { display: none',
+            fontSize: 'huge',
+        })).toEqual({
+            primaryColor: 'must be a hex colour such as #1e40af',
+            lineColor: 'must be a hex colour such as #1e40af',
+            fontFamily: 'may only contain font names, quotes and commas',
+            fontSize: 'must be a size such as 16px',
+        });
+    });
+
+    it('should render custom themes on top of the base theme', () => {
+        expect(getMermaidConfig('dark', brand)).toMatchObject({
+            theme: 'base',
+            themeVariables: brand.variables,
+            fontFamily: 'Georgia, serif',
+            securityLevel: 'strict',
+        });
+        expect(getMermaidConfig('dark')).toMatchObject({ theme: 'dark', fontFamily: 'Inter, system-ui, sans-serif' });
+        expect(getMermaidConfig('dark').themeVariables).not.toHaveProperty('primaryColor');
+    });
+});
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { ThemeVariables } from '@/types/diagram';
+
+/**
+ * Custom themes: Mermaid's `base` theme with user-chosen themeVariables
+ */
+
+export interface ThemeVariableField {
+    key: keyof ThemeVariables;
+    label: string;
+    kind: 'color' | 'text';
+    placeholder?: string;
+}
+
+export const THEME_VARIABLE_FIELDS: ThemeVariableField[] = [
+    { key: 'primaryColor', label: 'Node fill', kind: 'color' },
+    { key: 'primaryTextColor', label: 'Node text', kind: 'color' },
+    { key: 'primaryBorderColor', label: 'Node border', kind: 'color' },
+    { key: 'secondaryColor', label: 'Secondary fill', kind: 'color' },
+    { key: 'tertiaryColor', label: 'Tertiary fill', kind: 'color' },
+    { key: 'lineColor', label: 'Lines', kind: 'color' },
+    { key: 'textColor', label: 'Text', kind: 'color' },
+    { key: 'background', label: 'Background', kind: 'color' },
+    { key: 'fontFamily', label: 'Font family', kind: 'text', placeholder: 'Inter, system-ui, sans-serif' },
+    { key: 'fontSize', label: 'Font size', kind: 'text', placeholder: '16px' },
+];
+
+export const DEFAULT_THEME_VARIABLES: Required<ThemeVariables> = {
+    primaryColor: '#e0e7ff',
+    primaryTextColor: '#1e1b4b',
+    primaryBorderColor: '#6366f1',
+    secondaryColor: '#fef3c7',
+    tertiaryColor: '#ecfdf5',
+    lineColor: '#475569',
+    textColor: '#0f172a',
+    background: '#ffffff',
+    fontFamily: 'Inter, system-ui, sans-serif',
+    fontSize: '16px',
+};
+
+// The values end up in the diagram's <style>, so only plain colours, sizes and font names pass.
+// Mermaid's theming only understands hex colours.
+const color = z.string().regex(/^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i, 'must be a hex colour such as #1e40af');
+
+export const themeVariablesSchema = z.object({
+    primaryColor: color.optional(),
+    primaryTextColor: color.optional(),
+    primaryBorderColor: color.optional(),
+    secondaryColor: color.optional(),
+    tertiaryColor: color.optional(),
+    lineColor: color.optional(),
+    textColor: color.optional(),
+    background: color.optional(),
+    fontFamily: z.string().max(200).regex(/^[\w\s,'"-]+$/, 'may only contain font names, quotes and commas').optional(),
+    fontSize: z.string().regex(/^\d+(\.\d+)?(px|pt|em|rem)$/, 'must be a size such as 16px').optional(),
+});
+
+export const customThemeSchema = z.object({
+    id: z.string().min(1).max(100),
+    name: z.string().trim().min(1).max(100),
+    variables: themeVariablesSchema,
+});
+
+/**
+ * Problems with the variables, keyed by variable, e.g. to show next to the editor's fields
+ */
+export function validateThemeVariables(variables: ThemeVariables): Partial<Record<keyof ThemeVariables, string>> {
+    const result = themeVariablesSchema.safeParse(variables);
+    if (result.success) return {};
+    return Object.fromEntries(result.error.issues.map(issue => [issue.path[0], issue.message]));
+}
@@ -0,0 +1,148 @@
+import { DiagramType } from '@/types/diagram';
+import { FlowchartShape } from '@/lib/mermaidAst';
+import { printFlowchartNode, quoteLabel } from '@/lib/mermaidPrinter';
+
+/**
+ * Shared pieces of the converters that turn other diagram formats into Mermaid code
+ */
+
+export interface ImportConversion {
+    code: string;
+    diagramType: DiagramType;
+    title?: string;
+    /** Constructs that were dropped or only approximated, for the import report */
+    warnings: string[];
+}
+
+/**
+ * Collects conversion warnings, counting repeats instead of listing them again
+ */
+export function createWarnings() {
+    const counts = new Map<string, number>();
+    return {
+        add(message: string) {
+            counts.set(message, (counts.get(message) ?? 0) + 1);
+        },
+        list(): string[] {
+            return Array.from(counts, ([message, count]) => (count > 1 ? `${message} (${count}×)` : message));
+        },
+    };
+}
+
+export type ImportWarnings = ReturnType<typeof createWarnings>;
+
+// Words Mermaid reads as keywords when used as a bare flowchart id
+const RESERVED_IDS = new Set(['end', 'graph', 'flowchart', 'subgraph', 'style', 'class', 'classdef', 'click', 'linkstyle', 'direction', 'default']);
+
+/**
+ * Map foreign identifiers to unique Mermaid-safe ids; the same input always gets the same id
+ */
+export function createIdMap(fallback: string = 'node') {
+    const ids = new Map<string, string>();
+    const used = new Set<string>();
+    return (raw: string): string => {
+        const existing = ids.get(raw);
+        if (existing) return existing;
+
+        let base = raw.replace(/[^\p{L}\p{N}_]+/gu, '_').replace(/^_+|_+$/g, '') || fallback;
+        if (RESERVED_IDS.has(base.toLowerCase())) base = `${base}_`;
+        let id = base;
+        for (let suffix = 2; used.has(id); suffix++) id = `${base}_${suffix}`;
+
+        used.add(id);
+        ids.set(raw, id);
+        return id;
+    };
+}
+
+/**
+ * Frontmatter carrying the diagram title, or nothing
+ */
+export function printTitle(title?: string): string[] {
+    return title ? ['---', `title: ${JSON.stringify(title)}`, '---'] : [];
+}
+
+/** Line breaks in imported labels become Mermaid `<br>` */
+export const toMermaidText = (text: string): string => text.trim().replace(/\s*\n\s*/g, '<br>');
+
+type ArrowEnd = '' | '<' | '>' | 'o' | 'x';
+
+/**
+ * Flowchart link such as `-->`, `-.-`, `<==>` or `--o`
+ */
+export function flowchartArrow(line: 'normal' | 'dotted' | 'thick', start: ArrowEnd = '', end: ArrowEnd = '>'): string {
+    if (line === 'dotted') return `${start}-.-${end}`;
+    if (line === 'thick') return `${start}==${end || '='}`;
+    return `${start}--${end || '-'}`;
+}
+
+export interface ImportedNode {
+    id: string;
+    label?: string;
+    shape?: FlowchartShape;
+    /** CSS for a `style` line, e.g. `fill:#fef3c7,stroke:#d97706` */
+    style?: string;
+}
+
+export interface ImportedEdge {
+    from: string;
+    to: string;
+    arrow: string;
+    label?: string;
+}
+
+export interface ImportedGroup {
+    id: string;
+    label?: string;
+    /** Nodes declared directly inside the group */
+    nodes: string[];
+    groups: ImportedGroup[];
+}
+
+export interface ImportedFlowchart {
+    direction: 'TD' | 'LR' | 'BT' | 'RL';
+    title?: string;
+    nodes: Map<string, ImportedNode>;
+    edges: ImportedEdge[];
+    /** Top level; its id and label are not printed */
+    root: ImportedGroup;
+}
+
+export const createGroup = (id: string, label?: string): ImportedGroup => ({ id, label, nodes: [], groups: [] });
+
+/**
+ * Print a converted flowchart: subgraphs with their node declarations first, then edges and styles
+ */
+export function printImportedFlowchart(chart: ImportedFlowchart): string {
+    const lines = [...printTitle(chart.title), `flowchart ${chart.direction}`];
+
+    const printNode = (id: string, indent: string) => {
+        const node = chart.nodes.get(id);
+        if (!node) return;
+        const label = node.label !== undefined && (node.label !== id || node.shape)
+            ? { text: toMermaidText(node.label), range: { start: 0, end: 0 } }
+            : undefined;
+        lines.push(indent + printFlowchartNode({ id: { text: id }, label, shape: node.shape ?? (label ? 'rect' : undefined) }));
+    };
+    const printGroup = (group: ImportedGroup, depth: number) => {
+        const indent = '    '.repeat(depth);
+        group.groups.forEach(child => {
+            const label = child.label && child.label !== child.id ? ` [${quoteLabel(toMermaidText(child.label))}]` : '';
+            lines.push(`${indent}subgraph ${child.id}${label}`);
+            printGroup(child, depth + 1);
+            lines.push(`${indent}end`);
+        });
+        group.nodes.forEach(id => printNode(id, indent));
+    };
+    printGroup(chart.root, 1);
+
+    chart.edges.forEach(edge => {
+        const label = edge.label?.trim() ? `|${quoteLabel(toMermaidText(edge.label))}|` : '';
+        lines.push(`    ${edge.from} ${edge.arrow}${label} ${edge.to}`);
+    });
+    chart.nodes.forEach(node => {
+        if (node.style) lines.push(`    style ${node.id} ${node.style}`);
+    });
+
+    return lines.join('\n') + '\n';
+}
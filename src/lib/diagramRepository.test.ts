@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createDiagramRepository, createDocument, createVersion, migrateLegacyStorage } from '@/lib/diagramRepository';
+import { createLocalStorageBackend } from '@/lib/storage';
+import { commit, createHistory } from '@/lib/history';
+
+describe('diagramRepository', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    describe('loadWorkspace', () => {
+        it('should return null for an empty store', async () => {
+            const repository = createDiagramRepository(createLocalStorageBackend());
+
+            expect(await repository.loadWorkspace()).toBeNull();
+        });
+
+        it('should restore document order and the active document', async () => {
+            const repository = createDiagramRepository(createLocalStorageBackend());
+            const first = createDocument({ projectTitle: 'First' });
+            const second = createDocument({ projectTitle: 'Second' });
+
+            await repository.saveDocument(first);
+            await repository.saveDocument(second);
+            await repository.saveWorkspaceMeta({ activeId: first.id, documents: [second, first] });
+
+            const workspace = await repository.loadWorkspace();
+            expect(workspace?.documents.map(doc => doc.projectTitle)).toEqual(['Second', 'First']);
+            expect(workspace?.activeId).toBe(first.id);
+        });
+    });
+
+    describe('history', () => {
+        it('should store history per document and drop it with the document', async () => {
+            const repository = createDiagramRepository(createLocalStorageBackend());
+            const document = createDocument();
+            const history = commit(createHistory('graph TD'), 'graph LR');
+
+            await repository.saveDocument(document);
+            await repository.saveHistory(document.id, history);
+            expect(await repository.loadHistory(document.id)).toEqual(history);
+
+            await repository.deleteDocument(document.id);
+            expect(await repository.loadHistory(document.id)).toBeUndefined();
+        });
+
+        it('should ignore malformed history entries', async () => {
+            const backend = createLocalStorageBackend();
+            const repository = createDiagramRepository(backend);
+            await backend.put('history', 'broken', { nodes: {}, currentId: 'missing' });
+
+            expect(await repository.loadHistory('broken')).toBeUndefined();
+        });
+    });
+
+    describe('versions', () => {
+        it('should list a document\'s versions newest first and drop them with the document', async () => {
+            const repository = createDiagramRepository(createLocalStorageBackend());
+            const document = createDocument();
+            const other = createDocument();
+            const first = { ...createVersion(document.id, 'v1', document), createdAt: '2024-01-01T00:00:00.000Z' };
+            const second = { ...createVersion(document.id, ' v2 sent to client ', document), createdAt: '2024-02-01T00:00:00.000Z' };
+
+            await repository.saveVersion(first);
+            await repository.saveVersion(second);
+            await repository.saveVersion(createVersion(other.id, 'other', other));
+
+            const versions = await repository.listVersions(document.id);
+            expect(versions.map(version => version.name)).toEqual(['v2 sent to client', 'v1']);
+            expect(versions[0]).toMatchObject({ version: '1.0', code: document.code, diagramType: 'flowchart' });
+
+            await repository.deleteDocument(document.id);
+            expect(await repository.listVersions(document.id)).toEqual([]);
+            expect(await repository.listVersions(other.id)).toHaveLength(1);
+        });
+    });
+
+    describe('export options', () => {
+        it('should remember export options per document and drop them with the document', async () => {
+            const repository = createDiagramRepository(createLocalStorageBackend());
+            const document = createDocument();
+            const options = { format: 'jpg', scale: 2, padding: 16, background: 'custom', customBackground: '#fef3c7', quality: 0.8 } as const;
+
+            await repository.saveExportOptions(document.id, options);
+            expect(await repository.loadExportOptions(document.id)).toEqual(options);
+            expect(await repository.loadExportOptions(createDocument().id)).toBeUndefined();
+
+            await repository.deleteDocument(document.id);
+            expect(await repository.loadExportOptions(document.id)).toBeUndefined();
+        });
+    });
+
+    describe('migrateLegacyStorage', () => {
+        it('should move the legacy single-diagram entry into the repository', async () => {
+            localStorage.setItem('flowgen-diagram-state', JSON.stringify({
+                code: 'sequenceDiagram\n    A->>B: Hi',
+                diagramType: 'sequence',
+                theme: 'dark',
+                projectTitle: 'Legacy',
+            }));
+            const repository = createDiagramRepository(createLocalStorageBackend());
+
+            await migrateLegacyStorage(repository);
+
+            const workspace = await repository.loadWorkspace();
+            expect(workspace?.documents).toHaveLength(1);
+            expect(workspace?.documents[0]).toMatchObject({ projectTitle: 'Legacy', theme: 'dark', diagramType: 'sequence' });
+            expect(localStorage.getItem('flowgen-diagram-state')).toBeNull();
+        });
+
+        it('should only run once', async () => {
+            const repository = createDiagramRepository(createLocalStorageBackend());
+            await migrateLegacyStorage(repository);
+
+            localStorage.setItem('flowgen-diagram-state', JSON.stringify({ code: 'pie' }));
+            await migrateLegacyStorage(repository);
+
+            expect(await repository.loadWorkspace()).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,262 @@
+import { CustomTheme, DiagramDocument, DiagramDocumentContent, DiagramVersion, ExportOptions, RenderSettings, WorkspaceState } from '@/types/diagram';
+import { getDefaultCode } from '@/lib/diagramTemplates';
+import { StorageBackend, openStorageBackend } from '@/lib/storage';
+import { HistoryTree, isHistoryTree } from '@/lib/history';
+import { createProjectFile } from '@/lib/mermaidFileUtils';
+
+/**
+ * Repository for workspace diagrams on top of a pluggable StorageBackend
+ */
+
+// Keys written by earlier localStorage-only versions of the editor
+const LEGACY_WORKSPACE_KEY = 'flowgen-workspace';
+const LEGACY_DIAGRAM_KEY = 'flowgen-diagram-state';
+
+const WORKSPACE_META_KEY = 'workspace';
+const MIGRATION_META_KEY = 'legacy-migrated';
+const CUSTOM_THEMES_META_KEY = 'custom-themes';
+const RENDER_SETTINGS_META_KEY = 'render-settings';
+const exportOptionsKey = (documentId: string) => `export-options:${documentId}`;
+
+interface WorkspaceMeta {
+    activeId: string;
+    order: string[];
+}
+
+export interface DiagramRepository {
+    readonly backend: StorageBackend;
+    loadWorkspace(): Promise<WorkspaceState | null>;
+    saveWorkspaceMeta(state: WorkspaceState): Promise<void>;
+    saveDocument(document: DiagramDocument): Promise<void>;
+    deleteDocument(id: string): Promise<void>;
+    loadHistory(id: string): Promise<DocumentHistory | undefined>;
+    saveHistory(id: string, history: DocumentHistory): Promise<void>;
+    listVersions(documentId: string): Promise<DiagramVersion[]>;
+    saveVersion(version: DiagramVersion): Promise<void>;
+    deleteVersion(id: string): Promise<void>;
+    loadExportOptions(documentId: string): Promise<Partial<ExportOptions> | undefined>;
+    saveExportOptions(documentId: string, options: ExportOptions): Promise<void>;
+    /** Theme library shared by every document */
+    loadCustomThemes(): Promise<CustomTheme[]>;
+    saveCustomThemes(themes: CustomTheme[]): Promise<void>;
+    /** Render settings panel, shared by every document */
+    loadRenderSettings(): Promise<Partial<RenderSettings> | undefined>;
+    saveRenderSettings(settings: RenderSettings): Promise<void>;
+}
+
+/** Undo history of a document's code, stored alongside it */
+export type DocumentHistory = HistoryTree<string>;
+
+export const createDocumentId = (): string =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createDocument = (
+    content: Partial<DiagramDocumentContent & Pick<DiagramDocument, 'markdownSource' | 'createdAt'>> = {}
+): DiagramDocument => {
+    const now = new Date().toISOString();
+    const diagramType = content.diagramType || 'flowchart';
+    return {
+        id: createDocumentId(),
+        code: content.code ?? getDefaultCode(diagramType),
+        diagramType,
+        theme: content.theme || 'default',
+        projectTitle: content.projectTitle || '',
+        createdAt: content.createdAt || now,
+        updatedAt: now,
+        ...(content.markdownSource && { markdownSource: content.markdownSource }),
+    };
+};
+
+/**
+ * Named version of a document's current content
+ */
+export const createVersion = (
+    documentId: string,
+    name: string,
+    content: DiagramDocumentContent,
+    description?: string
+): DiagramVersion => ({
+    ...createProjectFile(content.code, content.diagramType, content.theme, {
+        title: content.projectTitle || undefined,
+        description,
+        customTheme: content.customTheme,
+    }),
+    id: createDocumentId(),
+    documentId,
+    name: name.trim(),
+});
+
+export function createDiagramRepository(backend: StorageBackend): DiagramRepository {
+    const listVersions = async (documentId: string) => {
+        const versions = await backend.getAll<DiagramVersion>('versions');
+        return versions
+            .filter(version => version.documentId === documentId)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    };
+
+    return {
+        backend,
+
+        async loadWorkspace() {
+            const documents = await backend.getAll<DiagramDocument>('documents');
+            if (documents.length === 0) return null;
+
+            const meta = await backend.get<WorkspaceMeta>('meta', WORKSPACE_META_KEY);
+            const order = meta?.order || [];
+            // Documents missing from the saved order (e.g. written by another tab) go last
+            const position = (doc: DiagramDocument) => {
+                const index = order.indexOf(doc.id);
+                return index === -1 ? order.length : index;
+            };
+            documents.sort((a, b) => position(a) - position(b));
+
+            const hasActive = documents.some(doc => doc.id === meta?.activeId);
+            return {
+                activeId: hasActive ? meta.activeId : documents[0].id,
+                documents,
+            };
+        },
+
+        async saveWorkspaceMeta(state) {
+            await backend.put<WorkspaceMeta>('meta', WORKSPACE_META_KEY, {
+                activeId: state.activeId,
+                order: state.documents.map(doc => doc.id),
+            });
+        },
+
+        async saveDocument(document) {
+            await backend.put('documents', document.id, document);
+        },
+
+        async deleteDocument(id) {
+            const versions = await listVersions(id);
+            await Promise.all([
+                backend.delete('documents', id),
+                backend.delete('history', id),
+                backend.delete('meta', exportOptionsKey(id)),
+                ...versions.map(version => backend.delete('versions', version.id)),
+            ]);
+        },
+
+        async loadHistory(id) {
+            const history = await backend.get<unknown>('history', id);
+            // Ignore malformed entries rather than breaking the editor
+            return isHistoryTree<string>(history) ? history : undefined;
+        },
+
+        async saveHistory(id, history) {
+            await backend.put('history', id, history);
+        },
+
+        listVersions,
+
+        async saveVersion(version) {
+            await backend.put('versions', version.id, version);
+        },
+
+        async deleteVersion(id) {
+            await backend.delete('versions', id);
+        },
+
+        async loadExportOptions(documentId) {
+            return backend.get<Partial<ExportOptions>>('meta', exportOptionsKey(documentId));
+        },
+
+        async saveExportOptions(documentId, options) {
+            await backend.put('meta', exportOptionsKey(documentId), options);
+        },
+
+        async loadCustomThemes() {
+            const themes = await backend.get<CustomTheme[]>('meta', CUSTOM_THEMES_META_KEY);
+            return Array.isArray(themes) ? themes : [];
+        },
+
+        async saveCustomThemes(themes) {
+            await backend.put('meta', CUSTOM_THEMES_META_KEY, themes);
+        },
+
+        async loadRenderSettings() {
+            return backend.get<Partial<RenderSettings>>('meta', RENDER_SETTINGS_META_KEY);
+        },
+
+        async saveRenderSettings(settings) {
+            await backend.put('meta', RENDER_SETTINGS_META_KEY, settings);
+        },
+    };
+}
+
+/**
+ * Read diagrams persisted by earlier versions, preferring the multi-document workspace
+ */
+function readLegacyWorkspace(): WorkspaceState | null {
+    const savedWorkspace = localStorage.getItem(LEGACY_WORKSPACE_KEY);
+    if (savedWorkspace) {
+        try {
+            const parsed = JSON.parse(savedWorkspace) as WorkspaceState;
+            if (Array.isArray(parsed.documents) && parsed.documents.length > 0) {
+                return parsed;
+            }
+        } catch {
+            // ignore
+        }
+    }
+
+    const savedDiagram = localStorage.getItem(LEGACY_DIAGRAM_KEY);
+    if (savedDiagram) {
+        try {
+            const parsed = JSON.parse(savedDiagram);
+            const document = createDocument({
+                code: parsed.code,
+                diagramType: parsed.diagramType,
+                theme: parsed.theme,
+                projectTitle: parsed.projectTitle,
+            });
+            return { activeId: document.id, documents: [document] };
+        } catch {
+            // ignore
+        }
+    }
+
+    return null;
+}
+
+/**
+ * One-time copy of legacy localStorage entries into the repository.
+ * The legacy keys are only removed after every document has been written.
+ */
+export async function migrateLegacyStorage(repository: DiagramRepository): Promise<void> {
+    const { backend } = repository;
+    if (await backend.get<boolean>('meta', MIGRATION_META_KEY)) return;
+
+    const legacy = readLegacyWorkspace();
+    if (legacy) {
+        for (const document of legacy.documents) {
+            await repository.saveDocument(document);
+        }
+        await repository.saveWorkspaceMeta(legacy);
+    }
+
+    await backend.put('meta', MIGRATION_META_KEY, true);
+    localStorage.removeItem(LEGACY_WORKSPACE_KEY);
+    localStorage.removeItem(LEGACY_DIAGRAM_KEY);
+}
+
+let repositoryPromise: Promise<DiagramRepository> | null = null;
+
+/**
+ * Open the shared repository, running the legacy migration on first use
+ */
+export function openDiagramRepository(): Promise<DiagramRepository> {
+    if (!repositoryPromise) {
+        repositoryPromise = (async () => {
+            const repository = createDiagramRepository(await openStorageBackend());
+            await migrateLegacyStorage(repository);
+            return repository;
+        })().catch((error) => {
+            // Allow the next caller to retry instead of caching the failure
+            repositoryPromise = null;
+            throw error;
+        });
+    }
+    return repositoryPromise;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { convertDot } from '@/lib/dotImport';
+import { parseDiagram } from '@/lib/mermaidParser';
+
+describe('dotImport', () => {
+    it('should convert nodes, shapes, labels and edges', () => {
+        const result = convertDot([
+            'digraph G {',
+            '    rankdir=LR;',
+            '    node [shape=box];',
+            '    start [label="Start here", shape=circle];',
+            '    "check input" [shape=diamond];',
+            '    start -> "check input" -> done [label="ok"];',
+            '    done -> start [style=dashed];',
+            '}',
+        ].join('\n'));
+
+        expect(result.diagramType).toBe('flowchart');
+        expect(result.code).toBe([
+            'flowchart LR',
+            '    start((Start here))',
+            '    check_input{check input}',
+            '    done[done]',
+            '    start -->|ok| check_input',
+            '    check_input -->|ok| done',
+            '    done -.-> start',
+            '',
+        ].join('\n'));
+        expect(result.warnings).toEqual([]);
+    });
+
+    it('should turn clusters into subgraphs and keep other subgraphs flat', () => {
+        const result = convertDot([
+            '/* services */',
+            'graph {',
+            '    subgraph cluster_api {',
+            '        label = "API";',
+            '        a -- b;',
+            '    }',
+            '    subgraph { rank = same; c; d }',
+            '    b -- c',
+            '}',
+        ].join('\n'));
+        const ast = parseDiagram(result.code);
+
+        expect(ast.groups).toEqual([expect.objectContaining({ id: 'cluster_api', label: 'API', children: ['a', 'b'] })]);
+        expect(ast.edges.map(edge => [edge.from, edge.arrow, edge.to])).toEqual([['a', '---', 'b'], ['b', '---', 'c']]);
+        expect(result.warnings).toEqual(['Rank constraints (rank=same and similar) were dropped']);
+    });
+
+    it('should move a node into a cluster that mentions it later', () => {
+        const ast = parseDiagram(convertDot('digraph { a -> b; subgraph cluster_x { b } }').code);
+
+        expect(ast.groups[0].children).toEqual(['b']);
+    });
+
+    it('should keep fill colors and report what it dropped', () => {
+        const result = convertDot([
+            'digraph {',
+            '    a [style=filled, fillcolor="#fef3c7", color=red, label=<<b>Bold</b>>, URL="https://example.com"];',
+            '    a:port -> b [color=blue, headlabel="1"];',
+            '    b [shape=star];',
+            '}',
+            'digraph other { x }',
+        ].join('\n'));
+
+        expect(result.code).toContain('a([Bold])');
+        expect(result.code).toContain('style a fill:#fef3c7,stroke:red');
+        expect(result.code).toContain('b[b]');
+        expect(result.warnings).toEqual([
+            'HTML-like labels were converted to plain text',
+            'Node attribute "url" is not supported',
+            'Ports and compass points were ignored',
+            'Edge colors were dropped',
+            'Edge head, tail and external labels were dropped',
+            'Shape "star" was drawn as a rectangle',
+            'Only the first graph in the file was imported',
+        ]);
+    });
+
+    it('should reject files that are not graphs', () => {
+        expect(() => convertDot('flowchart TD\n    A --> B')).toThrow('Not a Graphviz file');
+    });
+});
@@ -0,0 +1,509 @@
+import { FlowchartShape } from '@/lib/mermaidAst';
+import {
+    ImportConversion,
+    ImportWarnings,
+    ImportedEdge,
+    ImportedFlowchart,
+    ImportedGroup,
+    ImportedNode,
+    createGroup,
+    createIdMap,
+    createWarnings,
+    flowchartArrow,
+    printImportedFlowchart,
+} from '@/lib/diagramImport';
+
+/**
+ * Graphviz DOT to Mermaid flowchart. Clusters become subgraphs; layout attributes are dropped.
+ */
+
+interface Token {
+    type: 'id' | 'html' | 'punct';
+    value: string;
+    quoted?: boolean;
+}
+
+type Attributes = Record<string, Token>;
+
+interface Scope {
+    nodeDefaults: Attributes;
+    edgeDefaults: Attributes;
+    group: ImportedGroup;
+}
+
+const DOT_SHAPES: Record<string, FlowchartShape> = {
+    box: 'rect',
+    rect: 'rect',
+    rectangle: 'rect',
+    square: 'rect',
+    plaintext: 'rect',
+    plain: 'rect',
+    none: 'rect',
+    note: 'rect',
+    tab: 'rect',
+    folder: 'rect',
+    record: 'rect',
+    mrecord: 'round',
+    ellipse: 'stadium',
+    oval: 'stadium',
+    circle: 'circle',
+    point: 'circle',
+    doublecircle: 'double-circle',
+    diamond: 'rhombus',
+    hexagon: 'hexagon',
+    parallelogram: 'parallelogram',
+    trapezium: 'trapezoid',
+    invtrapezium: 'trapezoid-alt',
+    cylinder: 'cylinder',
+    component: 'subroutine',
+    box3d: 'subroutine',
+    cds: 'asymmetric',
+};
+
+const RANKDIRS: Record<string, ImportedFlowchart['direction']> = { TB: 'TD', LR: 'LR', BT: 'BT', RL: 'RL' };
+
+// Layout and typography hints with no Mermaid equivalent, dropped without a warning
+const LAYOUT_ATTRIBUTES = new Set([
+    'width', 'height', 'fixedsize', 'fontsize', 'fontname', 'margin', 'pos', 'group', 'rank', 'weight', 'minlen',
+    'constraint', 'splines', 'nodesep', 'ranksep', 'size', 'ratio', 'compound', 'concentrate', 'newrank', 'ordering',
+    'center', 'dpi', 'pad', 'labelloc', 'labeljust', 'arrowsize', 'lhead', 'ltail', 'sametail', 'samehead', 'peripheries',
+    'layout', 'overlap', 'sep', 'bgcolor', 'outputorder', 'charset', 'labelfontsize', 'labelfontname', 'regular',
+]);
+
+const NODE_COLORS: Record<string, string> = { fillcolor: 'fill', color: 'stroke', fontcolor: 'color' };
+
+const isColor = (value: string) => /^(#[0-9a-f]{3,8}|[a-z]+)$/i.test(value);
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    let lineStart = true;
+
+    while (i < source.length) {
+        const char = source[i];
+        if (char === '\n') {
+            lineStart = true;
+            i++;
+            continue;
+        }
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+        // Comments and preprocessor output lines
+        if ((char === '#' && lineStart) || source.startsWith('//', i)) {
+            const end = source.indexOf('\n', i);
+            i = end === -1 ? source.length : end;
+            continue;
+        }
+        lineStart = false;
+        if (source.startsWith('/*', i)) {
+            const end = source.indexOf('*/', i + 2);
+            i = end === -1 ? source.length : end + 2;
+            continue;
+        }
+
+        if (char === '"') {
+            let value = '';
+            i++;
+            while (i < source.length && source[i] !== '"') {
+                if (source[i] === '\\' && source[i + 1] === '"') {
+                    value += '"';
+                    i += 2;
+                } else if (source[i] === '\\' && source[i + 1] === '\n') {
+                    i += 2;
+                } else {
+                    value += source[i++];
+                }
+            }
+            i++;
+            // "a" + "b" concatenation
+            const previous = tokens[tokens.length - 1];
+            const last = tokens[tokens.length - 2];
+            if (previous?.type === 'punct' && previous.value === '+' && last?.quoted) {
+                tokens.pop();
+                last.value += value;
+            } else {
+                tokens.push({ type: 'id', value, quoted: true });
+            }
+            continue;
+        }
+
+        if (char === '<') {
+            let depth = 0;
+            const start = i;
+            do {
+                if (source[i] === '<') depth++;
+                if (source[i] === '>') depth--;
+                i++;
+            } while (i < source.length && depth > 0);
+            tokens.push({ type: 'html', value: source.slice(start + 1, i - 1) });
+            continue;
+        }
+
+        if (source.startsWith('->', i) || source.startsWith('--', i)) {
+            tokens.push({ type: 'punct', value: source.slice(i, i + 2) });
+            i += 2;
+            continue;
+        }
+        if ('{}[];,=:+'.includes(char)) {
+            tokens.push({ type: 'punct', value: char });
+            i++;
+            continue;
+        }
+
+        const word = /^(?:-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(source.slice(i, i + 256));
+        if (word) {
+            tokens.push({ type: 'id', value: word[0] });
+            i += word[0].length;
+        } else {
+            i++;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Replace DOT label escapes: \n, \l and \r break lines, \N and \G name the node and graph
+ */
+function unescapeLabel(value: string, names: { node?: string; graph?: string }): string {
+    return value.replace(/\\(.)/g, (_, code: string) => {
+        switch (code) {
+            case 'n':
+            case 'l':
+            case 'r':
+                return '\n';
+            case 'N':
+                return names.node ?? '';
+            case 'G':
+                return names.graph ?? '';
+            case 'E':
+            case 'T':
+            case 'H':
+                return '';
+            default:
+                return code;
+        }
+    }).replace(/\n$/, '');
+}
+
+/**
+ * Plain text of an HTML-like label
+ */
+const htmlToText = (html: string): string =>
+    html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(tr|p|div)>/gi, '\n')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .trim();
+
+/**
+ * Record labels: fields become lines, ports and braces are dropped
+ */
+const recordToText = (label: string): string =>
+    label
+        .replace(/<[^>]*>/g, '')
+        .replace(/[{}]/g, '')
+        .split('|')
+        .map(field => field.trim())
+        .filter(Boolean)
+        .join('\n');
+
+function readLabel(token: Token, names: { node?: string; graph?: string }, warnings: ImportWarnings): string {
+    if (token.type === 'html') {
+        warnings.add('HTML-like labels were converted to plain text');
+        return htmlToText(token.value);
+    }
+    return unescapeLabel(token.value, names);
+}
+
+/**
+ * Convert a Graphviz graph to a Mermaid flowchart
+ */
+export function convertDot(source: string): ImportConversion {
+    const warnings = createWarnings();
+    const tokens = tokenize(source);
+    let pos = 0;
+
+    const peek = (offset: number = 0): Token | undefined => tokens[pos + offset];
+    const isPunct = (token: Token | undefined, value: string) => token?.type === 'punct' && token.value === value;
+    const isKeyword = (token: Token | undefined, word: string) =>
+        token?.type === 'id' && !token.quoted && token.value.toLowerCase() === word;
+    const skip = (value: string) => {
+        if (isPunct(peek(), value)) pos++;
+    };
+
+    if (isKeyword(peek(), 'strict')) pos++;
+    const kind = tokens[pos++];
+    if (!isKeyword(kind, 'graph') && !isKeyword(kind, 'digraph')) {
+        throw new Error('Not a Graphviz file: expected "graph" or "digraph".');
+    }
+    const directed = kind.value.toLowerCase() === 'digraph';
+    const graphName = peek()?.type === 'id' ? tokens[pos++].value : undefined;
+    if (!isPunct(tokens[pos++], '{')) {
+        throw new Error('Not a Graphviz file: expected "{" after the graph name.');
+    }
+
+    const toId = createIdMap();
+    const nodes = new Map<string, ImportedNode>();
+    const edges: ImportedEdge[] = [];
+    const root = createGroup('');
+    const chart: ImportedFlowchart = { direction: 'TD', nodes, edges, root };
+    // Containing group of every node and cluster, to move nodes into clusters that mention them later
+    const nodeGroups = new Map<string, ImportedGroup>();
+    const parents = new Map<ImportedGroup, ImportedGroup>();
+
+    const readAttributes = (): Attributes => {
+        const attributes: Attributes = {};
+        while (isPunct(peek(), '[')) {
+            pos++;
+            while (peek() && !isPunct(peek(), ']')) {
+                const name = tokens[pos++];
+                if (isPunct(peek(), '=')) {
+                    pos++;
+                    attributes[name.value.toLowerCase()] = tokens[pos++];
+                }
+                skip(',');
+                skip(';');
+            }
+            pos++;
+        }
+        return attributes;
+    };
+
+    const setGraphAttribute = (name: string, value: Token, scope: Scope) => {
+        if (name === 'rankdir' && scope.group === root) {
+            chart.direction = RANKDIRS[value.value.toUpperCase()] ?? 'TD';
+        } else if (name === 'label') {
+            const label = readLabel(value, { graph: graphName }, warnings);
+            if (scope.group === root) chart.title = label;
+            else scope.group.label = label;
+        } else if (name === 'rank') {
+            warnings.add('Rank constraints (rank=same and similar) were dropped');
+        } else if (!LAYOUT_ATTRIBUTES.has(name) && !['style', 'color', 'fillcolor', 'fontcolor', 'pencolor'].includes(name)) {
+            warnings.add(`Graph attribute "${name}" is not supported`);
+        }
+    };
+
+    const isAncestor = (group: ImportedGroup, of: ImportedGroup): boolean => {
+        for (let current = parents.get(of); current; current = parents.get(current)) {
+            if (current === group) return true;
+        }
+        return false;
+    };
+
+    const applyNodeAttributes = (node: ImportedNode, name: string, attributes: Attributes) => {
+        const styles: Record<string, string> = {};
+        const style = attributes.style?.value.toLowerCase() ?? '';
+        for (const [key, token] of Object.entries(attributes)) {
+            const value = token.value;
+            switch (key) {
+                case 'label':
+                    node.label = readLabel(token, { node: name, graph: graphName }, warnings);
+                    break;
+                case 'shape': {
+                    const shape = DOT_SHAPES[value.toLowerCase()];
+                    if (!shape) warnings.add(`Shape "${value}" was drawn as a rectangle`);
+                    node.shape = shape ?? 'rect';
+                    break;
+                }
+                case 'fillcolor':
+                case 'color':
+                case 'fontcolor':
+                    if (isColor(value)) styles[NODE_COLORS[key]] = value;
+                    else warnings.add('Colors other than #RRGGBB values and color names were dropped');
+                    break;
+                case 'style':
+                    break;
+                case 'xlabel':
+                    warnings.add('External labels (xlabel) were dropped');
+                    break;
+                default:
+                    if (!LAYOUT_ATTRIBUTES.has(key)) warnings.add(`Node attribute "${key}" is not supported`);
+            }
+        }
+
+        if (['record', 'mrecord'].includes(attributes.shape?.value.toLowerCase() ?? '') && node.label?.includes('|')) {
+            node.label = recordToText(node.label);
+            warnings.add('Record fields were flattened into lines of text');
+        }
+        if (style.includes('rounded') && (node.shape ?? 'rect') === 'rect') node.shape = 'round';
+        if (style.includes('filled') && !styles.fill && styles.stroke) styles.fill = styles.stroke;
+        if (!style.includes('filled')) delete styles.fill;
+        if (style.includes('dashed') || style.includes('dotted')) styles['stroke-dasharray'] = '5 5';
+        if (style.includes('invis')) warnings.add('Invisible nodes are shown');
+
+        const css = Object.entries(styles).map(([property, value]) => `${property}:${value}`).join(',');
+        if (css) node.style = node.style ? `${node.style},${css}` : css;
+    };
+
+    const declareNode = (name: string, scope: Scope, attributes?: Attributes): string => {
+        const id = toId(name);
+        let node = nodes.get(id);
+        if (!node) {
+            // Graphviz shows the node name when there is no label
+            node = { id, shape: 'stadium', label: name };
+            nodes.set(id, node);
+            scope.group.nodes.push(id);
+            nodeGroups.set(id, scope.group);
+            applyNodeAttributes(node, name, scope.nodeDefaults);
+        } else {
+            const current = nodeGroups.get(id);
+            if (current !== scope.group && isAncestor(current, scope.group)) {
+                current.nodes.splice(current.nodes.indexOf(id), 1);
+                scope.group.nodes.push(id);
+                nodeGroups.set(id, scope.group);
+            }
+        }
+        if (attributes) applyNodeAttributes(node, name, attributes);
+        return id;
+    };
+
+    const readNodeId = (): string => {
+        const name = tokens[pos++].value;
+        if (isPunct(peek(), ':')) {
+            warnings.add('Ports and compass points were ignored');
+            pos += 2;
+            if (isPunct(peek(), ':')) pos += 2;
+        }
+        return name;
+    };
+
+    const addEdges = (from: string[], to: string[], attributes: Attributes) => {
+        const style = attributes.style?.value.toLowerCase() ?? '';
+        const line = style.includes('dashed') || style.includes('dotted') ? 'dotted'
+            : style.includes('bold') || Number(attributes.penwidth?.value) >= 2 ? 'thick'
+                : 'normal';
+        const dir = attributes.dir?.value.toLowerCase() ?? (directed ? 'forward' : 'none');
+        const head = (name?: string): '' | '>' | 'o' | 'x' => {
+            const value = (name ?? 'normal').toLowerCase();
+            if (value === 'none') return '';
+            if (value.endsWith('dot')) return 'o';
+            if (value === 'tee' || value === 'box' || value.endsWith('inv') || value === 'diamond' || value === 'odiamond') {
+                warnings.add(`Arrowhead "${value}" was drawn as a plain arrow`);
+            }
+            return '>';
+        };
+        const end = dir === 'forward' || dir === 'both' ? head(attributes.arrowhead?.value) : dir === 'back' ? head(attributes.arrowtail?.value) : '';
+        const start = dir === 'both' ? head(attributes.arrowtail?.value) : '';
+        const arrow = flowchartArrow(line, start === '>' ? '<' : start, end);
+        const label = attributes.label ? readLabel(attributes.label, { graph: graphName }, warnings) : undefined;
+
+        for (const key of Object.keys(attributes)) {
+            if (['headlabel', 'taillabel', 'xlabel'].includes(key)) warnings.add('Edge head, tail and external labels were dropped');
+            else if (['color', 'fontcolor'].includes(key)) warnings.add('Edge colors were dropped');
+            else if (!['label', 'style', 'penwidth', 'dir', 'arrowhead', 'arrowtail'].includes(key) && !LAYOUT_ATTRIBUTES.has(key)) {
+                warnings.add(`Edge attribute "${key}" is not supported`);
+            }
+        }
+
+        for (const source of from) {
+            for (const target of to) {
+                // dir=back draws the arrow towards the tail
+                edges.push(dir === 'back' ? { from: target, to: source, arrow, label } : { from: source, to: target, arrow, label });
+            }
+        }
+    };
+
+    /**
+     * Statements up to the closing brace; returns every node mentioned, for subgraphs used as edge ends
+     */
+    const readStatements = (scope: Scope): string[] => {
+        const mentioned: string[] = [];
+        while (peek() && !isPunct(peek(), '}')) {
+            const token = peek();
+
+            if (isPunct(token, ';') || isPunct(token, ',')) {
+                pos++;
+                continue;
+            }
+
+            if (isKeyword(token, 'graph') || isKeyword(token, 'node') || isKeyword(token, 'edge')) {
+                pos++;
+                const attributes = readAttributes();
+                if (isKeyword(token, 'node')) Object.assign(scope.nodeDefaults, attributes);
+                else if (isKeyword(token, 'edge')) Object.assign(scope.edgeDefaults, attributes);
+                else Object.entries(attributes).forEach(([name, value]) => setGraphAttribute(name, value, scope));
+                continue;
+            }
+
+            if (token.type !== 'punct' && isPunct(peek(1), '=')) {
+                pos += 2;
+                setGraphAttribute(token.value.toLowerCase(), tokens[pos++], scope);
+                continue;
+            }
+
+            // Node statement, edge chain or subgraph
+            const first = readEndpoint(scope, mentioned);
+            if (!first) {
+                pos++;
+                continue;
+            }
+            if (isPunct(peek(), '->') || isPunct(peek(), '--')) {
+                const chain = [first.ids];
+                while (isPunct(peek(), '->') || isPunct(peek(), '--')) {
+                    pos++;
+                    const next = readEndpoint(scope, mentioned);
+                    if (next) chain.push(next.ids);
+                }
+                const attributes = { ...scope.edgeDefaults, ...readAttributes() };
+                for (let index = 1; index < chain.length; index++) addEdges(chain[index - 1], chain[index], attributes);
+            } else if (first.name !== undefined) {
+                declareNode(first.name, scope, readAttributes());
+            }
+        }
+        return mentioned;
+    };
+
+    /**
+     * One node or a subgraph, as the start or end of an edge
+     */
+    const readEndpoint = (scope: Scope, mentioned: string[]): { ids: string[]; name?: string } | null => {
+        const token = peek();
+        if (isKeyword(token, 'subgraph') || isPunct(token, '{')) {
+            let name: string | undefined;
+            if (isKeyword(token, 'subgraph')) {
+                pos++;
+                if (peek()?.type === 'id') name = tokens[pos++].value;
+            }
+            if (!isPunct(tokens[pos++], '{')) return { ids: [] };
+
+            // Only clusters are drawn as boxes by Graphviz
+            const isCluster = name?.toLowerCase().startsWith('cluster') ?? false;
+            let group = scope.group;
+            if (isCluster) {
+                group = createGroup(toId(name));
+                scope.group.groups.push(group);
+                parents.set(group, scope.group);
+            }
+            const inner = readStatements({ nodeDefaults: { ...scope.nodeDefaults }, edgeDefaults: { ...scope.edgeDefaults }, group });
+            pos++;
+            mentioned.push(...inner);
+            return { ids: inner };
+        }
+        if (token?.type !== 'id') return null;
+
+        const name = readNodeId();
+        const id = declareNode(name, scope);
+        mentioned.push(id);
+        return { ids: [id], name };
+    };
+
+    readStatements({ nodeDefaults: {}, edgeDefaults: {}, group: root });
+    pos++;
+    if (tokens.slice(pos).some(token => isKeyword(token, 'graph') || isKeyword(token, 'digraph'))) {
+        warnings.add('Only the first graph in the file was imported');
+    }
+
+    return {
+        code: printImportedFlowchart(chart),
+        diagramType: 'flowchart',
+        title: chart.title,
+        warnings: warnings.list(),
+    };
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { createDrawioXml } from '@/lib/drawioExport';
+import { parseDiagram } from '@/lib/mermaidParser';
+
+const parse = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+const cell = (doc: Document, id: string) => doc.querySelector(`mxCell[id="${id}"]`);
+const geometry = (doc: Document, id: string) => {
+    const element = cell(doc, id)?.querySelector('mxGeometry');
+    return ['x', 'y', 'width', 'height'].map(name => Number(element?.getAttribute(name)));
+};
+
+describe('drawioExport', () => {
+    describe('flowchart', () => {
+        const ast = parseDiagram([
+            'flowchart TD',
+            '    subgraph api [API layer]',
+            '        A[Start] --> B{Valid?}',
+            '    end',
+            '    B -.->|no| C([Retry & wait])',
+        ].join('\n'));
+        // Shaped like Mermaid's output: clusters and nodes share one coordinate space
+        const svg = [
+            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="-8 -8 300 300">',
+            '<g class="root"><g class="clusters"><g class="cluster default" id="api"><rect x="0" y="0" width="200" height="160"/></g></g>',
+            '<g class="nodes">',
+            '<g class="node default" id="flowchart-A-0" transform="translate(100, 40)"><rect class="basic label-container" x="-40" y="-20" width="80" height="40"/></g>',
+            '<g class="node default" id="flowchart-B-1" transform="translate(100, 110)"><polygon points="30,0 60,-30 30,-60 0,-30" transform="translate(-30,30)"/></g>',
+            '<g class="node default" id="flowchart-C-2" transform="translate(100, 240)"><rect x="-50" y="-17" width="100" height="34" rx="17"/></g>',
+            '</g></g></svg>',
+        ].join('');
+
+        it('should keep rendered positions, shapes and containers', () => {
+            const doc = parse(createDrawioXml(ast, svg, 'Flow'));
+
+            expect(doc.querySelector('parsererror')).toBeNull();
+            expect(doc.querySelector('diagram')?.getAttribute('name')).toBe('Flow');
+            expect(cell(doc, 'group-api')?.getAttribute('value')).toBe('API layer');
+            expect(geometry(doc, 'group-api')).toEqual([8, 8, 200, 160]);
+            // Inside the container, geometry is relative to it
+            expect(cell(doc, 'node-A')?.getAttribute('parent')).toBe('group-api');
+            expect(geometry(doc, 'node-A')).toEqual([60, 20, 80, 40]);
+            expect(cell(doc, 'node-B')?.getAttribute('style')).toContain('rhombus');
+            expect(geometry(doc, 'node-B')).toEqual([70, 80, 60, 60]);
+            expect(cell(doc, 'node-C')?.getAttribute('style')).toContain('arcSize=50');
+            expect(cell(doc, 'node-C')?.getAttribute('value')).toBe('Retry &amp; wait');
+            expect(geometry(doc, 'node-C')).toEqual([58, 231, 100, 34]);
+        });
+
+        it('should connect edges with labels and arrow styles', () => {
+            const doc = parse(createDrawioXml(ast, svg, 'Flow'));
+            const edges = Array.from(doc.querySelectorAll('mxCell[edge="1"]'));
+
+            expect(edges.map(edge => [edge.getAttribute('source'), edge.getAttribute('target'), edge.getAttribute('value')])).toEqual([
+                ['node-A', 'node-B', ''],
+                ['node-B', 'node-C', 'no'],
+            ]);
+            expect(edges[1].getAttribute('style')).toContain('dashed=1');
+            expect(edges[1].getAttribute('style')).toContain('endArrow=block');
+        });
+    });
+
+    it('should lay out nodes on a grid without a rendered SVG', () => {
+        const doc = parse(createDrawioXml(parseDiagram('flowchart LR\n    A --> B'), '', 'Flow'));
+
+        expect(geometry(doc, 'node-A')).toEqual([0, 0, 120, 60]);
+        expect(geometry(doc, 'node-B')).toEqual([180, 0, 120, 60]);
+    });
+
+    it('should export class members and relation ends', () => {
+        const doc = parse(createDrawioXml(parseDiagram([
+            'classDiagram',
+            '    class Animal {',
+            '        +String name',
+            '        +eat()',
+            '    }',
+            '    Animal <|-- Duck',
+            '    Zoo "1" *-- "many" Animal',
+        ].join('\n')), '', 'Zoo'));
+
+        expect(cell(doc, 'node-Animal')?.getAttribute('style')).toContain('childLayout=stackLayout');
+        expect(Array.from(doc.querySelectorAll('mxCell[parent="node-Animal"]')).map(row => row.getAttribute('value')))
+            .toEqual(['+String name', '+eat()']);
+        expect(cell(doc, 'edge-0')?.getAttribute('style')).toContain('startArrow=block;startFill=0;endArrow=none');
+        expect(cell(doc, 'edge-1')?.getAttribute('style')).toContain('startArrow=diamondThin;startFill=1');
+        expect(cell(doc, 'edge-1-to')?.getAttribute('value')).toBe('many');
+    });
+
+    it('should turn composite states into containers with their own start states', () => {
+        const doc = parse(createDrawioXml(parseDiagram([
+            'stateDiagram-v2',
+            '    [*] --> Active',
+            '    state Active {',
+            '        [*] --> Busy',
+            '    }',
+            '    Active --> [*]',
+        ].join('\n')), '', 'States'));
+
+        expect(cell(doc, 'group-Active')?.getAttribute('style')).toContain('swimlane');
+        expect(cell(doc, 'node-Active')).toBeNull();
+        expect(cell(doc, 'state-Active_start')?.getAttribute('parent')).toBe('group-Active');
+        expect(Array.from(doc.querySelectorAll('mxCell[edge="1"]')).map(edge => [edge.getAttribute('source'), edge.getAttribute('target')])).toEqual([
+            ['state-root_start', 'group-Active'],
+            ['state-Active_start', 'node-Busy'],
+            ['group-Active', 'state-root_end'],
+        ]);
+    });
+
+    it('should map ER cardinalities to crow\'s foot arrows', () => {
+        const doc = parse(createDrawioXml(parseDiagram('erDiagram\n    CUSTOMER ||--o{ ORDER : places\n    ORDER }|..|{ ITEM : has'), '', 'ER'));
+
+        expect(cell(doc, 'edge-0')?.getAttribute('style')).toContain('startArrow=ERmandOne;endArrow=ERzeroToMany');
+        expect(cell(doc, 'edge-1')?.getAttribute('style')).toMatch(/startArrow=ERoneToMany;endArrow=ERoneToMany;dashed=1/);
+    });
+
+    it('should reject diagram types draw.io export does not support', () => {
+        expect(() => createDrawioXml(parseDiagram('sequenceDiagram\n    A->>B: Hi'), '', 'Seq')).toThrow();
+    });
+});
@@ -0,0 +1,434 @@
+import { AstDiagramType, DiagramAst, DiagramEdge, DiagramGroup, FlowchartShape, MemberStatement } from '@/lib/mermaidAst';
+import { getSvgNodeId } from '@/lib/svgDiff';
+
+/**
+ * Export to draw.io (diagrams.net) mxGraph XML.
+ * Structure comes from the AST; positions and sizes come from the rendered SVG so the layout matches the preview.
+ */
+
+export type DrawioDiagramType = Extract<AstDiagramType, 'flowchart' | 'class' | 'state' | 'er'>;
+
+export const DRAWIO_DIAGRAM_TYPES: DrawioDiagramType[] = ['flowchart', 'class', 'state', 'er'];
+
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface Cell {
+    id: string;
+    value: string;
+    style: string;
+    parent: string;
+    vertex?: boolean;
+    edge?: boolean;
+    source?: string;
+    target?: string;
+    /** Absolute, unless `inParent` is set */
+    box?: Box;
+    /** Box is already relative to the parent, as for class members */
+    inParent?: boolean;
+    /** Edge labels: position along the parent edge, -1 to 1 */
+    along?: number;
+}
+
+const NODE_SELECTOR = 'g.node, g[id^="entity-"]';
+const SHAPE_SELECTOR = 'rect, polygon, circle, ellipse';
+
+// Titles of class, entity and container cells
+const HEADER_HEIGHT = 26;
+const ROW_HEIGHT = 20;
+const CONTAINER_PADDING = 20;
+
+const FLOWCHART_SHAPES: Record<FlowchartShape, string> = {
+    rect: 'rounded=0;',
+    round: 'rounded=1;',
+    stadium: 'rounded=1;arcSize=50;',
+    subroutine: 'shape=process;backgroundOutline=1;',
+    cylinder: 'shape=cylinder3;boundedLbl=1;backgroundOutline=1;size=10;',
+    circle: 'ellipse;aspect=fixed;',
+    'double-circle': 'ellipse;shape=doubleEllipse;aspect=fixed;',
+    asymmetric: 'shape=mxgraph.arrows2.arrow;dy=0;dx=0;notch=15;',
+    rhombus: 'rhombus;',
+    hexagon: 'shape=hexagon;perimeter=hexagonPerimeter2;fixedSize=1;size=15;',
+    parallelogram: 'shape=parallelogram;perimeter=parallelogramPerimeter;fixedSize=1;size=15;',
+    'parallelogram-alt': 'shape=parallelogram;perimeter=parallelogramPerimeter;fixedSize=1;size=15;flipH=1;',
+    trapezoid: 'shape=trapezoid;perimeter=trapezoidPerimeter;fixedSize=1;size=15;',
+    'trapezoid-alt': 'shape=trapezoid;perimeter=trapezoidPerimeter;fixedSize=1;size=15;flipV=1;',
+};
+
+const LABEL_STYLE = 'whiteSpace=wrap;html=1;';
+const CONTAINER_STYLE = 'rounded=0;container=1;collapsible=0;verticalAlign=top;fillColor=none;dashed=1;' + LABEL_STYLE;
+const LIST_STYLE = 'swimlane;fontStyle=1;align=center;startSize=26;childLayout=stackLayout;horizontal=1;horizontalStack=0;'
+    + 'resizeParent=1;resizeParentMax=0;collapsible=0;marginBottom=0;' + LABEL_STYLE;
+const ROW_STYLE = 'text;strokeColor=none;fillColor=none;align=left;verticalAlign=middle;spacingLeft=4;spacingRight=4;'
+    + 'overflow=hidden;rotatable=0;points=[[0,0.5],[1,0.5]];portConstraint=eastwest;' + LABEL_STYLE;
+const STATE_STYLE = 'rounded=1;arcSize=40;' + LABEL_STYLE;
+const COMPOSITE_STYLE = 'swimlane;rounded=1;startSize=26;collapsible=0;' + LABEL_STYLE;
+const START_STYLE = 'ellipse;fillColor=#000000;strokeColor=#000000;aspect=fixed;';
+const END_STYLE = 'ellipse;shape=endState;fillColor=#000000;strokeColor=#000000;aspect=fixed;';
+const EDGE_STYLE = 'edgeStyle=orthogonalEdgeStyle;rounded=1;html=1;';
+const EDGE_LABEL_STYLE = 'edgeLabel;resizable=0;html=1;';
+
+const DEFAULT_SIZES: Record<DrawioDiagramType, { width: number; height: number }> = {
+    flowchart: { width: 120, height: 60 },
+    class: { width: 160, height: HEADER_HEIGHT },
+    state: { width: 100, height: 40 },
+    er: { width: 160, height: HEADER_HEIGHT },
+};
+
+const FLOWCHART_HEADS: Record<string, string> = { '>': 'block', '<': 'block', o: 'oval', x: 'cross' };
+
+// Class relation ends, read outwards from the line
+const CLASS_HEADS: Record<string, string> = {
+    '<|': 'block;{side}Fill=0',
+    '|>': 'block;{side}Fill=0',
+    '*': 'diamondThin;{side}Fill=1',
+    o: 'diamondThin;{side}Fill=0',
+    '<': 'open',
+    '>': 'open',
+    '()': 'oval;{side}Fill=0',
+};
+
+// Crow's foot ends: left side as written before the line, right side after it
+const ER_LEFT: Record<string, string> = { '|o': 'ERzeroToOne', '||': 'ERmandOne', '}o': 'ERzeroToMany', '}|': 'ERoneToMany' };
+const ER_RIGHT: Record<string, string> = { 'o|': 'ERzeroToOne', '||': 'ERmandOne', 'o{': 'ERzeroToMany', '|{': 'ERoneToMany' };
+
+export const isDrawioDiagramType = (type: string): type is DrawioDiagramType =>
+    DRAWIO_DIAGRAM_TYPES.includes(type as DrawioDiagramType);
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\n/g, '&#xa;');
+}
+
+/**
+ * Cell value for an html=1 label: Mermaid line breaks become <br>, everything else is literal text
+ */
+function toLabel(text: string): string {
+    return text
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/\n/g, '<br>');
+}
+
+/**
+ * Sum of translate() offsets from an element up to, not including, `stopAt`
+ */
+function translationOf(element: Element, stopAt: Element | null): { x: number; y: number } {
+    let x = 0;
+    let y = 0;
+    for (let current: Element | null = element; current && current !== stopAt; current = current.parentElement) {
+        const transform = current.getAttribute('transform') || '';
+        for (const match of transform.matchAll(/translate\(\s*(-?[\d.e+-]+)(?:[\s,]+(-?[\d.e+-]+))?\s*\)/g)) {
+            x += Number(match[1]);
+            y += Number(match[2] ?? 0);
+        }
+    }
+    return { x, y };
+}
+
+/**
+ * Untransformed bounds of a basic shape from its attributes
+ */
+function shapeBounds(shape: Element): Box | null {
+    const number = (name: string) => parseFloat(shape.getAttribute(name) || '0');
+    switch (shape.tagName.toLowerCase()) {
+        case 'rect':
+            return { x: number('x'), y: number('y'), width: number('width'), height: number('height') };
+        case 'circle':
+            return { x: number('cx') - number('r'), y: number('cy') - number('r'), width: number('r') * 2, height: number('r') * 2 };
+        case 'ellipse':
+            return { x: number('cx') - number('rx'), y: number('cy') - number('ry'), width: number('rx') * 2, height: number('ry') * 2 };
+        case 'polygon': {
+            const values = (shape.getAttribute('points') || '').trim().split(/[\s,]+/).map(Number);
+            const xs = values.filter((_, index) => index % 2 === 0);
+            const ys = values.filter((_, index) => index % 2 === 1);
+            if (xs.length === 0) return null;
+            const x = Math.min(...xs);
+            const y = Math.min(...ys);
+            return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Absolute box of a rendered node or cluster: its largest shape, moved by every enclosing translate()
+ */
+function renderedBox(element: Element, root: Element): Box | null {
+    let best: Box | null = null;
+    for (const shape of Array.from(element.querySelectorAll(SHAPE_SELECTOR))) {
+        const bounds = shapeBounds(shape);
+        if (!bounds || bounds.width * bounds.height <= (best ? best.width * best.height : 0)) continue;
+        const offset = translationOf(shape, root);
+        best = { ...bounds, x: bounds.x + offset.x, y: bounds.y + offset.y };
+    }
+    return best;
+}
+
+const union = (boxes: Box[]): Box | null => {
+    if (boxes.length === 0) return null;
+    const x = Math.min(...boxes.map(box => box.x));
+    const y = Math.min(...boxes.map(box => box.y));
+    return {
+        x,
+        y,
+        width: Math.max(...boxes.map(box => box.x + box.width)) - x,
+        height: Math.max(...boxes.map(box => box.y + box.height)) - y,
+    };
+};
+
+function flowchartEdgeStyle(arrow: string): string {
+    if (arrow.startsWith('~')) return 'endArrow=none;strokeColor=none;';
+    const end = FLOWCHART_HEADS[arrow[arrow.length - 1]] ?? 'none';
+    const start = /^[<ox][-.=]/.test(arrow) ? FLOWCHART_HEADS[arrow[0]] : 'none';
+    return `startArrow=${start};endArrow=${end};`
+        + (arrow.includes('.') ? 'dashed=1;' : '')
+        + (arrow.includes('=') ? 'strokeWidth=3;' : '');
+}
+
+function classEdgeStyle(arrow: string): string {
+    const lineStart = arrow.search(/[-.]/);
+    const lineEnd = arrow.search(/[^-.]*$/);
+    const head = (token: string, side: 'start' | 'end') =>
+        (CLASS_HEADS[token] ?? 'none').replace('{side}', side);
+    return `startArrow=${head(arrow.slice(0, lineStart), 'start')};endArrow=${head(arrow.slice(lineEnd), 'end')};`
+        + (arrow.includes('..') ? 'dashed=1;' : '');
+}
+
+function erEdgeStyle(arrow: string): string {
+    return `edgeStyle=entityRelationEdgeStyle;startArrow=${ER_LEFT[arrow.slice(0, 2)] ?? 'none'};endArrow=${ER_RIGHT[arrow.slice(-2)] ?? 'none'};`
+        + (arrow.includes('..') ? 'dashed=1;' : '');
+}
+
+function edgeStyle(type: DrawioDiagramType, arrow: string): string {
+    switch (type) {
+        case 'flowchart':
+            return EDGE_STYLE + flowchartEdgeStyle(arrow);
+        case 'class':
+            return EDGE_STYLE + classEdgeStyle(arrow);
+        case 'er':
+            return 'html=1;' + erEdgeStyle(arrow);
+        default:
+            return EDGE_STYLE + 'endArrow=block;';
+    }
+}
+
+/**
+ * Build a .drawio file for a flowchart, class, state or ER diagram.
+ * Nodes missing from the SVG (or all of them, without an SVG) are laid out on a grid below the rest.
+ */
+export function createDrawioXml(ast: DiagramAst, svg: string, title: string): string {
+    if (!isDrawioDiagramType(ast.type)) {
+        throw new Error(`${ast.type} diagrams cannot be exported to draw.io.`);
+    }
+    const type = ast.type;
+
+    const root = svg ? new DOMParser().parseFromString(svg, 'image/svg+xml').querySelector('svg') : null;
+    const [originX = 0, originY = 0] = (root?.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+
+    const renderedNodes = new Map<string, Element>();
+    root?.querySelectorAll(NODE_SELECTOR).forEach(element => {
+        const id = getSvgNodeId(element);
+        if (id && !renderedNodes.has(id)) renderedNodes.set(id, element);
+    });
+    const clusters = Array.from(root?.querySelectorAll('g.cluster') ?? []);
+
+    const locate = (element: Element | undefined): Box | null => {
+        const box = element && root ? renderedBox(element, root) : null;
+        return box && { ...box, x: box.x - (originX || 0), y: box.y - (originY || 0) };
+    };
+
+    const members = new Map<string, MemberStatement[]>();
+    ast.statements.forEach(statement => {
+        if (statement.kind === 'member') members.set(statement.owner, [...(members.get(statement.owner) ?? []), statement]);
+    });
+
+    // Composite states become containers rather than boxes
+    const groupIds = new Set(ast.groups.map(group => group.id));
+    const cellIds = new Map<string, string>();
+    ast.groups.forEach(group => cellIds.set(group.id, `group-${group.id}`));
+    ast.nodes.forEach(node => {
+        if (!groupIds.has(node.id)) cellIds.set(node.id, `node-${node.id}`);
+    });
+    const parentOf = (id?: string) => (id && cellIds.get(id)) || '1';
+
+    const cells: Cell[] = [];
+    const unplaced: Cell[] = [];
+    const addVertex = (cell: Cell, rendered: Element | undefined, fallback: { width: number; height: number }) => {
+        cell.box = locate(rendered) ?? { x: 0, y: 0, ...fallback };
+        if (!rendered || !root) unplaced.push(cell);
+        cells.push(cell);
+        return cell;
+    };
+
+    for (const node of ast.nodes) {
+        if (groupIds.has(node.id)) continue;
+        const rows = type === 'class' || type === 'er' ? members.get(node.id) ?? [] : [];
+        const defaults = DEFAULT_SIZES[type];
+        const cell = addVertex({
+            id: cellIds.get(node.id),
+            value: toLabel(node.label ?? node.id),
+            style: type === 'flowchart'
+                ? FLOWCHART_SHAPES[node.shape ?? 'rect'] + LABEL_STYLE
+                : type === 'state' ? STATE_STYLE : LIST_STYLE,
+            parent: parentOf(node.parent),
+            vertex: true,
+        }, renderedNodes.get(node.id), { width: defaults.width, height: defaults.height + rows.length * ROW_HEIGHT });
+
+        // Members stack under the title, sharing the rendered height
+        const rowHeight = Math.max(ROW_HEIGHT, (cell.box.height - HEADER_HEIGHT) / (rows.length || 1));
+        rows.forEach((row, index) => cells.push({
+            id: `${cell.id}-row-${index}`,
+            value: toLabel(row.text.text),
+            style: ROW_STYLE,
+            parent: cell.id,
+            vertex: true,
+            box: { x: 0, y: HEADER_HEIGHT + index * rowHeight, width: cell.box.width, height: rowHeight },
+            inParent: true,
+        }));
+    }
+
+    // Start and end pseudo-states: one of each per composite state, as Mermaid draws them
+    const scopeOf = (id: string) =>
+        groupIds.has(id) ? ast.groups.find(group => group.id === id)?.parent : ast.nodes.find(node => node.id === id)?.parent;
+    const pseudoState = (kind: 'start' | 'end', scope?: string): string => {
+        const svgId = `${scope ?? 'root'}_${kind}`;
+        const id = `state-${svgId}`;
+        if (!cells.some(cell => cell.id === id)) {
+            addVertex({
+                id,
+                value: '',
+                style: kind === 'start' ? START_STYLE : END_STYLE,
+                parent: parentOf(scope),
+                vertex: true,
+            }, renderedNodes.get(svgId), { width: 20, height: 20 });
+        }
+        return id;
+    };
+    const endpoints = ast.edges.map(edge => ({
+        source: edge.from === '[*]' ? pseudoState('start', scopeOf(edge.to)) : cellIds.get(edge.from),
+        target: edge.to === '[*]' ? pseudoState('end', scopeOf(edge.from)) : cellIds.get(edge.to),
+    }));
+
+    // Unrendered nodes go on a grid under the diagram
+    const placed = union(cells.filter(cell => !cell.inParent && !unplaced.includes(cell)).map(cell => cell.box));
+    unplaced.forEach((cell, index) => {
+        cell.box.x = (placed?.x ?? 0) + (index % 4) * 180;
+        cell.box.y = (placed ? placed.y + placed.height + 40 : 0) + Math.floor(index / 4) * 120;
+    });
+
+    // Containers: the rendered cluster, else the bounds of their children. Deepest first, so parents include nested groups
+    const depth = (group?: DiagramGroup): number =>
+        group?.parent ? 1 + depth(ast.groups.find(candidate => candidate.id === group.parent)) : 0;
+    [...ast.groups].sort((a, b) => depth(b) - depth(a)).forEach(group => {
+        const id = cellIds.get(group.id);
+        const rendered = clusters.find(element => element.id === group.id || getSvgNodeId(element) === group.id)
+            ?? (type === 'state' ? renderedNodes.get(group.id) : undefined);
+        const contents = union(cells.filter(cell => cell.parent === id && !cell.inParent).map(cell => cell.box));
+        cells.push({
+            id,
+            value: toLabel(group.label ?? group.id),
+            style: type === 'state' ? COMPOSITE_STYLE : CONTAINER_STYLE,
+            parent: parentOf(group.parent),
+            vertex: true,
+            box: locate(rendered) ?? (contents
+                ? {
+                    x: contents.x - CONTAINER_PADDING,
+                    y: contents.y - CONTAINER_PADDING - HEADER_HEIGHT,
+                    width: contents.width + CONTAINER_PADDING * 2,
+                    height: contents.height + CONTAINER_PADDING * 2 + HEADER_HEIGHT,
+                }
+                : { x: 0, y: 0, ...DEFAULT_SIZES.flowchart }),
+        });
+    });
+
+    ast.edges.forEach((edge: DiagramEdge, index) => {
+        const id = `edge-${index}`;
+        cells.push({
+            id,
+            value: edge.label ? toLabel(edge.label) : '',
+            style: edgeStyle(type, edge.arrow),
+            parent: '1',
+            edge: true,
+            ...endpoints[index],
+        });
+
+        // Class multiplicities sit at either end of the line
+        const { fromCardinality, toCardinality } = edge.link;
+        if (fromCardinality) {
+            cells.push({ id: `${id}-from`, value: toLabel(fromCardinality.text), style: EDGE_LABEL_STYLE + 'align=left;', parent: id, vertex: true, along: -0.8 });
+        }
+        if (toCardinality) {
+            cells.push({ id: `${id}-to`, value: toLabel(toCardinality.text), style: EDGE_LABEL_STYLE + 'align=right;', parent: id, vertex: true, along: 0.8 });
+        }
+    });
+
+    // Parents must come before their children
+    const byId = new Map(cells.map(cell => [cell.id, cell]));
+    const ordered: Cell[] = [];
+    const visit = (cell: Cell) => {
+        if (ordered.includes(cell)) return;
+        const parent = byId.get(cell.parent);
+        if (parent) visit(parent);
+        ordered.push(cell);
+    };
+    cells.forEach(visit);
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const geometry = (cell: Cell): string => {
+        if (cell.edge) return '<mxGeometry relative="1" as="geometry" />';
+        if (cell.along !== undefined) {
+            return `<mxGeometry x="${cell.along}" relative="1" as="geometry"><mxPoint as="offset" /></mxGeometry>`;
+        }
+        // Children are positioned relative to their container
+        const parent = cell.inParent ? undefined : byId.get(cell.parent)?.box;
+        const x = cell.box.x - (parent?.x ?? 0);
+        const y = cell.box.y - (parent?.y ?? 0);
+        return `<mxGeometry x="${round(x)}" y="${round(y)}" width="${round(cell.box.width)}" height="${round(cell.box.height)}" as="geometry" />`;
+    };
+
+    const serialize = (cell: Cell): string => {
+        const attributes = [
+            `id="${escapeXml(cell.id)}"`,
+            `value="${escapeXml(cell.value)}"`,
+            `style="${escapeXml(cell.style)}"`,
+            cell.vertex && 'vertex="1"',
+            cell.edge && 'edge="1"',
+            cell.along !== undefined && 'connectable="0"',
+            cell.source && `source="${escapeXml(cell.source)}"`,
+            cell.target && `target="${escapeXml(cell.target)}"`,
+            `parent="${escapeXml(cell.parent)}"`,
+        ].filter(Boolean).join(' ');
+        return `        <mxCell ${attributes}>${geometry(cell)}</mxCell>`;
+    };
+
+    const bounds = union(cells.filter(cell => cell.box && !cell.inParent).map(cell => cell.box));
+    const pageWidth = Math.ceil(Math.max(850, bounds ? bounds.x + bounds.width : 0));
+    const pageHeight = Math.ceil(Math.max(1100, bounds ? bounds.y + bounds.height : 0));
+
+    return [
+        '<mxfile host="FlowGen" type="device">',
+        `  <diagram id="flowgen-${type}" name="${escapeXml(title)}">`,
+        `    <mxGraphModel grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="${pageWidth}" pageHeight="${pageHeight}" math="0" shadow="0">`,
+        '      <root>',
+        '        <mxCell id="0" />',
+        '        <mxCell id="1" parent="0" />',
+        ...ordered.map(serialize),
+        '      </root>',
+        '    </mxGraphModel>',
+        '  </diagram>',
+        '</mxfile>',
+        '',
+    ].join('\n');
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { convertDrawio } from '@/lib/drawioImport';
+import { createDrawioXml } from '@/lib/drawioExport';
+import { parseDiagram } from '@/lib/mermaidParser';
+
+const model = (...cells: string[]) => [
+    '<mxGraphModel><root>',
+    '<mxCell id="0"/><mxCell id="1" parent="0"/>',
+    ...cells,
+    '</root></mxGraphModel>',
+].join('');
+
+const vertex = (id: string, value: string, style: string, x: number, y: number, parent = '1') =>
+    `<mxCell id="${id}" value="${value}" style="${style}" vertex="1" parent="${parent}"><mxGeometry x="${x}" y="${y}" width="120" height="60" as="geometry"/></mxCell>`;
+
+const edge = (id: string, source: string, target: string, style = '', value = '') =>
+    `<mxCell id="${id}" value="${value}" style="${style}" edge="1" parent="1" source="${source}" target="${target}"><mxGeometry relative="1" as="geometry"/></mxCell>`;
+
+describe('drawioImport', () => {
+    it('should convert shapes, containers and connectors to a flowchart', async () => {
+        const result = await convertDrawio(`<mxfile><diagram name="Checkout">${model(
+            vertex('start', 'Start', 'ellipse;aspect=fixed;', 0, 0),
+            vertex('lane', 'Payment', 'swimlane;', 200, -20),
+            vertex('check', 'Card &lt;b&gt;ok&lt;/b&gt;?', 'rhombus;html=1;fillColor=#fef3c7;', 20, 40, 'lane'),
+            vertex('done', 'Done&lt;br&gt;and paid', 'rounded=1;whiteSpace=wrap;html=1;', 400, 0),
+            vertex('note', 'Remember to test', 'text;html=1;', 0, 200),
+            edge('e1', 'start', 'check', 'edgeStyle=orthogonalEdgeStyle;dashed=1;'),
+            edge('e2', 'check', 'done', 'endArrow=none;strokeWidth=3;', 'yes'),
+            edge('e3', 'check', 'missing'),
+        )}</diagram><diagram name="Other">${model()}</diagram></mxfile>`);
+
+        expect(result.diagramType).toBe('flowchart');
+        expect(result.title).toBe('Checkout');
+        expect(result.code).toBe([
+            '---',
+            'title: "Checkout"',
+            '---',
+            'flowchart LR',
+            '    subgraph lane [Payment]',
+            '        check{Card ok?}',
+            '    end',
+            '    start((Start))',
+            '    done("Done<br>and paid")',
+            '    start -.-> check',
+            '    check ===|yes| done',
+            '    style check fill:#fef3c7',
+            '',
+        ].join('\n'));
+        expect(result.warnings).toEqual([
+            'Only the first page was imported',
+            'Free-standing text was dropped',
+            'Edges that are not connected at both ends were dropped',
+        ]);
+    });
+
+    it('should read compressed pages', async () => {
+        const xml = model(vertex('a', 'A', '', 0, 0), vertex('b', 'B', '', 0, 120), edge('e', 'a', 'b'));
+        const payload = deflateRawSync(Buffer.from(encodeURIComponent(xml))).toString('base64');
+        const result = await convertDrawio(`<mxfile><diagram name="Page-1">${payload}</diagram></mxfile>`);
+
+        expect(result.code).toContain('flowchart TD');
+        expect(result.code).toContain('a --> b');
+    });
+
+    it('should round-trip class diagrams exported to draw.io', async () => {
+        const source = [
+            'classDiagram',
+            '    class Animal {',
+            '        +String name',
+            '        +eat()',
+            '    }',
+            '    Animal <|-- Duck',
+            '    Zoo "1" *-- "many" Animal : houses',
+        ].join('\n');
+        const result = await convertDrawio(createDrawioXml(parseDiagram(source), '', 'Zoo'));
+        const ast = parseDiagram(result.code);
+
+        expect(result.diagramType).toBe('class');
+        expect(result.code).toContain('    class Animal {\n        +String name\n        +eat()\n    }');
+        expect(ast.edges.map(edge => [edge.from, edge.arrow, edge.to, edge.label])).toEqual([
+            ['Animal', '<|--', 'Duck', undefined],
+            ['Zoo', '*--', 'Animal', 'houses'],
+        ]);
+        expect(result.code).toContain('Zoo "1" *-- "many" Animal : houses');
+        expect(result.warnings).toEqual([]);
+    });
+
+    it('should reject files that are not draw.io documents', async () => {
+        await expect(convertDrawio('<svg xmlns="http://www.w3.org/2000/svg"/>')).rejects.toThrow('Not a draw.io file');
+    });
+});
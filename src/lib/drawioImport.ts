@@ -0,0 +1,367 @@
+import { FlowchartShape } from '@/lib/mermaidAst';
+import {
+    ImportConversion,
+    ImportWarnings,
+    ImportedFlowchart,
+    ImportedGroup,
+    createGroup,
+    createIdMap,
+    createWarnings,
+    flowchartArrow,
+    printImportedFlowchart,
+    printTitle,
+    toMermaidText,
+} from '@/lib/diagramImport';
+
+/**
+ * draw.io (diagrams.net) to Mermaid: shapes and connectors become a flowchart;
+ * pages made only of UML class boxes become a class diagram.
+ */
+
+interface DrawioCell {
+    id: string;
+    /** Plain text, with line breaks */
+    value: string;
+    style: Record<string, string>;
+    /** Style name without a value, e.g. `ellipse`, `swimlane`, `text` */
+    kind: string;
+    parent?: string;
+    source?: string;
+    target?: string;
+    vertex: boolean;
+    edge: boolean;
+    /** Absolute position of vertices; relative position along the line for edge labels */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Style keys that map onto flowchart shapes, checked in order
+const SHAPES: Array<[(style: Record<string, string>, kind: string) => boolean, FlowchartShape]> = [
+    [(style) => style.shape === 'doubleEllipse', 'double-circle'],
+    [(style, kind) => kind === 'ellipse' || style.shape === 'ellipse', 'circle'],
+    [(style, kind) => kind === 'rhombus' || style.shape === 'rhombus', 'rhombus'],
+    [(style) => style.shape === 'hexagon', 'hexagon'],
+    [(style) => style.shape === 'parallelogram' && style.flipH === '1', 'parallelogram-alt'],
+    [(style) => style.shape === 'parallelogram', 'parallelogram'],
+    [(style) => style.shape === 'trapezoid' && style.flipV === '1', 'trapezoid-alt'],
+    [(style) => style.shape === 'trapezoid', 'trapezoid'],
+    [(style) => /^cylinder\d?$/.test(style.shape ?? '') || style.shape === 'datastore', 'cylinder'],
+    [(style) => style.shape === 'process', 'subroutine'],
+    [(style) => style.rounded === '1' && Number(style.arcSize) >= 50, 'stadium'],
+    [(style) => style.rounded === '1', 'round'],
+];
+
+// Edge ends back to Mermaid flowchart heads
+const FLOWCHART_HEADS: Record<string, '' | '>' | 'o' | 'x'> = { none: '', oval: 'o', cross: 'x' };
+
+// Edge ends back to class relation heads, as written on the start and end side
+const CLASS_HEADS: Record<string, [string, string]> = {
+    block: ['<|', '|>'],
+    diamondThin: ['o', 'o'],
+    diamond: ['o', 'o'],
+    open: ['<', '>'],
+    none: ['', ''],
+};
+
+const isColor = (value?: string): value is string => !!value && value !== 'none' && value !== 'default';
+
+/**
+ * Plain text of a cell value; html=1 labels keep their line breaks
+ */
+function toText(value: string, html: boolean): string {
+    if (!html) return value;
+    const marked = value.replace(/<br\s*\/?>|<\/(div|p|li)>/gi, '\n');
+    return (new DOMParser().parseFromString(marked, 'text/html').body.textContent ?? '')
+        .replace(/\u00a0/g, ' ')
+        .replace(/\n{2,}/g, '\n')
+        .trim();
+}
+
+function parseStyle(style: string): { kind: string; style: Record<string, string> } {
+    const entries: Record<string, string> = {};
+    let kind = '';
+    style.split(';').filter(Boolean).forEach(part => {
+        const separator = part.indexOf('=');
+        if (separator === -1) kind ||= part;
+        else entries[part.slice(0, separator)] = part.slice(separator + 1);
+    });
+    return { kind, style: entries };
+}
+
+/**
+ * The graph model of a diagram page: inline, or deflated + base64 as draw.io saves by default
+ */
+async function readModel(diagram: Element): Promise<Element | null> {
+    const inline = diagram.querySelector('mxGraphModel');
+    if (inline) return inline;
+
+    const payload = diagram.textContent?.trim() ?? '';
+    if (!payload) return null;
+    let xml = payload;
+    if (!payload.startsWith('<')) {
+        const bytes = Uint8Array.from(atob(payload), char => char.charCodeAt(0));
+        const inflated = new Response(bytes).body!.pipeThrough(new DecompressionStream('deflate-raw'));
+        xml = decodeURIComponent(await new Response(inflated).text());
+    }
+    return new DOMParser().parseFromString(xml, 'application/xml').querySelector('mxGraphModel');
+}
+
+function readCells(model: Element): DrawioCell[] {
+    const cells = Array.from(model.querySelectorAll('mxCell')).map(element => {
+        // Cells with custom properties are wrapped in <object> or <UserObject>, which holds the id and label
+        const wrapper = element.parentElement && /^(object|UserObject)$/.test(element.parentElement.tagName)
+            ? element.parentElement
+            : null;
+        const attribute = (name: string) => element.getAttribute(name) ?? undefined;
+        const { kind, style } = parseStyle(attribute('style') ?? '');
+        const geometry = element.querySelector('mxGeometry');
+        const number = (name: string) => parseFloat(geometry?.getAttribute(name) ?? '0') || 0;
+        return {
+            id: wrapper?.getAttribute('id') ?? attribute('id') ?? '',
+            value: toText(wrapper?.getAttribute('label') ?? attribute('value') ?? '', style.html === '1'),
+            style,
+            kind,
+            parent: attribute('parent'),
+            source: attribute('source'),
+            target: attribute('target'),
+            vertex: attribute('vertex') === '1',
+            edge: attribute('edge') === '1',
+            x: number('x'),
+            y: number('y'),
+            width: number('width'),
+            height: number('height'),
+        };
+    });
+
+    // Child geometry is relative to its container
+    const byId = new Map(cells.map(cell => [cell.id, cell]));
+    const absolute = new Set<DrawioCell>();
+    const place = (cell: DrawioCell) => {
+        if (absolute.has(cell)) return;
+        absolute.add(cell);
+        const parent = cell.parent ? byId.get(cell.parent) : undefined;
+        if (!parent?.vertex || !cell.vertex) return;
+        place(parent);
+        cell.x += parent.x;
+        cell.y += parent.y;
+    };
+    cells.forEach(place);
+    return cells;
+}
+
+const centre = (cell: DrawioCell) => ({ x: cell.x + cell.width / 2, y: cell.y + cell.height / 2 });
+
+/**
+ * Flowchart direction that best matches how connected shapes are laid out
+ */
+function inferDirection(edges: DrawioCell[], byId: Map<string, DrawioCell>): ImportedFlowchart['direction'] {
+    let dx = 0;
+    let dy = 0;
+    edges.forEach(edge => {
+        const source = byId.get(edge.source ?? '');
+        const target = byId.get(edge.target ?? '');
+        if (!source || !target) return;
+        dx += centre(target).x - centre(source).x;
+        dy += centre(target).y - centre(source).y;
+    });
+    if (Math.abs(dx) > Math.abs(dy)) return dx < 0 ? 'RL' : 'LR';
+    return dy < 0 ? 'BT' : 'TD';
+}
+
+/**
+ * Labels drawn on an edge: its own value, or child label cells. Class mode keeps
+ * labels near either end apart as multiplicities.
+ */
+function edgeLabels(edge: DrawioCell, cells: DrawioCell[]) {
+    const labels = { label: edge.value, from: '', to: '' };
+    cells.filter(cell => cell.parent === edge.id && cell.vertex && cell.value).forEach(cell => {
+        if (cell.x <= -0.5) labels.from = cell.value;
+        else if (cell.x >= 0.5) labels.to = cell.value;
+        else labels.label = [labels.label, cell.value].filter(Boolean).join('\n');
+    });
+    return labels;
+}
+
+function convertClasses(title: string | undefined, classes: DrawioCell[], cells: DrawioCell[], warnings: ImportWarnings): string {
+    const output = [...printTitle(title), 'classDiagram'];
+    const toId = createIdMap('Class');
+    const ids = new Map<string, string>();
+
+    classes.forEach(cell => {
+        // A stereotype line such as «interface» or <<interface>> sits above the name
+        const lines = cell.value.split('\n').map(line => line.trim()).filter(Boolean);
+        const stereotype = lines.length > 1 ? /^(?:«|<<)(.+?)(?:»|>>)$/.exec(lines[0])?.[1] : undefined;
+        const name = (stereotype ? lines.slice(1) : lines).join(' ') || cell.id;
+        const id = toId(name);
+        ids.set(cell.id, id);
+
+        const members = cells
+            .filter(child => child.parent === cell.id && child.vertex && child.style.shape !== 'line' && child.kind !== 'line')
+            .sort((a, b) => a.y - b.y)
+            .flatMap(child => child.value.split('\n'))
+            .map(member => member.trim())
+            .filter(Boolean);
+        const label = name !== id ? `["${name.replace(/"/g, '#quot;')}"]` : '';
+        if (!members.length && !stereotype) {
+            output.push(`    class ${id}${label}`);
+            return;
+        }
+        output.push(`    class ${id}${label} {`);
+        if (stereotype) output.push(`        <<${stereotype}>>`);
+        members.forEach(member => output.push(`        ${member}`));
+        output.push('    }');
+    });
+
+    const classOf = (cellId?: string): string | undefined => {
+        const cell = cells.find(candidate => candidate.id === cellId);
+        return cell && (ids.get(cell.id) ?? ids.get(cell.parent ?? ''));
+    };
+    cells.filter(cell => cell.edge).forEach(edge => {
+        const from = classOf(edge.source);
+        const to = classOf(edge.target);
+        if (!from || !to) {
+            warnings.add('Edges that are not connected at both ends were dropped');
+            return;
+        }
+        const head = (side: 'start' | 'end') => {
+            const shape = edge.style[`${side}Arrow`] ?? (side === 'end' ? 'classic' : 'none');
+            const index = side === 'start' ? 0 : 1;
+            if (shape === 'diamondThin' || shape === 'diamond') return edge.style[`${side}Fill`] === '0' ? 'o' : '*';
+            const mapped = CLASS_HEADS[shape];
+            if (!mapped) warnings.add(`Arrow heads of type "${shape}" were drawn as plain arrows`);
+            return mapped ? mapped[index] : ['<', '>'][index];
+        };
+        const line = edge.style.dashed === '1' ? '..' : '--';
+        const { label, from: fromCardinality, to: toCardinality } = edgeLabels(edge, cells);
+        const cardinality = (value: string) => (value ? ` "${toMermaidText(value)}"` : '');
+        output.push(`    ${from}${cardinality(fromCardinality)} ${head('start')}${line}${head('end')}${cardinality(toCardinality)} ${to}${label ? ` : ${toMermaidText(label)}` : ''}`);
+    });
+
+    return output.join('\n') + '\n';
+}
+
+function convertFlowchart(title: string | undefined, cells: DrawioCell[], layers: Set<string>, warnings: ImportWarnings): string {
+    const byId = new Map(cells.map(cell => [cell.id, cell]));
+    const edges = cells.filter(cell => cell.edge);
+    const connected = new Set(edges.flatMap(edge => [edge.source, edge.target]));
+    // Cells exported from here are named node-A, group-api, ...
+    const idMap = createIdMap();
+    const toId = (cellId: string) => idMap(cellId.replace(/^(node|group)-/, ''));
+    const chart: ImportedFlowchart = {
+        direction: inferDirection(edges, byId),
+        title,
+        nodes: new Map(),
+        edges: [],
+        root: createGroup(''),
+    };
+
+    // Containers: marked as such, swimlanes, or anything with shapes inside
+    const vertices = cells.filter(cell => cell.vertex && !byId.get(cell.parent ?? '')?.edge);
+    const isContainer = (cell: DrawioCell) =>
+        cell.style.container === '1' || cell.kind === 'swimlane' || vertices.some(child => child.parent === cell.id);
+    const groups = new Map<string, ImportedGroup>();
+    const groupOf = (cell: DrawioCell): ImportedGroup => {
+        if (!cell.parent || layers.has(cell.parent)) return chart.root;
+        const parent = byId.get(cell.parent);
+        if (!parent) return chart.root;
+        let group = groups.get(parent.id);
+        if (!group) {
+            group = createGroup(toId(parent.id), parent.value || undefined);
+            groups.set(parent.id, group);
+            groupOf(parent).groups.push(group);
+        }
+        return group;
+    };
+    const idOf = (cellId?: string): string | undefined => {
+        const cell = cellId ? byId.get(cellId) : undefined;
+        if (!cell) return undefined;
+        return groups.get(cell.id)?.id ?? chart.nodes.get(toId(cell.id))?.id;
+    };
+
+    // Top-down, so containers get their place before their contents
+    vertices.filter(isContainer).forEach(cell => {
+        if (!groups.has(cell.id)) {
+            const group = createGroup(toId(cell.id), cell.value || undefined);
+            groups.set(cell.id, group);
+            groupOf(cell).groups.push(group);
+        }
+    });
+    vertices.filter(cell => !isContainer(cell)).forEach(cell => {
+        const freeText = cell.kind === 'text' || (cell.style.strokeColor === 'none' && cell.style.fillColor === 'none');
+        if (freeText && !connected.has(cell.id)) {
+            warnings.add('Free-standing text was dropped');
+            return;
+        }
+        if (cell.kind === 'image' || cell.style.shape === 'image' || cell.style.image) warnings.add('Images were replaced by plain shapes');
+
+        const id = toId(cell.id);
+        const shape = SHAPES.find(([matches]) => matches(cell.style, cell.kind))?.[1] ?? 'rect';
+        if (cell.style.shape && !SHAPES.some(([matches]) => matches(cell.style, cell.kind)) && !/^(label|rectangle|image)$/.test(cell.style.shape)) {
+            warnings.add(`Shape "${cell.style.shape}" was drawn as a rectangle`);
+        }
+        const css = [
+            isColor(cell.style.fillColor) && `fill:${cell.style.fillColor}`,
+            isColor(cell.style.strokeColor) && `stroke:${cell.style.strokeColor}`,
+            isColor(cell.style.fontColor) && `color:${cell.style.fontColor}`,
+        ].filter(Boolean).join(',');
+        chart.nodes.set(id, { id, label: cell.value || '#nbsp;', shape, style: css || undefined });
+        groupOf(cell).nodes.push(id);
+    });
+
+    edges.forEach(edge => {
+        const from = idOf(edge.source);
+        const to = idOf(edge.target);
+        if (!from || !to) {
+            warnings.add('Edges that are not connected at both ends were dropped');
+            return;
+        }
+        const end = edge.style.endArrow ?? 'classic';
+        const start = edge.style.startArrow ?? 'none';
+        const line = edge.style.dashed === '1' ? 'dotted' : Number(edge.style.strokeWidth) >= 3 ? 'thick' : 'normal';
+        const labels = edgeLabels(edge, cells);
+        if (isColor(edge.style.strokeColor)) warnings.add('Edge colors were dropped');
+        chart.edges.push({
+            from,
+            to,
+            arrow: flowchartArrow(line, start === 'none' ? '' : (FLOWCHART_HEADS[start] || '<') as '' | '<' | 'o' | 'x', FLOWCHART_HEADS[end] ?? '>'),
+            label: [labels.from, labels.label, labels.to].filter(Boolean).join('\n') || undefined,
+        });
+    });
+
+    return printImportedFlowchart(chart);
+}
+
+/**
+ * Convert the first page of a .drawio file to Mermaid
+ */
+export async function convertDrawio(source: string): Promise<ImportConversion> {
+    const doc = new DOMParser().parseFromString(source, 'application/xml');
+    const diagrams = Array.from(doc.querySelectorAll('diagram'));
+    const model = diagrams.length ? await readModel(diagrams[0]) : doc.querySelector('mxGraphModel');
+    if (doc.querySelector('parsererror') || !model) {
+        throw new Error('Not a draw.io file: expected an <mxfile> or <mxGraphModel> document.');
+    }
+
+    const warnings = createWarnings();
+    if (diagrams.length > 1) warnings.add('Only the first page was imported');
+    const title = diagrams[0]?.getAttribute('name') || undefined;
+
+    const cells = readCells(model);
+    // The root cell and the layers on it hold everything else
+    const roots = new Set(cells.filter(cell => !cell.parent).map(cell => cell.id));
+    const layers = new Set(cells.filter(cell => !cell.parent || roots.has(cell.parent)).map(cell => cell.id));
+    if (layers.size > 2) warnings.add('Layers were merged');
+    const content = cells.filter(cell => !layers.has(cell.id));
+    if (!content.length) throw new Error('The draw.io page is empty.');
+
+    // UML class boxes: swimlanes whose rows are stacked by draw.io's stack layout
+    const topLevel = content.filter(cell => cell.vertex && layers.has(cell.parent ?? ''));
+    const classes = topLevel.filter(cell => cell.kind === 'swimlane' && cell.style.childLayout === 'stackLayout');
+    if (classes.length && classes.length === topLevel.filter(cell => cell.kind !== 'edgeLabel').length) {
+        return { code: convertClasses(title, classes, content, warnings), diagramType: 'class', title, warnings: warnings.list() };
+    }
+
+    return { code: convertFlowchart(title, content, layers, warnings), diagramType: 'flowchart', title, warnings: warnings.list() };
+}
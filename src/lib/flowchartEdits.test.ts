@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { addConnectedNode, addEdge, deleteNodes, setNodeShape } from '@/lib/flowchartEdits';
+
+describe('flowchartEdits', () => {
+    const code = 'flowchart TD\n    A[Start] --> B{Ok?}\n    B -->|Yes| C[Done]\n';
+
+    describe('addConnectedNode', () => {
+        it('should append a linked node with a fresh id before trailing blank lines', () => {
+            const result = addConnectedNode(code, 'B');
+
+            expect(result.nodeId).toBe('N4');
+            expect(result.code).toBe('flowchart TD\n    A[Start] --> B{Ok?}\n    B -->|Yes| C[Done]\n    B --> N4[New node]\n');
+        });
+
+        it('should reject unknown nodes and other diagram types', () => {
+            expect(() => addConnectedNode(code, 'Z')).toThrow('"Z" was not found');
+            expect(() => addConnectedNode('sequenceDiagram\n    A->>B: hi', 'A')).toThrow('only available for flowcharts');
+        });
+    });
+
+    describe('addEdge', () => {
+        it('should link two existing nodes', () => {
+            expect(addEdge(code, 'C', 'A')).toBe(`${code.trimEnd()}\n    C --> A\n`);
+        });
+    });
+
+    describe('setNodeShape', () => {
+        it('should replace the shape where the node is defined', () => {
+            expect(setNodeShape(code, 'B', 'hexagon')).toBe(code.replace('B{Ok?}', 'B{{Ok?}}'));
+            expect(setNodeShape('graph LR\n    A["x (y)"] --> B', 'A', 'circle')).toBe('graph LR\n    A(("x (y)")) --> B');
+        });
+
+        it('should give unshaped nodes their id as label', () => {
+            expect(setNodeShape('graph LR\n    A --> B', 'B', 'cylinder')).toBe('graph LR\n    A --> B[(B)]');
+        });
+    });
+
+    describe('deleteNodes', () => {
+        it('should remove the node with its edges, styles and clicks', () => {
+            const source = 'graph TD\n    A --> B\n    B --> C\n    C\n    style B fill:#f9f\n    click B callback';
+
+            // A is kept: the deleted edge was its only mention
+            expect(deleteNodes(source, ['B'])).toBe('graph TD\n    A\n    C');
+        });
+
+        it('should keep a neighbour whose only other mentions are class or click lines', () => {
+            expect(deleteNodes('graph TD\n    A --> B\n    class A foo', ['B'])).toBe('graph TD\n    A\n    class A foo');
+            expect(deleteNodes('graph TD\n    A --> B\n    click A "https://example.com"', ['B'])).toBe('graph TD\n    A\n    click A "https://example.com"');
+        });
+
+        it('should split chains and keep definitions of the remaining nodes', () => {
+            const source = 'graph TD\n    A[Start] --> B --> C[End] --> D\n    D --> A';
+
+            expect(deleteNodes(source, ['B'])).toBe('graph TD\n    A[Start]; C[End] --> D\n    D --> A');
+        });
+
+        it('should tidy node groups, class lists and semicolons', () => {
+            const source = 'graph TD\n    A & B --> C; B --> D\n    class A,B,C done';
+
+            expect(deleteNodes(source, ['B'])).toBe('graph TD\n    A --> C; D\n    class A,C done');
+            expect(deleteNodes('graph TD\n    A --> C; B;', ['B'])).toBe('graph TD\n    A --> C');
+        });
+
+        it('should renumber link styles and drop those of removed edges', () => {
+            const source = 'graph TD\n    A --> B\n    B --> C\n    A --> C\n    linkStyle 1 stroke:#f00\n    linkStyle 0,2 stroke-width:2px\n    linkStyle default color:blue';
+
+            expect(deleteNodes(source, ['B'])).toBe('graph TD\n    A --> C\n    linkStyle 0 stroke-width:2px\n    linkStyle default color:blue');
+        });
+    });
+});
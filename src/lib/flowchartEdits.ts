@@ -0,0 +1,270 @@
+import {
+    AstNodeRef,
+    AstStatement,
+    DiagramAst,
+    EdgeStatement,
+    FlowchartShape,
+    SourceRange,
+    findNode,
+} from '@/lib/mermaidAst';
+import { parseDiagram } from '@/lib/mermaidParser';
+import { FLOWCHART_SHAPE_BRACKETS, applySourceEdits, printDiagram, quoteLabel } from '@/lib/mermaidPrinter';
+
+/**
+ * Structural flowchart edits made on the preview canvas.
+ * Each takes the current code and returns the updated code, so the text stays the source of truth.
+ */
+
+export const FLOWCHART_SHAPE_NAMES: Record<FlowchartShape, string> = {
+    rect: 'Rectangle',
+    round: 'Rounded',
+    stadium: 'Stadium',
+    subroutine: 'Subroutine',
+    cylinder: 'Database',
+    circle: 'Circle',
+    'double-circle': 'Double circle',
+    asymmetric: 'Flag',
+    rhombus: 'Decision',
+    hexagon: 'Hexagon',
+    parallelogram: 'Parallelogram',
+    'parallelogram-alt': 'Parallelogram (alt)',
+    trapezoid: 'Trapezoid',
+    'trapezoid-alt': 'Trapezoid (alt)',
+};
+
+export const DEFAULT_NODE_LABEL = 'New node';
+
+// Statements created here have no source position yet
+const NO_RANGE: SourceRange = { start: 0, end: 0 };
+
+const newRef = (id: string, label?: string): AstNodeRef => ({
+    id: { text: id, range: NO_RANGE },
+    label: label === undefined ? undefined : { text: label, range: NO_RANGE },
+    range: NO_RANGE,
+});
+
+function parseFlowchart(code: string): DiagramAst {
+    const ast = parseDiagram(code);
+    if (!ast || ast.type !== 'flowchart') {
+        throw new Error('Visual editing is only available for flowcharts.');
+    }
+    return ast;
+}
+
+function requireNode(ast: DiagramAst, id: string) {
+    const node = findNode(ast, id);
+    if (!node) {
+        throw new Error(`Node "${id}" was not found in the code.`);
+    }
+    return node;
+}
+
+const LINK_STYLE = /^(linkStyle\s+)(\d+(?:\s*,\s*\d+)*)/;
+
+const isBlank = (statement: AstStatement) => statement.kind === 'other' && !(statement.raw ?? '').trim();
+
+/**
+ * Indentation used by the diagram body, so appended lines line up
+ */
+function bodyIndent(ast: DiagramAst): string {
+    const first = ast.statements.find(statement => statement !== ast.header && statement.line !== ast.header.line && !isBlank(statement));
+    return first?.indent || '    ';
+}
+
+/**
+ * Insert new statements after the last non-blank line
+ */
+function appendStatements(ast: DiagramAst, statements: AstStatement[]): void {
+    const headerIndex = ast.statements.indexOf(ast.header);
+    let index = ast.statements.length;
+    while (index > headerIndex + 1 && isBlank(ast.statements[index - 1])) index--;
+    ast.statements.splice(index, 0, ...statements);
+}
+
+const edgeStatement = (indent: string, from: AstNodeRef, to: AstNodeRef): EdgeStatement => ({
+    kind: 'edge',
+    indent,
+    nodes: [[from], [to]],
+    links: [{ arrow: '-->', range: NO_RANGE }],
+});
+
+/**
+ * First unused id of the form N1, N2, ...
+ */
+export function nextNodeId(ast: DiagramAst): string {
+    let index = ast.nodes.length + 1;
+    while (findNode(ast, `N${index}`)) index++;
+    return `N${index}`;
+}
+
+/**
+ * Add a new node linked from an existing one
+ */
+export function addConnectedNode(code: string, fromId: string, label: string = DEFAULT_NODE_LABEL): { code: string; nodeId: string } {
+    const ast = parseFlowchart(code);
+    requireNode(ast, fromId);
+
+    const nodeId = nextNodeId(ast);
+    appendStatements(ast, [edgeStatement(bodyIndent(ast), newRef(fromId), newRef(nodeId, label))]);
+    return { code: printDiagram(ast), nodeId };
+}
+
+/**
+ * Link two existing nodes
+ */
+export function addEdge(code: string, fromId: string, toId: string): string {
+    const ast = parseFlowchart(code);
+    requireNode(ast, fromId);
+    requireNode(ast, toId);
+
+    appendStatements(ast, [edgeStatement(bodyIndent(ast), newRef(fromId), newRef(toId))]);
+    return printDiagram(ast);
+}
+
+/**
+ * Change a node's shape where it is defined, keeping its label
+ */
+export function setNodeShape(code: string, id: string, shape: FlowchartShape): string {
+    const ast = parseFlowchart(code);
+    const node = requireNode(ast, id);
+    const [open, close] = FLOWCHART_SHAPE_BRACKETS[shape];
+
+    const definition = node.refs.find(ref => ref.shapeRange);
+    if (!definition) {
+        // Unshaped nodes show their id, so keep it as the label
+        const end = node.refs[0].id.range.end;
+        return applySourceEdits(code, [{ range: { start: end, end }, text: `${open}${quoteLabel(id)}${close}` }]);
+    }
+
+    const label = definition.label;
+    const quoted = label && code[label.range.start - 1] === '"' && code[label.range.end] === '"';
+    const labelText = label ? (quoted ? `"${label.text}"` : quoteLabel(label.text)) : '';
+    return applySourceEdits(code, [{ range: definition.shapeRange, text: `${open}${labelText}${close}` }]);
+}
+
+/**
+ * Remove nodes with their edges, styles and clicks.
+ * Chains through a deleted node are split; other nodes on them keep their definitions.
+ * `linkStyle` indices are renumbered for the edges that remain.
+ */
+export function deleteNodes(code: string, ids: string[]): string {
+    const ast = parseFlowchart(code);
+    const doomed = new Set(ids);
+    ids.forEach(id => requireNode(ast, id));
+
+    const isDoomed = (ref: AstNodeRef) => doomed.has(ref.id.text);
+    // Nodes that still appear after the deletion. `class` and `click` never create a node in Mermaid.
+    const declared = new Set<string>();
+    for (const statement of ast.statements) {
+        if (statement.kind === 'node') declared.add(statement.node.id.text);
+        if (statement.kind === 'reference' && statement.keyword === 'style') {
+            statement.targets.forEach(target => declared.add(target.id.text));
+        }
+    }
+    ast.edges
+        .filter(edge => !doomed.has(edge.from) && !doomed.has(edge.to))
+        .forEach(edge => declared.add(edge.from).add(edge.to));
+    const mentionedElsewhere = (ref: AstNodeRef) => declared.has(ref.id.text);
+
+    const splitEdge = (statement: EdgeStatement): AstStatement[] => {
+        const groups = statement.nodes.map(group => group.filter(ref => !isDoomed(ref)));
+        const parts: AstStatement[] = [];
+        const base = { line: statement.line, indent: statement.indent };
+        let nodes = [groups[0]];
+        let links = [] as EdgeStatement['links'];
+
+        const flush = () => {
+            if (nodes.length > 1) {
+                parts.push({ ...base, kind: 'edge', nodes, links });
+                return;
+            }
+            // A lone node only needs keeping if this was where it was defined or mentioned
+            for (const ref of nodes[0]) {
+                if (ref.label || ref.shape || !mentionedElsewhere(ref)) {
+                    parts.push({ ...base, kind: 'node', node: ref });
+                }
+            }
+        };
+
+        statement.links.forEach((link, index) => {
+            const next = groups[index + 1];
+            if (nodes[nodes.length - 1].length > 0 && next.length > 0) {
+                nodes.push(next);
+                links.push(link);
+            } else {
+                flush();
+                nodes = [next];
+                links = [];
+            }
+        });
+        flush();
+        return parts;
+    };
+
+    // linkStyle counts edges in source order; Mermaid rejects indices past the last one
+    const edgeIndices = new Map<number, number>();
+    ast.edges.forEach((edge, index) => {
+        if (!doomed.has(edge.from) && !doomed.has(edge.to)) edgeIndices.set(index, edgeIndices.size);
+    });
+
+    const statements: AstStatement[] = [];
+    for (const statement of ast.statements) {
+        if (statement.kind === 'node' && isDoomed(statement.node)) continue;
+
+        const linkStyle = statement.kind === 'other' ? statement.raw?.match(LINK_STYLE) : null;
+        if (linkStyle) {
+            const indices = linkStyle[2].split(',')
+                .map(index => edgeIndices.get(Number(index)))
+                .filter(index => index !== undefined);
+            if (indices.length === 0) continue;
+            statements.push({ ...statement, raw: statement.raw.replace(LINK_STYLE, `$1${indices.join(',')}`) });
+            continue;
+        }
+
+        if (statement.kind === 'edge' && statement.nodes.some(group => group.some(isDoomed))) {
+            statements.push(...splitEdge(statement));
+            continue;
+        }
+
+        if (statement.kind === 'reference' && statement.targets.some(isDoomed)) {
+            const remaining = statement.targets.filter(target => !isDoomed(target));
+            if (remaining.length === 0) continue;
+
+            // class A,B cls: drop the deleted ids from the list
+            const first = statement.targets[0].range.start - statement.range.start;
+            const last = statement.targets[statement.targets.length - 1].range.end - statement.range.start;
+            const raw = applySourceEdits(statement.raw, [{
+                range: { start: first, end: last },
+                text: remaining.map(target => target.id.text).join(','),
+            }]);
+            statements.push({ ...statement, targets: remaining, raw });
+            continue;
+        }
+
+        statements.push(statement);
+    }
+
+    // Keep each line's indentation and drop separators left dangling at its end
+    const lineIndents = new Map<number, string>();
+    const lastOnLine = new Map<number, AstStatement>();
+    for (const statement of ast.statements) {
+        if (statement.line === undefined) continue;
+        if (!lineIndents.has(statement.line)) lineIndents.set(statement.line, statement.indent);
+        lastOnLine.set(statement.line, statement);
+    }
+    ast.statements = statements.map((statement, index) => {
+        if (statement.line === undefined) return statement;
+        const previous = statements[index - 1];
+        const next = statements[index + 1];
+        let result = statement;
+        if (previous?.line !== statement.line) {
+            result = { ...result, indent: lineIndents.get(statement.line) };
+        }
+        if (next?.line !== statement.line && result.raw !== undefined && !statements.includes(lastOnLine.get(statement.line))) {
+            result = { ...result, raw: result.raw.replace(/\s*;\s*$/, '') };
+        }
+        return result;
+    });
+
+    return printDiagram(ast);
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+    HistoryTree,
+    MAX_HISTORY_PREVIEWS,
+    canRedo,
+    canUndo,
+    commit,
+    createHistory,
+    getChildren,
+    getCurrentNode,
+    jumpTo,
+    pruneHistory,
+    redo,
+    setPreview,
+    undo,
+} from '@/lib/history';
+
+const valueOf = <T>(tree: HistoryTree<T>) => getCurrentNode(tree).value;
+
+describe('history', () => {
+    describe('undo and redo', () => {
+        it('should walk back and forth along the edited path', () => {
+            let tree = commit(commit(createHistory('a'), 'b'), 'c');
+
+            tree = undo(undo(tree));
+            expect(valueOf(tree)).toBe('a');
+            expect(canUndo(tree)).toBe(false);
+
+            tree = redo(tree);
+            expect(valueOf(tree)).toBe('b');
+            expect(canRedo(tree)).toBe(true);
+        });
+
+        it('should batch into the latest snapshot when replacing', () => {
+            const tree = commit(commit(createHistory('a'), 'ab'), 'abc', true);
+
+            expect(Object.keys(tree.nodes)).toHaveLength(2);
+            expect(valueOf(undo(tree))).toBe('a');
+        });
+    });
+
+    describe('branching', () => {
+        it('should keep the abandoned future as a branch', () => {
+            let tree = commit(commit(createHistory('a'), 'b'), 'c');
+            tree = commit(undo(tree), 'd', true);
+
+            expect(Object.values(tree.nodes).map(node => node.value).sort()).toEqual(['a', 'b', 'c', 'd']);
+            expect(getChildren(tree, getCurrentNode(undo(tree)).id)).toHaveLength(2);
+        });
+
+        it('should redo into the most recently visited branch', () => {
+            let tree = commit(commit(createHistory('a'), 'b'), 'c');
+            const cId = tree.currentId;
+            tree = commit(undo(tree), 'd');
+
+            tree = redo(undo(jumpTo(tree, cId)));
+            expect(valueOf(tree)).toBe('c');
+        });
+    });
+
+    describe('pruneHistory', () => {
+        it('should drop old snapshots while keeping the current path', () => {
+            let tree = createHistory(0);
+            for (let i = 1; i <= 10; i++) {
+                tree = commit(tree, i);
+            }
+
+            const pruned = pruneHistory(tree, 4);
+            expect(Object.keys(pruned.nodes)).toHaveLength(4);
+            expect(valueOf(pruned)).toBe(10);
+            expect(pruned.nodes[pruned.rootId].parentId).toBeNull();
+        });
+    });
+
+    describe('setPreview', () => {
+        it('should only attach previews to the matching current snapshot', () => {
+            const tree = commit(createHistory('a'), 'b');
+
+            expect(setPreview(tree, 'a', '<svg/>')).toBe(tree);
+            expect(getCurrentNode(setPreview(tree, 'b', '<svg/>')).preview).toBe('<svg/>');
+        });
+
+        it('should keep a bounded number of previews', () => {
+            let tree = createHistory('0');
+            for (let i = 1; i <= MAX_HISTORY_PREVIEWS + 5; i++) {
+                tree = setPreview(commit(tree, String(i)), String(i), `<svg>${i}</svg>`);
+            }
+
+            const withPreview = Object.values(tree.nodes).filter(node => node.preview);
+            expect(withPreview.length).toBeLessThanOrEqual(MAX_HISTORY_PREVIEWS);
+            expect(getCurrentNode(tree).preview).toBeDefined();
+        });
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * Branching undo history stored as a tree of snapshots.
+ * Editing after an undo adds a sibling branch instead of discarding the old future.
+ */
+
+export interface HistoryNode<T> {
+    id: string;
+    parentId: string | null;
+    value: T;
+    savedAt: string;
+    /** Child that redo should move to (the most recently visited branch) */
+    activeChildId?: string;
+    /** Rendered preview of this snapshot, e.g. an SVG string */
+    preview?: string;
+}
+
+export interface HistoryTree<T> {
+    rootId: string;
+    currentId: string;
+    nodes: Record<string, HistoryNode<T>>;
+}
+
+export const MAX_HISTORY_NODES = 100;
+/** Previews are kept for the most recent snapshots only, to bound storage size */
+export const MAX_HISTORY_PREVIEWS = 20;
+
+let nodeCounter = 0;
+const createNodeId = () => `${Date.now().toString(36)}-${(nodeCounter++).toString(36)}`;
+
+export function createHistory<T>(value: T): HistoryTree<T> {
+    const root: HistoryNode<T> = {
+        id: createNodeId(),
+        parentId: null,
+        value,
+        savedAt: new Date().toISOString(),
+    };
+    return { rootId: root.id, currentId: root.id, nodes: { [root.id]: root } };
+}
+
+export const getCurrentNode = <T>(tree: HistoryTree<T>): HistoryNode<T> => tree.nodes[tree.currentId];
+
+export const getChildren = <T>(tree: HistoryTree<T>, id: string): HistoryNode<T>[] =>
+    Object.values(tree.nodes).filter(node => node.parentId === id);
+
+/**
+ * Ids from the root down to (and including) the given node
+ */
+export function getPathToNode<T>(tree: HistoryTree<T>, id: string): string[] {
+    const path: string[] = [];
+    let node = tree.nodes[id];
+    while (node) {
+        path.unshift(node.id);
+        node = node.parentId ? tree.nodes[node.parentId] : undefined;
+    }
+    return path;
+}
+
+/**
+ * Remove the oldest snapshots that are not ancestors of the current one
+ */
+export function pruneHistory<T>(tree: HistoryTree<T>, maxNodes: number = MAX_HISTORY_NODES): HistoryTree<T> {
+    if (Object.keys(tree.nodes).length <= maxNodes) return tree;
+
+    const nodes = { ...tree.nodes };
+    let rootId = tree.rootId;
+    const protectedIds = new Set(getPathToNode(tree, tree.currentId));
+
+    while (Object.keys(nodes).length > maxNodes) {
+        const childCounts = new Map<string, number>();
+        Object.values(nodes).forEach(node => {
+            if (node.parentId) childCounts.set(node.parentId, (childCounts.get(node.parentId) || 0) + 1);
+        });
+
+        const removableLeaf = Object.values(nodes)
+            .filter(node => !childCounts.has(node.id) && !protectedIds.has(node.id))
+            .sort((a, b) => a.savedAt.localeCompare(b.savedAt))[0];
+
+        if (removableLeaf) {
+            delete nodes[removableLeaf.id];
+            const parent = nodes[removableLeaf.parentId];
+            if (parent?.activeChildId === removableLeaf.id) {
+                nodes[parent.id] = { ...parent, activeChildId: undefined };
+            }
+            continue;
+        }
+
+        // Only the current branch is left: drop the oldest snapshot from its start
+        const oldRoot = nodes[rootId];
+        const nextRoot = Object.values(nodes).find(node => node.parentId === oldRoot.id);
+        if (!nextRoot) break;
+        delete nodes[oldRoot.id];
+        nodes[nextRoot.id] = { ...nextRoot, parentId: null };
+        protectedIds.delete(oldRoot.id);
+        rootId = nextRoot.id;
+    }
+
+    return { ...tree, rootId, nodes };
+}
+
+/**
+ * Record a new value. With `replaceCurrent`, an unbranched latest snapshot is updated in place
+ * so rapid edits are batched into one step.
+ */
+export function commit<T>(tree: HistoryTree<T>, value: T, replaceCurrent: boolean = false): HistoryTree<T> {
+    const current = getCurrentNode(tree);
+    const canReplace = replaceCurrent && current.parentId !== null && getChildren(tree, current.id).length === 0;
+
+    if (canReplace) {
+        return {
+            ...tree,
+            nodes: {
+                ...tree.nodes,
+                [current.id]: { ...current, value, savedAt: new Date().toISOString(), preview: undefined },
+            },
+        };
+    }
+
+    const node: HistoryNode<T> = {
+        id: createNodeId(),
+        parentId: current.id,
+        value,
+        savedAt: new Date().toISOString(),
+    };
+
+    return pruneHistory({
+        ...tree,
+        currentId: node.id,
+        nodes: {
+            ...tree.nodes,
+            [current.id]: { ...current, activeChildId: node.id },
+            [node.id]: node,
+        },
+    });
+}
+
+export function undo<T>(tree: HistoryTree<T>): HistoryTree<T> {
+    const current = getCurrentNode(tree);
+    if (!current.parentId) return tree;
+
+    const parent = tree.nodes[current.parentId];
+    return {
+        ...tree,
+        currentId: parent.id,
+        nodes: { ...tree.nodes, [parent.id]: { ...parent, activeChildId: current.id } },
+    };
+}
+
+export function redo<T>(tree: HistoryTree<T>): HistoryTree<T> {
+    const current = getCurrentNode(tree);
+    const nextId = current.activeChildId && tree.nodes[current.activeChildId]
+        ? current.activeChildId
+        : getChildren(tree, current.id).sort((a, b) => b.savedAt.localeCompare(a.savedAt))[0]?.id;
+
+    return nextId ? { ...tree, currentId: nextId } : tree;
+}
+
+/**
+ * Move to any snapshot, pointing redo along the path that leads to it
+ */
+export function jumpTo<T>(tree: HistoryTree<T>, id: string): HistoryTree<T> {
+    if (!tree.nodes[id] || id === tree.currentId) return tree;
+
+    const nodes = { ...tree.nodes };
+    const path = getPathToNode(tree, id);
+    for (let i = 0; i < path.length - 1; i++) {
+        nodes[path[i]] = { ...nodes[path[i]], activeChildId: path[i + 1] };
+    }
+
+    return { ...tree, currentId: id, nodes };
+}
+
+/**
+ * Attach a rendered preview to the current snapshot if it still holds the given value
+ */
+export function setPreview<T>(tree: HistoryTree<T>, value: T, preview: string): HistoryTree<T> {
+    const current = getCurrentNode(tree);
+    if (current.value !== value || current.preview === preview) return tree;
+
+    const nodes = { ...tree.nodes, [current.id]: { ...current, preview } };
+    Object.values(nodes)
+        .filter(node => node.preview && node.id !== current.id)
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+        .slice(MAX_HISTORY_PREVIEWS - 1)
+        .forEach(node => {
+            nodes[node.id] = { ...node, preview: undefined };
+        });
+
+    return { ...tree, nodes };
+}
+
+export const canUndo = <T>(tree: HistoryTree<T>): boolean => getCurrentNode(tree).parentId !== null;
+
+export const canRedo = <T>(tree: HistoryTree<T>): boolean => getChildren(tree, tree.currentId).length > 0;
+
+/**
+ * Basic structural check for trees restored from storage
+ */
+export function isHistoryTree<T>(value: unknown): value is HistoryTree<T> {
+    if (typeof value !== 'object' || value === null) return false;
+    const tree = value as HistoryTree<T>;
+    return typeof tree.nodes === 'object' && tree.nodes !== null &&
+        Boolean(tree.nodes[tree.rootId]) && Boolean(tree.nodes[tree.currentId]);
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createHtmlDocument, escapeHtml } from '@/lib/htmlExport';
+
+const svg = '<svg id="mermaid-1" viewBox="0 0 200 100" style="max-width: 200px;"><style>#mermaid-1 .node rect{fill:#eee;}</style>'
+    + '<g class="node" onclick="alert(1)"><rect width="20" height="10"/></g><script>alert(2)</script></svg>';
+const source = {
+    svg,
+    code: 'graph TD\n    A["<b>Start</b>"] --> B',
+    title: 'Release </title> plan',
+    theme: 'dark' as const,
+    exportedAt: new Date('2024-03-01T12:00:00Z'),
+};
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+describe('htmlExport', () => {
+    it('should inline the sanitized render with its styles', () => {
+        const doc = parse(createHtmlDocument(source));
+        const diagram = doc.querySelector('#canvas svg');
+
+        expect(diagram?.querySelector('style')?.textContent).toContain('#mermaid-1 .node rect');
+        expect(diagram?.querySelector('script')).toBeNull();
+        expect(diagram?.querySelector('[onclick]')).toBeNull();
+        expect(diagram?.getAttribute('style')).not.toContain('max-width');
+    });
+
+    it('should escape the title and keep the source for the toggle', () => {
+        const doc = parse(createHtmlDocument(source));
+
+        expect(doc.title).toBe('Release </title> plan');
+        expect(doc.querySelector('h1')?.textContent).toBe('Release </title> plan');
+        expect(doc.querySelector('#source')?.textContent).toBe(source.code);
+        expect(doc.querySelector('#source')?.hasAttribute('hidden')).toBe(true);
+        expect(doc.querySelector('time')?.getAttribute('datetime')).toBe('2024-03-01T12:00:00.000Z');
+    });
+
+    it('should use the background of a custom theme', () => {
+        const customTheme = { id: 'brand', name: 'Brand', variables: { background: '#1e1b4b' } };
+        const html = createHtmlDocument({ ...source, theme: 'default', customTheme });
+
+        expect(html).toContain('--bg: #1e1b4b;');
+        expect(html).toContain('color-scheme: dark');
+    });
+
+    it('should not load anything from the network', () => {
+        const html = createHtmlDocument(source);
+
+        expect(html).not.toMatch(/<script[^>]+src=/);
+        expect(html).not.toMatch(/<link[^>]+href=/);
+        expect(html).not.toContain('mermaid.min.js');
+    });
+
+    it('should escape HTML special characters', () => {
+        expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+    });
+});
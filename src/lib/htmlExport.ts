@@ -0,0 +1,163 @@
+import { format } from 'date-fns';
+import { CustomTheme, MermaidTheme } from '@/types/diagram';
+import { sanitizeSvg } from '@/lib/svgSanitizer';
+import { getThemeBackground, prepareSvgForExport } from '@/lib/svgExport';
+
+/**
+ * Standalone HTML export: one file with the rendered diagram, a pan/zoom viewer and the Mermaid source.
+ * Everything is inlined so the page works offline and never loads Mermaid.
+ */
+
+export interface HtmlExportSource {
+    svg: string;
+    code: string;
+    title: string;
+    theme: MermaidTheme;
+    customTheme?: CustomTheme | null;
+    exportedAt?: Date;
+}
+
+// Same zoom steps and limits as DiagramPreview
+const ZOOM_STEP = 0.25;
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 5;
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+// Custom themes may pick any background, so the page chrome follows its lightness
+const isDarkColor = (hex: string): boolean => {
+    const digits = hex.slice(1).length === 3 ? hex.slice(1).replace(/./g, '$&$&') : hex.slice(1);
+    const [r, g, b] = [0, 2, 4].map(index => parseInt(digits.slice(index, index + 2), 16));
+    return 0.299 * r + 0.587 * g + 0.114 * b < 128;
+};
+
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+const VIEWER_STYLES = `
+* { box-sizing: border-box; }
+html, body { height: 100%; margin: 0; }
+body { display: flex; flex-direction: column; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: var(--fg); background: var(--bg); }
+header { display: flex; align-items: center; gap: 12px; padding: 10px 16px; border-bottom: 1px solid var(--border); }
+h1 { flex: 1; margin: 0; font-size: 16px; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+time { font-size: 12px; opacity: 0.7; }
+.controls { display: flex; align-items: center; gap: 4px; }
+button { min-width: 28px; height: 28px; padding: 0 8px; border: 1px solid var(--border); border-radius: 6px; background: transparent; color: inherit; font: inherit; font-size: 13px; cursor: pointer; }
+button:hover { background: var(--hover); }
+#zoom-level { min-width: 48px; font-size: 12px; font-family: ui-monospace, monospace; text-align: center; }
+main { position: relative; flex: 1; display: flex; min-height: 0; }
+#viewport { flex: 1; overflow: hidden; cursor: grab; touch-action: none; }
+#viewport.dragging { cursor: grabbing; }
+#canvas { width: 100%; height: 100%; display: flex; align-items: center; justify-content: center; transform-origin: center center; }
+#canvas svg { max-width: none; }
+#source { width: min(40%, 560px); margin: 0; padding: 16px; overflow: auto; border-left: 1px solid var(--border); font: 13px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace; white-space: pre; background: var(--hover); }
+#source[hidden] { display: none; }
+`;
+
+// Plain DOM so the page needs no libraries
+const VIEWER_SCRIPT = `
+(function () {
+  var viewport = document.getElementById('viewport');
+  var canvas = document.getElementById('canvas');
+  var level = document.getElementById('zoom-level');
+  var source = document.getElementById('source');
+  var toggle = document.getElementById('toggle-source');
+  var scale = 1, x = 0, y = 0, drag = null;
+
+  function update() {
+    canvas.style.transform = 'translate(' + x + 'px, ' + y + 'px) scale(' + scale + ')';
+    level.textContent = Math.round(scale * 100) + '%';
+  }
+  function zoom(delta) {
+    scale = Math.min(Math.max(scale + delta, ${MIN_ZOOM}), ${MAX_ZOOM});
+    update();
+  }
+
+  document.getElementById('zoom-in').addEventListener('click', function () { zoom(${ZOOM_STEP}); });
+  document.getElementById('zoom-out').addEventListener('click', function () { zoom(-${ZOOM_STEP}); });
+  document.getElementById('zoom-reset').addEventListener('click', function () { scale = 1; x = 0; y = 0; update(); });
+  toggle.addEventListener('click', function () {
+    source.hidden = !source.hidden;
+    toggle.setAttribute('aria-pressed', String(!source.hidden));
+    toggle.textContent = source.hidden ? 'Show source' : 'Hide source';
+  });
+
+  viewport.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    zoom(event.deltaY < 0 ? ${ZOOM_STEP} : -${ZOOM_STEP});
+  }, { passive: false });
+  viewport.addEventListener('pointerdown', function (event) {
+    drag = { x: event.clientX - x, y: event.clientY - y };
+    viewport.setPointerCapture(event.pointerId);
+    viewport.classList.add('dragging');
+  });
+  viewport.addEventListener('pointermove', function (event) {
+    if (!drag) return;
+    x = event.clientX - drag.x;
+    y = event.clientY - drag.y;
+    update();
+  });
+  function endDrag() {
+    drag = null;
+    viewport.classList.remove('dragging');
+  }
+  viewport.addEventListener('pointerup', endDrag);
+  viewport.addEventListener('pointercancel', endDrag);
+
+  update();
+})();
+`;
+
+/**
+ * Build the standalone HTML page for the current render
+ */
+export function createHtmlDocument({ svg, code, title, theme, customTheme, exportedAt = new Date() }: HtmlExportSource): string {
+    // Keep the render's own <style>; only drop scripts, handlers and links
+    const diagram = prepareSvgForExport(sanitizeSvg(svg), { padding: 16, background: 'transparent', customBackground: '' }, theme);
+    const background = getThemeBackground(theme, customTheme);
+    const isDark = customTheme?.variables.background ? isDarkColor(background) : theme === 'dark';
+    const colors = [
+        `--bg: ${background}`,
+        `--fg: ${isDark ? '#e2e8f0' : '#0f172a'}`,
+        `--border: ${isDark ? '#334155' : '#e2e8f0'}`,
+        `--hover: ${isDark ? 'rgba(148, 163, 184, 0.15)' : 'rgba(15, 23, 42, 0.05)'}`,
+    ].join('; ');
+    const safeTitle = escapeHtml(title);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="FlowGen">
+<title>${safeTitle}</title>
+<style>:root { ${colors}; color-scheme: ${isDark ? 'dark' : 'light'}; }${VIEWER_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${safeTitle}</h1>
+<time datetime="${exportedAt.toISOString()}">${escapeHtml(format(exportedAt, 'PPP p'))}</time>
+<div class="controls">
+<button type="button" id="zoom-out" aria-label="Zoom out">&minus;</button>
+<span id="zoom-level">100%</span>
+<button type="button" id="zoom-in" aria-label="Zoom in">+</button>
+<button type="button" id="zoom-reset">Reset</button>
+<button type="button" id="toggle-source" aria-pressed="false" aria-controls="source">Show source</button>
+</div>
+</header>
+<main>
+<div id="viewport"><div id="canvas">${diagram}</div></div>
+<pre id="source" hidden>${escapeHtml(code)}</pre>
+</main>
+<script>${VIEWER_SCRIPT}</script>
+</body>
+</html>
+`;
+}
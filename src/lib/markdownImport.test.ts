@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { extractMermaidBlocks, replaceMermaidBlocks } from '@/lib/markdownImport';
+
+const readme = [
+    '# Payments',
+    '',
+    'Overview of the flow.',
+    '',
+    '```mermaid',
+    'flowchart TD',
+    '    A --> B',
+    '```',
+    '',
+    '```js',
+    'const notADiagram = true;',
+    '```',
+    '',
+    'Decision record',
+    '---------------',
+    '',
+    '1. Sequence:',
+    '   ~~~Mermaid',
+    '   sequenceDiagram',
+    '       A->>B: Hi',
+    '   ~~~',
+    '',
+    '```mermaid',
+    'pie',
+    '    "A": 1',
+    '```',
+    '',
+].join('\n');
+
+describe('markdownImport', () => {
+    it('should find mermaid blocks with the heading above them', () => {
+        const blocks = extractMermaidBlocks(readme);
+
+        expect(blocks.map(block => [block.title, block.line, block.code])).toEqual([
+            ['Payments', 5, 'flowchart TD\n    A --> B'],
+            ['Decision record (1)', 18, 'sequenceDiagram\n    A->>B: Hi'],
+            ['Decision record (2)', 23, 'pie\n    "A": 1'],
+        ]);
+    });
+
+    it('should leave blocks without a heading untitled and ignore unclosed fences', () => {
+        const blocks = extractMermaidBlocks('```mermaid\ngraph LR\n  a --> b\n```\n\n```mermaid\npie');
+
+        expect(blocks).toHaveLength(1);
+        expect(blocks[0].title).toBeUndefined();
+    });
+
+    it('should write edited code back in place', () => {
+        const updated = replaceMermaidBlocks(readme, new Map([
+            [1, 'sequenceDiagram\n    A->>B: Hello\n    B-->>A: Hi\n'],
+            [2, 'pie\n    "A": 2'],
+        ]));
+
+        expect(updated).toBe(readme
+            .replace('   sequenceDiagram\n       A->>B: Hi', '   sequenceDiagram\n       A->>B: Hello\n       B-->>A: Hi')
+            .replace('"A": 1', '"A": 2'));
+        expect(extractMermaidBlocks(updated)[0].code).toBe('flowchart TD\n    A --> B');
+    });
+
+    it('should keep Windows line endings and fill empty blocks', () => {
+        const markdown = '# A\r\n```mermaid\r\ngraph TD\r\n  x --> y\r\n```\r\n```mermaid\r\n```\r\n';
+
+        expect(extractMermaidBlocks(markdown).map(block => block.code)).toEqual(['graph TD\n  x --> y', '']);
+        expect(replaceMermaidBlocks(markdown, new Map([[0, 'graph TD\n  x --> z'], [1, 'pie']])))
+            .toBe('# A\r\n```mermaid\r\ngraph TD\r\n  x --> z\r\n```\r\n```mermaid\r\npie\r\n```\r\n');
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * Mermaid fenced code blocks in Markdown documents: finding them, and writing edited code back in place
+ */
+
+export interface MarkdownBlock {
+    /** Position among the Mermaid blocks of the document, from 0 */
+    index: number;
+    code: string;
+    /** Nearest heading above the block */
+    title?: string;
+    /** 1-based line of the opening fence */
+    line: number;
+    /** Offsets of the code between the fences */
+    start: number;
+    end: number;
+    /** Indentation of the fence, repeated on every code line */
+    indent: string;
+}
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const ATX_HEADING = /^ {0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+
+/**
+ * Heading text without inline Markdown such as `code`, **bold** and [links](url)
+ */
+const plainHeading = (text: string): string =>
+    text
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/[`*_]/g, '')
+        .trim();
+
+/**
+ * Every ```mermaid (or ~~~mermaid) block, in document order
+ */
+export function extractMermaidBlocks(markdown: string): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    const lines = markdown.split('\n');
+    let offset = 0;
+    let heading: string | undefined;
+    let previous = '';
+    let fence: { marker: string; indent: string; isMermaid: boolean; line: number; start: number } | null = null;
+
+    lines.forEach((line, index) => {
+        const lineStart = offset;
+        offset += line.length + 1;
+        const text = line.replace(/\r$/, '');
+
+        if (fence) {
+            // A closing fence uses the same character, at least as many times
+            const closing = text.trim();
+            if (closing.length >= fence.marker.length && closing === fence.marker[0].repeat(closing.length) && /^ {0,3}\S/.test(text)) {
+                if (fence.isMermaid) {
+                    // Up to the line break before the closing fence
+                    let end = lineStart - 1;
+                    if (markdown[end - 1] === '\r') end--;
+                    end = Math.max(fence.start, end);
+                    const strip = new RegExp(`^ {0,${fence.indent.length}}`);
+                    blocks.push({
+                        index: blocks.length,
+                        code: markdown.slice(fence.start, end).split('\n').map(codeLine => codeLine.replace(strip, '')).join('\n').replace(/\r/g, ''),
+                        title: heading,
+                        line: fence.line,
+                        start: fence.start,
+                        end,
+                        indent: fence.indent,
+                    });
+                }
+                fence = null;
+            }
+            return;
+        }
+
+        const opening = FENCE.exec(text);
+        if (opening) {
+            const [, indent, marker, language] = opening;
+            fence = { marker, indent, isMermaid: language.toLowerCase() === 'mermaid', line: index + 1, start: offset };
+            previous = '';
+            return;
+        }
+
+        const atx = ATX_HEADING.exec(text);
+        if (atx) {
+            heading = plainHeading(atx[1]) || heading;
+        } else if (SETEXT_UNDERLINE.test(text) && previous.trim() && !FENCE.test(previous)) {
+            heading = plainHeading(previous) || heading;
+        }
+        previous = text;
+    });
+
+    // Several diagrams under one heading get numbered titles
+    const counts = new Map<string, number>();
+    blocks.forEach(block => block.title && counts.set(block.title, (counts.get(block.title) ?? 0) + 1));
+    const seen = new Map<string, number>();
+    blocks.forEach(block => {
+        if (!block.title || counts.get(block.title) === 1) return;
+        const number = (seen.get(block.title) ?? 0) + 1;
+        seen.set(block.title, number);
+        block.title = `${block.title} (${number})`;
+    });
+
+    return blocks;
+}
+
+/**
+ * The document with the code of the given blocks replaced, keeping fences, indentation and everything around them
+ */
+export function replaceMermaidBlocks(markdown: string, codeByIndex: Map<number, string>): string {
+    const blocks = extractMermaidBlocks(markdown);
+    let result = '';
+    let cursor = 0;
+
+    blocks.forEach(block => {
+        const code = codeByIndex.get(block.index);
+        if (code === undefined) return;
+        const lineBreak = markdown.includes('\r\n') ? '\r\n' : '\n';
+        const body = code
+            .replace(/\r/g, '')
+            .replace(/\n+$/, '')
+            .split('\n')
+            .map(line => (line ? block.indent + line : line))
+            .join(lineBreak);
+
+        result += markdown.slice(cursor, block.start) + body + (block.end > block.start ? '' : lineBreak);
+        cursor = block.end;
+    });
+
+    return result + markdown.slice(cursor);
+}
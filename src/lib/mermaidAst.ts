@@ -0,0 +1,218 @@
+import { DiagramType } from '@/types/diagram';
+
+/**
+ * Typed syntax tree for the Mermaid diagram types the editor understands structurally.
+ * Statements map to source lines; aggregated nodes, edges and groups are derived from them.
+ */
+
+export type AstDiagramType = Extract<DiagramType, 'flowchart' | 'sequence' | 'class' | 'state' | 'er'>;
+
+export const AST_DIAGRAM_TYPES: AstDiagramType[] = ['flowchart', 'sequence', 'class', 'state', 'er'];
+
+/** Character offsets into the source, end exclusive */
+export interface SourceRange {
+    start: number;
+    end: number;
+}
+
+/** 1-based line and column, as used by Monaco */
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+export interface AstText {
+    text: string;
+    range: SourceRange;
+}
+
+export type FlowchartShape =
+    | 'rect'
+    | 'round'
+    | 'stadium'
+    | 'subroutine'
+    | 'cylinder'
+    | 'circle'
+    | 'double-circle'
+    | 'asymmetric'
+    | 'rhombus'
+    | 'hexagon'
+    | 'parallelogram'
+    | 'parallelogram-alt'
+    | 'trapezoid'
+    | 'trapezoid-alt';
+
+/**
+ * One occurrence of a node (participant, class, state, entity) in the source
+ */
+export interface AstNodeRef {
+    id: AstText;
+    label?: AstText;
+    shape?: FlowchartShape;
+    /** Brackets and label together, e.g. `[Start]` */
+    shapeRange?: SourceRange;
+    range: SourceRange;
+}
+
+export interface AstLink {
+    /** Arrow without its label, e.g. `-->`, `->>+`, `<|--`, `||--o{` */
+    arrow: string;
+    range: SourceRange;
+    label?: AstText;
+    /** Class diagram multiplicities around the arrow */
+    fromCardinality?: AstText;
+    toCardinality?: AstText;
+}
+
+interface StatementBase {
+    /** 1-based source line; unset for statements added by callers */
+    line?: number;
+    indent: string;
+    range?: SourceRange;
+    /** Original text; unset when the statement is new or changed, so the printer rewrites it */
+    raw?: string;
+}
+
+export interface HeaderStatement extends StatementBase {
+    kind: 'header';
+    keyword: string;
+    direction?: string;
+}
+
+export interface NodeStatement extends StatementBase {
+    kind: 'node';
+    node: AstNodeRef;
+    /** Declaring keyword such as `participant`, `actor`, `class` or `state` */
+    keyword?: string;
+    /** Class and entity declarations followed by a `{` body */
+    opensBlock?: boolean;
+}
+
+export interface EdgeStatement extends StatementBase {
+    kind: 'edge';
+    /** Node groups joined by `&`; links[i] connects nodes[i] to nodes[i + 1] */
+    nodes: AstNodeRef[][];
+    links: AstLink[];
+}
+
+export interface GroupStartStatement extends StatementBase {
+    kind: 'group-start';
+    keyword: string;
+    id?: AstText;
+    label?: AstText;
+}
+
+export interface GroupEndStatement extends StatementBase {
+    kind: 'group-end';
+    keyword: string;
+}
+
+/**
+ * Class member or entity attribute, either inside a body or as `Owner : member`
+ */
+export interface MemberStatement extends StatementBase {
+    kind: 'member';
+    owner: string;
+    ownerRef?: AstNodeRef;
+    text: AstText;
+}
+
+/**
+ * Notes, styles, activations and other lines that mention nodes without declaring them
+ */
+export interface ReferenceStatement extends StatementBase {
+    kind: 'reference';
+    keyword: string;
+    targets: AstNodeRef[];
+    text?: AstText;
+}
+
+/**
+ * Comments, blank lines and syntax the parser keeps verbatim
+ */
+export interface OtherStatement extends StatementBase {
+    kind: 'other';
+}
+
+export type AstStatement =
+    | HeaderStatement
+    | NodeStatement
+    | EdgeStatement
+    | GroupStartStatement
+    | GroupEndStatement
+    | MemberStatement
+    | ReferenceStatement
+    | OtherStatement;
+
+export interface DiagramNode {
+    id: string;
+    label?: string;
+    shape?: FlowchartShape;
+    /** Every occurrence, in source order */
+    refs: AstNodeRef[];
+    /** Enclosing subgraph, composite state or namespace */
+    parent?: string;
+}
+
+export interface DiagramEdge {
+    from: string;
+    to: string;
+    label?: string;
+    arrow: string;
+    link: AstLink;
+    statement: EdgeStatement;
+}
+
+export interface DiagramGroup {
+    id: string;
+    label?: string;
+    keyword: string;
+    parent?: string;
+    /** Nodes first seen inside the group */
+    children: string[];
+    /** From the opening keyword to the closing `end` or `}` */
+    range: SourceRange;
+}
+
+export interface DiagramAst {
+    type: AstDiagramType;
+    source: string;
+    header: HeaderStatement;
+    statements: AstStatement[];
+    nodes: DiagramNode[];
+    edges: DiagramEdge[];
+    groups: DiagramGroup[];
+}
+
+export const rangeContains = (range: SourceRange, offset: number): boolean =>
+    offset >= range.start && offset <= range.end;
+
+/**
+ * Convert an offset to a 1-based line and column
+ */
+export function positionAt(source: string, offset: number): SourcePosition {
+    const before = source.slice(0, Math.max(0, offset));
+    const lastBreak = before.lastIndexOf('\n');
+    return {
+        line: before.split('\n').length,
+        column: offset - lastBreak,
+    };
+}
+
+/**
+ * Convert a 1-based line and column to an offset, clamped to the source
+ */
+export function offsetAt(source: string, { line, column }: SourcePosition): number {
+    let offset = 0;
+    for (let current = 1; current < line; current++) {
+        const next = source.indexOf('\n', offset);
+        if (next === -1) return source.length;
+        offset = next + 1;
+    }
+    const lineEnd = source.indexOf('\n', offset);
+    const maxOffset = lineEnd === -1 ? source.length : lineEnd;
+    return Math.min(offset + Math.max(0, column - 1), maxOffset);
+}
+
+export const findNode = (ast: DiagramAst, id: string): DiagramNode | undefined =>
+    ast.nodes.find(node => node.id === id);
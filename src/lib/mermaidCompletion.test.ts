@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getMermaidCompletions,
+    collectSequenceParticipants,
+    collectFlowchartNodes,
+    toSnippet,
+} from '@/lib/mermaidCompletion';
+
+const labels = (code: string, line: number) => getMermaidCompletions(code, line).map(item => item.label);
+
+describe('mermaidCompletion', () => {
+    it('should offer headers and template snippets before a header exists', () => {
+        const result = labels('', 1);
+
+        expect(result).toContain('flowchart');
+        expect(result).toContain('sequenceDiagram');
+        expect(result).toContain('Flowchart template');
+    });
+
+    it('should offer declared participants and message arrows in sequence diagrams', () => {
+        const code = 'sequenceDiagram\n    participant Alice\n    Alice->>Bob: Hi\n    ';
+        const result = labels(code, 4);
+
+        expect(result).toEqual(expect.arrayContaining(['Alice', 'Bob', '->>', '-->>', 'loop']));
+        expect(result).not.toContain('<|--');
+    });
+
+    it('should offer node shapes, arrows and existing nodes in flowcharts', () => {
+        const code = 'flowchart TD\n    A[Start] --> B{Decision}\n    ';
+        const result = labels(code, 3);
+
+        expect(result).toEqual(expect.arrayContaining(['A', 'B', '[text]', '{text}', '-->', 'subgraph']));
+        expect(result).not.toContain('Start');
+    });
+
+    it('should offer members inside a class body', () => {
+        const code = 'classDiagram\n    class Animal {\n        ';
+        const result = labels(code, 3);
+
+        expect(result).toContain('+attribute');
+        expect(result).not.toContain('<|--');
+    });
+
+    it('should offer ER cardinalities', () => {
+        const result = labels('erDiagram\n    CUSTOMER ||--o{ ORDER : places\n    ', 3);
+
+        expect(result).toEqual(expect.arrayContaining(['||--o{', '}|..|{', 'CUSTOMER', 'ORDER']));
+    });
+
+    it('should offer gantt keywords', () => {
+        const result = labels('gantt\n    ', 2);
+
+        expect(result).toEqual(expect.arrayContaining(['dateFormat', 'section', 'milestone']));
+    });
+
+    it('should collect participants from declarations and messages', () => {
+        expect(collectSequenceParticipants('sequenceDiagram\n  actor U\n  U->>+API: call\n  API-->>-U: ok'))
+            .toEqual(['U', 'API']);
+    });
+
+    it('should collect flowchart node ids without labels', () => {
+        expect(collectFlowchartNodes('graph LR\n  A["Hello world"] -->|go| B((Next))\n  B --> C'))
+            .toEqual(['A', 'B', 'C']);
+    });
+
+    it('should escape snippet syntax in template text', () => {
+        expect(toSnippet('pie "$5" {x}')).toBe('pie "\\$5" {x\\}');
+    });
+});
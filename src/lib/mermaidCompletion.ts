@@ -0,0 +1,439 @@
+import type { Monaco } from '@monaco-editor/react';
+import type { IDisposable, languages } from 'monaco-editor';
+import { DiagramType } from '@/types/diagram';
+import { diagramTemplates } from '@/lib/diagramTemplates';
+import { detectDiagramType } from '@/lib/mermaidFileUtils';
+import { MERMAID_DIAGRAM_HEADERS, MERMAID_LANGUAGE_ID } from '@/lib/mermaidLanguage';
+
+/**
+ * Context-aware completion suggestions for Mermaid code.
+ * Suggestion building is pure so it can be tested without Monaco.
+ */
+
+export type CompletionKind = 'header' | 'keyword' | 'snippet' | 'operator' | 'shape' | 'reference' | 'member';
+
+export interface MermaidCompletion {
+    label: string;
+    kind: CompletionKind;
+    insertText: string;
+    /** insertText uses snippet syntax (${1:placeholder}) */
+    isSnippet?: boolean;
+    detail?: string;
+    documentation?: string;
+}
+
+// Punctuation typed before an operator or node shape suggestion
+const SYMBOL_PREFIX = /[-.=<>|*{}~[(/\\]+$/;
+
+const CLOSING_BRACKETS: Record<string, string> = { '[': ']', '(': ')', '{': '}' };
+
+const keyword = (label: string, detail?: string): MermaidCompletion => ({ label, kind: 'keyword', insertText: label, detail });
+const operator = (label: string, documentation: string): MermaidCompletion => ({ label, kind: 'operator', insertText: label, documentation });
+const snippet = (label: string, insertText: string, detail: string, kind: CompletionKind = 'snippet'): MermaidCompletion =>
+    ({ label, kind, insertText, isSnippet: true, detail });
+
+/**
+ * Escape template text so it can be inserted as a Monaco snippet
+ */
+export const toSnippet = (text: string): string => text.replace(/[\\$}]/g, '\\$&');
+
+const templateSnippets = (): MermaidCompletion[] =>
+    diagramTemplates.map(template => ({
+        label: `${template.name} template`,
+        kind: 'snippet',
+        insertText: `${toSnippet(template.template)}\n$0`,
+        isSnippet: true,
+        detail: template.description,
+        documentation: template.template,
+    }));
+
+const headerCompletions = (): MermaidCompletion[] =>
+    (Object.entries(MERMAID_DIAGRAM_HEADERS) as [DiagramType, string[]][]).flatMap(([type, headers]) =>
+        headers.map(header => ({
+            label: header,
+            kind: 'header' as const,
+            insertText: type === 'flowchart' ? `${header} \${1|TD,LR,BT,RL|}\n\t$0` : `${header}\n\t$0`,
+            isSnippet: true,
+            detail: `${type} diagram`,
+        }))
+    );
+
+const FLOWCHART_ARROWS: MermaidCompletion[] = [
+    operator('-->', 'Arrow link'),
+    operator('---', 'Open link'),
+    operator('-.->', 'Dotted arrow'),
+    operator('==>', 'Thick arrow'),
+    operator('--o', 'Circle edge'),
+    operator('--x', 'Cross edge'),
+    operator('<-->', 'Bidirectional arrow'),
+    operator('~~~', 'Invisible link'),
+    snippet('-->|text|', '-->|${1:text}| ', 'Arrow with label', 'operator'),
+];
+
+const NODE_SHAPES: MermaidCompletion[] = [
+    snippet('[text]', '[${1:text}]', 'Rectangle', 'shape'),
+    snippet('(text)', '(${1:text})', 'Rounded rectangle', 'shape'),
+    snippet('([text])', '([${1:text}])', 'Stadium', 'shape'),
+    snippet('[[text]]', '[[${1:text}]]', 'Subroutine', 'shape'),
+    snippet('[(text)]', '[(${1:text})]', 'Database / cylinder', 'shape'),
+    snippet('((text))', '((${1:text}))', 'Circle', 'shape'),
+    snippet('(((text)))', '(((${1:text})))', 'Double circle', 'shape'),
+    snippet('>text]', '>${1:text}]', 'Asymmetric', 'shape'),
+    snippet('{text}', '{${1:text}\\}', 'Rhombus / decision', 'shape'),
+    snippet('{{text}}', '{{${1:text}\\}\\}', 'Hexagon', 'shape'),
+    snippet('[/text/]', '[/${1:text}/]', 'Parallelogram', 'shape'),
+    snippet('[\\text\\]', '[\\\\${1:text}\\\\]', 'Alternate parallelogram', 'shape'),
+    snippet('[/text\\]', '[/${1:text}\\\\]', 'Trapezoid', 'shape'),
+];
+
+const SEQUENCE_ARROWS: MermaidCompletion[] = [
+    operator('->>', 'Solid line with arrowhead'),
+    operator('-->>', 'Dotted line with arrowhead'),
+    operator('->', 'Solid line without arrow'),
+    operator('-->', 'Dotted line without arrow'),
+    operator('-x', 'Solid line with cross'),
+    operator('--x', 'Dotted line with cross'),
+    operator('-)', 'Solid line with open arrow (async)'),
+    operator('--)', 'Dotted line with open arrow (async)'),
+];
+
+const CLASS_RELATIONS: MermaidCompletion[] = [
+    operator('<|--', 'Inheritance'),
+    operator('*--', 'Composition'),
+    operator('o--', 'Aggregation'),
+    operator('-->', 'Association'),
+    operator('--', 'Link (solid)'),
+    operator('..>', 'Dependency'),
+    operator('..|>', 'Realization'),
+    operator('..', 'Link (dashed)'),
+];
+
+const CLASS_MEMBERS: MermaidCompletion[] = [
+    snippet('+attribute', '+${1:String} ${2:name}', 'Public attribute', 'member'),
+    snippet('-attribute', '-${1:String} ${2:name}', 'Private attribute', 'member'),
+    snippet('#attribute', '#${1:String} ${2:name}', 'Protected attribute', 'member'),
+    snippet('~attribute', '~${1:String} ${2:name}', 'Package attribute', 'member'),
+    snippet('+method()', '+${1:method}(${2})${3: ReturnType}', 'Public method', 'member'),
+    snippet('-method()', '-${1:method}(${2})${3: ReturnType}', 'Private method', 'member'),
+    snippet('+method()$', '+${1:method}(${2})\\$', 'Static method', 'member'),
+    snippet('+method()*', '+${1:method}(${2})*', 'Abstract method', 'member'),
+];
+
+const CLASS_ANNOTATIONS = ['<<interface>>', '<<abstract>>', '<<enumeration>>', '<<service>>'];
+
+const ER_CARDINALITIES: MermaidCompletion[] = [
+    operator('||--||', 'Exactly one to exactly one'),
+    operator('||--o{', 'Exactly one to zero or more'),
+    operator('||--|{', 'Exactly one to one or more'),
+    operator('||--o|', 'Exactly one to zero or one'),
+    operator('|o--o{', 'Zero or one to zero or more'),
+    operator('}o--o{', 'Zero or more to zero or more'),
+    operator('}|--|{', 'One or more to one or more'),
+    operator('}|..|{', 'One or more to one or more (non-identifying)'),
+    operator('||..o{', 'Exactly one to zero or more (non-identifying)'),
+];
+
+const GANTT_COMPLETIONS: MermaidCompletion[] = [
+    keyword('title'),
+    snippet('dateFormat', 'dateFormat ${1:YYYY-MM-DD}', 'Input date format'),
+    snippet('axisFormat', 'axisFormat ${1:%Y-%m-%d}', 'Axis label format'),
+    snippet('tickInterval', 'tickInterval ${1:1week}', 'Axis tick interval'),
+    snippet('excludes', 'excludes ${1:weekends}', 'Excluded dates'),
+    keyword('includes'),
+    keyword('todayMarker'),
+    snippet('section', 'section ${1:Section name}', 'New section'),
+    snippet('task', '${1:Task name} :${2:id}, ${3:2024-01-01}, ${4:3d}', 'Task with start date'),
+    snippet('task after', '${1:Task name} :${2:id}, after ${3:previous}, ${4:3d}', 'Task following another'),
+    keyword('done', 'Task status'),
+    keyword('active', 'Task status'),
+    keyword('crit', 'Critical task'),
+    keyword('milestone', 'Milestone task'),
+    keyword('after', 'Start after task'),
+];
+
+const KEYWORDS_BY_TYPE: Record<DiagramType, MermaidCompletion[]> = {
+    flowchart: [
+        snippet('subgraph', 'subgraph ${1:title}\n\t$0\nend', 'Subgraph block'),
+        snippet('direction', 'direction ${1|TB,TD,BT,RL,LR|}', 'Subgraph direction'),
+        snippet('classDef', 'classDef ${1:name} ${2:fill:#f9f,stroke:#333}', 'Class definition'),
+        snippet('class', 'class ${1:nodeId} ${2:className}', 'Apply class'),
+        snippet('style', 'style ${1:nodeId} ${2:fill:#f9f}', 'Node style'),
+        snippet('linkStyle', 'linkStyle ${1:0} ${2:stroke:#f66}', 'Link style'),
+        snippet('click', 'click ${1:nodeId} "${2:https://}"', 'Click link'),
+        keyword('end'),
+    ],
+    sequence: [
+        snippet('participant', 'participant ${1:Name}', 'Declare participant'),
+        snippet('participant as', 'participant ${1:A} as ${2:Alias}', 'Participant with alias'),
+        snippet('actor', 'actor ${1:Name}', 'Declare actor'),
+        keyword('autonumber'),
+        snippet('activate', 'activate ${1:Name}', 'Activate participant'),
+        snippet('deactivate', 'deactivate ${1:Name}', 'Deactivate participant'),
+        snippet('loop', 'loop ${1:Every minute}\n\t$0\nend', 'Loop block'),
+        snippet('alt', 'alt ${1:condition}\n\t$2\nelse ${3:otherwise}\n\t$0\nend', 'Alternative block'),
+        snippet('opt', 'opt ${1:condition}\n\t$0\nend', 'Optional block'),
+        snippet('par', 'par ${1:action}\n\t$2\nand ${3:action}\n\t$0\nend', 'Parallel block'),
+        snippet('critical', 'critical ${1:action}\n\t$0\nend', 'Critical region'),
+        snippet('break', 'break ${1:condition}\n\t$0\nend', 'Break block'),
+        snippet('rect', 'rect ${1:rgb(191, 223, 255)}\n\t$0\nend', 'Highlight region'),
+        snippet('Note over', 'Note over ${1:A},${2:B}: ${3:text}', 'Note spanning participants'),
+        snippet('Note right of', 'Note right of ${1:A}: ${2:text}', 'Note to the right'),
+        snippet('Note left of', 'Note left of ${1:A}: ${2:text}', 'Note to the left'),
+        keyword('end'),
+    ],
+    class: [
+        snippet('class', 'class ${1:Name} {\n\t$0\n}', 'Class definition'),
+        snippet('namespace', 'namespace ${1:Name} {\n\t$0\n}', 'Namespace'),
+        ...CLASS_ANNOTATIONS.map(annotation => operator(annotation, 'Annotation')),
+        snippet('note for', 'note for ${1:Class} "${2:text}"', 'Class note'),
+    ],
+    state: [
+        operator('[*]', 'Start / end state'),
+        snippet('state', 'state ${1:Name} {\n\t$0\n}', 'Composite state'),
+        snippet('state as', 'state "${1:Description}" as ${2:Name}', 'State with description'),
+        snippet('fork', 'state ${1:fork_state} <<fork>>', 'Fork'),
+        snippet('join', 'state ${1:join_state} <<join>>', 'Join'),
+        snippet('choice', 'state ${1:choice} <<choice>>', 'Choice'),
+        snippet('note', 'note right of ${1:State}\n\t${2:text}\nend note', 'State note'),
+        snippet('direction', 'direction ${1|TB,LR,BT,RL|}', 'Direction'),
+        operator('-->', 'Transition'),
+        operator('--', 'Concurrency separator'),
+    ],
+    er: [
+        snippet('entity', '${1:ENTITY} {\n\t${2:string} ${3:name}\n}', 'Entity with attributes'),
+        snippet('relationship', '${1:A} ||--o{ ${2:B} : ${3:has}', 'Relationship'),
+        keyword('PK', 'Primary key'),
+        keyword('FK', 'Foreign key'),
+        keyword('UK', 'Unique key'),
+    ],
+    gantt: GANTT_COMPLETIONS,
+    pie: [
+        keyword('title'),
+        keyword('showData'),
+        snippet('slice', '"${1:Label}" : ${2:10}', 'Pie slice'),
+    ],
+    mindmap: [
+        snippet('root', 'root((${1:Topic}))', 'Root node'),
+        snippet('::icon', '::icon(${1:fa fa-book})', 'Node icon'),
+    ],
+    timeline: [
+        keyword('title'),
+        snippet('section', 'section ${1:Period}', 'Section'),
+        snippet('event', '${1:2024} : ${2:Event}', 'Time period with event'),
+    ],
+    quadrant: [
+        keyword('title'),
+        snippet('x-axis', 'x-axis ${1:Low} --> ${2:High}', 'X axis labels'),
+        snippet('y-axis', 'y-axis ${1:Low} --> ${2:High}', 'Y axis labels'),
+        ...[1, 2, 3, 4].map(n => snippet(`quadrant-${n}`, `quadrant-${n} \${1:Label}`, `Quadrant ${n} label`)),
+        snippet('point', '${1:Point}: [${2:0.5}, ${3:0.5}]', 'Data point'),
+    ],
+    gitgraph: [
+        snippet('commit', 'commit id: "${1:message}"', 'Commit'),
+        snippet('branch', 'branch ${1:name}', 'Create branch'),
+        snippet('checkout', 'checkout ${1:main}', 'Switch branch'),
+        snippet('merge', 'merge ${1:branch}', 'Merge branch'),
+        snippet('cherry-pick', 'cherry-pick id: "${1:commit}"', 'Cherry-pick commit'),
+        snippet('tag', 'tag: "${1:v1.0}"', 'Commit tag'),
+    ],
+    c4: [
+        keyword('title'),
+        snippet('Person', 'Person(${1:alias}, "${2:Label}", "${3:Description}")', 'Person'),
+        snippet('System', 'System(${1:alias}, "${2:Label}", "${3:Description}")', 'System'),
+        snippet('System_Ext', 'System_Ext(${1:alias}, "${2:Label}", "${3:Description}")', 'External system'),
+        snippet('Container', 'Container(${1:alias}, "${2:Label}", "${3:Technology}", "${4:Description}")', 'Container'),
+        snippet('Component', 'Component(${1:alias}, "${2:Label}", "${3:Technology}", "${4:Description}")', 'Component'),
+        snippet('System_Boundary', 'System_Boundary(${1:alias}, "${2:Label}") {\n\t$0\n}', 'System boundary'),
+        snippet('Rel', 'Rel(${1:from}, ${2:to}, "${3:Label}")', 'Relationship'),
+        snippet('BiRel', 'BiRel(${1:from}, ${2:to}, "${3:Label}")', 'Bidirectional relationship'),
+    ],
+    sankey: [
+        snippet('flow', '${1:Source},${2:Target},${3:10}', 'Flow row'),
+    ],
+    block: [
+        snippet('columns', 'columns ${1:3}', 'Column count'),
+        snippet('block', 'block:${1:id}\n\t$0\nend', 'Nested block'),
+        keyword('space'),
+        keyword('end'),
+    ],
+    journey: [
+        keyword('title'),
+        snippet('section', 'section ${1:Stage}', 'Journey section'),
+        snippet('task', '${1:Task}: ${2:5}: ${3:Actor}', 'Task with score and actors'),
+    ],
+};
+
+const unique = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+
+const collect = (code: string, pattern: RegExp, groups: number[] = [1]): string[] => {
+    const values: string[] = [];
+    for (const match of code.matchAll(pattern)) {
+        groups.forEach(group => match[group] && values.push(match[group]));
+    }
+    return values;
+};
+
+/**
+ * Participants declared explicitly or implied by messages
+ */
+export function collectSequenceParticipants(code: string): string[] {
+    return unique([
+        ...collect(code, /^\s*(?:participant|actor)\s+([^\s:]+)/gm),
+        ...collect(code, /^\s*([^\s\-+>:]+)\s*--?(?:>>|>|x|\))[+-]?\s*([^\s:+-]+)\s*:/gm, [1, 2]),
+    ]);
+}
+
+export function collectClassNames(code: string): string[] {
+    return unique([
+        ...collect(code, /^\s*class\s+(\w+)/gm),
+        ...collect(code, /^\s*(\w+)\s*(?:"[^"]*"\s*)?(?:<\|--|\*--|o--|-->|\.\.\|>|\.\.>|--|\.\.)\s*(?:"[^"]*"\s*)?(\w+)/gm, [1, 2]),
+    ]);
+}
+
+export function collectEntities(code: string): string[] {
+    return unique([
+        ...collect(code, /^\s*([\w-]+)\s*[|}][o|](?:--|\.\.)[o|][|{]\s*([\w-]+)/gm, [1, 2]),
+        ...collect(code, /^\s*([\w-]+)\s*\{\s*$/gm),
+    ]);
+}
+
+export function collectStates(code: string): string[] {
+    return unique([
+        ...collect(code, /^\s*state\s+(?:"[^"]*"\s+as\s+)?(\w+)/gm),
+        ...collect(code, /^\s*(\w+)\s*-->\s*(\w+)/gm, [1, 2]),
+    ]);
+}
+
+export function collectFlowchartNodes(code: string): string[] {
+    const nodes: string[] = [];
+    for (const line of code.split('\n').slice(1)) {
+        if (/^\s*(%%|classDef|class|style|linkStyle|click|subgraph|direction|end\b)/.test(line)) continue;
+        // Drop labels so only ids remain
+        const stripped = line
+            .replace(/"[^"]*"/g, ' ')
+            .replace(/\|[^|]*\|/g, ' ')
+            .replace(/[[({][^\])}]*[\])}]+/g, ' ')
+            .replace(/(\w)>[^\]]*\]/g, '$1 ');
+        nodes.push(...collect(stripped, /(?:^|[^\w-])([A-Za-z_]\w*)/g));
+    }
+    return unique(nodes);
+}
+
+/**
+ * Whether the cursor is inside a `class Name {` body
+ */
+const isInsideClassBody = (linesBefore: string[]): boolean => {
+    let depth = 0;
+    for (const line of linesBefore) {
+        if (/^\s*class\s+\S+.*\{\s*$/.test(line)) depth++;
+        else if (/^\s*\}\s*$/.test(line)) depth = Math.max(0, depth - 1);
+    }
+    return depth > 0;
+};
+
+const references = (names: string[], detail: string): MermaidCompletion[] =>
+    names.map(name => ({ label: name, kind: 'reference', insertText: name, detail }));
+
+/**
+ * Build suggestions for the cursor line (1-based)
+ */
+export function getMermaidCompletions(code: string, lineNumber: number): MermaidCompletion[] {
+    const lines = code.split('\n');
+    const linesBefore = lines.slice(0, lineNumber - 1);
+    const hasHeader = linesBefore.some(line => line.trim() && !line.trim().startsWith('%%'));
+
+    // Nothing meaningful above the cursor yet: offer headers and whole templates
+    if (!hasHeader) {
+        return [...headerCompletions(), ...templateSnippets()];
+    }
+
+    const diagramType = detectDiagramType(code);
+    const suggestions: MermaidCompletion[] = [...KEYWORDS_BY_TYPE[diagramType]];
+
+    switch (diagramType) {
+        case 'flowchart':
+            suggestions.push(...references(collectFlowchartNodes(code), 'node'));
+            suggestions.push(...NODE_SHAPES, ...FLOWCHART_ARROWS);
+            break;
+        case 'sequence':
+            suggestions.push(...references(collectSequenceParticipants(code), 'participant'));
+            suggestions.push(...SEQUENCE_ARROWS);
+            break;
+        case 'class':
+            if (isInsideClassBody(linesBefore)) {
+                return [...CLASS_MEMBERS, ...references(collectClassNames(code), 'class')];
+            }
+            suggestions.push(...references(collectClassNames(code), 'class'));
+            suggestions.push(...CLASS_RELATIONS);
+            break;
+        case 'er':
+            suggestions.push(...references(collectEntities(code), 'entity'));
+            suggestions.push(...ER_CARDINALITIES);
+            break;
+        case 'state':
+            suggestions.push(...references(collectStates(code), 'state'));
+            break;
+    }
+
+    return suggestions;
+}
+
+const COMPLETION_KINDS: Record<CompletionKind, (monaco: Monaco) => languages.CompletionItemKind> = {
+    header: (monaco) => monaco.languages.CompletionItemKind.Module,
+    keyword: (monaco) => monaco.languages.CompletionItemKind.Keyword,
+    snippet: (monaco) => monaco.languages.CompletionItemKind.Snippet,
+    operator: (monaco) => monaco.languages.CompletionItemKind.Operator,
+    shape: (monaco) => monaco.languages.CompletionItemKind.Struct,
+    reference: (monaco) => monaco.languages.CompletionItemKind.Variable,
+    member: (monaco) => monaco.languages.CompletionItemKind.Field,
+};
+
+let completionProvider: IDisposable | null = null;
+
+/**
+ * Register the completion provider for the Mermaid language (safe to call more than once)
+ */
+export function registerMermaidCompletionProvider(monaco: Monaco): void {
+    if (completionProvider) return;
+
+    completionProvider = monaco.languages.registerCompletionItemProvider(MERMAID_LANGUAGE_ID, {
+        triggerCharacters: ['-', '.', '=', '<', '|', '[', '(', '{', '}'],
+        provideCompletionItems: (model, position) => {
+            const lineContent = model.getLineContent(position.lineNumber);
+            const linePrefix = lineContent.slice(0, position.column - 1);
+            const word = model.getWordUntilPosition(position);
+            const symbolPrefix = linePrefix.match(SYMBOL_PREFIX)?.[0] || '';
+
+            // Swallow a bracket auto-closed by the editor so shapes don't end up doubled
+            const nextChar = lineContent.charAt(position.column - 1);
+            const autoClosed = nextChar && CLOSING_BRACKETS[symbolPrefix.slice(-1)] === nextChar ? 1 : 0;
+
+            const wordRange = new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn);
+            const symbolRange = new monaco.Range(
+                position.lineNumber,
+                position.column - symbolPrefix.length,
+                position.lineNumber,
+                position.column + autoClosed
+            );
+
+            const suggestions = getMermaidCompletions(model.getValue(), position.lineNumber).map((item, index) => {
+                // Operators and shapes attach to the preceding id instead of replacing it
+                const isSymbolic = item.kind === 'operator' || item.kind === 'shape';
+                return {
+                    label: item.label,
+                    kind: COMPLETION_KINDS[item.kind](monaco),
+                    insertText: item.insertText,
+                    insertTextRules: item.isSnippet
+                        ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet
+                        : undefined,
+                    detail: item.detail,
+                    documentation: item.documentation,
+                    range: isSymbolic ? symbolRange : wordRange,
+                    sortText: String(index).padStart(4, '0'),
+                };
+            });
+
+            return { suggestions };
+        },
+    });
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import mermaid from 'mermaid';
+import { DEFAULT_RENDER_SETTINGS, flattenConfig, readDiagramConfig } from '@/lib/mermaidConfig';
+import { getMermaidConfig, renderMermaidSvg } from '@/lib/mermaidRenderer';
+
+const FRONTMATTER_CODE = `---
+title: Checkout
+config:
+  theme: forest # team colours
+  themeVariables:
+    primaryColor: "#ff0000"
+  flowchart:
+    curve: linear
+---
+flowchart TD
+    A --> B`;
+
+describe('mermaidConfig', () => {
+    it('should read frontmatter config and let init directives win', () => {
+        const code = FRONTMATTER_CODE.replace('flowchart TD', "%%{init: {'theme': 'dark', 'sequence': {'mirrorActors': false}}}%%\nflowchart TD");
+
+        expect(readDiagramConfig(FRONTMATTER_CODE).config).toEqual({
+            theme: 'forest',
+            themeVariables: { primaryColor: '#ff0000' },
+            flowchart: { curve: 'linear' },
+        });
+        expect(flattenConfig(readDiagramConfig(code).config)).toEqual([
+            ['theme', 'dark'],
+            ['themeVariables.primaryColor', '#ff0000'],
+            ['flowchart.curve', 'linear'],
+            ['sequence.mirrorActors', false],
+        ]);
+    });
+
+    it('should drop secure keys and values that could inject markup', () => {
+        const code = `%%{init: {"securityLevel": "loose", "themeCSS": ".node { fill: red }", "flowchart": {"htmlLabels": true, "curve": "step"},
+            "fontFamily": "x; } svg { display: none", "themeVariables": {"lineColor": "url(https://example.com/t.png)"}, "__proto__": {"polluted": true}}}%%
+graph TD
+    A --> B
+%%{init: theme: dark}%%`;
+        const { config, errors } = readDiagramConfig(code);
+
+        expect(config).toEqual({ flowchart: { curve: 'step' }, themeVariables: {} });
+        expect(errors).toEqual(['The %%{init}%% directive is not valid JSON.']);
+        expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+
+    it('should layer settings, custom theme and diagram config under the enforced keys', () => {
+        const customTheme = { id: 'brand', name: 'Brand', variables: { primaryColor: '#1e40af', fontSize: '14px' } };
+        const config = getMermaidConfig(
+            'default',
+            customTheme,
+            { ...DEFAULT_RENDER_SETTINGS, flowchartCurve: 'step', fontSize: 18, showSequenceNumbers: true },
+            readDiagramConfig('%%{init: {"flowchart": {"curve": "linear"}}}%%\ngraph TD').config
+        );
+
+        expect(config).toMatchObject({
+            theme: 'base',
+            securityLevel: 'strict',
+            fontSize: 18,
+            themeVariables: { primaryColor: '#1e40af', fontSize: '14px' },
+            flowchart: { curve: 'linear', htmlLabels: false },
+            sequence: { showSequenceNumbers: true, mirrorActors: true },
+        });
+    });
+
+    it('should pass the diagram config to Mermaid with the enforced keys marked secure', async () => {
+        const code = '%%{init: {"securityLevel": "loose", "flowchart": {"htmlLabels": true, "curve": "step"}}}%%\ngraph TD\n    A --> B';
+        await renderMermaidSvg(code, 'dark');
+
+        const config = vi.mocked(mermaid.initialize).mock.lastCall![0];
+        expect(config).toMatchObject({ theme: 'dark', securityLevel: 'strict', flowchart: { htmlLabels: false, curve: 'step' } });
+        // Mermaid applies the directive again while rendering, minus these keys
+        expect(config.secure).toEqual(expect.arrayContaining(['securityLevel', 'htmlLabels', 'themeCSS']));
+    });
+});
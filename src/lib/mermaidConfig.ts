@@ -0,0 +1,217 @@
+import mermaid from 'mermaid';
+import { z } from 'zod';
+import { FlowchartCurve, RenderSettings } from '@/types/diagram';
+
+/**
+ * Mermaid configuration from the places it can come from: the app, the render settings panel
+ * and the diagram's own `%%{init}%%` directives and frontmatter
+ */
+
+export type MermaidConfig = Parameters<typeof mermaid.initialize>[0];
+
+type ConfigObject = Record<string, unknown>;
+
+export const FLOWCHART_CURVES: FlowchartCurve[] = ['basis', 'linear', 'cardinal', 'monotoneX', 'step', 'natural'];
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+    flowchartCurve: 'basis',
+    showSequenceNumbers: false,
+    mirrorActors: true,
+    wrap: false,
+    fontSize: 16,
+};
+
+export const renderSettingsSchema = z.object({
+    flowchartCurve: z.enum(FLOWCHART_CURVES as [FlowchartCurve, ...FlowchartCurve[]]),
+    showSequenceNumbers: z.boolean(),
+    mirrorActors: z.boolean(),
+    wrap: z.boolean(),
+    fontSize: z.number().int().min(8).max(32),
+});
+
+/**
+ * Keys neither diagrams nor settings may change. Mermaid drops them from directives itself
+ * once they are listed in `secure`.
+ */
+export const SECURE_CONFIG_KEYS = [
+    'secure',
+    'securityLevel',
+    'startOnLoad',
+    'maxTextSize',
+    'maxEdges',
+    'dompurifyConfig',
+    // Raw CSS can pull in remote resources from a shared diagram
+    'themeCSS',
+    // HTML labels go through foreignObject, which image exports cannot draw
+    'htmlLabels',
+];
+
+/** Applied after everything else */
+export const ENFORCED_CONFIG: MermaidConfig = {
+    startOnLoad: false,
+    // Use 'strict' security level to prevent XSS vulnerabilities
+    securityLevel: 'strict',
+    maxTextSize: 50000,
+    flowchart: {
+        htmlLabels: false,
+    },
+    secure: SECURE_CONFIG_KEYS,
+};
+
+const isPlainObject = (value: unknown): value is ConfigObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isUnsafeKey = (key: string): boolean =>
+    key.startsWith('__') || key.includes('proto') || key.includes('constr');
+
+// The same checks Mermaid runs on directives, plus braces that could end a CSS rule early
+const isUnsafeValue = (value: unknown): boolean =>
+    typeof value === 'string' && /[<>{}]|url\(/i.test(value);
+
+/**
+ * Copy of a config without secure keys and without values that could inject markup or CSS
+ */
+export function sanitizeConfig(config: ConfigObject): ConfigObject {
+    const clean: ConfigObject = {};
+    for (const [key, value] of Object.entries(config)) {
+        if (SECURE_CONFIG_KEYS.includes(key) || isUnsafeKey(key) || isUnsafeValue(value) || value == null) continue;
+        if (isPlainObject(value)) {
+            clean[key] = sanitizeConfig(value);
+        } else if (Array.isArray(value)) {
+            clean[key] = value.filter(item => !isPlainObject(item) && !isUnsafeValue(item));
+        } else {
+            clean[key] = value;
+        }
+    }
+    return clean;
+}
+
+/**
+ * Deep merge of configs; later ones win, arrays are replaced
+ */
+export function mergeConfig(...configs: (MermaidConfig | null | undefined | false)[]): MermaidConfig {
+    const merge = (target: ConfigObject, source: ConfigObject): ConfigObject => {
+        for (const [key, value] of Object.entries(source)) {
+            if (isUnsafeKey(key) || value === undefined) continue;
+            if (isPlainObject(value)) {
+                target[key] = merge(isPlainObject(target[key]) ? { ...(target[key] as ConfigObject) } : {}, value);
+            } else {
+                target[key] = Array.isArray(value) ? [...value] : value;
+            }
+        }
+        return target;
+    };
+    return configs.reduce<ConfigObject>((merged, config) => (config ? merge(merged, config as ConfigObject) : merged), {});
+}
+
+/**
+ * The Mermaid options behind the render settings panel
+ */
+export function settingsToConfig(settings: RenderSettings): MermaidConfig {
+    return {
+        fontSize: settings.fontSize,
+        wrap: settings.wrap,
+        themeVariables: { fontSize: `${settings.fontSize}px` },
+        flowchart: { curve: settings.flowchartCurve },
+        sequence: {
+            showSequenceNumbers: settings.showSequenceNumbers,
+            mirrorActors: settings.mirrorActors,
+        },
+    };
+}
+
+const FRONTMATTER = /^\s*---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const INIT_DIRECTIVE = /%%\{\s*(?:init|initialize)\s*:\s*([\s\S]*?)\}%%/g;
+const YAML_ENTRY = /^(\s*)([\w$-]+|"[^"]*"|'[^']*')\s*:(?:\s+(.*))?$/;
+
+const parseYamlScalar = (text: string): unknown => {
+    const quoted = text.match(/^(["'])(.*)\1\s*(?:#.*)?$/);
+    if (quoted) return quoted[2];
+
+    const value = text.replace(/(^|\s)#.*$/, '').trim();
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (value === '' || value === 'null' || value === '~') return null;
+    if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+    if (/^[[{]/.test(value)) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+    return value;
+};
+
+/**
+ * Nested `key: value` mappings, which is all Mermaid's frontmatter config uses.
+ * Lists and multi-line values are skipped.
+ */
+const parseYamlMapping = (yaml: string): ConfigObject => {
+    const root: ConfigObject = {};
+    const stack: { indent: number; target: ConfigObject }[] = [{ indent: -1, target: root }];
+
+    for (const line of yaml.split(/\r?\n/)) {
+        const match = line.match(YAML_ENTRY);
+        if (!match) continue;
+
+        const indent = match[1].length;
+        const key = match[2].replace(/^["']|["']$/g, '');
+        const rest = match[3]?.trim() ?? '';
+        while (stack.length > 1 && indent <= stack[stack.length - 1].indent) stack.pop();
+        const parent = stack[stack.length - 1].target;
+
+        if (rest === '' || rest.startsWith('#')) {
+            const child: ConfigObject = {};
+            // Children of an unsafe key are read into a throwaway object
+            if (!isUnsafeKey(key)) parent[key] = child;
+            stack.push({ indent, target: child });
+        } else if (!isUnsafeKey(key)) {
+            parent[key] = parseYamlScalar(rest);
+        }
+    }
+    return root;
+};
+
+export interface DiagramConfig {
+    /** Sanitized config set by the diagram */
+    config: MermaidConfig;
+    /** Directives that could not be read */
+    errors: string[];
+}
+
+/**
+ * Config a diagram sets for itself through the `config` of its YAML frontmatter and
+ * `%%{init: ...}%%` directives, merged in the order Mermaid applies them
+ */
+export function readDiagramConfig(code: string): DiagramConfig {
+    const configs: ConfigObject[] = [];
+    const errors: string[] = [];
+
+    const frontmatter = code.match(FRONTMATTER);
+    if (frontmatter) {
+        const { config } = parseYamlMapping(frontmatter[1]);
+        if (isPlainObject(config)) configs.push(config);
+    }
+
+    for (const [, args] of code.matchAll(INIT_DIRECTIVE)) {
+        try {
+            // Mermaid accepts single-quoted JSON in directives
+            const directive = JSON.parse(args.trim().replace(/'/g, '"'));
+            if (isPlainObject(directive)) configs.push(directive);
+            else errors.push('The %%{init}%% directive must hold an object.');
+        } catch {
+            errors.push('The %%{init}%% directive is not valid JSON.');
+        }
+    }
+
+    return { config: sanitizeConfig(mergeConfig(...configs) as ConfigObject), errors };
+}
+
+/**
+ * Dotted paths and values of a config's settings, e.g. for listing what a diagram overrides
+ */
+export function flattenConfig(config: MermaidConfig, prefix = ''): [string, unknown][] {
+    return Object.entries(config as ConfigObject).flatMap(([key, value]) => (
+        isPlainObject(value) ? flattenConfig(value, `${prefix}${key}.`) : [[`${prefix}${key}`, value] as [string, unknown]]
+    ));
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { parseMermaidError, formatDiagnosticMessage } from '@/lib/mermaidErrors';
+
+const parserError = (message: string, hash: Record<string, unknown>) =>
+    Object.assign(new Error(message), { hash });
+
+describe('parseMermaidError', () => {
+    it('should locate the token following the last consumed one', () => {
+        const code = 'sequenceDiagram\n  A->>B: hi\n  A-->>>B';
+        const err = parserError(
+            "Parse error on line 3:\n...  A->>B: hi  A-->>>B\n---------------------^\nExpecting '+', '-', 'ACTOR', got 'INVALID'",
+            {
+                text: '>',
+                token: 'INVALID',
+                line: 2,
+                loc: { first_line: 3, last_line: 3, first_column: 3, last_column: 7 },
+                expected: ["'+'", "'-'", "'ACTOR'"],
+            }
+        );
+
+        const diagnostic = parseMermaidError(err, code);
+
+        expect(diagnostic.line).toBe(3);
+        expect(diagnostic.column).toBe(8);
+        expect(diagnostic.endColumn).toBe(9);
+        expect(diagnostic.expected).toEqual(['+', '-', 'ACTOR']);
+        expect(diagnostic.found).toBe('>');
+        expect(diagnostic.message).toBe("Unexpected '>', expecting '+', '-', 'ACTOR'");
+    });
+
+    it('should fall back to the start of the line when the location spans lines', () => {
+        const code = 'flowchart TD\n  A[Start] --> B{Decision\n  B --> C';
+        const err = parserError('Parse error on line 3:\n...', {
+            text: '',
+            token: 1,
+            line: 3,
+            loc: { first_line: 2, last_line: 4, first_column: 17, last_column: 0 },
+            expected: ["'DIAMOND_STOP'"],
+        });
+
+        const diagnostic = parseMermaidError(err, code);
+
+        expect(diagnostic.line).toBe(3);
+        expect(diagnostic.column).toBe(1);
+        expect(diagnostic.endColumn).toBeUndefined();
+    });
+
+    it('should keep the message of errors without parser details', () => {
+        const err = new Error('No diagram type detected matching given configuration for text: foo');
+
+        const diagnostic = parseMermaidError(err, 'foo\nbar');
+
+        expect(diagnostic).toMatchObject({ line: 1, column: 1, expected: [] });
+        expect(diagnostic.message).toBe('No diagram type detected matching given configuration for text: foo');
+    });
+
+    it('should count lines Mermaid skips as comments', () => {
+        const code = '%% a\n%% b\ngraph TD\n    A-->B\n    A-->>C';
+        const err = parserError('Parse error on line 3:\n...', {
+            text: '>',
+            token: 'INVALID',
+            line: 2,
+            loc: { first_line: 3, last_line: 3, first_column: 4, last_column: 7 },
+            expected: [],
+        });
+
+        const diagnostic = parseMermaidError(err, code);
+
+        expect(diagnostic.line).toBe(5);
+        expect(diagnostic.column).toBe(8);
+    });
+
+    it('should count lines Mermaid skips as frontmatter', () => {
+        const code = '---\ntitle: Flow\nconfig:\n  theme: dark\n---\ngraph TD\n    A-->B\n    A-->>C';
+        const err = parserError('Parse error on line 3:\n...', { text: '>', line: 2, expected: [] });
+
+        expect(parseMermaidError(err, code).line).toBe(8);
+    });
+
+    it('should clamp line numbers past the end of the code', () => {
+        const err = parserError('Parse error on line 9:', { line: 8, expected: [] });
+
+        expect(parseMermaidError(err, 'graph TD\n  A').line).toBe(2);
+    });
+});
+
+describe('formatDiagnosticMessage', () => {
+    it('should truncate long expected token lists', () => {
+        const message = formatDiagnosticMessage('x', ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']);
+
+        expect(message).toBe("Unexpected 'x', expecting 'A', 'B', 'C', 'D', 'E', 'F' (+2 more)");
+    });
+});
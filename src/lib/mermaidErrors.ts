@@ -0,0 +1,136 @@
+import { DiagramDiagnostic } from '@/types/diagram';
+
+/**
+ * Convert errors thrown by mermaid.parse/render into structured diagnostics
+ */
+
+// Shape of the `hash` attached to errors from Mermaid's jison parsers
+interface JisonErrorHash {
+    text?: string;
+    token?: string | number;
+    line?: number;
+    loc?: {
+        first_line: number;
+        last_line: number;
+        first_column: number;
+        last_column: number;
+    };
+    expected?: string[];
+}
+
+const MAX_EXPECTED_IN_MESSAGE = 6;
+
+const getErrorHash = (err: unknown): JisonErrorHash | undefined => {
+    if (typeof err === 'object' && err !== null && 'hash' in err) {
+        const hash = (err as { hash: unknown }).hash;
+        return typeof hash === 'object' && hash !== null ? hash as JisonErrorHash : undefined;
+    }
+    return undefined;
+};
+
+const stripQuotes = (token: string) => token.replace(/^'(.*)'$/, '$1');
+
+// What Mermaid strips before parsing, in order, so parser positions count lines of the cleaned text
+const STRIPPED_BEFORE_PARSE = [
+    /\r(?=\n)/g,
+    /^-{3}\s*[\n\r](.*?)[\n\r]-{3}\s*[\n\r]+/gs,
+    /%{2}{\s*(?:(\w+)\s*:|(\w+))\s*(?:(\w+)|((?:(?!}%{2}).|\r?\n)*))?\s*(?:}%{2})?/gi,
+    /^\s*%%(?!{)[^\n]+\n?/gm,
+    /^\s+/g,
+];
+
+interface CleanedCode {
+    text: string;
+    /** Offset in the source of each character of the text */
+    offsets: number[];
+}
+
+const removeMatches = ({ text, offsets }: CleanedCode, pattern: RegExp): CleanedCode => {
+    let result = '';
+    const kept: number[] = [];
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+        result += text.slice(last, match.index);
+        kept.push(...offsets.slice(last, match.index));
+        last = match.index + match[0].length;
+    }
+    return { text: result + text.slice(last), offsets: kept.concat(offsets.slice(last)) };
+};
+
+/**
+ * Source position of a 1-based position in the text Mermaid parsed, or undefined past its end
+ */
+const toSourcePosition = (code: string, line: number, column: number) => {
+    const cleaned = STRIPPED_BEFORE_PARSE.reduce(removeMatches, {
+        text: code,
+        offsets: Array.from(code, (_, index) => index),
+    });
+
+    let lineStart = 0;
+    for (let current = 1; current < line; current++) {
+        lineStart = cleaned.text.indexOf('\n', lineStart) + 1;
+        if (lineStart === 0) return undefined;
+    }
+    const lineEnd = cleaned.text.indexOf('\n', lineStart);
+    const index = Math.min(lineStart + column - 1, lineEnd === -1 ? cleaned.text.length : lineEnd);
+    const offset = cleaned.offsets[index] ?? code.length;
+
+    const before = code.slice(0, offset);
+    return {
+        line: before.split('\n').length,
+        column: offset - before.lastIndexOf('\n'),
+    };
+};
+
+/**
+ * Build a readable one-line summary from the parser's expected/found tokens
+ */
+export function formatDiagnosticMessage(found: string | undefined, expected: string[]): string {
+    const parts = [found ? `Unexpected '${found}'` : 'Syntax error'];
+
+    if (expected.length > 0) {
+        const shown = expected.slice(0, MAX_EXPECTED_IN_MESSAGE).map(token => `'${token}'`).join(', ');
+        const more = expected.length > MAX_EXPECTED_IN_MESSAGE ? ` (+${expected.length - MAX_EXPECTED_IN_MESSAGE} more)` : '';
+        parts.push(`expecting ${shown}${more}`);
+    }
+
+    return parts.join(', ');
+}
+
+/**
+ * Parse an error from Mermaid into a diagnostic pointing at the offending source position
+ */
+export function parseMermaidError(err: unknown, code: string): DiagramDiagnostic {
+    const rawMessage = err instanceof Error ? err.message : typeof err === 'string' ? err : 'Invalid diagram syntax';
+    const hash = getErrorHash(err);
+    const lines = code.split('\n');
+
+    // "Parse error on line 3:" / "Lexical error on line 2." are 1-based
+    const lineMatch = rawMessage.match(/on line (\d+)/i);
+    const parsedLine = lineMatch ? Number(lineMatch[1]) : typeof hash?.line === 'number' ? hash.line + 1 : 1;
+
+    // The location describes the last token consumed; the error starts right after it
+    const loc = hash?.loc;
+    const hasColumn = Boolean(loc && loc.last_line === parsedLine);
+    const position = toSourcePosition(code, parsedLine, hasColumn ? loc.last_column + 1 : 1);
+
+    const line = Math.min(Math.max(position?.line ?? parsedLine, 1), Math.max(lines.length, 1));
+    const column = position && hasColumn ? position.column : 1;
+
+    const found = hash?.text || (typeof hash?.token === 'string' ? hash.token : undefined);
+    const expected = (hash?.expected || []).map(stripQuotes);
+
+    const isParserError = Boolean(hash);
+    const message = isParserError
+        ? formatDiagnosticMessage(found, expected)
+        : rawMessage.split('\n')[0];
+
+    return {
+        message,
+        line,
+        column,
+        endColumn: hash?.text ? column + hash.text.length : undefined,
+        expected,
+        found,
+    };
+}
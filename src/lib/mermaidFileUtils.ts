@@ -1,4 +1,10 @@
-import { DiagramType, MermaidTheme, MermaidProjectFile } from '@/types/diagram';
+import { CustomTheme, DiagramType, ImportableFileType, MermaidTheme, MermaidProjectFile } from '@/types/diagram';
+import { ImportConversion } from '@/lib/diagramImport';
+import { convertDot } from '@/lib/dotImport';
+import { convertDrawio } from '@/lib/drawioImport';
+import { convertPlantUml } from '@/lib/plantumlImport';
+import { MarkdownBlock, extractMermaidBlocks } from '@/lib/markdownImport';
+import { PROJECT_FILE_VERSION, parseProjectFile } from '@/lib/projectFile';
 
 /**
  * Utility functions for exporting and importing Mermaid diagram files
@@ -45,10 +51,9 @@ export function detectDiagramType(code: string): DiagramType {
 }
 
 /**
- * Download a file with given content
+ * Download a blob under the given filename
  */
-function downloadFile(content: string, filename: string, mimeType: string): void {
-    const blob = new Blob([content], { type: mimeType });
+export function downloadBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
 
     const link = document.createElement('a');
@@ -59,6 +64,13 @@ function downloadFile(content: string, filename: string, mimeType: string): void
     URL.revokeObjectURL(url);
 }
 
+/**
+ * Download a file with given content
+ */
+function downloadFile(content: string, filename: string, mimeType: string): void {
+    downloadBlob(new Blob([content], { type: mimeType }), filename);
+}
+
 /**
  * Export Mermaid code as .mmd file
  */
@@ -74,31 +86,68 @@ export function exportAsText(code: string, filename: string = 'diagram'): void {
 }
 
 /**
- * Export as project file (.flowilham) with metadata
+ * Optional parts of a project file. `createdAt` keeps the creation date of a diagram that was exported before.
  */
-export function exportAsProject(
+export type ProjectFileDetails = Partial<Pick<MermaidProjectFile, 'title' | 'description' | 'createdAt' | 'customTheme'>>;
+
+/**
+ * Build a project file (.flowilham) structure with metadata
+ */
+export function createProjectFile(
     code: string,
     diagramType: DiagramType,
     theme: MermaidTheme,
-    filename: string = 'diagram',
-    title?: string,
-    description?: string
-): void {
-    const projectFile: MermaidProjectFile = {
-        version: '1.0',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+    { title, description, createdAt, customTheme }: ProjectFileDetails = {}
+): MermaidProjectFile {
+    const now = new Date().toISOString();
+    return {
+        version: PROJECT_FILE_VERSION,
+        createdAt: createdAt || now,
+        updatedAt: now,
         diagramType,
         theme,
         code,
         title,
         description,
+        ...(customTheme && { customTheme }),
     };
+}
+
+/**
+ * Export as project file (.flowilham) with metadata
+ */
+export function exportAsProject(
+    code: string,
+    diagramType: DiagramType,
+    theme: MermaidTheme,
+    filename: string = 'diagram',
+    details: ProjectFileDetails = {}
+): void {
+    const projectFile = createProjectFile(code, diagramType, theme, details);
 
     const content = JSON.stringify(projectFile, null, 2);
     downloadFile(content, `${filename}.flowilham`, 'application/json;charset=utf-8');
 }
 
+// Other diagram formats, converted to Mermaid on import
+const IMPORT_CONVERTERS: Partial<Record<ImportableFileType, (source: string) => ImportConversion | Promise<ImportConversion>>> = {
+    puml: convertPlantUml,
+    plantuml: convertPlantUml,
+    pu: convertPlantUml,
+    iuml: convertPlantUml,
+    dot: convertDot,
+    gv: convertDot,
+    drawio: convertDrawio,
+    xml: convertDrawio,
+};
+
+/**
+ * File extensions the import dialog accepts
+ */
+export const IMPORTABLE_EXTENSIONS: ImportableFileType[] = [
+    'mmd', 'txt', 'flowilham', 'json', 'puml', 'plantuml', 'pu', 'iuml', 'dot', 'gv', 'drawio', 'xml', 'md', 'markdown',
+];
+
 /**
  * Sanitize imported code to prevent injection attacks
  */
@@ -111,56 +160,85 @@ function sanitizeImportedCode(code: string): string {
     return code;
 }
 
-/**
- * Validate MermaidProjectFile structure
- */
-function validateProjectFile(obj: unknown): obj is MermaidProjectFile {
-    if (typeof obj !== 'object' || obj === null) {
-        return false;
-    }
-
-    const file = obj as Record<string, unknown>;
-    return typeof file.code === 'string';
-}
+const MAX_IMPORT_FILE_SIZE = 1024 * 1024;
 
-/**
- * Parse imported file content based on file type
- */
-export async function parseImportedFile(file: File): Promise<{
+export interface ImportedFile {
     code: string;
     diagramType?: DiagramType;
     theme?: MermaidTheme;
+    customTheme?: CustomTheme;
     title?: string;
     description?: string;
-}> {
-    const content = await file.text();
+    /** Project files: when the diagram was first created, kept on the next export */
+    createdAt?: string;
+    /** What a converted file lost on the way to Mermaid */
+    warnings?: string[];
+    /** Markdown files: the document and every Mermaid block in it; the fields above describe the first block */
+    markdown?: { source: string; blocks: MarkdownBlock[] };
+}
+
+/**
+ * Parse imported file content based on file type, rejecting files that are too large or of an unknown type
+ */
+export async function parseImportedFile(file: File): Promise<ImportedFile> {
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+        throw new Error('File size exceeds maximum limit of 1MB');
+    }
+
     const extension = file.name.split('.').pop()?.toLowerCase();
+    if (!extension || !IMPORTABLE_EXTENSIONS.includes(extension as ImportableFileType)) {
+        throw new Error(`Invalid file type. Supported files: ${getAcceptedFileTypes().replace(/,/g, ', ')}.`);
+    }
 
-    // For .flowilham or .json files, try to parse as project file
-    if (extension === 'flowilham' || extension === 'json') {
-        try {
-            const parsed = JSON.parse(content);
+    const content = await file.text();
 
-            if (!validateProjectFile(parsed)) {
-                throw new Error('Invalid project file: missing or invalid code field');
-            }
+    if (extension === 'md' || extension === 'markdown') {
+        const source = sanitizeImportedCode(content);
+        const blocks = extractMermaidBlocks(source);
+        if (blocks.length === 0) {
+            throw new Error('No Mermaid diagrams found in this Markdown file.');
+        }
+        return {
+            code: blocks[0].code,
+            diagramType: detectDiagramType(blocks[0].code),
+            title: blocks[0].title,
+            markdown: { source, blocks },
+        };
+    }
 
-            const projectFile = parsed as MermaidProjectFile;
+    const convert = IMPORT_CONVERTERS[extension as ImportableFileType];
+    if (convert) {
+        const conversion = await convert(sanitizeImportedCode(content));
+        return {
+            code: conversion.code,
+            diagramType: conversion.diagramType,
+            title: conversion.title,
+            warnings: conversion.warnings,
+        };
+    }
 
-            // Sanitize the code
-            const sanitizedCode = sanitizeImportedCode(projectFile.code);
+    // .flowilham and .json files hold a project file; a .flowilham that is not JSON at all is read as plain code
+    if (extension === 'flowilham' || extension === 'json') {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(content);
+        } catch (error) {
+            if (extension === 'json') {
+                throw new Error(`Invalid project file: not valid JSON (${error instanceof Error ? error.message : String(error)}).`);
+            }
+        }
 
+        if (parsed !== undefined) {
+            const projectFile = parseProjectFile(parsed);
             return {
-                code: sanitizedCode,
+                code: sanitizeImportedCode(projectFile.code),
                 diagramType: projectFile.diagramType,
                 theme: projectFile.theme,
+                customTheme: projectFile.customTheme,
                 title: projectFile.title,
                 description: projectFile.description,
+                createdAt: projectFile.createdAt,
             };
-        } catch (error) {
-            if (extension === 'json') {
-                throw error instanceof Error ? error : new Error('Invalid JSON project file');
-            }
         }
     }
 
@@ -174,6 +252,27 @@ export async function parseImportedFile(file: File): Promise<{
     };
 }
 
+/**
+ * Guess which importable format pasted text is in, or null when it does not look like a diagram
+ */
+export function detectPastedFileType(text: string): ImportableFileType | null {
+    const trimmed = text.trim().replace(/\r\n/g, '\n');
+    if (/^@start\w+/i.test(trimmed)) return 'puml';
+    if (/^(<\?xml[^>]*>\s*)?<(mxfile|mxGraphModel)\b/.test(trimmed)) return 'drawio';
+    // Mermaid's `graph TD` has no brace on its header line
+    if (/^(strict\s+)?(di)?graph\b[^\n]*\{/i.test(trimmed)) return 'dot';
+
+    // Mermaid: the first line after frontmatter and %% comments names the diagram type
+    const header = trimmed
+        .replace(/^---\n[\s\S]*?\n---/, '')
+        .split('\n')
+        .map(line => line.trim())
+        .find(line => line && !line.startsWith('%%'));
+    if (header && DIAGRAM_TYPE_PATTERNS.some(({ pattern }) => pattern.test(header))) return 'mmd';
+
+    return null;
+}
+
 /**
  * Validate Mermaid code syntax (basic validation)
  */
@@ -201,7 +300,7 @@ export function validateMermaidCode(code: string): { isValid: boolean; error?: s
  * Get accepted file extensions for import
  */
 export function getAcceptedFileTypes(): string {
-    return '.mmd,.txt,.flowilham,.json';
+    return IMPORTABLE_EXTENSIONS.map(extension => `.${extension}`).join(',');
 }
 
 /**
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Monaco } from '@monaco-editor/react';
+import { diagramTemplates } from '@/lib/diagramTemplates';
+import {
+    MERMAID_DIAGRAM_HEADERS,
+    MERMAID_LANGUAGE_ID,
+    mermaidMonarchLanguage,
+    registerMermaidLanguage,
+} from '@/lib/mermaidLanguage';
+
+const createMonacoMock = (registeredIds: string[] = []) => ({
+    languages: {
+        getLanguages: vi.fn(() => registeredIds.map(id => ({ id }))),
+        register: vi.fn(),
+        setLanguageConfiguration: vi.fn(),
+        setMonarchTokensProvider: vi.fn(),
+    },
+}) as unknown as Monaco;
+
+describe('mermaidLanguage', () => {
+    it('should declare a header for every diagram template', () => {
+        for (const template of diagramTemplates) {
+            const header = template.template.trim().split(/\s/)[0];
+            expect(MERMAID_DIAGRAM_HEADERS[template.type]).toContain(header);
+        }
+    });
+
+    it('should tokenize %% comments and init directives', () => {
+        const rootRules = mermaidMonarchLanguage.tokenizer.root.map(rule => String((rule as unknown[])[0]));
+
+        expect(rootRules).toContain(String(/%%.*$/));
+        expect(rootRules).toContain(String(/%%\{/));
+    });
+
+    it('should register the language, configuration and tokens provider once', () => {
+        const monaco = createMonacoMock();
+
+        registerMermaidLanguage(monaco);
+
+        expect(monaco.languages.register).toHaveBeenCalledWith(expect.objectContaining({ id: MERMAID_LANGUAGE_ID }));
+        expect(monaco.languages.setLanguageConfiguration).toHaveBeenCalledWith(
+            MERMAID_LANGUAGE_ID,
+            expect.objectContaining({ comments: { lineComment: '%%' } })
+        );
+        expect(monaco.languages.setMonarchTokensProvider).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip registration when the language already exists', () => {
+        const monaco = createMonacoMock([MERMAID_LANGUAGE_ID]);
+
+        registerMermaidLanguage(monaco);
+
+        expect(monaco.languages.register).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,225 @@
+import type { Monaco } from '@monaco-editor/react';
+import type { languages } from 'monaco-editor';
+import { DiagramType } from '@/types/diagram';
+
+/**
+ * Monaco language definition for Mermaid syntax
+ */
+
+export const MERMAID_LANGUAGE_ID = 'mermaid';
+
+/**
+ * Diagram header keywords, grouped by the DiagramType they declare
+ */
+export const MERMAID_DIAGRAM_HEADERS: Record<DiagramType, string[]> = {
+    flowchart: ['flowchart', 'graph'],
+    sequence: ['sequenceDiagram'],
+    class: ['classDiagram', 'classDiagram-v2'],
+    state: ['stateDiagram', 'stateDiagram-v2'],
+    er: ['erDiagram'],
+    gantt: ['gantt'],
+    pie: ['pie'],
+    mindmap: ['mindmap'],
+    timeline: ['timeline'],
+    quadrant: ['quadrantChart'],
+    gitgraph: ['gitGraph'],
+    c4: ['C4Context', 'C4Container', 'C4Component', 'C4Dynamic', 'C4Deployment'],
+    sankey: ['sankey-beta'],
+    block: ['block-beta'],
+    journey: ['journey'],
+};
+
+const headers = Object.values(MERMAID_DIAGRAM_HEADERS).flat();
+
+// Headers containing a hyphen cannot be matched by the identifier rule
+const hyphenatedHeaders = headers.filter(header => header.includes('-'));
+const plainHeaders = headers.filter(header => !header.includes('-'));
+
+const directions = ['TB', 'TD', 'BT', 'RL', 'LR'];
+
+const keywords = [
+    // Shared
+    'title', 'accTitle', 'accDescr', 'section', 'direction', 'style', 'classDef', 'class', 'click',
+    'call', 'href', 'linkStyle', 'interpolate', 'default', 'end',
+    // Flowchart
+    'subgraph',
+    // Sequence
+    'participant', 'actor', 'as', 'autonumber', 'activate', 'deactivate', 'loop', 'alt', 'else',
+    'opt', 'par', 'and', 'critical', 'break', 'rect', 'note', 'Note', 'over', 'left', 'right', 'of',
+    'create', 'destroy', 'box', 'links', 'link',
+    // Class
+    'namespace',
+    // State
+    'state',
+    // Gantt
+    'dateFormat', 'axisFormat', 'tickInterval', 'excludes', 'includes', 'todayMarker', 'weekday',
+    'weekend', 'done', 'active', 'crit', 'milestone', 'after', 'until',
+    // Pie
+    'showData',
+    // Mindmap
+    'root',
+    // Git graph
+    'commit', 'branch', 'checkout', 'merge', 'id', 'tag', 'type', 'order', 'NORMAL', 'REVERSE', 'HIGHLIGHT',
+    // C4
+    'Person', 'Person_Ext', 'System', 'System_Ext', 'SystemDb', 'SystemDb_Ext', 'SystemQueue',
+    'SystemQueue_Ext', 'Container', 'Container_Ext', 'ContainerDb', 'ContainerQueue', 'Component',
+    'Component_Ext', 'ComponentDb', 'ComponentQueue', 'Boundary', 'Enterprise_Boundary',
+    'System_Boundary', 'Container_Boundary', 'Node', 'Node_L', 'Node_R', 'Deployment_Node', 'Rel',
+    'BiRel', 'Rel_U', 'Rel_Up', 'Rel_D', 'Rel_Down', 'Rel_L', 'Rel_Left', 'Rel_R', 'Rel_Right',
+    'Rel_Back', 'UpdateElementStyle', 'UpdateRelStyle', 'UpdateLayoutConfig',
+    // Block
+    'columns', 'block', 'space',
+];
+
+// Keywords containing a hyphen, matched before identifiers
+const hyphenatedKeywords = ['x-axis', 'y-axis', 'quadrant-1', 'quadrant-2', 'quadrant-3', 'quadrant-4', 'cherry-pick'];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const alternation = (values: string[]) => values.map(escapeRegExp).join('|');
+
+export const mermaidLanguageConfiguration: languages.LanguageConfiguration = {
+    comments: {
+        lineComment: '%%',
+    },
+    brackets: [
+        ['{', '}'],
+        ['[', ']'],
+        ['(', ')'],
+    ],
+    autoClosingPairs: [
+        { open: '{', close: '}' },
+        { open: '[', close: ']' },
+        { open: '(', close: ')' },
+        { open: '"', close: '"', notIn: ['string'] },
+    ],
+    surroundingPairs: [
+        { open: '{', close: '}' },
+        { open: '[', close: ']' },
+        { open: '(', close: ')' },
+        { open: '"', close: '"' },
+    ],
+    folding: {
+        markers: {
+            start: /^\s*(subgraph|loop|alt|opt|par|critical|break|rect|box|namespace)\b/,
+            end: /^\s*end\b/,
+        },
+    },
+    indentationRules: {
+        increaseIndentPattern: /^\s*(subgraph|loop|alt|else|opt|par|and|critical|break|rect|box|namespace)\b.*$|.*\{\s*$/,
+        decreaseIndentPattern: /^\s*(end|else|and)\b.*$|^\s*\}\s*$/,
+    },
+};
+
+export const mermaidMonarchLanguage: languages.IMonarchLanguage = {
+    defaultToken: '',
+    tokenPostfix: '.mermaid',
+
+    headers: plainHeaders,
+    directions,
+    keywords,
+
+    tokenizer: {
+        root: [
+            // YAML frontmatter at the top of the document
+            [/^---\s*$/, { token: 'metatag', next: '@frontmatter' }],
+
+            // %%{init: ...}%% directives, then plain %% comments
+            [/%%\{/, { token: 'metatag', next: '@directive' }],
+            [/%%.*$/, 'comment'],
+
+            [new RegExp(`\\b(?:${alternation(hyphenatedHeaders)})\\b`), 'type'],
+            [new RegExp(`\\b(?:${alternation(hyphenatedKeywords)})\\b`), 'keyword'],
+
+            // State diagram start/end marker
+            [/\[\*\]/, 'keyword'],
+
+            // Class annotations such as <<interface>>
+            [/<<[^>\n]+>>/, 'annotation'],
+
+            // :::className shorthand and mindmap ::icon()
+            [/:::[\w-]+/, 'type'],
+            [/::icon\(/, { token: 'type', next: '@icon' }],
+
+            // ER cardinalities: ||--o{, }|..|{, ...
+            [/[|}][o|](?:--|\.\.)[o|][|{]/, 'operator'],
+
+            // Class relations: <|--, *--, o--, ..|>, ..>
+            [/(?:<\||\*|o)(?:--|\.\.)|(?:--|\.\.)(?:\|>|\*)/, 'operator'],
+
+            // Sequence messages: ->>, -->>, -x, --), with optional activation suffix
+            [/--?(?:>>|[x)]|>)[+-]?/, 'operator'],
+
+            // Flowchart links: -->, ---, ==>, -.->, ~~~, <-->, --o, --x
+            [/<?(?:-{2,}|={2,}|-\.+-|~{3,}|\.{2,})[>ox]?/, 'operator'],
+
+            // Edge labels between pipes
+            [/\|[^|\n]*\|/, 'string'],
+
+            // Strings
+            [/"/, { token: 'string.quote', next: '@string' }],
+            [/`/, { token: 'string.quote', next: '@markdownString' }],
+
+            // Dates (gantt) and numbers
+            [/\d{4}-\d{2}-\d{2}/, 'number'],
+            [/\d+(?:\.\d+)?(?:[dhwm]|ms)?\b/, 'number'],
+
+            [/[a-zA-Z_][\w]*/, {
+                cases: {
+                    '@headers': 'type',
+                    '@directions': 'keyword.direction',
+                    '@keywords': 'keyword',
+                    '@default': 'identifier',
+                },
+            }],
+
+            [/[{}()[\]]/, '@brackets'],
+            [/[;,:]/, 'delimiter'],
+        ],
+
+        string: [
+            [/[^"]+/, 'string'],
+            [/"/, { token: 'string.quote', next: '@pop' }],
+        ],
+
+        markdownString: [
+            [/[^`]+/, 'string'],
+            [/`/, { token: 'string.quote', next: '@pop' }],
+        ],
+
+        directive: [
+            [/\}%%/, { token: 'metatag', next: '@pop' }],
+            [/"[^"]*"|'[^']*'/, 'string'],
+            [/\b(init|initialize|wrap|config)\b/, 'keyword'],
+            [/[^}"']+|./, 'metatag.content'],
+        ],
+
+        frontmatter: [
+            [/^---\s*$/, { token: 'metatag', next: '@pop' }],
+            [/^(\s*)([\w-]+)(:)/, ['', 'attribute.name', 'delimiter']],
+            [/.*$/, 'metatag.content'],
+        ],
+
+        icon: [
+            [/\)/, { token: 'type', next: '@pop' }],
+            [/[^)]+/, 'string'],
+        ],
+    },
+};
+
+/**
+ * Register the Mermaid language with Monaco (safe to call more than once)
+ */
+export function registerMermaidLanguage(monaco: Monaco): void {
+    const isRegistered = monaco.languages
+        .getLanguages()
+        .some((language: languages.ILanguageExtensionPoint) => language.id === MERMAID_LANGUAGE_ID);
+    if (isRegistered) return;
+
+    monaco.languages.register({
+        id: MERMAID_LANGUAGE_ID,
+        extensions: ['.mmd', '.mermaid'],
+        aliases: ['Mermaid', 'mermaid'],
+    });
+    monaco.languages.setLanguageConfiguration(MERMAID_LANGUAGE_ID, mermaidLanguageConfiguration);
+    monaco.languages.setMonarchTokensProvider(MERMAID_LANGUAGE_ID, mermaidMonarchLanguage);
+}
@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest';
+import { parseDiagram } from '@/lib/mermaidParser';
+import { DiagramAst, EdgeStatement, findNode } from '@/lib/mermaidAst';
+import { diagramTemplates } from '@/lib/diagramTemplates';
+
+const sliceOf = (ast: DiagramAst, range: { start: number; end: number }) => ast.source.slice(range.start, range.end);
+
+describe('mermaidParser', () => {
+    it('should return null for unsupported or missing headers', () => {
+        expect(parseDiagram('pie title Pets\n    "Dogs" : 3')).toBeNull();
+        expect(parseDiagram('%% just a comment')).toBeNull();
+    });
+
+    it('should parse every supported template', () => {
+        for (const template of diagramTemplates.filter(t => ['flowchart', 'sequence', 'class', 'state', 'er'].includes(t.type))) {
+            const ast = parseDiagram(template.template);
+
+            expect(ast?.type).toBe(template.type);
+            expect(ast?.nodes.length).toBeGreaterThan(0);
+        }
+    });
+
+    describe('flowchart', () => {
+        const code = [
+            '---',
+            'title: Demo',
+            '---',
+            'flowchart LR',
+            '    %% entry point',
+            '    A[Start] --> B{"Is it (ok)?"}',
+            '    B -->|Yes| C([Done]) & D[(Store)]',
+            '    B -- No --> A',
+            '    subgraph group [Group]',
+            '        E((Round)); F>Flag]',
+            '    end',
+            '    style A fill:#f9f',
+        ].join('\n');
+
+        it('should read the header after frontmatter', () => {
+            const ast = parseDiagram(code);
+
+            expect(ast?.header).toMatchObject({ keyword: 'flowchart', direction: 'LR', line: 4 });
+        });
+
+        it('should collect nodes with labels, shapes and every reference', () => {
+            const ast = parseDiagram(code);
+
+            expect(ast.nodes.map(node => node.id)).toEqual(['A', 'B', 'C', 'D', 'E', 'F']);
+            expect(findNode(ast, 'A')).toMatchObject({ label: 'Start', shape: 'rect' });
+            expect(findNode(ast, 'B')).toMatchObject({ label: 'Is it (ok)?', shape: 'rhombus' });
+            expect(findNode(ast, 'C')).toMatchObject({ label: 'Done', shape: 'stadium' });
+            expect(findNode(ast, 'D')).toMatchObject({ label: 'Store', shape: 'cylinder' });
+            expect(findNode(ast, 'E')).toMatchObject({ shape: 'circle', parent: 'group' });
+            expect(findNode(ast, 'F')).toMatchObject({ shape: 'asymmetric', parent: 'group' });
+            // Two edges and the style line
+            expect(findNode(ast, 'A').refs).toHaveLength(3);
+        });
+
+        it('should record source ranges for ids, labels and shapes', () => {
+            const ast = parseDiagram(code);
+            const [first] = findNode(ast, 'B').refs;
+
+            expect(sliceOf(ast, first.id.range)).toBe('B');
+            expect(sliceOf(ast, first.label.range)).toBe('Is it (ok)?');
+            expect(sliceOf(ast, first.shapeRange)).toBe('{"Is it (ok)?"}');
+        });
+
+        it('should expand & groups and read both label styles', () => {
+            const ast = parseDiagram(code);
+
+            expect(ast.edges.map(edge => [edge.from, edge.to, edge.label ?? null])).toEqual([
+                ['A', 'B', null],
+                ['B', 'C', 'Yes'],
+                ['B', 'D', 'Yes'],
+                ['B', 'A', 'No'],
+            ]);
+            expect(ast.edges[3].arrow).toBe('-->');
+            expect(sliceOf(ast, ast.edges[3].link.range)).toBe('-- No -->');
+        });
+
+        it('should track subgraphs and split statements on semicolons', () => {
+            const ast = parseDiagram(code);
+            const line10 = ast.statements.filter(statement => statement.line === 10);
+
+            expect(ast.groups).toEqual([
+                expect.objectContaining({ id: 'group', label: 'Group', keyword: 'subgraph', children: ['E', 'F'] }),
+            ]);
+            expect(sliceOf(ast, ast.groups[0].range)).toMatch(/^subgraph group \[Group][\s\S]*end$/);
+            expect(line10.map(statement => statement.raw)).toEqual(['E((Round)); ', 'F>Flag]']);
+        });
+
+        it('should parse chained links with different arrows', () => {
+            const ast = parseDiagram('graph TD\n    A -.-> B ==> C --- D <--> E');
+
+            expect(ast.edges.map(edge => edge.arrow)).toEqual(['-.->', '==>', '---', '<-->']);
+        });
+
+        it('should parse statements on the header line of one-line flowcharts', () => {
+            const ast = parseDiagram('graph LR; A-->B; B-->C[Done]');
+
+            expect(ast.header).toMatchObject({ keyword: 'graph', direction: 'LR', raw: 'graph LR; ' });
+            expect(ast.nodes.map(node => node.id)).toEqual(['A', 'B', 'C']);
+            expect(ast.edges.map(edge => [edge.from, edge.to])).toEqual([['A', 'B'], ['B', 'C']]);
+            expect(sliceOf(ast, findNode(ast, 'C')!.refs[0].range)).toBe('C[Done]');
+            expect(ast.statements.map(statement => statement.raw).join('')).toBe(ast.source);
+        });
+
+        it('should read pipe labels with quoted pipes', () => {
+            const ast = parseDiagram('graph TD\n    A-->|"x|y"|B');
+
+            expect(ast.edges).toHaveLength(1);
+            expect(ast.edges[0]).toMatchObject({ from: 'A', to: 'B' });
+            expect(ast.edges[0].link.label?.text).toBe('x|y');
+        });
+
+        it('should keep unknown syntax as other statements', () => {
+            const ast = parseDiagram('graph TD\n    A --> B\n    linkStyle 0 stroke:#f00\n    this is ??? not valid');
+
+            expect(ast.statements.map(statement => statement.kind)).toEqual(['header', 'edge', 'other', 'other']);
+        });
+    });
+
+    describe('sequence', () => {
+        const code = [
+            'sequenceDiagram',
+            '    participant A as Alice',
+            '    actor B',
+            '    A->>+B: Hello Bob',
+            '    loop Every minute',
+            '        B-->>-A: Hi',
+            '    end',
+            '    Note over A,B: Chatting',
+        ].join('\n');
+
+        it('should parse participants, messages and notes', () => {
+            const ast = parseDiagram(code);
+
+            expect(findNode(ast, 'A')).toMatchObject({ label: 'Alice' });
+            expect(findNode(ast, 'A').refs).toHaveLength(4);
+            expect(ast.edges.map(edge => [edge.from, edge.arrow, edge.to, edge.label])).toEqual([
+                ['A', '->>+', 'B', 'Hello Bob'],
+                ['B', '-->>-', 'A', 'Hi'],
+            ]);
+            expect(ast.groups[0]).toMatchObject({ keyword: 'loop', label: 'Every minute' });
+        });
+    });
+
+    describe('class', () => {
+        const code = [
+            'classDiagram',
+            '    class Animal {',
+            '        +String name',
+            '        +eat()',
+            '    }',
+            '    class Duck["Mallard"]',
+            '    Animal <|-- Duck : extends',
+            '    Zoo "1" *-- "many" Animal',
+            '    Duck : +swim()',
+            '    <<interface>> Animal',
+        ].join('\n');
+
+        it('should parse classes, members and relations', () => {
+            const ast = parseDiagram(code);
+            const members = ast.statements.filter(statement => statement.kind === 'member');
+            const composition = ast.statements.find(
+                statement => statement.kind === 'edge' && statement.links[0].arrow === '*--'
+            ) as EdgeStatement;
+
+            expect(ast.nodes.map(node => node.id)).toEqual(['Animal', 'Duck', 'Zoo']);
+            expect(findNode(ast, 'Duck')).toMatchObject({ label: 'Mallard' });
+            expect(members).toHaveLength(3);
+            expect(ast.edges[0]).toMatchObject({ from: 'Animal', to: 'Duck', arrow: '<|--', label: 'extends' });
+            expect(composition.links[0]).toMatchObject({
+                fromCardinality: expect.objectContaining({ text: '1' }),
+                toCardinality: expect.objectContaining({ text: 'many' }),
+            });
+            expect(findNode(ast, 'Animal').refs).toHaveLength(4);
+        });
+    });
+
+    describe('state', () => {
+        it('should parse states, composites and transitions', () => {
+            const ast = parseDiagram([
+                'stateDiagram-v2',
+                '    [*] --> Idle',
+                '    state "Working hard" as Busy',
+                '    Idle : Waiting',
+                '    state Active {',
+                '        [*] --> Busy',
+                '    }',
+                '    note right of Idle',
+                '        multi line',
+                '    end note',
+                '    Busy --> [*] : done',
+            ].join('\n'));
+
+            expect(ast.nodes.map(node => node.id)).toEqual(['Idle', 'Busy', 'Active']);
+            expect(findNode(ast, 'Idle')).toMatchObject({ label: 'Waiting' });
+            expect(findNode(ast, 'Busy')).toMatchObject({ label: 'Working hard' });
+            expect(ast.groups[0]).toMatchObject({ id: 'Active', keyword: 'state' });
+            expect(ast.edges.map(edge => [edge.from, edge.to, edge.label ?? null])).toEqual([
+                ['[*]', 'Idle', null],
+                ['[*]', 'Busy', null],
+                ['Busy', '[*]', 'done'],
+            ]);
+            expect(ast.statements[9].kind).toBe('other');
+        });
+    });
+
+    describe('er', () => {
+        it('should parse entities, attributes and relationships', () => {
+            const ast = parseDiagram([
+                'erDiagram',
+                '    CUSTOMER ||--o{ ORDER : places',
+                '    ORDER }|..|{ LINE-ITEM : "is part of"',
+                '    CUSTOMER {',
+                '        string name',
+                '    }',
+            ].join('\n'));
+
+            expect(ast.nodes.map(node => node.id)).toEqual(['CUSTOMER', 'ORDER', 'LINE-ITEM']);
+            expect(ast.edges.map(edge => [edge.arrow, edge.label])).toEqual([
+                ['||--o{', 'places'],
+                ['}|..|{', 'is part of'],
+            ]);
+            expect(ast.statements[4]).toMatchObject({ kind: 'member', owner: 'CUSTOMER' });
+        });
+    });
+});
@@ -0,0 +1,951 @@
+import {
+    AST_DIAGRAM_TYPES,
+    AstDiagramType,
+    AstLink,
+    AstNodeRef,
+    AstStatement,
+    AstText,
+    DiagramAst,
+    DiagramEdge,
+    DiagramGroup,
+    DiagramNode,
+    FlowchartShape,
+    HeaderStatement,
+    SourceRange,
+} from '@/lib/mermaidAst';
+import { MERMAID_DIAGRAM_HEADERS } from '@/lib/mermaidLanguage';
+import { DiagramType } from '@/types/diagram';
+
+/**
+ * Line-based parser from Mermaid source to a DiagramAst.
+ * Anything it does not understand is kept as an `other` statement so printing stays lossless.
+ */
+
+type StatementBody = AstStatement extends infer S ? (S extends AstStatement ? Omit<S, 'line' | 'indent' | 'range' | 'raw'> : never) : never;
+
+interface SourceLine {
+    text: string;
+    start: number;
+    number: number;
+}
+
+/**
+ * Cursor over a single line; `base` is the line's offset in the full source
+ */
+interface Scanner {
+    text: string;
+    base: number;
+    pos: number;
+}
+
+const OTHER: StatementBody = { kind: 'other' };
+
+const HEADER_TYPES = new Map<string, DiagramType>(
+    Object.entries(MERMAID_DIAGRAM_HEADERS).flatMap(([type, headers]) =>
+        headers.map(header => [header, type as DiagramType] as const)
+    )
+);
+
+const FLOWCHART_DIRECTIONS = ['TB', 'TD', 'BT', 'RL', 'LR'];
+
+// Scanner helpers
+
+const createScanner = (line: SourceLine, start: number = 0, end: number = line.text.length): Scanner => ({
+    text: line.text.slice(0, end),
+    base: line.start,
+    pos: start,
+});
+
+const atEnd = (s: Scanner) => s.pos >= s.text.length;
+
+function skipSpaces(s: Scanner): void {
+    while (s.pos < s.text.length && /\s/.test(s.text[s.pos])) s.pos++;
+}
+
+function match(s: Scanner, pattern: RegExp): RegExpExecArray | null {
+    pattern.lastIndex = s.pos;
+    const result = pattern.exec(s.text);
+    if (result && result.index === s.pos) {
+        s.pos += result[0].length;
+        return result;
+    }
+    return null;
+}
+
+const rangeOf = (s: Scanner, start: number, end: number): SourceRange => ({ start: s.base + start, end: s.base + end });
+
+/**
+ * Text between two positions with surrounding whitespace (and optionally quotes) removed
+ */
+function textBetween(s: Scanner, start: number, end: number, stripQuotes: boolean = false): AstText | undefined {
+    while (start < end && /\s/.test(s.text[start])) start++;
+    while (end > start && /\s/.test(s.text[end - 1])) end--;
+    if (stripQuotes && end - start >= 2 && s.text[start] === '"' && s.text[end - 1] === '"') {
+        start++;
+        end--;
+    }
+    if (start >= end) return undefined;
+    return { text: s.text.slice(start, end), range: rangeOf(s, start, end) };
+}
+
+/**
+ * Split comma separated names into node references, e.g. `A, B` in notes or `class A,B cls`
+ */
+function splitTargets(s: Scanner, start: number, end: number): AstNodeRef[] {
+    const refs: AstNodeRef[] = [];
+    let partStart = start;
+    for (let i = start; i <= end; i++) {
+        if (i === end || s.text[i] === ',') {
+            const id = textBetween(s, partStart, i);
+            if (id) refs.push({ id, range: id.range });
+            partStart = i + 1;
+        }
+    }
+    return refs;
+}
+
+/**
+ * Split a line on `;` outside quotes, brackets and edge labels.
+ * Each part keeps its trailing separator so the parts join back to the exact line.
+ */
+function splitParts(text: string, start: number): Array<{ start: number; end: number; rawEnd: number }> {
+    const parts: Array<{ start: number; end: number; rawEnd: number }> = [];
+    let depth = 0;
+    let quote = false;
+    let pipe = false;
+    let partStart = start;
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') quote = !quote;
+        if (quote) continue;
+        if ('[({'.includes(char)) depth++;
+        if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+        if (char === '|' && depth === 0) pipe = !pipe;
+        if (char === ';' && depth === 0 && !pipe) {
+            let next = i + 1;
+            while (next < text.length && /\s/.test(text[next])) next++;
+            parts.push({ start: partStart, end: i, rawEnd: next });
+            partStart = next;
+        }
+    }
+
+    if (partStart < text.length || parts.length === 0) {
+        parts.push({ start: partStart, end: text.length, rawEnd: text.length });
+    } else {
+        // A trailing `;` belongs to the last part
+        parts[parts.length - 1].rawEnd = text.length;
+    }
+    return parts;
+}
+
+const WORD = /[A-Za-z][\w-]*/y;
+
+function peekWord(s: Scanner): string {
+    WORD.lastIndex = s.pos;
+    const result = WORD.exec(s.text);
+    return result && result.index === s.pos ? result[0] : '';
+}
+
+/**
+ * Consume a keyword followed by whitespace or the end of the line
+ */
+function keyword(s: Scanner, word: string): boolean {
+    if (peekWord(s) !== word) return false;
+    s.pos += word.length;
+    skipSpaces(s);
+    return true;
+}
+
+// Flowchart
+
+const FLOW_ID = /[\p{L}\p{N}_]+(?:[-.][\p{L}\p{N}_]+)*/uy;
+const CLASS_SHORTHAND = /:::[\w-]+/y;
+const AMPERSAND = /\s*&\s*/y;
+
+// Longer openers win; the first closer found decides between `[/ /]` and `[/ \]`
+const FLOW_SHAPES: Array<[open: string, close: string, shape: FlowchartShape]> = [
+    ['(((', ')))', 'double-circle'],
+    ['((', '))', 'circle'],
+    ['([', '])', 'stadium'],
+    ['[[', ']]', 'subroutine'],
+    ['[(', ')]', 'cylinder'],
+    ['[/', '/]', 'parallelogram'],
+    ['[/', '\\]', 'trapezoid'],
+    ['[\\', '\\]', 'parallelogram-alt'],
+    ['[\\', '/]', 'trapezoid-alt'],
+    ['{{', '}}', 'hexagon'],
+    ['[', ']', 'rect'],
+    ['(', ')', 'round'],
+    ['{', '}', 'rhombus'],
+    ['>', ']', 'asymmetric'],
+];
+
+const FLOW_LINK = /(<|[ox](?=[-=.]))?(-\.+->|-\.+-|-{2,}>|-{2,}[ox](?![\p{L}\p{N}_])|-{3,}|={2,}>|={2,}[ox](?![\p{L}\p{N}_])|={3,}|~{3,})/uy;
+const FLOW_INLINE_OPEN = /(<|[ox](?=[-=.]))?(--|==|-\.)/y;
+const FLOW_INLINE_CLOSE: Record<string, RegExp> = {
+    '--': /-{2,}>|-{3,}|-{2,}[ox](?![\p{L}\p{N}_])/gu,
+    '==': /={2,}>|={3,}|={2,}[ox](?![\p{L}\p{N}_])/gu,
+    '-.': /\.+->|\.+-/g,
+};
+// Quoted text may contain pipes, e.g. |"yes|no"|
+const PIPE_LABEL = /\s*\|((?:"[^"]*"|[^|"])*)\|/y;
+
+function parseFlowShape(s: Scanner): Pick<AstNodeRef, 'label' | 'shape' | 'shapeRange'> | null {
+    const start = s.pos;
+    let best: { shape: FlowchartShape; openLength: number; closeAt: number; closeLength: number; label?: AstText } | null = null;
+
+    for (const [open, close, shape] of FLOW_SHAPES) {
+        if (!s.text.startsWith(open, start)) continue;
+        if (best && best.openLength > open.length) break;
+
+        const labelStart = start + open.length;
+        let closeAt: number;
+        let label: AstText | undefined;
+        if (s.text[labelStart] === '"') {
+            const quoteEnd = s.text.indexOf('"', labelStart + 1);
+            if (quoteEnd === -1 || !s.text.startsWith(close, quoteEnd + 1)) continue;
+            closeAt = quoteEnd + 1;
+            label = textBetween(s, labelStart, closeAt, true);
+        } else {
+            closeAt = s.text.indexOf(close, labelStart);
+            if (closeAt === -1) continue;
+            label = textBetween(s, labelStart, closeAt);
+        }
+
+        if (!best || closeAt < best.closeAt) {
+            best = { shape, openLength: open.length, closeAt, closeLength: close.length, label };
+        }
+    }
+
+    if (!best) return null;
+    s.pos = best.closeAt + best.closeLength;
+    return { label: best.label, shape: best.shape, shapeRange: rangeOf(s, start, s.pos) };
+}
+
+function parseFlowNode(s: Scanner): AstNodeRef | null {
+    const start = s.pos;
+    if (!match(s, FLOW_ID)) return null;
+    const id: AstText = { text: s.text.slice(start, s.pos), range: rangeOf(s, start, s.pos) };
+
+    const shape = parseFlowShape(s);
+    match(s, CLASS_SHORTHAND);
+    return { id, ...shape, range: rangeOf(s, start, s.pos) };
+}
+
+function parseFlowNodeGroup(s: Scanner): AstNodeRef[] | null {
+    const refs: AstNodeRef[] = [];
+    do {
+        const ref = parseFlowNode(s);
+        if (!ref) return null;
+        refs.push(ref);
+    } while (match(s, AMPERSAND));
+    return refs;
+}
+
+function parseFlowLink(s: Scanner): AstLink | null {
+    const start = s.pos;
+    const direct = match(s, FLOW_LINK);
+    if (direct) {
+        const arrowEnd = s.pos;
+        let label: AstText | undefined;
+        const pipe = match(s, PIPE_LABEL);
+        if (pipe) {
+            label = textBetween(s, s.pos - pipe[1].length - 1, s.pos - 1, true);
+        }
+        return { arrow: s.text.slice(start, arrowEnd), label, range: rangeOf(s, start, s.pos) };
+    }
+
+    // Inline label: A -- text --> B, A -. text .-> B, A == text ==> B
+    const open = match(s, FLOW_INLINE_OPEN);
+    if (!open) return null;
+    const closer = FLOW_INLINE_CLOSE[open[2]];
+    closer.lastIndex = s.pos;
+    const close = closer.exec(s.text);
+    if (!close) {
+        s.pos = start;
+        return null;
+    }
+
+    const label = textBetween(s, s.pos, close.index, true);
+    s.pos = close.index + close[0].length;
+    const arrow = `${open[1] || ''}${open[2] === '-.' ? '-' : ''}${close[0]}`;
+    return { arrow, label, range: rangeOf(s, start, s.pos) };
+}
+
+function parseFlowchartPart(s: Scanner): StatementBody {
+    const word = peekWord(s);
+
+    if (word === 'subgraph') {
+        keyword(s, 'subgraph');
+        const start = s.pos;
+        const ref = parseFlowNode(s);
+        skipSpaces(s);
+        // `subgraph id [Title]` allows a space before the title
+        if (ref && !ref.shape) {
+            const shape = parseFlowShape(s);
+            if (shape) ref.label = shape.label;
+            skipSpaces(s);
+        }
+        if (ref && atEnd(s)) {
+            return { kind: 'group-start', keyword: 'subgraph', id: ref.id, label: ref.label };
+        }
+        // Titles with spaces double as the id
+        const title = textBetween(s, start, s.text.length, true);
+        return { kind: 'group-start', keyword: 'subgraph', label: title };
+    }
+
+    if (word === 'end') {
+        keyword(s, 'end');
+        if (atEnd(s)) return { kind: 'group-end', keyword: 'end' };
+    }
+
+    if (word === 'style' || word === 'click') {
+        keyword(s, word);
+        const start = s.pos;
+        if (!match(s, FLOW_ID)) return OTHER;
+        return { kind: 'reference', keyword: word, targets: splitTargets(s, start, s.pos) };
+    }
+
+    if (word === 'class') {
+        keyword(s, 'class');
+        const start = s.pos;
+        const end = s.text.search(/\s+\S+\s*$/);
+        if (end <= start) return OTHER;
+        return { kind: 'reference', keyword: 'class', targets: splitTargets(s, start, end) };
+    }
+
+    if (['direction', 'classDef', 'linkStyle', 'title', 'accTitle', 'accDescr'].includes(word)) {
+        return OTHER;
+    }
+
+    const first = parseFlowNodeGroup(s);
+    if (!first) return OTHER;
+
+    const nodes = [first];
+    const links: AstLink[] = [];
+    for (;;) {
+        skipSpaces(s);
+        const link = parseFlowLink(s);
+        if (!link) break;
+        skipSpaces(s);
+        const group = parseFlowNodeGroup(s);
+        if (!group) return OTHER;
+        nodes.push(group);
+        links.push(link);
+    }
+
+    skipSpaces(s);
+    if (!atEnd(s)) return OTHER;
+    if (links.length === 0) {
+        return first.length === 1 ? { kind: 'node', node: first[0] } : OTHER;
+    }
+    return { kind: 'edge', nodes, links };
+}
+
+// Sequence
+
+const SEQUENCE_ARROW = /(<<-->>|<<->>|-->>|->>|--x|-x|--\)|-\)|-->|->)([+-]?)/;
+const SEQUENCE_BLOCKS = ['loop', 'alt', 'opt', 'par', 'critical', 'break', 'rect', 'box'];
+const NOTE = /(note)\s+(left of|right of|over)\s+([^:]+?)\s*(?::|$)/iy;
+
+function parseSequenceLine(s: Scanner): StatementBody {
+    const word = peekWord(s);
+
+    if (word === 'participant' || word === 'actor' || word === 'create') {
+        keyword(s, 'create');
+        const declared = peekWord(s);
+        if (!keyword(s, 'participant') && !keyword(s, 'actor')) return OTHER;
+
+        const start = s.pos;
+        const alias = s.text.slice(start).search(/\s+as\s+/);
+        const idEnd = alias === -1 ? s.text.length : start + alias;
+        const id = textBetween(s, start, idEnd);
+        if (!id) return OTHER;
+
+        const label = alias === -1
+            ? undefined
+            : textBetween(s, s.text.indexOf('as', idEnd) + 2, s.text.length);
+        return { kind: 'node', keyword: declared, node: { id, label, range: rangeOf(s, start, s.text.length) } };
+    }
+
+    if (word === 'activate' || word === 'deactivate' || word === 'destroy') {
+        keyword(s, word);
+        return { kind: 'reference', keyword: word, targets: splitTargets(s, s.pos, s.text.length) };
+    }
+
+    if (word.toLowerCase() === 'note') {
+        const note = match(s, NOTE);
+        if (!note) return OTHER;
+        const targetsEnd = s.text.lastIndexOf(note[3], s.pos) + note[3].length;
+        const targetsStart = targetsEnd - note[3].length;
+        return {
+            kind: 'reference',
+            keyword: 'note',
+            targets: splitTargets(s, targetsStart, targetsEnd),
+            text: textBetween(s, s.pos, s.text.length),
+        };
+    }
+
+    if (SEQUENCE_BLOCKS.includes(word)) {
+        keyword(s, word);
+        return { kind: 'group-start', keyword: word, label: textBetween(s, s.pos, s.text.length) };
+    }
+
+    if (word === 'end' && s.text.slice(s.pos).trim() === 'end') {
+        return { kind: 'group-end', keyword: 'end' };
+    }
+
+    if (['else', 'and', 'option', 'autonumber', 'title', 'accTitle', 'accDescr', 'links', 'link', 'properties', 'details'].includes(word)) {
+        return OTHER;
+    }
+
+    // Message: From->>To: text
+    const rest = s.text.slice(s.pos);
+    const arrow = SEQUENCE_ARROW.exec(rest);
+    if (!arrow) return OTHER;
+
+    const arrowStart = s.pos + arrow.index;
+    const arrowEnd = arrowStart + arrow[0].length;
+    const colon = s.text.indexOf(':', arrowEnd);
+    const toEnd = colon === -1 ? s.text.length : colon;
+
+    const fromId = textBetween(s, s.pos, arrowStart);
+    const toId = textBetween(s, arrowEnd, toEnd);
+    if (!fromId || !toId) return OTHER;
+
+    const link: AstLink = {
+        arrow: arrow[0],
+        range: rangeOf(s, arrowStart, arrowEnd),
+        label: colon === -1 ? undefined : textBetween(s, colon + 1, s.text.length),
+    };
+    return {
+        kind: 'edge',
+        nodes: [[{ id: fromId, range: fromId.range }], [{ id: toId, range: toId.range }]],
+        links: [link],
+    };
+}
+
+// Class
+
+const CLASS_NAME = /[\p{L}\p{N}_]+(?:-[\p{L}\p{N}_]+)*/uy;
+const CLASS_GENERIC = /~[^~]+~/y;
+const CLASS_LABEL = /\[\s*"([^"]*)"\s*\]/y;
+const CLASS_RELATION = /(<\||\*|o|<|\(\))?(--|\.\.)(\|>|\*|o|>|\(\))?/y;
+const CARDINALITY = /"([^"]*)"/y;
+const BLOCK_OPEN = /\s*\{\s*$/y;
+
+function parseClassName(s: Scanner): AstNodeRef | null {
+    const start = s.pos;
+    if (!match(s, CLASS_NAME)) return null;
+    const id: AstText = { text: s.text.slice(start, s.pos), range: rangeOf(s, start, s.pos) };
+    match(s, CLASS_GENERIC);
+    return { id, range: rangeOf(s, start, s.pos) };
+}
+
+function parseCardinality(s: Scanner): AstText | undefined {
+    const start = s.pos;
+    if (!match(s, CARDINALITY)) return undefined;
+    skipSpaces(s);
+    return textBetween(s, start, start + s.text.slice(start).indexOf('"', 1) + 1, true);
+}
+
+function createClassLineParser() {
+    let bodyOwner: string | null = null;
+    let namespaceDepth = 0;
+
+    return (s: Scanner): StatementBody => {
+        const trimmed = s.text.slice(s.pos).trim();
+
+        if (bodyOwner) {
+            if (trimmed === '}') {
+                bodyOwner = null;
+                return OTHER;
+            }
+            return { kind: 'member', owner: bodyOwner, text: textBetween(s, s.pos, s.text.length) };
+        }
+
+        if (trimmed === '}' && namespaceDepth > 0) {
+            namespaceDepth--;
+            return { kind: 'group-end', keyword: '}' };
+        }
+
+        const word = peekWord(s);
+
+        if (word === 'namespace') {
+            keyword(s, 'namespace');
+            const ref = parseClassName(s);
+            if (!ref || !match(s, BLOCK_OPEN)) return OTHER;
+            namespaceDepth++;
+            return { kind: 'group-start', keyword: 'namespace', id: ref.id };
+        }
+
+        if (word === 'class') {
+            keyword(s, 'class');
+            const ref = parseClassName(s);
+            if (!ref) return OTHER;
+            const label = match(s, CLASS_LABEL);
+            if (label) {
+                const labelStart = s.text.lastIndexOf(`"${label[1]}"`, s.pos);
+                ref.label = textBetween(s, labelStart, labelStart + label[1].length + 2, true);
+            }
+            match(s, CLASS_SHORTHAND);
+            ref.range = rangeOf(s, ref.range.start - s.base, s.pos);
+
+            const opensBlock = Boolean(match(s, BLOCK_OPEN));
+            skipSpaces(s);
+            if (!atEnd(s)) return OTHER;
+            if (opensBlock) bodyOwner = ref.id.text;
+            return { kind: 'node', keyword: 'class', node: ref, opensBlock };
+        }
+
+        if (trimmed.startsWith('<<')) {
+            const close = s.text.indexOf('>>', s.pos);
+            if (close === -1) return OTHER;
+            return { kind: 'reference', keyword: 'annotation', targets: splitTargets(s, close + 2, s.text.length) };
+        }
+
+        if (word === 'note') {
+            keyword(s, 'note');
+            if (!keyword(s, 'for')) return OTHER;
+            const target = parseClassName(s);
+            if (!target) return OTHER;
+            return { kind: 'reference', keyword: 'note', targets: [target], text: textBetween(s, s.pos, s.text.length, true) };
+        }
+
+        if (['style', 'click', 'link', 'callback'].includes(word)) {
+            keyword(s, word);
+            const target = parseClassName(s);
+            return target ? { kind: 'reference', keyword: word, targets: [target] } : OTHER;
+        }
+
+        if (['direction', 'classDef', 'cssClass', 'title', 'accTitle', 'accDescr'].includes(word)) {
+            return OTHER;
+        }
+
+        const from = parseClassName(s);
+        if (!from) return OTHER;
+        skipSpaces(s);
+
+        // Member shorthand: Animal : +int age
+        if (s.text[s.pos] === ':') {
+            return { kind: 'member', owner: from.id.text, ownerRef: from, text: textBetween(s, s.pos + 1, s.text.length) };
+        }
+
+        const fromCardinality = parseCardinality(s);
+        const relationStart = s.pos;
+        if (!match(s, CLASS_RELATION)) return OTHER;
+        const relationEnd = s.pos;
+        skipSpaces(s);
+        const toCardinality = parseCardinality(s);
+        const to = parseClassName(s);
+        if (!to) return OTHER;
+        skipSpaces(s);
+
+        let label: AstText | undefined;
+        if (s.text[s.pos] === ':') {
+            label = textBetween(s, s.pos + 1, s.text.length);
+        } else if (!atEnd(s)) {
+            return OTHER;
+        }
+
+        return {
+            kind: 'edge',
+            nodes: [[from], [to]],
+            links: [{
+                arrow: s.text.slice(relationStart, relationEnd),
+                range: rangeOf(s, relationStart, relationEnd),
+                label,
+                fromCardinality,
+                toCardinality,
+            }],
+        };
+    };
+}
+
+// State
+
+const STATE_ID = /\[\*\]|[\p{L}\p{N}_]+(?:[.-][\p{L}\p{N}_]+)*/uy;
+const STATE_TRANSITION = /\s*-->\s*/y;
+const STATE_STEREOTYPE = /\s*<<\w+>>/y;
+const QUOTED = /"([^"]*)"/y;
+const STATE_NOTE = /note\s+(?:left|right)\s+of\s+/y;
+
+function parseStateId(s: Scanner): AstNodeRef | null {
+    const start = s.pos;
+    if (!match(s, STATE_ID)) return null;
+    const id: AstText = { text: s.text.slice(start, s.pos), range: rangeOf(s, start, s.pos) };
+    match(s, CLASS_SHORTHAND);
+    return { id, range: rangeOf(s, start, s.pos) };
+}
+
+function createStateLineParser() {
+    let inNote = false;
+
+    return (s: Scanner): StatementBody => {
+        const trimmed = s.text.slice(s.pos).trim();
+
+        if (inNote) {
+            if (/^end\s+note$/i.test(trimmed)) inNote = false;
+            return OTHER;
+        }
+
+        if (trimmed === '}') return { kind: 'group-end', keyword: '}' };
+        if (trimmed === '--') return OTHER;
+
+        const word = peekWord(s);
+
+        if (word === 'state') {
+            keyword(s, 'state');
+            let label: AstText | undefined;
+            let ref: AstNodeRef | null;
+            const start = s.pos;
+
+            if (s.text[s.pos] === '"') {
+                // state "Long name" as Id
+                const quoted = match(s, QUOTED);
+                if (!quoted) return OTHER;
+                label = textBetween(s, start, s.pos, true);
+                skipSpaces(s);
+                if (!keyword(s, 'as')) return OTHER;
+                ref = parseStateId(s);
+            } else {
+                ref = parseStateId(s);
+                skipSpaces(s);
+                // state Id as "Long name"
+                if (ref && keyword(s, 'as')) {
+                    const labelStart = s.pos;
+                    if (!match(s, QUOTED)) return OTHER;
+                    label = textBetween(s, labelStart, s.pos, true);
+                }
+            }
+            if (!ref) return OTHER;
+            match(s, STATE_STEREOTYPE);
+
+            if (match(s, BLOCK_OPEN)) {
+                return { kind: 'group-start', keyword: 'state', id: ref.id, label };
+            }
+            skipSpaces(s);
+            if (!atEnd(s)) return OTHER;
+            return { kind: 'node', keyword: 'state', node: { ...ref, label, range: rangeOf(s, start, s.pos) } };
+        }
+
+        if (word === 'note') {
+            if (!match(s, STATE_NOTE)) return OTHER;
+            const target = parseStateId(s);
+            if (!target) return OTHER;
+            skipSpaces(s);
+            if (s.text[s.pos] !== ':') {
+                inNote = true;
+                return { kind: 'reference', keyword: 'note', targets: [target] };
+            }
+            return { kind: 'reference', keyword: 'note', targets: [target], text: textBetween(s, s.pos + 1, s.text.length) };
+        }
+
+        if (word === 'class') {
+            keyword(s, 'class');
+            const end = s.text.search(/\s+\S+\s*$/);
+            if (end <= s.pos) return OTHER;
+            return { kind: 'reference', keyword: 'class', targets: splitTargets(s, s.pos, end) };
+        }
+
+        if (['direction', 'classDef', 'style', 'title', 'accTitle', 'accDescr', 'hide'].includes(word)) {
+            return OTHER;
+        }
+
+        const from = parseStateId(s);
+        if (!from) return OTHER;
+
+        const arrowStart = s.pos;
+        if (match(s, STATE_TRANSITION)) {
+            const arrowRange = rangeOf(s, arrowStart, s.pos);
+            const to = parseStateId(s);
+            if (!to) return OTHER;
+            skipSpaces(s);
+
+            let label: AstText | undefined;
+            if (s.text[s.pos] === ':') {
+                label = textBetween(s, s.pos + 1, s.text.length);
+            } else if (!atEnd(s)) {
+                return OTHER;
+            }
+
+            return {
+                kind: 'edge',
+                nodes: [[from], [to]],
+                links: [{ arrow: '-->', range: arrowRange, label }],
+            };
+        }
+
+        skipSpaces(s);
+        // Description shorthand: Id : text
+        if (s.text[s.pos] === ':') {
+            const label = textBetween(s, s.pos + 1, s.text.length);
+            return { kind: 'node', node: { ...from, label, range: rangeOf(s, from.range.start - s.base, s.text.length) } };
+        }
+        return atEnd(s) ? { kind: 'node', node: from } : OTHER;
+    };
+}
+
+// Entity relationship
+
+const ENTITY = /"[^"]*"|[\p{L}\p{N}_][\p{L}\p{N}_-]*/uy;
+const ENTITY_ALIAS = /\[\s*(?:"([^"]*)"|([^\]]*))\s*\]/y;
+const ER_RELATION = /([|}][o|])(--|\.\.)([o|][|{])/y;
+
+function parseEntity(s: Scanner): AstNodeRef | null {
+    const start = s.pos;
+    if (!match(s, ENTITY)) return null;
+    const id = textBetween(s, start, s.pos, true);
+    return id ? { id, range: rangeOf(s, start, s.pos) } : null;
+}
+
+function createErLineParser() {
+    let bodyOwner: string | null = null;
+
+    return (s: Scanner): StatementBody => {
+        const trimmed = s.text.slice(s.pos).trim();
+
+        if (bodyOwner) {
+            if (trimmed === '}') {
+                bodyOwner = null;
+                return OTHER;
+            }
+            return { kind: 'member', owner: bodyOwner, text: textBetween(s, s.pos, s.text.length) };
+        }
+
+        if (['title', 'accTitle', 'accDescr', 'direction', 'classDef', 'style', 'class'].includes(peekWord(s))) {
+            return OTHER;
+        }
+
+        const from = parseEntity(s);
+        if (!from) return OTHER;
+
+        // Entity declaration: NAME, NAME["Label"], NAME {
+        const aliasStart = s.pos;
+        const alias = match(s, ENTITY_ALIAS);
+        if (alias) {
+            from.label = textBetween(s, aliasStart + 1, s.pos - 1, true);
+            from.range = rangeOf(s, from.range.start - s.base, s.pos);
+        }
+        if (match(s, BLOCK_OPEN)) {
+            bodyOwner = from.id.text;
+            return { kind: 'node', node: from, opensBlock: true };
+        }
+        skipSpaces(s);
+        if (atEnd(s)) return { kind: 'node', node: from };
+        if (alias) return OTHER;
+
+        const relationStart = s.pos;
+        if (!match(s, ER_RELATION)) return OTHER;
+        const relationEnd = s.pos;
+        skipSpaces(s);
+        const to = parseEntity(s);
+        if (!to) return OTHER;
+        skipSpaces(s);
+
+        let label: AstText | undefined;
+        if (s.text[s.pos] === ':') {
+            label = textBetween(s, s.pos + 1, s.text.length, true);
+        } else if (!atEnd(s)) {
+            return OTHER;
+        }
+
+        return {
+            kind: 'edge',
+            nodes: [[from], [to]],
+            links: [{ arrow: s.text.slice(relationStart, relationEnd), range: rangeOf(s, relationStart, relationEnd), label }],
+        };
+    };
+}
+
+// Driver
+
+function splitSourceLines(source: string): SourceLine[] {
+    const lines: SourceLine[] = [];
+    let start = 0;
+    source.split('\n').forEach((text, index) => {
+        lines.push({ text: text.endsWith('\r') ? text.slice(0, -1) : text, start, number: index + 1 });
+        start += text.length + 1;
+    });
+    return lines;
+}
+
+function createLineParser(type: AstDiagramType): (s: Scanner) => StatementBody {
+    switch (type) {
+        case 'flowchart': return parseFlowchartPart;
+        case 'sequence': return parseSequenceLine;
+        case 'class': return createClassLineParser();
+        case 'state': return createStateLineParser();
+        case 'er': return createErLineParser();
+    }
+}
+
+/**
+ * Attach position and original text to a parsed statement body
+ */
+function toStatement(body: StatementBody, line: SourceLine, start: number, end: number, rawEnd: number, isFirst: boolean): AstStatement {
+    let trimmedEnd = end;
+    while (trimmedEnd > start && /\s/.test(line.text[trimmedEnd - 1])) trimmedEnd--;
+    return {
+        ...body,
+        line: line.number,
+        // Only the first statement on a line carries the indentation
+        indent: isFirst ? line.text.slice(0, start) : '',
+        range: { start: line.start + start, end: line.start + trimmedEnd },
+        raw: line.text.slice(start, rawEnd),
+    } as AstStatement;
+}
+
+function buildAst(type: AstDiagramType, source: string, header: HeaderStatement, statements: AstStatement[]): DiagramAst {
+    const nodes = new Map<string, DiagramNode>();
+    const edges: DiagramEdge[] = [];
+    const groups: DiagramGroup[] = [];
+    const stack: DiagramGroup[] = [];
+
+    const addRef = (ref: AstNodeRef) => {
+        // Start and end pseudo-states are not nodes
+        if (ref.id.text === '[*]') return;
+
+        let node = nodes.get(ref.id.text);
+        if (!node) {
+            const parent = stack[stack.length - 1];
+            node = { id: ref.id.text, refs: [], parent: parent?.id };
+            nodes.set(node.id, node);
+            parent?.children.push(node.id);
+        }
+        node.refs.push(ref);
+        if (ref.label && node.label === undefined) node.label = ref.label.text;
+        if (ref.shape && node.shape === undefined) node.shape = ref.shape;
+    };
+
+    for (const statement of statements) {
+        switch (statement.kind) {
+            case 'node':
+                addRef(statement.node);
+                break;
+            case 'edge':
+                statement.nodes.forEach(group => group.forEach(addRef));
+                statement.links.forEach((link, index) => {
+                    for (const from of statement.nodes[index]) {
+                        for (const to of statement.nodes[index + 1]) {
+                            edges.push({ from: from.id.text, to: to.id.text, label: link.label?.text, arrow: link.arrow, link, statement });
+                        }
+                    }
+                });
+                break;
+            case 'member':
+                if (statement.ownerRef) addRef(statement.ownerRef);
+                break;
+            case 'reference':
+                statement.targets.forEach(addRef);
+                break;
+            case 'group-start': {
+                // Composite states can be transition targets, so they are nodes too
+                if (type === 'state' && statement.id) {
+                    addRef({ id: statement.id, label: statement.label, range: statement.range });
+                }
+                const parent = stack[stack.length - 1];
+                const group: DiagramGroup = {
+                    id: statement.id?.text ?? statement.label?.text ?? `${statement.keyword}-${groups.length + 1}`,
+                    label: statement.label?.text,
+                    keyword: statement.keyword,
+                    parent: parent?.id,
+                    children: [],
+                    range: { ...statement.range },
+                };
+                groups.push(group);
+                stack.push(group);
+                break;
+            }
+            case 'group-end': {
+                const group = stack.pop();
+                if (group) group.range.end = statement.range.end;
+                break;
+            }
+        }
+    }
+
+    return {
+        type,
+        source,
+        header,
+        statements,
+        nodes: Array.from(nodes.values()),
+        edges,
+        groups,
+    };
+}
+
+/**
+ * Parse flowchart, sequence, class, state and ER diagrams.
+ * Returns null for other diagram types or when no header is found.
+ */
+export function parseDiagram(source: string): DiagramAst | null {
+    const statements: AstStatement[] = [];
+    let header: HeaderStatement | null = null;
+    let type: AstDiagramType | null = null;
+    let parseLine: ((s: Scanner) => StatementBody) | null = null;
+    let inFrontmatter = false;
+
+    for (const line of splitSourceLines(source)) {
+        const trimmed = line.text.trim();
+        const contentStart = line.text.length - line.text.trimStart().length;
+        const keep = (body: StatementBody) =>
+            statements.push(toStatement(body, line, contentStart, line.text.length, line.text.length, true));
+
+        if (!header) {
+            if (line.number === 1 && trimmed === '---') {
+                inFrontmatter = true;
+                keep(OTHER);
+                continue;
+            }
+            if (inFrontmatter) {
+                if (trimmed === '---') inFrontmatter = false;
+                keep(OTHER);
+                continue;
+            }
+            if (!trimmed || trimmed.startsWith('%%')) {
+                keep(OTHER);
+                continue;
+            }
+
+            // One-line diagrams such as `graph LR; A-->B` continue after the header
+            const [headerPart, ...rest] = splitParts(line.text, contentStart);
+            const [keywordText, direction] = line.text.slice(headerPart.start, headerPart.end).trim().split(/\s+/);
+            const headerType = HEADER_TYPES.get(keywordText);
+            if (!headerType || !AST_DIAGRAM_TYPES.includes(headerType as AstDiagramType)) return null;
+
+            type = headerType as AstDiagramType;
+            parseLine = createLineParser(type);
+            header = toStatement({
+                kind: 'header',
+                keyword: keywordText,
+                direction: type === 'flowchart' && FLOWCHART_DIRECTIONS.includes(direction) ? direction : undefined,
+            }, line, headerPart.start, headerPart.end, headerPart.rawEnd, true) as HeaderStatement;
+            statements.push(header);
+            rest.forEach((part) => {
+                const body = parseLine(createScanner(line, part.start, part.end));
+                statements.push(toStatement(body, line, part.start, part.end, part.rawEnd, false));
+            });
+            continue;
+        }
+
+        if (!trimmed || trimmed.startsWith('%%')) {
+            keep(OTHER);
+            continue;
+        }
+
+        if (type === 'flowchart') {
+            splitParts(line.text, contentStart).forEach((part, index) => {
+                const body = parseFlowchartPart(createScanner(line, part.start, part.end));
+                statements.push(toStatement(body, line, part.start, part.end, part.rawEnd, index === 0));
+            });
+            continue;
+        }
+
+        keep(parseLine(createScanner(line, contentStart)));
+    }
+
+    return header ? buildAst(type, source, header, statements) : null;
+}
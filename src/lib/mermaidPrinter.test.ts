@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseDiagram } from '@/lib/mermaidParser';
+import { applySourceEdits, printDiagram, printFlowchartNode, quoteLabel } from '@/lib/mermaidPrinter';
+import { EdgeStatement, NodeStatement } from '@/lib/mermaidAst';
+import { diagramTemplates } from '@/lib/diagramTemplates';
+
+describe('mermaidPrinter', () => {
+    describe('printDiagram', () => {
+        it('should round-trip every supported template unchanged', () => {
+            for (const template of diagramTemplates) {
+                const ast = parseDiagram(template.template);
+                if (ast) expect(printDiagram(ast)).toBe(template.template);
+            }
+        });
+
+        it('should preserve comments, spacing, semicolons and line endings', () => {
+            const code = 'graph TD\r\n  %% note\r\n    A[Start]-->B ;  B --> C;\r\n\r\n  C -- text --> A\r\n';
+
+            expect(printDiagram(parseDiagram(code))).toBe(code);
+        });
+
+        it('should reprint only changed statements', () => {
+            const ast = parseDiagram('flowchart LR\n      A[Start]   -->   B\n    B --> C');
+            const edge = ast.statements[1] as EdgeStatement;
+            edge.links[0].label = { text: 'go', range: edge.links[0].range };
+            edge.raw = undefined;
+
+            expect(printDiagram(ast)).toBe('flowchart LR\n      A[Start] -->|go| B\n    B --> C');
+        });
+
+        it('should keep changed statements on their line and add new ones on their own', () => {
+            const ast = parseDiagram('graph TD\n    A; B');
+            const node = ast.statements[2] as NodeStatement;
+            node.node.label = { text: 'Bee', range: node.node.range };
+            node.raw = undefined;
+            ast.statements.push({
+                kind: 'edge',
+                indent: '    ',
+                nodes: [[{ id: { text: 'A', range: { start: 0, end: 0 } }, range: { start: 0, end: 0 } }], [{ id: { text: 'B', range: { start: 0, end: 0 } }, range: { start: 0, end: 0 } }]],
+                links: [{ arrow: '-->', range: { start: 0, end: 0 } }],
+            });
+
+            expect(printDiagram(ast)).toBe('graph TD\n    A; B[Bee]\n    A --> B');
+        });
+
+        it('should reprint references with renamed targets from their source', () => {
+            const ast = parseDiagram('sequenceDiagram\n    A->>B: hi\n    Note over A,B: both');
+            const note = ast.statements[2];
+            if (note.kind !== 'reference') throw new Error('expected a reference');
+            note.targets[0].id.text = 'Alice';
+            note.raw = undefined;
+
+            expect(printDiagram(ast)).toBe('sequenceDiagram\n    A->>B: hi\n    Note over Alice,B: both');
+        });
+    });
+
+    describe('printFlowchartNode', () => {
+        it('should print shapes and quote labels with syntax characters', () => {
+            const id = { text: 'A', range: { start: 0, end: 1 } };
+            const label = (text: string) => ({ text, range: { start: 0, end: 0 } });
+
+            expect(printFlowchartNode({ id })).toBe('A');
+            expect(printFlowchartNode({ id, label: label('Start') })).toBe('A[Start]');
+            expect(printFlowchartNode({ id, label: label('Ok?'), shape: 'rhombus' })).toBe('A{Ok?}');
+            expect(printFlowchartNode({ id, label: label('Db'), shape: 'cylinder' })).toBe('A[(Db)]');
+            expect(quoteLabel('Say "hi" (now)')).toBe('"Say #quot;hi#quot; (now)"');
+        });
+    });
+
+    describe('applySourceEdits', () => {
+        it('should apply edits in order regardless of input order', () => {
+            const source = 'A --> B\nB --> C';
+            const edits = [
+                { range: { start: 14, end: 15 }, text: 'Z' },
+                { range: { start: 6, end: 7 }, text: 'Bee' },
+                { range: { start: 8, end: 9 }, text: 'Bee' },
+            ];
+
+            expect(applySourceEdits(source, edits)).toBe('A --> Bee\nBee --> Z');
+        });
+
+        it('should reject overlapping edits', () => {
+            expect(() => applySourceEdits('abcdef', [
+                { range: { start: 0, end: 3 }, text: 'x' },
+                { range: { start: 2, end: 4 }, text: 'y' },
+            ])).toThrow('Source edits overlap');
+        });
+    });
+});
@@ -0,0 +1,206 @@
+import {
+    AstDiagramType,
+    AstNodeRef,
+    AstStatement,
+    DiagramAst,
+    FlowchartShape,
+    SourceRange,
+} from '@/lib/mermaidAst';
+
+/**
+ * Turns a DiagramAst back into Mermaid code.
+ * Statements that still carry their original text are printed verbatim, so unchanged
+ * lines keep their formatting and comments; only new or changed statements are reformatted.
+ */
+
+export interface SourceEdit {
+    range: SourceRange;
+    text: string;
+}
+
+export const FLOWCHART_SHAPE_BRACKETS: Record<FlowchartShape, [open: string, close: string]> = {
+    rect: ['[', ']'],
+    round: ['(', ')'],
+    stadium: ['([', '])'],
+    subroutine: ['[[', ']]'],
+    cylinder: ['[(', ')]'],
+    circle: ['((', '))'],
+    'double-circle': ['(((', ')))'],
+    asymmetric: ['>', ']'],
+    rhombus: ['{', '}'],
+    hexagon: ['{{', '}}'],
+    parallelogram: ['[/', '/]'],
+    'parallelogram-alt': ['[\\', '\\]'],
+    trapezoid: ['[/', '\\]'],
+    'trapezoid-alt': ['[\\', '/]'],
+};
+
+/**
+ * Quote a label when it contains characters Mermaid would read as syntax
+ */
+export function quoteLabel(label: string): string {
+    if (!/[()[\]{}<>|";#&:]/.test(label)) return label;
+    return `"${label.replace(/"/g, '#quot;')}"`;
+}
+
+/**
+ * Flowchart node with its shape, e.g. `A`, `A[Start]` or `B{"Is it (ok)?"}`
+ */
+export function printFlowchartNode(node: Pick<AstNodeRef, 'label' | 'shape'> & { id: { text: string } }): string {
+    if (node.label === undefined && node.shape === undefined) return node.id.text;
+    const [open, close] = FLOWCHART_SHAPE_BRACKETS[node.shape ?? 'rect'];
+    return `${node.id.text}${open}${quoteLabel(node.label?.text ?? '')}${close}`;
+}
+
+/**
+ * Replace node ids and texts inside a statement's original source, so reference
+ * statements survive renames without a canonical form of their own
+ */
+function printFromSource(source: string, statement: AstStatement & { range: SourceRange }, refs: AstNodeRef[], texts: Array<{ text: string; range: SourceRange } | undefined>): string {
+    const { start, end } = statement.range;
+    const edits: SourceEdit[] = [
+        ...refs.map(ref => ref.id),
+        ...texts.filter(Boolean),
+    ]
+        .filter(text => text.range.start >= start && text.range.end <= end)
+        .map(text => ({
+            range: { start: text.range.start - start, end: text.range.end - start },
+            text: text.text,
+        }));
+    return applySourceEdits(source.slice(start, end), edits);
+}
+
+/**
+ * Canonical text for a statement, without indentation
+ */
+export function printStatement(type: AstDiagramType, statement: AstStatement, source: string = ''): string {
+    switch (statement.kind) {
+        case 'header':
+            return statement.direction ? `${statement.keyword} ${statement.direction}` : statement.keyword;
+
+        case 'node': {
+            const { id, label } = statement.node;
+            switch (type) {
+                case 'flowchart':
+                    return printFlowchartNode(statement.node);
+                case 'sequence':
+                    return `${statement.keyword ?? 'participant'} ${id.text}${label ? ` as ${label.text}` : ''}`;
+                case 'class':
+                    return `class ${id.text}${label ? `["${label.text}"]` : ''}${statement.opensBlock ? ' {' : ''}`;
+                case 'state':
+                    if (statement.keyword === 'state') {
+                        return label ? `state "${label.text}" as ${id.text}` : `state ${id.text}`;
+                    }
+                    return label ? `${id.text} : ${label.text}` : id.text;
+                case 'er':
+                    return `${id.text}${label ? `["${label.text}"]` : ''}${statement.opensBlock ? ' {' : ''}`;
+            }
+            break;
+        }
+
+        case 'edge': {
+            const [from] = statement.nodes[0];
+            const [to] = statement.nodes[statement.nodes.length - 1];
+            const [link] = statement.links;
+            const label = link.label?.text;
+
+            switch (type) {
+                case 'flowchart':
+                    return statement.nodes
+                        .map(group => group.map(printFlowchartNode).join(' & '))
+                        .reduce((code, group, index) => {
+                            const { arrow, label: linkLabel } = statement.links[index - 1];
+                            return `${code} ${arrow}${linkLabel ? `|${quoteLabel(linkLabel.text)}|` : ''} ${group}`;
+                        });
+                case 'sequence':
+                    return `${from.id.text}${link.arrow}${to.id.text}${label ? `: ${label}` : ''}`;
+                case 'class': {
+                    const fromCardinality = link.fromCardinality ? ` "${link.fromCardinality.text}"` : '';
+                    const toCardinality = link.toCardinality ? `"${link.toCardinality.text}" ` : '';
+                    return `${from.id.text}${fromCardinality} ${link.arrow} ${toCardinality}${to.id.text}${label ? ` : ${label}` : ''}`;
+                }
+                case 'state':
+                    return `${from.id.text} --> ${to.id.text}${label ? ` : ${label}` : ''}`;
+                case 'er':
+                    // ER relationships require a label
+                    return `${from.id.text} ${link.arrow} ${to.id.text} : ${label && !/\s/.test(label) ? label : `"${label ?? ''}"`}`;
+            }
+            break;
+        }
+
+        case 'group-start': {
+            const { keyword, id, label } = statement;
+            if (keyword === 'subgraph') {
+                if (!id) return `subgraph ${label?.text ?? ''}`.trimEnd();
+                return `subgraph ${id.text}${label ? `[${quoteLabel(label.text)}]` : ''}`;
+            }
+            if (keyword === 'namespace') return `namespace ${id?.text ?? ''} {`;
+            if (keyword === 'state') return `state ${label ? `"${label.text}" as ` : ''}${id?.text ?? ''} {`;
+            return label ? `${keyword} ${label.text}` : keyword;
+        }
+
+        case 'group-end':
+            return statement.keyword;
+
+        case 'member':
+            return statement.ownerRef
+                ? `${statement.ownerRef.id.text} : ${statement.text.text}`
+                : statement.text.text;
+
+        case 'reference':
+            if (statement.range && source) {
+                return printFromSource(source, { ...statement, range: statement.range }, statement.targets, [statement.text]);
+            }
+            return `${statement.keyword} ${statement.targets.map(target => target.id.text).join(', ')}${statement.text ? `: ${statement.text.text}` : ''}`;
+
+        case 'other':
+            return statement.raw ?? (statement.range ? source.slice(statement.range.start, statement.range.end) : '');
+    }
+    return statement.raw ?? '';
+}
+
+/**
+ * Print the whole diagram. Statements sharing a source line stay on that line;
+ * statements without a line (added by callers) each get their own.
+ */
+export function printDiagram(ast: DiagramAst): string {
+    const lineGroups: AstStatement[][] = [];
+    for (const statement of ast.statements) {
+        const previous = lineGroups[lineGroups.length - 1];
+        if (previous && statement.line !== undefined && previous[0].line === statement.line) {
+            previous.push(statement);
+        } else {
+            lineGroups.push([statement]);
+        }
+    }
+
+    const lines = lineGroups.map(group => group
+        .map((statement, index) => {
+            if (statement.raw !== undefined) return statement.raw;
+            const text = printStatement(ast.type, statement, ast.source);
+            return index < group.length - 1 ? `${text}; ` : text;
+        })
+        .reduce((line, part) => line + part, group[0].indent)
+    );
+
+    return lines.join(ast.source.includes('\r\n') ? '\r\n' : '\n');
+}
+
+/**
+ * Apply non-overlapping text replacements to the source in one pass
+ */
+export function applySourceEdits(source: string, edits: SourceEdit[]): string {
+    const sorted = [...edits].sort((a, b) => a.range.start - b.range.start || a.range.end - b.range.end);
+    let result = '';
+    let cursor = 0;
+
+    for (const edit of sorted) {
+        if (edit.range.start < cursor) {
+            throw new Error('Source edits overlap');
+        }
+        result += source.slice(cursor, edit.range.start) + edit.text;
+        cursor = edit.range.end;
+    }
+
+    return result + source.slice(cursor);
+}
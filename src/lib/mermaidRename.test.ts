@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { renameInCode } from '@/lib/mermaidRename';
+
+describe('mermaidRename', () => {
+    describe('renameInCode', () => {
+        it('should rename a flowchart id in its definition and every reference only', () => {
+            const code = 'flowchart TD\n    A --> AB\n    AB -->|A| A\n    style A fill:#f9f';
+
+            expect(renameInCode(code, { text: 'A', nodeId: 'A' }, 'Start')).toBe(
+                'flowchart TD\n    Start --> AB\n    AB -->|A| Start\n    style Start fill:#f9f'
+            );
+        });
+
+        it('should relabel a node without touching its id or edges', () => {
+            const code = 'graph LR\n    A[Start] --> B\n    B --> A';
+
+            expect(renameInCode(code, { text: 'Start', nodeId: 'A' }, 'Begin (here)')).toBe(
+                'graph LR\n    A["Begin (here)"] --> B\n    B --> A'
+            );
+        });
+
+        it('should find a node by its label when no id was tagged', () => {
+            const code = 'graph LR\n    A["Is it ok?"] --> B';
+
+            expect(renameInCode(code, { text: 'Is it ok?' }, 'Say "yes"')).toBe(
+                'graph LR\n    A["Say #quot;yes#quot;"] --> B'
+            );
+        });
+
+        it('should turn a display name that is not a valid id into a label', () => {
+            expect(renameInCode('graph TD\n    A --> B', { text: 'B' }, 'Two words')).toBe(
+                'graph TD\n    A --> B[Two words]'
+            );
+        });
+
+        it('should rename sequence participants across declarations, messages and notes', () => {
+            const code = 'sequenceDiagram\n    participant Alice\n    Alice->>Bob: Hi Alice\n    Note over Alice,Bob: chat';
+
+            expect(renameInCode(code, { text: 'Alice', nodeId: 'Alice' }, 'Carol')).toBe(
+                'sequenceDiagram\n    participant Carol\n    Carol->>Bob: Hi Alice\n    Note over Carol,Bob: chat'
+            );
+        });
+
+        it('should rename message, edge and member text', () => {
+            expect(renameInCode('sequenceDiagram\n    A->>B: Hello', { text: 'Hello' }, 'Bye')).toBe(
+                'sequenceDiagram\n    A->>B: Bye'
+            );
+            expect(renameInCode('erDiagram\n    A ||--o{ B : has', { text: 'has' }, 'belongs to')).toBe(
+                'erDiagram\n    A ||--o{ B : "belongs to"'
+            );
+            expect(renameInCode('classDiagram\n    class A {\n        +run()\n    }', { text: '+run()' }, '+walk()')).toBe(
+                'classDiagram\n    class A {\n        +walk()\n    }'
+            );
+        });
+
+        it('should rename only the clicked one of several equal labels', () => {
+            const code = 'flowchart TD\n    A -->|yes| B\n    A -->|yes| C';
+
+            expect(renameInCode(code, { text: 'yes', edgeIndex: 1 }, 'maybe')).toBe(
+                'flowchart TD\n    A -->|yes| B\n    A -->|maybe| C'
+            );
+            expect(() => renameInCode(code, { text: 'yes' }, 'maybe')).toThrow('appears more than once');
+        });
+
+        it('should reject names that clash or cannot be ids', () => {
+            expect(() => renameInCode('graph TD\n    A --> B', { text: 'A' }, 'B')).toThrow('already exists');
+            expect(() => renameInCode('classDiagram\n    A <|-- B', { text: 'A' }, 'Two words')).toThrow('not a valid name');
+        });
+
+        it('should return null when the text cannot be found or nothing changes', () => {
+            expect(renameInCode('graph TD\n    A --> B', { text: 'Missing' }, 'X')).toBeNull();
+            expect(renameInCode('graph TD\n    A --> B', { text: 'A' }, 'A')).toBeNull();
+        });
+
+        it('should only replace unique text in diagrams without a parser', () => {
+            expect(renameInCode('pie\n    "Dogs" : 3\n    "Cats" : 2', { text: 'Dogs' }, 'Wolves')).toBe(
+                'pie\n    "Wolves" : 3\n    "Cats" : 2'
+            );
+            expect(() => renameInCode('pie title Dogs\n    "Dogs" : 3', { text: 'Dogs' }, 'Wolves')).toThrow('more than once');
+        });
+    });
+});
@@ -0,0 +1,150 @@
+import { AstText, DiagramAst, DiagramNode, findNode } from '@/lib/mermaidAst';
+import { parseDiagram } from '@/lib/mermaidParser';
+import { SourceEdit, applySourceEdits, quoteLabel } from '@/lib/mermaidPrinter';
+
+/**
+ * Rename from the preview: map the clicked text to its source ranges and rewrite
+ * the definition and every reference in one edit.
+ */
+
+/**
+ * What was clicked in the preview
+ */
+export interface RenameTarget {
+    /** Visible text of the clicked element */
+    text: string;
+    /** Node id Mermaid tagged the clicked element with, if any */
+    nodeId?: string;
+    /** Index in `ast.edges` of the clicked edge label or message, if any */
+    edgeIndex?: number;
+}
+
+const PLAIN_ID = /^[\p{L}\p{N}_]+(?:[-.][\p{L}\p{N}_]+)*$/u;
+
+// SVG text wraps and collapses whitespace differently from the source
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const isQuoted = (ast: DiagramAst, text: AstText) =>
+    ast.source[text.range.start - 1] === '"' && ast.source[text.range.end] === '"';
+
+/**
+ * New label text in the quoting style its position needs
+ */
+function formatLabel(ast: DiagramAst, label: AstText, next: string): string {
+    if (isQuoted(ast, label)) return next.replace(/"/g, '#quot;');
+    if (ast.type === 'flowchart') return quoteLabel(next);
+    if (ast.type === 'er' && /\s/.test(next)) return `"${next.replace(/"/g, '')}"`;
+    return next;
+}
+
+function findClickedNode(ast: DiagramAst, target: RenameTarget): DiagramNode | undefined {
+    const text = normalize(target.text);
+    return (target.nodeId ? findNode(ast, target.nodeId) : undefined)
+        ?? ast.nodes.find(node => node.label !== undefined && normalize(node.label) === text)
+        ?? ast.nodes.find(node => node.id === text);
+}
+
+function relabelNode(ast: DiagramAst, node: DiagramNode, next: string): SourceEdit[] {
+    return node.refs
+        .filter(ref => ref.label && ref.label.text === node.label)
+        .map(ref => ({ range: ref.label.range, text: formatLabel(ast, ref.label, next) }));
+}
+
+/**
+ * Rename a node id everywhere. Display names that are not valid ids become labels instead.
+ */
+function renameNodeId(ast: DiagramAst, node: DiagramNode, next: string): SourceEdit[] {
+    if (!PLAIN_ID.test(next)) {
+        if (ast.type === 'flowchart') {
+            const ref = node.refs.find(candidate => !candidate.shapeRange);
+            return ref ? [{ range: { start: ref.id.range.end, end: ref.id.range.end }, text: `[${quoteLabel(next)}]` }] : [];
+        }
+        if (ast.type === 'sequence') {
+            const declaration = ast.statements.find(
+                statement => statement.kind === 'node' && statement.node.id.text === node.id
+            );
+            if (declaration?.kind === 'node') {
+                const end = declaration.node.id.range.end;
+                return [{ range: { start: end, end }, text: ` as ${next}` }];
+            }
+        }
+        if (ast.type !== 'er') {
+            throw new Error(`"${next}" is not a valid name here. Use letters, digits, "_" or "-".`);
+        }
+    }
+
+    if (findNode(ast, next)) {
+        throw new Error(`"${next}" already exists in this diagram.`);
+    }
+
+    return node.refs.map(ref => ({
+        range: ref.id.range,
+        text: ast.type === 'er' && !PLAIN_ID.test(next) && !isQuoted(ast, ref.id) ? `"${next}"` : next,
+    }));
+}
+
+/**
+ * The clicked edge label, message, note, member or group title. Text without a known
+ * position is only renamed when it occurs once.
+ */
+function renameFreeText(ast: DiagramAst, target: RenameTarget, text: string, next: string): SourceEdit[] {
+    const edgeLabel = target.edgeIndex !== undefined ? ast.edges[target.edgeIndex]?.link.label : undefined;
+    if (edgeLabel && normalize(edgeLabel.text) === text) {
+        return [{ range: edgeLabel.range, text: formatLabel(ast, edgeLabel, next) }];
+    }
+
+    const texts: AstText[] = [];
+    for (const statement of ast.statements) {
+        if (statement.kind === 'edge') texts.push(...statement.links.map(link => link.label).filter(Boolean));
+        if (statement.kind === 'reference' && statement.text) texts.push(statement.text);
+        if (statement.kind === 'member') texts.push(statement.text);
+        if (statement.kind === 'group-start' && statement.label) texts.push(statement.label);
+    }
+
+    const matches = texts.filter(candidate => normalize(candidate.text) === text);
+    if (matches.length > 1) {
+        throw new Error(`"${text}" appears more than once. Edit it in the code instead.`);
+    }
+    return matches.map(candidate => ({ range: candidate.range, text: formatLabel(ast, candidate, next) }));
+}
+
+/**
+ * Source edits for renaming the clicked element. Throws when the new name cannot be used.
+ */
+export function getRenameEdits(ast: DiagramAst, target: RenameTarget, newText: string): SourceEdit[] {
+    const text = normalize(target.text);
+    const next = newText.trim();
+    if (!text || !next || next === text) return [];
+
+    const node = findClickedNode(ast, target);
+    if (node) {
+        // A labelled node shows its label; an unlabelled one shows its id
+        const showsLabel = node.label !== undefined && (normalize(node.label) === text || node.id !== text);
+        return showsLabel ? relabelNode(ast, node, next) : renameNodeId(ast, node, next);
+    }
+
+    return renameFreeText(ast, target, text, next);
+}
+
+/**
+ * Apply a rename to Mermaid code. Returns null when the clicked text cannot be found.
+ * Diagram types without a parser only rename text that occurs exactly once.
+ */
+export function renameInCode(code: string, target: RenameTarget, newText: string): string | null {
+    const ast = parseDiagram(code);
+    if (ast) {
+        const edits = getRenameEdits(ast, target, newText);
+        return edits.length > 0 ? applySourceEdits(code, edits) : null;
+    }
+
+    const text = target.text.trim();
+    const next = newText.trim();
+    if (!text || !next || text === next) return null;
+
+    const first = code.indexOf(text);
+    if (first === -1) return null;
+    if (code.indexOf(text, first + 1) !== -1) {
+        throw new Error(`"${text}" appears more than once. Edit it in the code instead.`);
+    }
+    return code.slice(0, first) + next + code.slice(first + text.length);
+}
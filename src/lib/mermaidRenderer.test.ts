@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mermaid from 'mermaid';
+import { createRenderChannel, renderMermaidSvg } from '@/lib/mermaidRenderer';
+
+type RenderOutput = Awaited<ReturnType<typeof mermaid.render>>;
+
+/** mermaid.render calls that finish when the test says so */
+const deferRenders = () => {
+    const pending: { code: string; resolve: (svg: string) => void; reject: (error: Error) => void }[] = [];
+    vi.mocked(mermaid.render).mockImplementation((_id, code) => new Promise<RenderOutput>((resolve, reject) => {
+        pending.push({ code, resolve: (svg) => resolve({ svg } as RenderOutput), reject });
+    }));
+    return pending;
+};
+
+const waitFor = async (condition: () => boolean) => {
+    while (!condition()) await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+describe('mermaidRenderer', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should run renders one at a time', async () => {
+        const pending = deferRenders();
+        const first = renderMermaidSvg('graph TD\n    A', 'default');
+        const second = renderMermaidSvg('graph TD\n    B', 'dark');
+
+        await waitFor(() => pending.length === 1);
+        // The second diagram's config must not replace the first one's mid-render
+        expect(mermaid.initialize).toHaveBeenCalledTimes(1);
+
+        pending[0].resolve('<svg>A</svg>');
+        await waitFor(() => pending.length === 2);
+        pending[1].resolve('<svg>B</svg>');
+
+        expect(await first).toBe('<svg>A</svg>');
+        expect(await second).toBe('<svg>B</svg>');
+        expect(vi.mocked(mermaid.initialize).mock.lastCall![0]).toMatchObject({ theme: 'dark' });
+    });
+
+    it('should discard results of renders superseded while rendering', async () => {
+        const pending = deferRenders();
+        const channel = createRenderChannel();
+        const stale = channel.render('graph TD\n    A', 'default');
+
+        await waitFor(() => pending.length === 1);
+        const latest = channel.render('graph TD\n    B', 'default');
+        pending[0].reject(new Error('Parse error'));
+        await waitFor(() => pending.length === 2);
+        pending[1].resolve('<svg>B</svg>');
+
+        await expect(stale).resolves.toBeNull();
+        await expect(latest).resolves.toEqual({ svg: '<svg>B</svg>', duration: expect.any(Number) });
+    });
+
+    it('should skip renders superseded while queued', async () => {
+        const pending = deferRenders();
+        const channel = createRenderChannel();
+        const first = channel.render('graph TD\n    A', 'default');
+
+        await waitFor(() => pending.length === 1);
+        const skipped = channel.render('graph TD\n    AB', 'default');
+        const latest = channel.render('graph TD\n    ABC', 'default');
+        pending[0].resolve('<svg>A</svg>');
+
+        await expect(first).resolves.toBeNull();
+        await expect(skipped).resolves.toBeNull();
+        await waitFor(() => pending.length === 2);
+        expect(pending.map(render => render.code)).toEqual(['graph TD\n    A', 'graph TD\n    ABC']);
+
+        pending[1].resolve('<svg>ABC</svg>');
+        await expect(latest).resolves.toMatchObject({ svg: '<svg>ABC</svg>' });
+    });
+});
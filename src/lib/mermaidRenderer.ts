@@ -0,0 +1,138 @@
+import mermaid from 'mermaid';
+import { CustomTheme, MermaidTheme, RenderSettings } from '@/types/diagram';
+import {
+    DEFAULT_RENDER_SETTINGS,
+    ENFORCED_CONFIG,
+    MermaidConfig,
+    mergeConfig,
+    readDiagramConfig,
+    settingsToConfig,
+} from '@/lib/mermaidConfig';
+
+/**
+ * Shared Mermaid configuration and rendering.
+ *
+ * Mermaid keeps its configuration in module state and measures text in the page's DOM, so it
+ * cannot move to a worker. Renders go through one queue instead, which keeps each
+ * initialize/render pair together and lets superseded renders be skipped.
+ */
+
+const DEFAULT_FONT_FAMILY = 'Inter, system-ui, sans-serif';
+
+/**
+ * Configuration for a built-in theme, or for Mermaid's `base` theme with a custom theme's variables.
+ * Render settings apply on top, then the diagram's own config, then the keys the app enforces.
+ */
+export function getMermaidConfig(
+    theme: MermaidTheme,
+    customTheme?: CustomTheme | null,
+    settings: RenderSettings = DEFAULT_RENDER_SETTINGS,
+    diagramConfig?: MermaidConfig
+): MermaidConfig {
+    return mergeConfig(
+        {
+            theme,
+            fontFamily: DEFAULT_FONT_FAMILY,
+        },
+        settingsToConfig(settings),
+        customTheme && {
+            theme: 'base',
+            themeVariables: { ...customTheme.variables },
+            fontFamily: customTheme.variables.fontFamily || DEFAULT_FONT_FAMILY,
+        },
+        diagramConfig,
+        ENFORCED_CONFIG
+    );
+}
+
+let renderCounter = 0;
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a task once every render queued before it has finished
+ */
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = renderQueue.then(task);
+    renderQueue = run.catch(() => undefined);
+    return run;
+}
+
+async function render(code: string, theme: MermaidTheme, customTheme?: CustomTheme | null, settings?: RenderSettings): Promise<string> {
+    // Merged up front so the diagram's themeVariables derive the rest of the palette;
+    // Mermaid applies the directives again itself, minus the secure keys
+    mermaid.initialize(getMermaidConfig(theme, customTheme, settings, readDiagramConfig(code).config));
+    // Unique ids keep styles of several diagrams on one page from clashing
+    const { svg } = await mermaid.render(`mermaid-${Date.now()}-${renderCounter++}`, code);
+    return svg;
+}
+
+/**
+ * Render Mermaid code to an SVG string, throwing on syntax errors
+ */
+export function renderMermaidSvg(
+    code: string,
+    theme: MermaidTheme,
+    customTheme?: CustomTheme | null,
+    settings?: RenderSettings
+): Promise<string> {
+    return enqueue(() => render(code, theme, customTheme, settings));
+}
+
+export interface RenderResult {
+    svg: string;
+    /** Milliseconds Mermaid took */
+    duration: number;
+}
+
+export interface RenderChannel {
+    /** Resolves to null when a newer render replaced this one; throws on syntax errors */
+    render(code: string, theme: MermaidTheme, customTheme?: CustomTheme | null, settings?: RenderSettings): Promise<RenderResult | null>;
+    /** Drop every render requested so far */
+    cancel(): void;
+}
+
+// Input that arrived during the previous render is handled before the next one blocks again.
+// A message is a task like a timeout, without the minimum delay timers get when nested.
+const yieldToMain = () => new Promise<void>((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = () => {
+        channel.port1.close();
+        resolve();
+    };
+    channel.port2.postMessage(null);
+});
+
+/**
+ * Renders for one view, where only the latest request matters. Each request takes a sequence
+ * number; requests superseded while queued are skipped, and results of ones superseded while
+ * rendering are discarded, so an old render can never overwrite a newer one.
+ */
+export function createRenderChannel(): RenderChannel {
+    let latest = 0;
+
+    return {
+        render(code, theme, customTheme, settings) {
+            const sequence = ++latest;
+            const isStale = () => sequence !== latest;
+
+            return enqueue(async () => {
+                if (isStale()) return null;
+                await yieldToMain();
+                if (isStale()) return null;
+
+                const startedAt = performance.now();
+                try {
+                    const svg = await render(code, theme, customTheme, settings);
+                    return isStale() ? null : { svg, duration: performance.now() - startedAt };
+                } catch (error) {
+                    if (isStale()) return null;
+                    throw error;
+                }
+            });
+        },
+
+        cancel() {
+            latest++;
+        },
+    };
+}
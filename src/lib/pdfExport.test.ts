@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PDF_OPTIONS, computePdfLayout } from '@/lib/pdfExport';
+
+describe('pdfExport', () => {
+    describe('computePdfLayout', () => {
+        it('should swap page dimensions for landscape', () => {
+            const portrait = computePdfLayout({ width: 100, height: 100 }, { ...DEFAULT_PDF_OPTIONS, orientation: 'portrait' });
+            const landscape = computePdfLayout({ width: 100, height: 100 }, { ...DEFAULT_PDF_OPTIONS, pageSize: 'letter' });
+
+            expect(portrait).toMatchObject({ pageWidth: 595.28, pageHeight: 841.89 });
+            expect(landscape).toMatchObject({ pageWidth: 792, pageHeight: 612 });
+        });
+
+        it('should shrink large diagrams onto one page and center small ones at their own size', () => {
+            const large = computePdfLayout({ width: 4000, height: 1000 }, DEFAULT_PDF_OPTIONS);
+            expect(large.tiles).toHaveLength(1);
+            expect(4000 * large.scale).toBeCloseTo(large.content.width);
+
+            const small = computePdfLayout({ width: 200, height: 100 }, DEFAULT_PDF_OPTIONS);
+            expect(small.scale).toBe(0.75);
+            expect(small.tiles[0].x).toBeCloseTo(small.content.x + (small.content.width - 150) / 2);
+        });
+
+        it('should tile oversized diagrams across pages in reading order', () => {
+            const layout = computePdfLayout({ width: 2000, height: 500 }, { ...DEFAULT_PDF_OPTIONS, layout: 'tile' });
+            const { content } = layout;
+
+            // 1500pt wide over ~770pt of A4 landscape content: two columns, one row
+            expect(layout.scale).toBe(0.75);
+            expect(layout.tiles).toEqual([
+                { x: content.x, y: content.y },
+                { x: content.x - content.width, y: content.y },
+            ]);
+        });
+
+        it('should leave room for the header only when it is enabled', () => {
+            const withHeader = computePdfLayout({ width: 100, height: 100 }, DEFAULT_PDF_OPTIONS);
+            const withoutHeader = computePdfLayout({ width: 100, height: 100 }, { ...DEFAULT_PDF_OPTIONS, includeHeader: false });
+
+            expect(withoutHeader.content.height).toBeGreaterThan(withHeader.content.height);
+            expect(withoutHeader.content.y).toBeLessThan(withHeader.content.y);
+        });
+    });
+});
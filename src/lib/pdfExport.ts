@@ -0,0 +1,196 @@
+import { format } from 'date-fns';
+import { sanitizeSvg } from '@/lib/svgSanitizer';
+
+/**
+ * Client-side PDF export. The diagram is drawn with svg2pdf, so text and shapes stay vectors.
+ */
+
+export type PdfPageSize = 'a4' | 'letter' | 'a3';
+export type PdfOrientation = 'portrait' | 'landscape';
+/** Shrink the diagram onto one page, or print it at full size across as many pages as needed */
+export type PdfLayout = 'fit' | 'tile';
+
+export interface PdfExportOptions {
+    pageSize: PdfPageSize;
+    orientation: PdfOrientation;
+    layout: PdfLayout;
+    /** Print the title and export date above the diagram */
+    includeHeader: boolean;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfExportOptions = {
+    pageSize: 'a4',
+    orientation: 'landscape',
+    layout: 'fit',
+    includeHeader: true,
+};
+
+/** Portrait page sizes in points */
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { label: string; width: number; height: number }> = {
+    a4: { label: 'A4', width: 595.28, height: 841.89 },
+    letter: { label: 'Letter', width: 612, height: 792 },
+    a3: { label: 'A3', width: 841.89, height: 1190.55 },
+};
+
+const MARGIN = 36;
+const HEADER_HEIGHT = 24;
+const FOOTER_HEIGHT = 20;
+const LABEL_FONT_SIZE = 9;
+const LABEL_COLOR = 100;
+// Pixels per point for labels drawn as images
+const LABEL_RESOLUTION = 4;
+// SVG user units are CSS pixels; PDF units are points
+const PX_TO_PT = 0.75;
+
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PdfPageLayout {
+    pageWidth: number;
+    pageHeight: number;
+    /** Printable area between the margins, header and footer */
+    content: Box;
+    /** Points per SVG unit */
+    scale: number;
+    /** Top-left corner of the diagram on each page; later tiles are shifted up and left */
+    tiles: { x: number; y: number }[];
+}
+
+/**
+ * Work out page size, diagram scale and the diagram offset on every page
+ */
+export function computePdfLayout(diagram: { width: number; height: number }, options: PdfExportOptions): PdfPageLayout {
+    const size = PDF_PAGE_SIZES[options.pageSize];
+    const landscape = options.orientation === 'landscape';
+    const pageWidth = landscape ? size.height : size.width;
+    const pageHeight = landscape ? size.width : size.height;
+
+    const top = MARGIN + (options.includeHeader ? HEADER_HEIGHT : 0);
+    // Tiled pages are numbered in the footer
+    const bottom = MARGIN + (options.layout === 'tile' ? FOOTER_HEIGHT : 0);
+    const content = { x: MARGIN, y: top, width: pageWidth - MARGIN * 2, height: pageHeight - top - bottom };
+
+    // Fitting only shrinks: small diagrams keep their on-screen size
+    const scale = options.layout === 'fit'
+        ? Math.min(PX_TO_PT, content.width / diagram.width, content.height / diagram.height)
+        : PX_TO_PT;
+    const width = diagram.width * scale;
+    const height = diagram.height * scale;
+
+    const columns = Math.max(1, Math.ceil(width / content.width - 1e-6));
+    const rows = Math.max(1, Math.ceil(height / content.height - 1e-6));
+    if (columns === 1 && rows === 1) {
+        return {
+            pageWidth,
+            pageHeight,
+            content,
+            scale,
+            tiles: [{ x: content.x + (content.width - width) / 2, y: content.y + (content.height - height) / 2 }],
+        };
+    }
+
+    const tiles: PdfPageLayout['tiles'] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            tiles.push({ x: content.x - column * content.width, y: content.y - row * content.height });
+        }
+    }
+    return { pageWidth, pageHeight, content, scale, tiles };
+}
+
+// jsPDF's standard fonts only cover Latin-1
+const isLatin1 = (text: string) => !/[^\u0020-\u00ff]/.test(text);
+
+/**
+ * Draw a label with the browser's fonts, for text the standard PDF fonts cannot show
+ */
+function renderLabelImage(text: string): { data: string; width: number; height: number } | null {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    const font = `${LABEL_FONT_SIZE * LABEL_RESOLUTION}px system-ui, sans-serif`;
+    context.font = font;
+    canvas.width = Math.ceil(context.measureText(text).width) + 1;
+    // Room below the baseline for descenders
+    canvas.height = Math.ceil(LABEL_FONT_SIZE * 1.4 * LABEL_RESOLUTION);
+
+    // Resizing resets the context
+    context.font = font;
+    context.fillStyle = `rgb(${LABEL_COLOR}, ${LABEL_COLOR}, ${LABEL_COLOR})`;
+    context.fillText(text, 0, LABEL_FONT_SIZE * LABEL_RESOLUTION);
+    return { data: canvas.toDataURL('image/png'), width: canvas.width / LABEL_RESOLUTION, height: canvas.height / LABEL_RESOLUTION };
+}
+
+/**
+ * Render an SVG with explicit dimensions into a PDF document
+ */
+export async function createPdf(
+    svg: string,
+    dimensions: { width: number; height: number },
+    options: PdfExportOptions,
+    title: string,
+    exportedAt: Date = new Date()
+): Promise<Blob> {
+    const [{ jsPDF }, { svg2pdf }] = await Promise.all([import('jspdf'), import('svg2pdf.js')]);
+    const layout = computePdfLayout(dimensions, options);
+    const { content, tiles } = layout;
+
+    const pdf = new jsPDF({ unit: 'pt', format: options.pageSize, orientation: options.orientation });
+    pdf.setProperties({ title, creator: 'FlowGen' });
+
+    // svg2pdf resolves styles through the DOM, so render from an attached, hidden copy
+    const host = document.createElement('div');
+    host.style.cssText = 'position:fixed;left:-10000px;top:0;visibility:hidden;';
+    host.innerHTML = sanitizeSvg(svg);
+    document.body.appendChild(host);
+
+    try {
+        const element = host.querySelector('svg');
+        if (!element) {
+            throw new Error('No SVG to export');
+        }
+
+        const dateLabel = format(exportedAt, 'PPP p');
+        const titleImage = options.includeHeader && !isLatin1(title) ? renderLabelImage(title) : null;
+        for (let index = 0; index < tiles.length; index++) {
+            if (index > 0) pdf.addPage();
+
+            pdf.saveGraphicsState();
+            pdf.rect(content.x, content.y, content.width, content.height, null);
+            pdf.clip();
+            pdf.discardPath();
+            await svg2pdf(element, pdf, {
+                x: tiles[index].x,
+                y: tiles[index].y,
+                width: dimensions.width * layout.scale,
+                height: dimensions.height * layout.scale,
+            });
+            pdf.restoreGraphicsState();
+
+            pdf.setFont('helvetica', 'normal');
+            pdf.setFontSize(LABEL_FONT_SIZE);
+            pdf.setTextColor(LABEL_COLOR);
+            if (options.includeHeader) {
+                const baseline = MARGIN + LABEL_FONT_SIZE;
+                if (titleImage) {
+                    pdf.addImage(titleImage.data, 'PNG', content.x, MARGIN, titleImage.width, titleImage.height);
+                } else {
+                    pdf.text(title, content.x, baseline);
+                }
+                pdf.text(dateLabel, content.x + content.width, baseline, { align: 'right' });
+            }
+            if (tiles.length > 1) {
+                pdf.text(`Page ${index + 1} of ${tiles.length}`, layout.pageWidth / 2, layout.pageHeight - MARGIN, { align: 'center' });
+            }
+        }
+    } finally {
+        host.remove();
+    }
+
+    return pdf.output('blob');
+}
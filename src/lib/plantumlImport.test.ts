@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { convertPlantUml } from '@/lib/plantumlImport';
+import { parseDiagram } from '@/lib/mermaidParser';
+
+const uml = (...lines: string[]) => ['@startuml', ...lines, '@enduml'].join('\n');
+
+describe('plantumlImport', () => {
+    it('should convert sequence messages, blocks and notes', () => {
+        const result = convertPlantUml(uml(
+            "' login flow",
+            'title Login',
+            'skinparam monochrome true',
+            'actor User',
+            'participant "Auth Service" as Auth',
+            'User -> Auth ++ : login(user, pass)',
+            'alt success',
+            '    Auth --> User -- : token',
+            'else failure',
+            '    Auth ->x User : denied',
+            'end',
+            'note over User, Auth',
+            '  first line',
+            '  second line',
+            'end note',
+            '== Later ==',
+        ));
+
+        expect(result.diagramType).toBe('sequence');
+        expect(result.title).toBe('Login');
+        expect(result.code).toBe([
+            '---',
+            'title: "Login"',
+            '---',
+            'sequenceDiagram',
+            '    actor User',
+            '    participant Auth as Auth Service',
+            '    User->>+Auth: login(user, pass)',
+            '    alt success',
+            '        Auth-->>-User: token',
+            '    else failure',
+            '        Auth-xUser: denied',
+            '    end',
+            '    Note over User,Auth: first line<br>second line',
+            '',
+        ].join('\n'));
+        expect(result.warnings).toEqual(['Styling (skinparam and <style>) was dropped', 'Dividers (== ... ==) were dropped']);
+    });
+
+    it('should convert class declarations, members and relations', () => {
+        const result = convertPlantUml(uml(
+            'abstract class Animal {',
+            '    +String name',
+            '    --',
+            '    {abstract} +speak()',
+            '    {static} +count() int',
+            '}',
+            'interface Pet',
+            'class Dog extends Animal implements Pet',
+            'Zoo "1" *-down- "many" Animal : houses',
+        ));
+        const ast = parseDiagram(result.code);
+
+        expect(result.diagramType).toBe('class');
+        expect(result.code).toContain('        +speak()*');
+        expect(result.code).toContain('        +count() int$');
+        expect(result.code).toContain('    <<interface>> Pet');
+        expect(ast.edges.map(edge => [edge.from, edge.arrow, edge.to])).toEqual([
+            ['Animal', '<|--', 'Dog'],
+            ['Pet', '<|..', 'Dog'],
+            ['Zoo', '*--', 'Animal'],
+        ]);
+        expect(result.code).toContain('Zoo "1" *-- "many" Animal : houses');
+        expect(result.warnings).toEqual([
+            'Member separators were dropped',
+            'Arrow direction hints (-up->, -left-, ...) were dropped',
+        ]);
+    });
+
+    it('should convert states, composites and pseudo-states', () => {
+        const result = convertPlantUml(uml(
+            '[*] --> Idle',
+            'state Idle : waiting for input',
+            'state "Working hard" as Busy {',
+            '    [*] --> Parsing',
+            '    Parsing -right-> Done : ok',
+            '}',
+            'state check <<choice>>',
+            'Idle --> check',
+            'check --> Busy : [valid]',
+            'Busy --> [*]',
+        ));
+
+        expect(result.diagramType).toBe('state');
+        expect(result.code).toBe([
+            'stateDiagram-v2',
+            '    [*] --> Idle',
+            '    state Idle',
+            '    Idle : waiting for input',
+            '    state "Working hard" as Busy {',
+            '        [*] --> Parsing',
+            '        Parsing --> Done : ok',
+            '    }',
+            '    state check <<choice>>',
+            '    Idle --> check',
+            '    check --> Busy : [valid]',
+            '    Busy --> [*]',
+            '',
+        ].join('\n'));
+    });
+
+    it('should rebuild activity diagrams as flowcharts', () => {
+        const result = convertPlantUml(uml(
+            'start',
+            ':Read input;',
+            'if (valid?) then (yes)',
+            '  :Save;',
+            'else (no)',
+            '  :Show error',
+            '  and retry;',
+            'endif',
+            'stop',
+        ));
+        const ast = parseDiagram(result.code);
+
+        expect(result.diagramType).toBe('flowchart');
+        expect(ast.nodes.find(node => node.id === 'c1')?.shape).toBe('rhombus');
+        expect(ast.edges.map(edge => [edge.from, edge.to, edge.label])).toEqual([
+            ['start1', 'a1', undefined],
+            ['a1', 'c1', undefined],
+            ['c1', 'a2', 'yes'],
+            ['c1', 'a3', 'no'],
+            ['a2', 'stop1', undefined],
+            ['a3', 'stop1', undefined],
+        ]);
+        expect(result.code).toContain('a3["Show error<br>and retry"]');
+    });
+
+    it('should loop back for while and repeat', () => {
+        const ast = parseDiagram(convertPlantUml(uml(
+            'start',
+            'while (more?) is (yes)',
+            '  :Next;',
+            'endwhile (no)',
+            'repeat',
+            '  :Try;',
+            'repeat while (failed?) is (yes) not (no)',
+            'stop',
+        )).code);
+
+        expect(ast.edges.map(edge => [edge.from, edge.to, edge.label])).toEqual([
+            ['start1', 'c1', undefined],
+            ['c1', 'a1', 'yes'],
+            ['a1', 'c1', undefined],
+            ['c1', 'a2', 'no'],
+            ['a2', 'c2', undefined],
+            ['c2', 'a2', 'yes'],
+            ['c2', 'stop1', 'no'],
+        ]);
+    });
+
+    it('should reject diagram kinds it cannot convert', () => {
+        expect(() => convertPlantUml(uml('usecase (Login)', 'User --> (Login)'))).toThrow('Only PlantUML sequence, class, state and activity diagrams');
+        expect(() => convertPlantUml(uml('actor A', 'A --> (Use)'))).toThrow('Only PlantUML sequence, class, state and activity diagrams');
+        expect(() => convertPlantUml(uml('actor A', 'A --> (Use) : starts'))).toThrow('Only PlantUML sequence, class, state and activity diagrams');
+    });
+});
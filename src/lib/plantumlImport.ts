@@ -0,0 +1,807 @@
+import {
+    ImportConversion,
+    ImportWarnings,
+    ImportedFlowchart,
+    ImportedGroup,
+    createGroup,
+    createIdMap,
+    createWarnings,
+    printImportedFlowchart,
+    printTitle,
+    toMermaidText,
+} from '@/lib/diagramImport';
+
+/**
+ * PlantUML to Mermaid: sequence, class and state diagrams map line by line;
+ * activity diagrams (new syntax) are rebuilt as flowcharts.
+ */
+
+interface SourceLine {
+    text: string;
+    /** 1-based line in the original file */
+    line: number;
+}
+
+type PlantUmlKind = 'sequence' | 'class' | 'state' | 'activity';
+
+const SEQUENCE_PARTICIPANTS = ['participant', 'actor', 'boundary', 'control', 'entity', 'database', 'collections', 'queue'];
+const SEQUENCE_BLOCKS = ['alt', 'opt', 'loop', 'par', 'break', 'critical', 'group'];
+const CLASS_KEYWORDS = /^(abstract\s+class|abstract|class|interface|enum|annotation|entity|struct|exception|metaclass|protocol)\s+/i;
+const DIRECTION_HINT = /(?<=[-.])(?:up|down|left|right|u|d|l|r)(?=[-.])/gi;
+const COLOR_HINT = /\[[^\]]*\]/g;
+
+const unquote = (text: string): string => text.trim().replace(/^"(.*)"$/, '$1');
+
+/** PlantUML `\n` escapes in labels */
+const unescapeText = (text: string): string => text.replace(/\\n/g, '\n');
+
+/**
+ * Lines of the first @startuml block, without comments, styling and preprocessor directives
+ */
+function readLines(source: string, warnings: ImportWarnings): { lines: SourceLine[]; title?: string; leftToRight: boolean } {
+    const lines: SourceLine[] = [];
+    let title: string | undefined;
+    let leftToRight = false;
+    let inBlockComment = false;
+    let skipUntil: RegExp | null = null;
+    let started = !/^\s*@start/m.test(source);
+    let blocks = 0;
+
+    source.split(/\r?\n/).forEach((raw, index) => {
+        const text = raw.trim();
+        if (inBlockComment) {
+            if (text.includes("'/")) inBlockComment = false;
+            return;
+        }
+        if (text.startsWith("/'")) {
+            inBlockComment = !text.includes("'/", 2);
+            return;
+        }
+        if (/^@start\w+/i.test(text)) {
+            blocks++;
+            started = blocks === 1;
+            return;
+        }
+        if (/^@end\w+/i.test(text)) {
+            started = false;
+            return;
+        }
+        if (!started || !text || text.startsWith("'")) return;
+
+        // Multi-line blocks that are dropped as a whole: skinparam { }, <style>, legend ... endlegend
+        if (skipUntil) {
+            if (skipUntil.test(text)) skipUntil = null;
+            return;
+        }
+        if (/^skinparam\b/i.test(text) || /^<style>/i.test(text)) {
+            warnings.add('Styling (skinparam and <style>) was dropped');
+            if (text.endsWith('{')) skipUntil = /^\}$/;
+            else if (/^<style>$/i.test(text)) skipUntil = /^<\/style>$/i;
+            return;
+        }
+        if (text.startsWith('!')) {
+            warnings.add('Preprocessor directives (!include, !define, ...) were ignored');
+            return;
+        }
+        if (/^(hide|show|scale|autoactivate)\b/i.test(text) || /^(set|together)\b/i.test(text)) return;
+        if (/^left to right direction$/i.test(text)) {
+            leftToRight = true;
+            return;
+        }
+        if (/^top to bottom direction$/i.test(text)) return;
+        if (/^title\s+/i.test(text)) {
+            title = text.replace(/^title\s+/i, '').trim();
+            return;
+        }
+        const annotation = /^(header|footer|caption|legend)\b(.*)$/i.exec(text);
+        if (annotation) {
+            warnings.add('Headers, footers, captions and legends were dropped');
+            // Multi-line forms close with `end header`, `endlegend`, ...
+            const [, keyword, rest] = annotation;
+            if (keyword.toLowerCase() === 'legend' ? /^\s*(left|right|top|bottom|center)?\s*$/i.test(rest) : !rest.trim()) {
+                skipUntil = new RegExp(`^end\\s*${keyword}$`, 'i');
+            }
+            return;
+        }
+        lines.push({ text, line: index + 1 });
+    });
+
+    if (blocks > 1) warnings.add('Only the first @startuml block was imported');
+    return { lines, title, leftToRight };
+}
+
+function detectKind(lines: SourceLine[]): PlantUmlKind | null {
+    const texts = lines.map(line => line.text);
+    if (texts.some(text => /^(start|stop)$/i.test(text) || /^:[^:]*(;|$)/.test(text) || /^(if|while)\s*\(/i.test(text) || /^repeat\b/i.test(text) || /^fork$/i.test(text))) {
+        return 'activity';
+    }
+    if (texts.some(text => /^state\s/i.test(text) || text.includes('[*]'))) return 'state';
+    if (texts.some(text => CLASS_KEYWORDS.test(text) && !/^entity\s+\S+\s*$/i.test(text) || /^(package|namespace)\s/i.test(text) || /<\|--|--\|>|\*--|--\*|o--|--o|\.\.\|>|<\|\.\./.test(text))) {
+        return 'class';
+    }
+    // Use cases are written in parentheses, also as arrow targets such as `User --> (Login)`
+    const isUseCaseArrow = (text: string) => /[-.]>?\s*\([^)]*\)\s*$/.test(text.split(':')[0]);
+    if (texts.some(text => /^(usecase|component|node|artifact|cloud|rectangle|frame)\b/i.test(text) || /^\(.*\)/.test(text) || /^\[.*\]/.test(text) || isUseCaseArrow(text))) {
+        return null;
+    }
+    const participant = new RegExp(`^(${SEQUENCE_PARTICIPANTS.join('|')})\\b`, 'i');
+    if (texts.some(text => participant.test(text) || /^\S+\s*<?-+>*[>x)o\\/]?\s*\S+\s*:/.test(text) || /^(autonumber|activate|deactivate)\b/i.test(text))) {
+        return 'sequence';
+    }
+    return null;
+}
+
+const notConverted = (warnings: ImportWarnings, line: SourceLine) =>
+    warnings.add(`Line ${line.line} was not converted: ${line.text}`);
+
+/**
+ * Collect a multi-line note body up to `end note`
+ */
+function readNoteBody(lines: SourceLine[], index: number): { text: string; next: number } {
+    const body: string[] = [];
+    let next = index + 1;
+    while (next < lines.length && !/^end\s*(note|hnote|rnote)$/i.test(lines[next].text)) {
+        body.push(lines[next].text);
+        next++;
+    }
+    return { text: body.join('\n'), next: next + 1 };
+}
+
+// --- Sequence diagrams -------------------------------------------------------
+
+const SEQUENCE_MESSAGE = /^("[^"]+"|[^\s"<>\-[\]]+|\[)\s*([<ox]?<?(?:-|\[[^\]]*\])+(?:>>?|\\\\?|\/\/?|x|o)?(?:>?[ox])?)\s*("[^"]+"|[^\s":]+|\])\s*(\+\+|--|\*\*|!!)?\s*(?::\s*(.*))?$/;
+
+function convertSequence(lines: SourceLine[], title: string | undefined, warnings: ImportWarnings): string {
+    const output = [...printTitle(title), 'sequenceDiagram'];
+    const toId = createIdMap('participant');
+    const declared = new Set<string>();
+    const blocks: string[] = [];
+    const indent = () => '    '.repeat(blocks.length + 1);
+
+    const participant = (raw: string): string => {
+        const name = unquote(raw);
+        const id = toId(name);
+        // Mermaid creates participants on first use; only renamed ones need declaring
+        if (!declared.has(id) && id !== name) output.push(`${indent()}participant ${id} as ${name}`);
+        declared.add(id);
+        return id;
+    };
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        const text = line.text;
+        const word = text.split(/\s+/)[0].toLowerCase();
+
+        if (SEQUENCE_PARTICIPANTS.includes(word)) {
+            // participant "Long name" as L #color order 10, or participant L as "Long name"
+            const match = /^\w+\s+("[^"]+"|\S+)(?:\s+as\s+("[^"]+"|\S+))?/i.exec(text);
+            if (!match) {
+                notConverted(warnings, line);
+                continue;
+            }
+            const [first, second] = [unquote(match[1]), match[2] && unquote(match[2])];
+            const quotedFirst = match[1].startsWith('"');
+            const name = second ? (quotedFirst ? first : second) : first;
+            const alias = second ? (quotedFirst ? second : first) : first;
+            const id = toId(alias);
+            if (declared.has(id)) continue;
+            declared.add(id);
+            if (word !== 'participant' && word !== 'actor') warnings.add(`"${word}" participants are shown as plain participants`);
+            if (/\s#\w+/.test(text)) warnings.add('Participant colors were dropped');
+            output.push(`${indent()}${word === 'actor' ? 'actor' : 'participant'} ${id}${name !== id ? ` as ${name}` : ''}`);
+            continue;
+        }
+
+        if (/^(note|hnote|rnote)\b/i.test(text)) {
+            const match = /^\w+\s+(left of|right of|left|right|over)\s+([^:]+?)\s*(?::\s*(.*))?$/i.exec(text);
+            if (!match) {
+                if (!text.includes(':')) index = readNoteBody(lines, index).next - 1;
+                warnings.add('Floating notes were dropped');
+                continue;
+            }
+            let body = match[3];
+            if (body === undefined) {
+                const note = readNoteBody(lines, index);
+                body = note.text;
+                index = note.next - 1;
+            }
+            const position = match[1].toLowerCase().replace(/^(left|right)$/, '$1 of');
+            const targets = match[2].split(',').map(target => participant(target));
+            output.push(`${indent()}Note ${position} ${targets.join(',')}: ${toMermaidText(unescapeText(body))}`);
+            continue;
+        }
+
+        if (SEQUENCE_BLOCKS.includes(word)) {
+            const label = text.slice(word.length).trim();
+            if (word === 'group') warnings.add('Groups were converted to opt blocks');
+            output.push(`${indent()}${word === 'group' ? 'opt' : word}${label ? ` ${label}` : ''}`);
+            blocks.push(word);
+            continue;
+        }
+        if (word === 'else') {
+            const block = blocks[blocks.length - 1];
+            const label = text.slice(4).trim();
+            // Printed at the level of the block it splits
+            output.push(`${'    '.repeat(blocks.length)}${block === 'par' ? 'and' : 'else'}${label ? ` ${label}` : ''}`);
+            continue;
+        }
+        if (/^box\b/i.test(text)) {
+            const label = unquote(text.slice(3).replace(/#\w+\s*$/, ''));
+            output.push(`${indent()}box ${label}`);
+            blocks.push('box');
+            continue;
+        }
+        if (/^end(\s+box)?$/i.test(text)) {
+            blocks.pop();
+            output.push(`${indent()}end`);
+            continue;
+        }
+
+        if (/^(activate|deactivate)\s+/i.test(text)) {
+            const [keyword, target] = text.split(/\s+/);
+            output.push(`${indent()}${keyword.toLowerCase()} ${participant(target)}`);
+            continue;
+        }
+        if (/^autonumber\b/i.test(text)) {
+            if (text.trim().toLowerCase() !== 'autonumber') warnings.add('Autonumber formats and start values were dropped');
+            output.push(`${indent()}autonumber`);
+            continue;
+        }
+        if (/^==.*==$/.test(text)) {
+            warnings.add('Dividers (== ... ==) were dropped');
+            continue;
+        }
+        if (/^(\.\.\.|\|\|\d*\|\|?|\|\|\|)/.test(text)) {
+            warnings.add('Delays and spacing were dropped');
+            continue;
+        }
+        if (/^(ref\s+over|return|destroy|create)\b/i.test(text)) {
+            warnings.add(`"${word}" is not supported by Mermaid sequence diagrams`);
+            continue;
+        }
+
+        const message = SEQUENCE_MESSAGE.exec(text);
+        if (message) {
+            const [, , , , activation, label] = message;
+            let [, from, arrow, to] = message;
+            if (from === '[' || to === ']' || from === ']' || to === '[') {
+                warnings.add('Messages from or to outside the diagram were dropped');
+                continue;
+            }
+            if (COLOR_HINT.test(arrow)) warnings.add('Arrow colors were dropped');
+            arrow = arrow.replace(COLOR_HINT, '-');
+            const reversed = arrow.startsWith('<') && !/>/.test(arrow);
+            if (reversed) [from, to] = [to, from];
+            const both = arrow.startsWith('<') && />/.test(arrow);
+            const dashed = /--/.test(arrow);
+            let mermaidArrow: string;
+            if (/x$/.test(arrow) || arrow.startsWith('x')) mermaidArrow = dashed ? '--x' : '-x';
+            else if (/(>>|\\\\|\/\/|\\|\/)$/.test(arrow) || /^(<<)/.test(arrow)) mermaidArrow = dashed ? '--)' : '-)';
+            else mermaidArrow = both ? (dashed ? '<<-->>' : '<<->>') : (dashed ? '-->>' : '->>');
+            if (/o$/.test(arrow) || arrow.startsWith('o')) warnings.add('Circle arrow heads were drawn as plain arrows');
+            if (activation === '**' || activation === '!!') warnings.add('Participant creation and destruction were dropped');
+            const prefix = activation === '++' ? '+' : activation === '--' ? '-' : '';
+            output.push(`${indent()}${participant(from)}${mermaidArrow}${prefix}${participant(to)}: ${toMermaidText(unescapeText(label ?? ''))}`);
+            continue;
+        }
+
+        notConverted(warnings, line);
+    }
+
+    return output.join('\n') + '\n';
+}
+
+// --- Class diagrams ----------------------------------------------------------
+
+const CLASS_DECLARATION = /^(abstract\s+class|abstract|class|interface|enum|annotation|entity|struct|exception|metaclass|protocol)\s+("[^"]+"|[^\s{<]+)(?:\s+as\s+("[^"]+"|[^\s{<]+))?\s*(<[^<>]*(?:<[^<>]*>[^<>]*)*>)?\s*(<<.+?>>)?\s*(#\S+)?\s*(?:(extends|implements)\s+([^{]+?))?\s*(?:(implements)\s+([^{]+?))?\s*(\{)?\s*(\})?$/i;
+const CLASS_RELATION = /^("[^"]+"|[^\s"]+)\s*(?:"([^"]*)")?\s*([<*o#x}+^|]*[-.]+(?:\[[^\]]*\])?(?:(?:up|down|left|right|u|d|l|r)[-.]+)?[-.]*[|>*o#x{+^]*)\s*(?:"([^"]*)")?\s*("[^"]+"|[^\s":]+)\s*(?::\s*(.*))?$/i;
+
+const CLASS_ANNOTATIONS: Record<string, string> = {
+    interface: 'interface',
+    abstract: 'abstract',
+    'abstract class': 'abstract',
+    enum: 'enumeration',
+    annotation: 'annotation',
+    entity: 'entity',
+    struct: 'struct',
+    exception: 'exception',
+    metaclass: 'metaclass',
+    protocol: 'protocol',
+};
+
+const CLASS_LEFT_HEADS: Record<string, string> = { '<|': '<|', '^': '<|', '*': '*', o: 'o', '<': '<', '': '' };
+const CLASS_RIGHT_HEADS: Record<string, string> = { '|>': '|>', '^': '|>', '*': '*', o: 'o', '>': '>', '': '' };
+
+/**
+ * Member text with PlantUML modifiers turned into Mermaid's `$` (static) and `*` (abstract) suffixes
+ */
+function convertMember(text: string): string {
+    let member = text.replace(/\{(field|method)\}\s*/gi, '');
+    if (/\{(static|classifier)\}/i.test(member)) member = `${member.replace(/\{(static|classifier)\}\s*/gi, '')}$`;
+    if (/\{abstract\}/i.test(member)) member = `${member.replace(/\{abstract\}\s*/gi, '')}*`;
+    return member.trim();
+}
+
+function convertClass(lines: SourceLine[], title: string | undefined, leftToRight: boolean, warnings: ImportWarnings): string {
+    const output = [...printTitle(title), 'classDiagram'];
+    if (leftToRight) output.push('    direction LR');
+    const toId = createIdMap('Class');
+    const declared = new Set<string>();
+    const blocks: Array<'class' | 'namespace' | 'skip'> = [];
+    const indent = () => '    '.repeat(blocks.filter(block => block !== 'skip').length + 1);
+
+    const className = (raw: string): string => {
+        const name = unquote(raw);
+        // Keep Java-style generics
+        const generic = /^([^<]+)<(.+)>$/.exec(name);
+        const id = toId(generic ? generic[1] : name);
+        if (!declared.has(id)) {
+            declared.add(id);
+            if (id !== name && !generic) output.push(`${indent()}class ${id}["${name.replace(/"/g, '#quot;')}"]`);
+        }
+        return id;
+    };
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        const text = line.text;
+        const inClass = blocks[blocks.length - 1] === 'class';
+
+        if (text === '}') {
+            const block = blocks.pop();
+            if (block !== 'skip') output.push(`${indent()}}`);
+            continue;
+        }
+        if (inClass) {
+            if (/^(--|==|\.\.|__)/.test(text)) {
+                warnings.add('Member separators were dropped');
+                continue;
+            }
+            output.push(`${indent()}${convertMember(text)}`);
+            continue;
+        }
+
+        const declaration = CLASS_DECLARATION.exec(text);
+        if (declaration) {
+            const [, kind, first, second, generic, stereotype, color, inherit, parents, implement, interfaces, open, close] = declaration;
+            const quotedFirst = first.startsWith('"');
+            const name = second ? (quotedFirst ? unquote(first) : unquote(second)) : unquote(first);
+            const alias = second ? (quotedFirst ? unquote(second) : unquote(first)) : unquote(first);
+            const id = toId(alias);
+            const label = name !== id ? `["${name.replace(/"/g, '#quot;')}"]` : '';
+            const typeParameter = generic ? `~${generic.slice(1, -1).replace(/\s+/g, '')}~` : '';
+            declared.add(id);
+            if (color) warnings.add('Class colors were dropped');
+
+            output.push(`${indent()}class ${id}${typeParameter}${label}${open && !close ? ' {' : ''}`);
+            const annotation = CLASS_ANNOTATIONS[kind.toLowerCase().replace(/\s+/g, ' ')];
+            const stereotypeText = stereotype?.slice(2, -2).replace(/^\(\w\s*,\s*\S+\)\s*/, '').trim();
+            if (open && !close) {
+                blocks.push('class');
+                if (annotation || stereotypeText) output.push(`${indent()}<<${stereotypeText || annotation}>>`);
+            } else if (annotation || stereotypeText) {
+                output.push(`${indent()}<<${stereotypeText || annotation}>> ${id}`);
+            }
+            if (kind.toLowerCase() === 'annotation') warnings.add('Annotation types are shown as classes');
+
+            const relate = (list: string | undefined, arrow: string) =>
+                list?.split(',').map(parent => parent.trim()).filter(Boolean).forEach(parent => {
+                    output.push(`${indent()}${className(parent)} ${arrow} ${id}`);
+                });
+            relate(parents, inherit?.toLowerCase() === 'implements' ? '<|..' : '<|--');
+            relate(interfaces, implement ? '<|..' : '<|--');
+            continue;
+        }
+
+        if (/^(package|namespace)\s+/i.test(text)) {
+            const name = unquote(text.replace(/^(package|namespace)\s+/i, '').replace(/\s*(<<.+>>|#\S+)?\s*\{?$/, ''));
+            if (!text.endsWith('{')) {
+                notConverted(warnings, line);
+                continue;
+            }
+            if (blocks.includes('namespace')) {
+                warnings.add('Nested packages were flattened');
+                blocks.push('skip');
+                continue;
+            }
+            output.push(`${indent()}namespace ${toId(name)} {`);
+            blocks.push('namespace');
+            continue;
+        }
+
+        if (/^(note|legend)\b/i.test(text)) {
+            const match = /^note\s+(?:top|bottom|left|right)\s+of\s+("[^"]+"|\S+)\s*:\s*(.*)$/i.exec(text);
+            if (match) {
+                output.push(`${indent()}note for ${className(match[1])} "${toMermaidText(unescapeText(match[2])).replace(/"/g, "'")}"`);
+            } else {
+                if (!text.includes(':')) index = readNoteBody(lines, index).next - 1;
+                warnings.add('Notes that are multi-line or not attached to a class were dropped');
+            }
+            continue;
+        }
+
+        // Members added from outside: Class : +method()
+        const member = /^("[^"]+"|[^\s:"]+)\s*:\s*(.+)$/.exec(text);
+        if (member && !CLASS_RELATION.test(text)) {
+            output.push(`${indent()}${className(member[1])} : ${convertMember(member[2])}`);
+            continue;
+        }
+
+        const relation = CLASS_RELATION.exec(text);
+        if (relation) {
+            const [, from, fromCardinality, rawArrow, toCardinality, to, label] = relation;
+            if (DIRECTION_HINT.test(rawArrow)) warnings.add('Arrow direction hints (-up->, -left-, ...) were dropped');
+            const arrow = rawArrow.replace(COLOR_HINT, '').replace(DIRECTION_HINT, '');
+            const lineStart = arrow.search(/[-.]/);
+            const lineEnd = arrow.search(/[^-.]*$/);
+            const left = CLASS_LEFT_HEADS[arrow.slice(0, lineStart)];
+            const right = CLASS_RIGHT_HEADS[arrow.slice(lineEnd)];
+            if (left === undefined || right === undefined) warnings.add(`Relation ends in "${rawArrow}" were drawn as plain lines`);
+            const body = arrow.slice(lineStart, lineEnd).includes('.') ? '..' : '--';
+            const cardinality = (value?: string) => (value !== undefined ? ` "${value}"` : '');
+            output.push(`${indent()}${className(from)}${cardinality(fromCardinality)} ${left ?? ''}${body}${right ?? ''}${cardinality(toCardinality)} ${className(to)}${label ? ` : ${label}` : ''}`);
+            continue;
+        }
+
+        notConverted(warnings, line);
+    }
+
+    return output.join('\n') + '\n';
+}
+
+// --- State diagrams ----------------------------------------------------------
+
+const STATE_DECLARATION = /^state\s+("[^"]+"|[^\s{:<#]+)(?:\s+as\s+("[^"]+"|[^\s{:<#]+))?\s*(<<\w+>>)?\s*(#\S+)?\s*(\{)?\s*(?::\s*(.*))?$/i;
+const STATE_TRANSITION = /^(\[\*\]|\[H\*?\]|[^\s:-]+)\s*(-+(?:\[[^\]]*\])?(?:(?:up|down|left|right|u|d|l|r)-+)?>|-+>)\s*(\[\*\]|\[H\*?\]|[^\s:]+)\s*(?::\s*(.*))?$/i;
+const STATE_STEREOTYPES = ['choice', 'fork', 'join'];
+
+function convertState(lines: SourceLine[], title: string | undefined, leftToRight: boolean, warnings: ImportWarnings): string {
+    const output = [...printTitle(title), 'stateDiagram-v2'];
+    if (leftToRight) output.push('    direction LR');
+    const toId = createIdMap('State');
+    let depth = 0;
+    const indent = () => '    '.repeat(depth + 1);
+    const stateId = (raw: string): string => (raw === '[*]' ? raw : toId(unquote(raw)));
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        const text = line.text;
+
+        if (text === '}') {
+            depth = Math.max(0, depth - 1);
+            output.push(`${indent()}}`);
+            continue;
+        }
+        if (text === '--' || text === '||') {
+            output.push(`${indent()}--`);
+            continue;
+        }
+
+        const declaration = STATE_DECLARATION.exec(text);
+        if (declaration) {
+            const [, first, second, stereotype, color, open, description] = declaration;
+            const quotedFirst = first.startsWith('"');
+            const name = second ? unquote(quotedFirst ? first : second) : unquote(first);
+            const id = toId(second ? unquote(quotedFirst ? second : first) : name);
+            if (color) warnings.add('State colors were dropped');
+
+            const kind = stereotype?.slice(2, -2).toLowerCase();
+            if (kind && STATE_STEREOTYPES.includes(kind)) {
+                output.push(`${indent()}state ${id} <<${kind}>>`);
+            } else if (kind) {
+                warnings.add(`<<${kind}>> states are shown as plain states`);
+            }
+            if (!kind || !STATE_STEREOTYPES.includes(kind)) {
+                output.push(`${indent()}state ${name !== id ? `"${name}" as ${id}` : id}${open ? ' {' : ''}`);
+            }
+            if (open) depth++;
+            if (description) output.push(`${indent()}${id} : ${toMermaidText(unescapeText(description))}`);
+            continue;
+        }
+
+        if (/^note\b/i.test(text)) {
+            const match = /^note\s+(left|right)\s+of\s+(\S+)\s*(?::\s*(.*))?$/i.exec(text);
+            if (!match) {
+                if (!text.includes(':')) index = readNoteBody(lines, index).next - 1;
+                warnings.add('Floating notes and notes on transitions were dropped');
+                continue;
+            }
+            const target = stateId(match[2]);
+            if (match[3] !== undefined) {
+                output.push(`${indent()}note ${match[1].toLowerCase()} of ${target} : ${toMermaidText(unescapeText(match[3]))}`);
+            } else {
+                const note = readNoteBody(lines, index);
+                index = note.next - 1;
+                output.push(`${indent()}note ${match[1].toLowerCase()} of ${target}`, ...note.text.split('\n').map(body => `${indent()}    ${body}`), `${indent()}end note`);
+            }
+            continue;
+        }
+
+        const transition = STATE_TRANSITION.exec(text);
+        if (transition) {
+            const [, from, arrow, to, label] = transition;
+            if (/\[H\*?\]/i.test(from) || /\[H\*?\]/i.test(to)) {
+                warnings.add('History states ([H], [H*]) were dropped');
+                continue;
+            }
+            if (DIRECTION_HINT.test(arrow)) warnings.add('Arrow direction hints (-up->, -left-, ...) were dropped');
+            if (COLOR_HINT.test(arrow)) warnings.add('Arrow colors were dropped');
+            output.push(`${indent()}${stateId(from)} --> ${stateId(to)}${label ? ` : ${toMermaidText(unescapeText(label))}` : ''}`);
+            continue;
+        }
+
+        const description = /^("[^"]+"|[^\s:]+)\s*:\s*(.+)$/.exec(text);
+        if (description) {
+            output.push(`${indent()}${stateId(description[1])} : ${toMermaidText(unescapeText(description[2]))}`);
+            continue;
+        }
+
+        notConverted(warnings, line);
+    }
+
+    return output.join('\n') + '\n';
+}
+
+// --- Activity diagrams -------------------------------------------------------
+
+interface PendingLink {
+    from: string;
+    label?: string;
+}
+
+type ActivityFrame =
+    | { kind: 'if'; decision: string; ends: PendingLink[]; hasElse: boolean }
+    | { kind: 'while'; decision: string }
+    | { kind: 'repeat'; entry?: string }
+    | { kind: 'fork'; origin: PendingLink[]; ends: PendingLink[] }
+    | { kind: 'partition'; group: ImportedGroup };
+
+/** Text of the first parenthesised part, e.g. `if (done?) then (yes)` gives `done?` */
+const parenthesised = (text: string, after: string = ''): string | undefined => {
+    const start = after ? text.toLowerCase().indexOf(after) : 0;
+    if (start === -1) return undefined;
+    return /\(([^)]*)\)/.exec(text.slice(start + after.length))?.[1].trim();
+};
+
+function convertActivity(lines: SourceLine[], title: string | undefined, leftToRight: boolean, warnings: ImportWarnings): string {
+    const chart: ImportedFlowchart = {
+        direction: leftToRight ? 'LR' : 'TD',
+        title,
+        nodes: new Map(),
+        edges: [],
+        root: createGroup(''),
+    };
+    const frames: ActivityFrame[] = [];
+    const counters: Record<string, number> = {};
+    let frontier: PendingLink[] = [];
+    let nextLabel: string | undefined;
+
+    const currentGroup = (): ImportedGroup => {
+        const partition = [...frames].reverse().find(frame => frame.kind === 'partition');
+        return partition?.kind === 'partition' ? partition.group : chart.root;
+    };
+    const connect = (links: PendingLink[], to: string) => {
+        links.forEach(link => chart.edges.push({ from: link.from, to, arrow: '-->', label: link.label ?? nextLabel }));
+        nextLabel = undefined;
+    };
+    const addNode = (prefix: string, label: string, shape: 'rect' | 'rhombus' | 'circle' | 'double-circle' | 'stadium'): string => {
+        counters[prefix] = (counters[prefix] ?? 0) + 1;
+        const id = `${prefix}${counters[prefix]}`;
+        chart.nodes.set(id, { id, label, shape });
+        currentGroup().nodes.push(id);
+        connect(frontier, id);
+        frontier = [{ from: id }];
+
+        // The first step after `repeat` is where the loop jumps back to
+        const repeat = [...frames].reverse().find(frame => frame.kind === 'repeat' && !frame.entry);
+        if (repeat?.kind === 'repeat') repeat.entry = id;
+        return id;
+    };
+    const top = <K extends ActivityFrame['kind']>(kind: K) => {
+        const frame = frames[frames.length - 1];
+        return frame?.kind === kind ? (frame as Extract<ActivityFrame, { kind: K }>) : undefined;
+    };
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        const text = line.text;
+        const lower = text.toLowerCase();
+
+        if (lower === 'start') {
+            addNode('start', 'Start', 'circle');
+            continue;
+        }
+        if (lower === 'stop' || lower === 'end') {
+            addNode('stop', lower === 'stop' ? 'Stop' : 'End', 'double-circle');
+            frontier = [];
+            continue;
+        }
+        if (lower === 'kill' || lower === 'detach') {
+            frontier = [];
+            continue;
+        }
+
+        if (text.startsWith(':')) {
+            // Actions run until a line ending in ; (or an SDL ending such as | < > / ] })
+            const body = [text.slice(1)];
+            while (!/[;|<>/\]}]$/.test(body[body.length - 1]) && index + 1 < lines.length) {
+                body.push(lines[++index].text);
+            }
+            const label = body.join('\n').replace(/[;|<>/\]}]$/, '');
+            addNode('a', unescapeText(label), 'rect');
+            continue;
+        }
+
+        if (/^if\s*\(/i.test(text)) {
+            const decision = addNode('c', parenthesised(text) ?? '', 'rhombus');
+            frames.push({ kind: 'if', decision, ends: [], hasElse: false });
+            frontier = [{ from: decision, label: parenthesised(text, 'then') }];
+            continue;
+        }
+        if (/^else\s*if\s*\(|^elseif\s*\(/i.test(text)) {
+            const frame = top('if');
+            if (!frame) {
+                notConverted(warnings, line);
+                continue;
+            }
+            frame.ends.push(...frontier);
+            frontier = [{ from: frame.decision }];
+            const decision = addNode('c', parenthesised(text) ?? '', 'rhombus');
+            frame.decision = decision;
+            frontier = [{ from: decision, label: parenthesised(text, 'then') }];
+            continue;
+        }
+        if (/^else\b/i.test(text)) {
+            const frame = top('if');
+            if (!frame) {
+                notConverted(warnings, line);
+                continue;
+            }
+            frame.ends.push(...frontier);
+            frame.hasElse = true;
+            frontier = [{ from: frame.decision, label: parenthesised(text) }];
+            continue;
+        }
+        if (/^end\s*if$/i.test(text)) {
+            const frame = top('if');
+            if (!frame) {
+                notConverted(warnings, line);
+                continue;
+            }
+            frames.pop();
+            frontier = [...frame.ends, ...frontier, ...(frame.hasElse ? [] : [{ from: frame.decision }])];
+            continue;
+        }
+
+        if (/^while\s*\(/i.test(text)) {
+            const decision = addNode('c', parenthesised(text) ?? '', 'rhombus');
+            frames.push({ kind: 'while', decision });
+            frontier = [{ from: decision, label: parenthesised(text, ' is') }];
+            continue;
+        }
+        if (/^end\s*while\b/i.test(text)) {
+            const frame = top('while');
+            if (!frame) {
+                notConverted(warnings, line);
+                continue;
+            }
+            frames.pop();
+            connect(frontier, frame.decision);
+            frontier = [{ from: frame.decision, label: parenthesised(text) }];
+            continue;
+        }
+
+        if (lower === 'repeat') {
+            frames.push({ kind: 'repeat' });
+            continue;
+        }
+        if (/^repeat\s+while\b/i.test(text)) {
+            const frame = top('repeat');
+            if (!frame) {
+                notConverted(warnings, line);
+                continue;
+            }
+            frames.pop();
+            const decision = addNode('c', parenthesised(text) ?? '', 'rhombus');
+            if (frame.entry) chart.edges.push({ from: decision, to: frame.entry, arrow: '-->', label: parenthesised(text, ' is') });
+            frontier = [{ from: decision, label: parenthesised(text, ' not') }];
+            continue;
+        }
+
+        if (lower === 'fork' || lower === 'split') {
+            frames.push({ kind: 'fork', origin: frontier, ends: [] });
+            continue;
+        }
+        if (/^(fork|split) again$/i.test(text)) {
+            const frame = top('fork');
+            if (!frame) {
+                notConverted(warnings, line);
+                continue;
+            }
+            frame.ends.push(...frontier);
+            frontier = frame.origin;
+            continue;
+        }
+        if (/^end\s*(fork|split|merge)\b/i.test(text)) {
+            const frame = top('fork');
+            if (!frame) {
+                notConverted(warnings, line);
+                continue;
+            }
+            frames.pop();
+            frontier = [...frame.ends, ...frontier];
+            continue;
+        }
+
+        if (/^(partition|group|package|rectangle|card)\s+/i.test(text) && text.endsWith('{')) {
+            const label = unquote(text.replace(/^\w+\s+/, '').replace(/\s*(#\S+)?\s*\{$/, ''));
+            const group = createGroup(`p${frames.filter(frame => frame.kind === 'partition').length + chart.root.groups.length + 1}`, label);
+            currentGroup().groups.push(group);
+            frames.push({ kind: 'partition', group });
+            continue;
+        }
+        if (text === '}' && top('partition')) {
+            frames.pop();
+            continue;
+        }
+
+        if (/^-+(\[[^\]]*\])?>/.test(text)) {
+            // Arrow with a label for the next connection: -> label;
+            const label = text.replace(/^-+(\[[^\]]*\])?>\s*/, '').replace(/;$/, '').trim();
+            nextLabel = label || undefined;
+            continue;
+        }
+
+        if (/^note\b/i.test(text) || /^floating\s+note\b/i.test(text)) {
+            if (!text.includes(':')) index = readNoteBody(lines, index).next - 1;
+            warnings.add('Notes were dropped');
+            continue;
+        }
+        if (/^\|.*\|$/.test(text)) {
+            warnings.add('Swimlanes were dropped');
+            continue;
+        }
+        if (/^backward\s*:/i.test(text)) {
+            warnings.add('Backward actions in repeat loops were dropped');
+            continue;
+        }
+
+        notConverted(warnings, line);
+    }
+
+    return printImportedFlowchart(chart);
+}
+
+/**
+ * Convert a PlantUML sequence, class, state or activity diagram to Mermaid
+ */
+export function convertPlantUml(source: string): ImportConversion {
+    const warnings = createWarnings();
+    const { lines, title, leftToRight } = readLines(source, warnings);
+    const kind = detectKind(lines);
+
+    let code: string;
+    switch (kind) {
+        case 'sequence':
+            code = convertSequence(lines, title, warnings);
+            break;
+        case 'class':
+            code = convertClass(lines, title, leftToRight, warnings);
+            break;
+        case 'state':
+            code = convertState(lines, title, leftToRight, warnings);
+            break;
+        case 'activity':
+            code = convertActivity(lines, title, leftToRight, warnings);
+            break;
+        default:
+            throw new Error('Only PlantUML sequence, class, state and activity diagrams can be imported.');
+    }
+
+    return {
+        code,
+        diagramType: kind === 'activity' ? 'flowchart' : kind,
+        title,
+        warnings: warnings.list(),
+    };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { PROJECT_FILE_VERSION, parseProjectFile } from '@/lib/projectFile';
+import { createProjectFile, parseImportedFile } from '@/lib/mermaidFileUtils';
+
+const CREATED_AT = '2024-03-01T09:30:00.000Z';
+
+// jsdom's File has no text()
+const file = (name: string, content: string) =>
+    Object.assign(new File([content], name, { type: 'application/json' }), { text: async () => content });
+
+describe('projectFile', () => {
+    it('should accept a current project file and keep its creation date on re-export', () => {
+        const original = createProjectFile('pie\n    "A": 1', 'pie', 'forest', { title: 'Budget', createdAt: CREATED_AT });
+        const parsed = parseProjectFile(JSON.parse(JSON.stringify(original)));
+
+        expect(parsed).toMatchObject({ version: PROJECT_FILE_VERSION, diagramType: 'pie', theme: 'forest', title: 'Budget', createdAt: CREATED_AT });
+        expect(createProjectFile(parsed.code, parsed.diagramType, parsed.theme, { title: parsed.title, createdAt: parsed.createdAt }).createdAt).toBe(CREATED_AT);
+    });
+
+    it('should upgrade files written before the format was versioned', () => {
+        const parsed = parseProjectFile({ code: 'sequenceDiagram\n    A->>B: Hi', title: 'Calls' });
+
+        expect(parsed).toMatchObject({ version: PROJECT_FILE_VERSION, diagramType: 'sequence', theme: 'default', title: 'Calls' });
+        expect(Date.parse(parsed.createdAt)).not.toBeNaN();
+    });
+
+    it('should name every invalid field', () => {
+        const invalid = { ...createProjectFile('graph TD', 'flowchart', 'default'), diagramType: 'venn', theme: 42, createdAt: 'yesterday' };
+        delete (invalid as Partial<typeof invalid>).code;
+
+        expect(() => parseProjectFile(invalid)).toThrow(
+            'Invalid project file: "createdAt" must be an ISO 8601 date such as 2024-01-31T12:00:00.000Z; ' +
+            '"diagramType" must be one of flowchart, sequence, class, state, er, gantt, pie, mindmap, timeline, quadrant, gitgraph, c4, sankey, block, journey, not "venn"; ' +
+            '"theme" must be one of default, dark, forest, neutral, not number; ' +
+            '"code" is missing.'
+        );
+    });
+
+    it('should carry a custom theme and validate its variables', () => {
+        const customTheme = { id: 'brand', name: 'Brand', variables: { primaryColor: '#1e40af', fontSize: '14px' } };
+        const original = createProjectFile('graph TD', 'flowchart', 'default', { customTheme });
+
+        expect(parseProjectFile(JSON.parse(JSON.stringify(original))).customTheme).toEqual(customTheme);
+        expect(() => parseProjectFile({ ...original, customTheme: { ...customTheme, variables: { primaryColor: 'url(javascript:x)' } } }))
+            .toThrow('Invalid project file: "customTheme.variables.primaryColor" must be a hex colour such as #1e40af.');
+    });
+
+    it('should report the length limit of overlong fields', () => {
+        const original = createProjectFile('graph TD', 'flowchart', 'default');
+        const customTheme = { id: 'brand', name: 'x'.repeat(150), variables: {} };
+
+        expect(() => parseProjectFile({ ...original, customTheme }))
+            .toThrow('Invalid project file: "customTheme.name" must be at most 100 characters.');
+        expect(() => parseProjectFile({ ...original, code: 'x'.repeat(1000001) }))
+            .toThrow('Invalid project file: "code" exceeds the maximum size of 1MB.');
+    });
+
+    it('should refuse files from a newer version of the format', () => {
+        expect(() => parseProjectFile({ ...createProjectFile('graph TD', 'flowchart', 'default'), version: '2.1' }))
+            .toThrow('This project file uses format version 2.1, which is newer than this app supports (1.0). Update the app to open it.');
+        expect(() => parseProjectFile({ version: 1, code: 'graph TD' }))
+            .toThrow('Invalid project file: "version" must be a version number such as "1.0".');
+        expect(() => parseProjectFile(['graph TD'])).toThrow('Invalid project file: expected a JSON object.');
+    });
+
+    it('should report broken project files on import', async () => {
+        await expect(parseImportedFile(file('diagram.json', '{"code": "graph TD",'))).rejects.toThrow(/^Invalid project file: not valid JSON/);
+        await expect(parseImportedFile(file('diagram.flowilham', JSON.stringify({ code: 'graph TD', theme: 'sepia' }))))
+            .rejects.toThrow('Invalid project file: "theme" must be one of default, dark, forest, neutral, not "sepia".');
+
+        // A .flowilham holding plain Mermaid code still opens
+        await expect(parseImportedFile(file('diagram.flowilham', 'graph TD\n    A --> B'))).resolves.toMatchObject({ diagramType: 'flowchart' });
+        await expect(parseImportedFile(file('diagram.flowilham', JSON.stringify(createProjectFile('graph TD', 'flowchart', 'dark', { createdAt: CREATED_AT })))))
+            .resolves.toMatchObject({ theme: 'dark', createdAt: CREATED_AT });
+    });
+});
@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { DiagramType, MermaidProjectFile, MermaidTheme } from '@/types/diagram';
+import { detectDiagramType } from '@/lib/mermaidFileUtils';
+import { customThemeSchema } from '@/lib/customThemes';
+
+/**
+ * The project file (.flowilham) format: its schema, and upgrades from older versions
+ */
+
+export const PROJECT_FILE_VERSION = '1.0';
+
+export const DIAGRAM_TYPES: [DiagramType, ...DiagramType[]] = [
+    'flowchart', 'sequence', 'class', 'state', 'er', 'gantt', 'pie', 'mindmap',
+    'timeline', 'quadrant', 'gitgraph', 'c4', 'sankey', 'block', 'journey',
+];
+
+export const MERMAID_THEMES: [MermaidTheme, ...MermaidTheme[]] = ['default', 'dark', 'forest', 'neutral'];
+
+const MAX_CODE_LENGTH = 1000000;
+
+const projectFileSchema = z.object({
+    version: z.literal(PROJECT_FILE_VERSION),
+    createdAt: z.string().datetime({ offset: true }),
+    updatedAt: z.string().datetime({ offset: true }),
+    diagramType: z.enum(DIAGRAM_TYPES),
+    theme: z.enum(MERMAID_THEMES),
+    code: z.string().max(MAX_CODE_LENGTH, 'exceeds the maximum size of 1MB'),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    customTheme: customThemeSchema.optional(),
+});
+
+type RawProjectFile = Record<string, unknown>;
+
+/**
+ * Each entry upgrades a file from the version it is keyed by to the next one, until the
+ * file reaches PROJECT_FILE_VERSION. Add an entry here whenever the format changes.
+ */
+const MIGRATIONS: Record<string, (file: RawProjectFile) => RawProjectFile> = {
+    // Files written before the format had a version: code, and at most a title and type
+    '0': (file) => {
+        const now = new Date().toISOString();
+        return {
+            ...file,
+            version: '1.0',
+            createdAt: file.createdAt ?? now,
+            updatedAt: file.updatedAt ?? now,
+            diagramType: file.diagramType ?? (typeof file.code === 'string' ? detectDiagramType(file.code) : undefined),
+            theme: file.theme ?? 'default',
+        };
+    },
+};
+
+const compareVersions = (a: string, b: string): number => {
+    const [aMajor = 0, aMinor = 0] = a.split('.').map(Number);
+    const [bMajor = 0, bMinor = 0] = b.split('.').map(Number);
+    return aMajor - bMajor || aMinor - bMinor;
+};
+
+/**
+ * Upgrade a project file of any known version to the current one
+ */
+export function migrateProjectFile(file: RawProjectFile): RawProjectFile {
+    let current = file;
+    const seen = new Set<string>();
+
+    for (;;) {
+        const version = current.version === undefined ? '0' : current.version;
+        if (typeof version !== 'string' || (version !== '0' && !/^\d+\.\d+$/.test(version))) {
+            throw new Error(`Invalid project file: "version" must be a version number such as "${PROJECT_FILE_VERSION}".`);
+        }
+        if (version === PROJECT_FILE_VERSION) return current;
+
+        if (compareVersions(version, PROJECT_FILE_VERSION) > 0) {
+            throw new Error(
+                `This project file uses format version ${version}, which is newer than this app supports (${PROJECT_FILE_VERSION}). Update the app to open it.`
+            );
+        }
+
+        const migrate = MIGRATIONS[version];
+        if (!migrate || seen.has(version)) {
+            throw new Error(`Unsupported project file version ${version}.`);
+        }
+        seen.add(version);
+        current = migrate(current);
+    }
+}
+
+// Messages that name the offending field and say what it should have held
+const errorMap: z.ZodErrorMap = (issue, ctx) => {
+    switch (issue.code) {
+        case z.ZodIssueCode.invalid_type: {
+            if (issue.received === 'undefined') return { message: 'is missing' };
+            // Enums report their options as 'a' | 'b'
+            const options = issue.expected.split(' | ').map(option => option.replace(/'/g, ''));
+            return { message: `must be ${options.length > 1 ? `one of ${options.join(', ')}` : `a ${issue.expected}`}, not ${issue.received}` };
+        }
+        case z.ZodIssueCode.invalid_enum_value:
+            return { message: `must be one of ${issue.options.join(', ')}, not ${JSON.stringify(issue.received)}` };
+        case z.ZodIssueCode.invalid_string:
+            return { message: 'must be an ISO 8601 date such as 2024-01-31T12:00:00.000Z' };
+        case z.ZodIssueCode.too_big:
+            return { message: `must be at most ${issue.maximum}${issue.type === 'string' ? ' characters' : ''}` };
+        default:
+            return { message: ctx.defaultError };
+    }
+};
+
+/**
+ * Validate parsed JSON as a project file, upgrading older versions first.
+ * Throws an error naming every field that is missing or invalid.
+ */
+export function parseProjectFile(data: unknown): MermaidProjectFile {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new Error('Invalid project file: expected a JSON object.');
+    }
+
+    const result = projectFileSchema.safeParse(migrateProjectFile(data as RawProjectFile), { errorMap });
+    if (!result.success) {
+        const problems = result.error.issues.map(issue => `"${issue.path.join('.')}" ${issue.message}`);
+        throw new Error(`Invalid project file: ${problems.join('; ')}.`);
+    }
+
+    // Without strictNullChecks zod infers every field as optional
+    return result.data as MermaidProjectFile;
+}
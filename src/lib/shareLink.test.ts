@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createEmbedCode,
+    createEmbedUrl,
+    createShareUrl,
+    decodeSharedDiagram,
+    encodeSharedDiagram,
+    getSharePayload,
+    parseEmbedOptions,
+} from '@/lib/shareLink';
+
+const diagram = {
+    code: 'flowchart TD\n    A[Start] --> B{Ünïcode? 🚀}\n    B -->|yes| C',
+    diagramType: 'flowchart' as const,
+    theme: 'dark' as const,
+    title: 'Release flow',
+};
+
+describe('shareLink', () => {
+    it('should round-trip a diagram through a URL-safe payload', async () => {
+        const payload = await encodeSharedDiagram(diagram);
+
+        expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(await decodeSharedDiagram(payload)).toEqual(diagram);
+    });
+
+    it('should build view links and read their payload back', async () => {
+        const url = await createShareUrl(diagram);
+        const hash = new URL(url).hash;
+
+        expect(url.startsWith(`${window.location.origin}/#/view/`)).toBe(true);
+        expect(await decodeSharedDiagram(getSharePayload(hash)!)).toEqual(diagram);
+        expect(getSharePayload('#/view/')).toBeNull();
+        expect(getSharePayload('#section')).toBeNull();
+    });
+
+    it('should reject damaged and unknown payloads', async () => {
+        const payload = await encodeSharedDiagram(diagram);
+        const tampered = await encodeSharedDiagram({ ...diagram, theme: 'sepia' as never });
+
+        await expect(decodeSharedDiagram(payload.slice(0, -8))).rejects.toThrow('This link is damaged or incomplete');
+        await expect(decodeSharedDiagram(tampered)).rejects.toThrow('This link does not contain a diagram that can be shown.');
+    });
+
+    it('should refuse diagrams too large for a link', async () => {
+        // Random labels barely compress
+        const code = `flowchart TD\n${Array.from({ length: 2000 }, (_, i) => `    n${i}[${Math.random().toString(36).slice(2)}]`).join('\n')}`;
+
+        await expect(createShareUrl({ ...diagram, code })).rejects.toThrow('too large to share as a link');
+    });
+
+    it('should build embed URLs with only the options that differ from the defaults', async () => {
+        const url = new URL(await createEmbedUrl(diagram, { background: 'custom', customBackground: '#fafafa', zoom: 1.5, interactive: false }));
+
+        expect(url.pathname).toBe('/embed');
+        expect([...url.searchParams.keys()]).toEqual(['d', 'background', 'zoom', 'interactive']);
+        expect(await decodeSharedDiagram(url.searchParams.get('d')!)).toEqual(diagram);
+        expect(parseEmbedOptions(url.searchParams)).toEqual({
+            background: 'custom',
+            customBackground: '#fafafa',
+            zoom: 1.5,
+            interactive: false,
+        });
+        expect(new URL(await createEmbedUrl(diagram)).search).toMatch(/^\?d=[A-Za-z0-9_-]+$/);
+    });
+
+    it('should ignore invalid embed options', () => {
+        expect(parseEmbedOptions(new URLSearchParams('theme=sepia&background=url(x)&zoom=-2&interactive=yes'))).toEqual({
+            background: 'theme',
+            zoom: 1,
+            interactive: true,
+        });
+        expect(parseEmbedOptions(new URLSearchParams('theme=dark&background=transparent&zoom=50'))).toMatchObject({
+            theme: 'dark',
+            background: 'transparent',
+            zoom: 5,
+        });
+    });
+
+    it('should escape the embed snippet', () => {
+        expect(createEmbedCode('https://example.com/embed?d=x&zoom=2', 'Q&A "flow"')).toBe(
+            '<iframe src="https://example.com/embed?d=x&amp;zoom=2" title="Q&amp;A &quot;flow&quot;" width="100%" height="480" style="border: 0;" loading="lazy" allowfullscreen></iframe>'
+        );
+    });
+});
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { EmbedOptions, ExportBackground, MermaidTheme, SharedDiagram } from '@/types/diagram';
+import { DIAGRAM_TYPES, MERMAID_THEMES } from '@/lib/projectFile';
+import { escapeHtml } from '@/lib/htmlExport';
+
+/**
+ * Diagrams packed into links: deflated JSON in URL-safe base64, read back by the view-only
+ * page and by the embed route
+ */
+
+/** Hash route of the view-only page; the payload follows it */
+export const SHARE_VIEW_PREFIX = '#/view/';
+
+/** Path of the embed route; the payload goes in its `d` query parameter */
+export const EMBED_PATH = 'embed';
+
+// Chat apps and mail clients cut links off long before browsers do
+const MAX_SHARE_URL_LENGTH = 16000;
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+    background: 'theme',
+    zoom: 1,
+    interactive: true,
+};
+
+const EMBED_BACKGROUNDS: ExportBackground[] = ['theme', 'transparent', 'white', 'dark'];
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 5;
+
+const sharedDiagramSchema = z.object({
+    code: z.string(),
+    diagramType: z.enum(DIAGRAM_TYPES),
+    theme: z.enum(MERMAID_THEMES),
+    title: z.string().optional(),
+});
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Response(bytes).body!.pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array =>
+    Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+/**
+ * Compress a diagram into a payload that can go into a URL as is
+ */
+export async function encodeSharedDiagram({ code, diagramType, theme, title }: SharedDiagram): Promise<string> {
+    const json = JSON.stringify({ code, diagramType, theme, ...(title && { title }) });
+    return toBase64Url(await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+}
+
+/**
+ * Read a diagram back from a payload, rejecting anything damaged or tampered with
+ */
+export async function decodeSharedDiagram(payload: string): Promise<SharedDiagram> {
+    let data: unknown;
+    try {
+        const bytes = await transform(fromBase64Url(payload), new DecompressionStream('deflate-raw'));
+        data = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+        throw new Error('This link is damaged or incomplete. Ask for the link to be sent again.');
+    }
+
+    const result = sharedDiagramSchema.safeParse(data);
+    if (!result.success) {
+        throw new Error('This link does not contain a diagram that can be shown.');
+    }
+    return result.data as SharedDiagram;
+}
+
+/**
+ * The payload of a view-only link's hash, e.g. `#/view/<payload>`
+ */
+export function getSharePayload(hash: string): string | null {
+    if (!hash.startsWith(SHARE_VIEW_PREFIX)) return null;
+    return hash.slice(SHARE_VIEW_PREFIX.length) || null;
+}
+
+const checkLength = (url: string): string => {
+    if (url.length > MAX_SHARE_URL_LENGTH) {
+        throw new Error('This diagram is too large to share as a link. Export it as a project file instead.');
+    }
+    return url;
+};
+
+const appUrl = (path: string): string => `${window.location.origin}${import.meta.env.BASE_URL}${path}`;
+
+/**
+ * Link that opens the diagram on the view-only page of this app
+ */
+export async function createShareUrl(diagram: SharedDiagram): Promise<string> {
+    return checkLength(appUrl(`${SHARE_VIEW_PREFIX}${await encodeSharedDiagram(diagram)}`));
+}
+
+/**
+ * Embed options from the query of an embed URL; anything missing or invalid keeps its default.
+ * `background` takes theme, transparent, white, dark or a hex color.
+ */
+export function parseEmbedOptions(params: URLSearchParams): EmbedOptions {
+    const options: EmbedOptions = { ...DEFAULT_EMBED_OPTIONS };
+
+    const theme = params.get('theme');
+    if (MERMAID_THEMES.includes(theme as MermaidTheme)) options.theme = theme as MermaidTheme;
+
+    const background = params.get('background');
+    if (background && /^#[0-9a-f]{3,8}$/i.test(background)) {
+        options.background = 'custom';
+        options.customBackground = background;
+    } else if (EMBED_BACKGROUNDS.includes(background as ExportBackground)) {
+        options.background = background as ExportBackground;
+    }
+
+    const zoom = Number(params.get('zoom'));
+    if (params.has('zoom') && Number.isFinite(zoom) && zoom > 0) {
+        options.zoom = Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+    }
+
+    const interactive = params.get('interactive');
+    if (interactive === '0' || interactive === 'false') options.interactive = false;
+
+    return options;
+}
+
+/**
+ * URL of the embed route for the diagram; options left at their defaults stay out of the query
+ */
+export async function createEmbedUrl(diagram: SharedDiagram, options: Partial<EmbedOptions> = {}): Promise<string> {
+    const { theme, background, customBackground, zoom, interactive } = { ...DEFAULT_EMBED_OPTIONS, ...options };
+    const params = new URLSearchParams({ d: await encodeSharedDiagram(diagram) });
+
+    if (theme) params.set('theme', theme);
+    if (background === 'custom' && customBackground) {
+        params.set('background', customBackground);
+    } else if (background !== DEFAULT_EMBED_OPTIONS.background && background !== 'custom') {
+        params.set('background', background);
+    }
+    if (zoom !== DEFAULT_EMBED_OPTIONS.zoom) params.set('zoom', String(zoom));
+    if (!interactive) params.set('interactive', '0');
+
+    return checkLength(appUrl(`${EMBED_PATH}?${params}`));
+}
+
+/**
+ * iframe snippet that shows the embed URL
+ */
+export function createEmbedCode(url: string, title: string): string {
+    return `<iframe src="${escapeHtml(url)}" title="${escapeHtml(title)}" width="100%" height="480" style="border: 0;" loading="lazy" allowfullscreen></iframe>`;
+}
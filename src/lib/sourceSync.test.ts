@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parseDiagram } from '@/lib/mermaidParser';
+import { findElementAtOffset, findElementForSvg, findSvgElements, getElementRange } from '@/lib/sourceSync';
+
+const parse = (svg: string) => new DOMParser().parseFromString(svg, 'image/svg+xml');
+
+describe('sourceSync', () => {
+    const code = 'flowchart TD\n    A[Start] --> B{Ok?}\n    B -->|Yes| C\n    A --> B\n    style C fill:#f9f';
+    const ast = parseDiagram(code);
+    const flowchartSvg = parse(`<svg xmlns="http://www.w3.org/2000/svg">
+        <path class="flowchart-link LS-A LE-B" id="L-A-B-0"/>
+        <path class="flowchart-link LS-B LE-C" id="L-B-C-0"/>
+        <path class="flowchart-link LS-A LE-B" id="L-A-B-1"/>
+        <g class="node" id="flowchart-A-3"><rect/><text>Start</text></g>
+        <g class="node" id="flowchart-C-5"><rect/><text>C</text></g>
+    </svg>`);
+
+    describe('findElementAtOffset', () => {
+        it('should find the node or edge under the cursor', () => {
+            expect(findElementAtOffset(ast, code.indexOf('Start'))).toEqual({ kind: 'node', id: 'A' });
+            expect(findElementAtOffset(ast, code.indexOf('-->|Yes'))).toEqual({ kind: 'edge', index: 1 });
+            expect(findElementAtOffset(ast, code.indexOf('Yes'))).toEqual({ kind: 'edge', index: 1 });
+            expect(findElementAtOffset(ast, code.indexOf('fill'))).toEqual({ kind: 'node', id: 'C' });
+        });
+
+        it('should fall back to the statement on the cursor line', () => {
+            expect(findElementAtOffset(ast, code.indexOf('    B -->'))).toEqual({ kind: 'node', id: 'B' });
+            expect(findElementAtOffset(ast, 0)).toBeNull();
+        });
+
+        it('should resolve participants, messages and class members', () => {
+            const sequence = parseDiagram('sequenceDiagram\n    participant Alice\n    Alice->>Bob: Hi');
+            expect(findElementAtOffset(sequence, sequence.source.indexOf('Alice'))).toEqual({ kind: 'node', id: 'Alice' });
+            expect(findElementAtOffset(sequence, sequence.source.indexOf('Hi'))).toEqual({ kind: 'edge', index: 0 });
+
+            const classes = parseDiagram('classDiagram\n    class Animal {\n        +run()\n    }');
+            expect(findElementAtOffset(classes, classes.source.indexOf('run'))).toEqual({ kind: 'node', id: 'Animal' });
+        });
+    });
+
+    describe('getElementRange', () => {
+        it('should return the statement defining a node or edge', () => {
+            const range = getElementRange(ast, { kind: 'node', id: 'B' });
+            expect(code.slice(range.start, range.end)).toBe('A[Start] --> B{Ok?}');
+
+            const edge = getElementRange(ast, { kind: 'edge', index: 2 });
+            expect(code.slice(edge.start, edge.end)).toBe('A --> B');
+            expect(getElementRange(ast, { kind: 'node', id: 'Z' })).toBeNull();
+        });
+    });
+
+    describe('findSvgElements', () => {
+        it('should match repeated flowchart links by their order', () => {
+            expect(findSvgElements(flowchartSvg, ast, { kind: 'edge', index: 2 }).map(path => path.id)).toEqual(['L-A-B-1']);
+            expect(findSvgElements(flowchartSvg, ast, { kind: 'node', id: 'C' }).map(node => node.id)).toEqual(['flowchart-C-5']);
+        });
+
+        it('should use document order for other diagram types', () => {
+            const sequence = parseDiagram('sequenceDiagram\n    A->>B: One\n    B->>A: Two');
+            const svg = parse(`<svg xmlns="http://www.w3.org/2000/svg">
+                <rect class="actor" name="A"/><rect class="actor" name="B"/><rect class="actor" name="A"/>
+                <text class="messageText">One</text><text class="messageText">Two</text>
+            </svg>`);
+
+            expect(findSvgElements(svg, sequence, { kind: 'node', id: 'A' })).toHaveLength(2);
+            expect(findSvgElements(svg, sequence, { kind: 'edge', index: 1 })[0].textContent).toBe('Two');
+        });
+    });
+
+    describe('findElementForSvg', () => {
+        it('should map clicked nodes and links back to the AST', () => {
+            expect(findElementForSvg(flowchartSvg.querySelector('#flowchart-A-3 text'), ast)).toEqual({ kind: 'node', id: 'A' });
+            expect(findElementForSvg(flowchartSvg.querySelector('#L-A-B-1'), ast)).toEqual({ kind: 'edge', index: 2 });
+            expect(findElementForSvg(flowchartSvg.documentElement, ast)).toBeNull();
+        });
+
+        it('should map clicked edge labels to their edge', () => {
+            const svg = parse(`<svg xmlns="http://www.w3.org/2000/svg"><g class="root">
+                <g class="edgePaths">
+                    <path class="flowchart-link LS-A LE-B"/>
+                    <path class="flowchart-link LS-B LE-C"/>
+                    <path class="flowchart-link LS-A LE-B"/>
+                </g>
+                <g class="edgeLabels">
+                    <g class="edgeLabel"><g class="label"><text></text></g></g>
+                    <g class="edgeLabel"><g class="label"><text>Yes</text></g></g>
+                    <g class="edgeLabel"><g class="label"><text></text></g></g>
+                </g>
+            </g></svg>`);
+
+            expect(findElementForSvg(svg.querySelectorAll('g.edgeLabel text')[1], ast)).toEqual({ kind: 'edge', index: 1 });
+        });
+    });
+});
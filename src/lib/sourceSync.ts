@@ -0,0 +1,149 @@
+import { DiagramAst, AstDiagramType, AstStatement, SourceRange, findNode, positionAt, rangeContains } from '@/lib/mermaidAst';
+import { findSvgNodeId, getSvgNodeId } from '@/lib/svgDiff';
+
+/**
+ * Links the code editor's cursor to the rendered diagram and back.
+ * Elements are identified through the AST: nodes by id, edges by their index in `ast.edges`.
+ */
+
+export type DiagramElementRef =
+    | { kind: 'node'; id: string }
+    | { kind: 'edge'; index: number };
+
+const NODE_SELECTOR = 'g.node, g[id^="entity-"], rect.actor[name]';
+
+// Mermaid draws edges in source order, so the nth element matches the nth AST edge
+const EDGE_SELECTORS: Record<AstDiagramType, string> = {
+    flowchart: 'path.flowchart-link',
+    sequence: 'text.messageText',
+    class: 'path.relation',
+    state: 'path.transition',
+    er: 'path.relationshipLine',
+};
+
+const nodeRef = (ast: DiagramAst, id: string): DiagramElementRef | null =>
+    findNode(ast, id) ? { kind: 'node', id } : null;
+
+function elementInStatement(ast: DiagramAst, statement: AstStatement, offset: number): DiagramElementRef | null {
+    switch (statement.kind) {
+        case 'node':
+            return nodeRef(ast, statement.node.id.text);
+        case 'edge': {
+            const ref = statement.nodes.flat().find(node => rangeContains(node.range, offset));
+            if (ref && ref.id.text !== '[*]') return nodeRef(ast, ref.id.text);
+
+            // Between nodes or on a label: the link under the cursor, else the last one before it
+            const link = statement.links.find(candidate => offset <= candidate.range.end)
+                ?? statement.links[statement.links.length - 1];
+            const index = ast.edges.findIndex(edge => edge.link === link);
+            return index === -1 ? null : { kind: 'edge', index };
+        }
+        case 'member':
+            return nodeRef(ast, statement.owner);
+        case 'reference': {
+            const target = statement.targets.find(node => rangeContains(node.range, offset)) ?? statement.targets[0];
+            return target ? nodeRef(ast, target.id.text) : null;
+        }
+        case 'group-start':
+            // Composite states render as nodes; subgraphs do not
+            return statement.id ? nodeRef(ast, statement.id.text) : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Element defined or referenced at a source offset, or on the same line
+ */
+export function findElementAtOffset(ast: DiagramAst, offset: number): DiagramElementRef | null {
+    const { line } = positionAt(ast.source, offset);
+    const onLine = ast.statements.filter(statement => statement.line === line && statement.range);
+    const statement = onLine.find(candidate => rangeContains(candidate.range, offset)) ?? onLine[0];
+    if (!statement) return null;
+    // In the indentation, act as if the cursor were at the start of the statement
+    return elementInStatement(ast, statement, Math.max(offset, statement.range.start));
+}
+
+/**
+ * Source range of the statement that defines an element
+ */
+export function getElementRange(ast: DiagramAst, element: DiagramElementRef): SourceRange | null {
+    if (element.kind === 'edge') {
+        return ast.edges[element.index]?.statement.range ?? null;
+    }
+
+    const node = findNode(ast, element.id);
+    if (!node) return null;
+    const definition = node.refs.find(ref => ref.label || ref.shape) ?? node.refs[0];
+    const statement = ast.statements.find(candidate => candidate.range && rangeContains(candidate.range, definition.range.start));
+    return statement?.range ?? definition.range;
+}
+
+/**
+ * Occurrence of an edge among the edges joining the same two nodes
+ */
+function pairIndex(ast: DiagramAst, index: number): number {
+    const { from, to } = ast.edges[index];
+    return ast.edges.slice(0, index).filter(edge => edge.from === from && edge.to === to).length;
+}
+
+/**
+ * Rendered elements for an AST element; sequence actors appear twice
+ */
+export function findSvgElements(root: ParentNode, ast: DiagramAst, element: DiagramElementRef): Element[] {
+    if (element.kind === 'node') {
+        return Array.from(root.querySelectorAll(NODE_SELECTOR)).filter(candidate => getSvgNodeId(candidate) === element.id);
+    }
+
+    const edge = ast.edges[element.index];
+    if (!edge) return [];
+    const rendered = Array.from(root.querySelectorAll(EDGE_SELECTORS[ast.type]));
+
+    if (ast.type === 'flowchart') {
+        // Links carry their endpoints as LS-/LE- classes
+        const matches = rendered.filter(path => path.classList.contains(`LS-${edge.from}`) && path.classList.contains(`LE-${edge.to}`));
+        const match = matches[pairIndex(ast, element.index)];
+        return match ? [match] : [];
+    }
+    return rendered[element.index] ? [rendered[element.index]] : [];
+}
+
+/**
+ * AST element for a clicked part of the rendered diagram
+ */
+export function findElementForSvg(target: Element, ast: DiagramAst): DiagramElementRef | null {
+    const nodeId = findSvgNodeId(target);
+    if (nodeId) return nodeRef(ast, nodeId);
+
+    // Edge labels are drawn next to the edge paths, one per edge and in the same order
+    const label = target.closest('g.edgeLabel');
+    if (label?.parentElement?.classList.contains('edgeLabels')) {
+        const paths = Array.from(label.parentElement.parentElement?.children ?? [])
+            .find(group => group.classList.contains('edgePaths'));
+        const path = paths?.children[Array.from(label.parentElement.children).indexOf(label)];
+        return path ? findElementForSvg(path, ast) : null;
+    }
+
+    const selector = EDGE_SELECTORS[ast.type];
+    const rendered = target.closest(selector);
+    if (!rendered) return null;
+    const root = (rendered as SVGElement).ownerSVGElement ?? rendered.ownerDocument;
+
+    if (ast.type === 'flowchart') {
+        const endpoint = (prefix: string) => Array.from(rendered.classList).find(name => name.startsWith(prefix))?.slice(prefix.length);
+        const from = endpoint('LS-');
+        const to = endpoint('LE-');
+        const occurrence = Array.from(root.querySelectorAll(selector))
+            .filter(path => path.classList.contains(`LS-${from}`) && path.classList.contains(`LE-${to}`))
+            .indexOf(rendered);
+        const index = ast.edges.findIndex((edge, candidate) =>
+            edge.from === from && edge.to === to && pairIndex(ast, candidate) === occurrence);
+        return index === -1 ? null : { kind: 'edge', index };
+    }
+
+    const index = Array.from(root.querySelectorAll(selector)).indexOf(rendered);
+    return index !== -1 && index < ast.edges.length ? { kind: 'edge', index } : null;
+}
+
+export const elementKey = (element: DiagramElementRef | null): string =>
+    !element ? '' : element.kind === 'node' ? `node:${element.id}` : `edge:${element.index}`;
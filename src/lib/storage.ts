@@ -0,0 +1,125 @@
+/**
+ * Pluggable key-value storage used to persist workspace data.
+ * IndexedDB is preferred; localStorage is used when IndexedDB is unavailable.
+ */
+
+export type StoreName = 'documents' | 'history' | 'versions' | 'meta';
+
+const STORE_NAMES: StoreName[] = ['documents', 'history', 'versions', 'meta'];
+
+const DB_NAME = 'flowgen';
+const DB_VERSION = 3;
+const LOCAL_STORAGE_PREFIX = 'flowgen-store';
+
+export interface StorageBackend {
+    readonly kind: 'indexeddb' | 'localstorage';
+    get<T>(store: StoreName, key: string): Promise<T | undefined>;
+    getAll<T>(store: StoreName): Promise<T[]>;
+    put<T>(store: StoreName, key: string, value: T): Promise<void>;
+    delete(store: StoreName, key: string): Promise<void>;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            // Create any store missing from older database versions
+            for (const store of STORE_NAMES) {
+                if (!db.objectStoreNames.contains(store)) {
+                    db.createObjectStore(store);
+                }
+            }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+    });
+}
+
+/**
+ * IndexedDB backend - values are stored with out-of-line keys so primitives work too
+ */
+export function createIndexedDbBackend(db: IDBDatabase): StorageBackend {
+    const run = <T>(store: StoreName, mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest<T>) =>
+        promisifyRequest(action(db.transaction(store, mode).objectStore(store)));
+
+    return {
+        kind: 'indexeddb',
+        get: <T>(store: StoreName, key: string) =>
+            run(store, 'readonly', (s) => s.get(key)) as Promise<T | undefined>,
+        getAll: <T>(store: StoreName) =>
+            run(store, 'readonly', (s) => s.getAll()) as Promise<T[]>,
+        put: async <T>(store: StoreName, key: string, value: T) => {
+            await run(store, 'readwrite', (s) => s.put(value, key));
+        },
+        delete: async (store: StoreName, key: string) => {
+            await run(store, 'readwrite', (s) => s.delete(key));
+        },
+    };
+}
+
+/**
+ * localStorage backend - each store is a single JSON object keyed by record key
+ */
+export function createLocalStorageBackend(prefix: string = LOCAL_STORAGE_PREFIX): StorageBackend {
+    const readStore = (store: StoreName): Record<string, unknown> => {
+        const saved = localStorage.getItem(`${prefix}:${store}`);
+        if (!saved) return {};
+        try {
+            return JSON.parse(saved);
+        } catch {
+            return {};
+        }
+    };
+
+    const writeStore = (store: StoreName, records: Record<string, unknown>) => {
+        localStorage.setItem(`${prefix}:${store}`, JSON.stringify(records));
+    };
+
+    return {
+        kind: 'localstorage',
+        get: async <T>(store: StoreName, key: string) => readStore(store)[key] as T | undefined,
+        getAll: async <T>(store: StoreName) => Object.values(readStore(store)) as T[],
+        put: async <T>(store: StoreName, key: string, value: T) => {
+            writeStore(store, { ...readStore(store), [key]: value });
+        },
+        delete: async (store: StoreName, key: string) => {
+            const records = readStore(store);
+            delete records[key];
+            writeStore(store, records);
+        },
+    };
+}
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+/**
+ * Open the default backend once per session, falling back to localStorage
+ * when IndexedDB is missing or refuses to open (e.g. some private browsing modes)
+ */
+export function openStorageBackend(): Promise<StorageBackend> {
+    if (!backendPromise) {
+        backendPromise = (async () => {
+            if (typeof indexedDB === 'undefined') {
+                return createLocalStorageBackend();
+            }
+            try {
+                return createIndexedDbBackend(await openDatabase(DB_NAME));
+            } catch (error) {
+                console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+                return createLocalStorageBackend();
+            }
+        })();
+    }
+    return backendPromise;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { DIFF_ADDED_CLASS, DIFF_REMOVED_CLASS, diffSvgs, findSvgNodeId } from '@/lib/svgDiff';
+
+const flowchartSvg = (nodes: string[], edges: [string, string][], counter: number) => `
+<svg xmlns="http://www.w3.org/2000/svg" id="mermaid-${counter}">
+    ${edges.map(([from, to], i) => `<path class="flowchart-link LS-${from} LE-${to}" id="L-${from}-${to}-${i}"/>`).join('')}
+    ${nodes.map((node, i) => `<g class="node default" id="flowchart-${node}-${counter + i}"><rect/><text>${node}</text></g>`).join('')}
+</svg>`;
+
+const parse = (svg: string) => new DOMParser().parseFromString(svg, 'image/svg+xml');
+
+describe('svgDiff', () => {
+    it('should highlight added and removed nodes and edges', () => {
+        const base = flowchartSvg(['A', 'B', 'C'], [['A', 'B'], ['B', 'C']], 10);
+        const target = flowchartSvg(['A', 'B', 'D'], [['A', 'B'], ['B', 'D']], 40);
+
+        const result = diffSvgs(base, target);
+
+        expect(result).toMatchObject({ added: 2, removed: 2 });
+        const baseDoc = parse(result.base);
+        const targetDoc = parse(result.target);
+        expect(baseDoc.querySelector(`[id^="flowchart-C-"]`)?.classList.contains(DIFF_REMOVED_CLASS)).toBe(true);
+        expect(baseDoc.querySelector('.LE-C')?.classList.contains(DIFF_REMOVED_CLASS)).toBe(true);
+        expect(targetDoc.querySelector(`[id^="flowchart-D-"]`)?.classList.contains(DIFF_ADDED_CLASS)).toBe(true);
+        expect(targetDoc.querySelector(`[id^="flowchart-A-"]`)?.classList.contains(DIFF_ADDED_CLASS)).toBe(false);
+    });
+
+    it('should match sequence actors and messages by name and label', () => {
+        const sequence = (message: string) => `
+<svg xmlns="http://www.w3.org/2000/svg">
+    <rect class="actor" name="Alice"/><rect class="actor" name="Bob"/>
+    <text class="messageText">${message}</text>
+</svg>`;
+
+        const result = diffSvgs(sequence('Hello'), sequence('Hi there'));
+
+        expect(result).toMatchObject({ added: 1, removed: 1 });
+    });
+
+    it('should find the node id for an element inside a rendered node', () => {
+        const doc = parse(`
+<svg xmlns="http://www.w3.org/2000/svg">
+    <g class="node" id="flowchart-Start-node-12"><rect/><text><tspan>Begin</tspan></text></g>
+    <g><rect class="actor" name="Alice"/><text class="actor"><tspan>Alice</tspan></text></g>
+    <text class="messageText">Hello</text>
+</svg>`);
+
+        expect(findSvgNodeId(doc.querySelector('g.node tspan'))).toBe('Start-node');
+        expect(findSvgNodeId(doc.querySelector('text.actor tspan'))).toBe('Alice');
+        expect(findSvgNodeId(doc.querySelector('.messageText'))).toBeNull();
+    });
+
+    it('should leave unparseable input untouched', () => {
+        expect(diffSvgs('not svg', '<svg/>')).toEqual({ base: 'not svg', target: '<svg/>', added: 0, removed: 0 });
+    });
+});
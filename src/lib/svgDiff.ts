@@ -0,0 +1,130 @@
+/**
+ * Visual diff of two rendered Mermaid SVGs.
+ * Nodes and edges are matched by the ids and classes Mermaid assigns, falling back to labels.
+ */
+
+export const DIFF_ADDED_CLASS = 'diff-added';
+export const DIFF_REMOVED_CLASS = 'diff-removed';
+
+export interface SvgDiffResult {
+    /** Base SVG with removed elements highlighted */
+    base: string;
+    /** Target SVG with added elements highlighted */
+    target: string;
+    added: number;
+    removed: number;
+}
+
+// Flowchart/class/state nodes, ER entities and sequence actors
+const NODE_SELECTOR = 'g.node, g[id^="entity-"], rect.actor[name]';
+// Flowchart links, class relations, state transitions, ER relationships and sequence messages
+const EDGE_SELECTOR = 'path.flowchart-link, path.relation, path.transition, path.relationshipLine, text.messageText';
+
+const normalizeLabel = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Source id of a rendered node element, or null when Mermaid did not tag it
+ */
+export function getSvgNodeId(element: Element): string | null {
+    const name = element.getAttribute('name');
+    if (name) return name;
+
+    // flowchart-A-12, classId-Animal-3, state-Idle-4: drop Mermaid's render counter
+    const id = element.getAttribute('id') || '';
+    const match = id.match(/^(?:flowchart|classId|state)-(.+)-\d+$/);
+    if (match) return match[1];
+
+    // ER entities end in a UUID: entity-CUSTOMER-<uuid>
+    const entity = id.match(/^entity-(.+)-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    return entity ? entity[1] : null;
+}
+
+/**
+ * Node id for an element anywhere inside a rendered node, e.g. a clicked label
+ */
+export function findSvgNodeId(element: Element): string | null {
+    const node = element.closest(NODE_SELECTOR);
+    if (node) return getSvgNodeId(node);
+
+    // Sequence actor labels sit next to the named actor box
+    const actor = element.closest('.actor')?.parentElement?.querySelector('rect.actor[name]');
+    return actor ? getSvgNodeId(actor) : null;
+}
+
+const nodeKey = (element: Element): string => getSvgNodeId(element) ?? normalizeLabel(element);
+
+function edgeKey(element: Element): string {
+    if (element.tagName.toLowerCase() === 'text') {
+        return normalizeLabel(element);
+    }
+
+    // Flowchart links carry their endpoints as LS-<start> / LE-<end> classes
+    const classes = Array.from(element.classList);
+    const start = classes.find(name => name.startsWith('LS-'));
+    const end = classes.find(name => name.startsWith('LE-'));
+    if (start && end) return `${start.slice(3)}->${end.slice(3)}`;
+
+    // Class relations: id_Animal_Dog_1
+    const id = element.getAttribute('id') || '';
+    const relation = id.match(/^id_(.+)_\d+$/);
+    if (relation) return relation[1];
+
+    // Unlabelled edges (state transitions, ER relationships) can only be matched by order
+    return classes.join('.');
+}
+
+/**
+ * Key every element, numbering repeats so duplicate edges match one-to-one
+ */
+function collectKeyed(svg: Element, selector: string, getKey: (element: Element) => string): Map<string, Element> {
+    const keyed = new Map<string, Element>();
+    const counts = new Map<string, number>();
+
+    svg.querySelectorAll(selector).forEach((element) => {
+        const key = getKey(element);
+        const count = counts.get(key) || 0;
+        counts.set(key, count + 1);
+        keyed.set(`${key}#${count}`, element);
+    });
+
+    return keyed;
+}
+
+function markMissing(from: Map<string, Element>, other: Map<string, Element>, className: string): number {
+    let marked = 0;
+    from.forEach((element, key) => {
+        if (!other.has(key)) {
+            element.classList.add(className);
+            marked++;
+        }
+    });
+    return marked;
+}
+
+export function diffSvgs(baseSvg: string, targetSvg: string): SvgDiffResult {
+    const parser = new DOMParser();
+    const baseRoot = parser.parseFromString(baseSvg, 'image/svg+xml').querySelector('svg');
+    const targetRoot = parser.parseFromString(targetSvg, 'image/svg+xml').querySelector('svg');
+
+    if (!baseRoot || !targetRoot) {
+        return { base: baseSvg, target: targetSvg, added: 0, removed: 0 };
+    }
+
+    let added = 0;
+    let removed = 0;
+
+    for (const [selector, getKey] of [[NODE_SELECTOR, nodeKey], [EDGE_SELECTOR, edgeKey]] as const) {
+        const baseElements = collectKeyed(baseRoot, selector, getKey);
+        const targetElements = collectKeyed(targetRoot, selector, getKey);
+        removed += markMissing(baseElements, targetElements, DIFF_REMOVED_CLASS);
+        added += markMissing(targetElements, baseElements, DIFF_ADDED_CLASS);
+    }
+
+    const serializer = new XMLSerializer();
+    return {
+        base: serializer.serializeToString(baseRoot),
+        target: serializer.serializeToString(targetRoot),
+        added,
+        removed,
+    };
+}
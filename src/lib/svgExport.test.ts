@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_EXPORT_OPTIONS, getRasterSize, getSvgDimensions, prepareSvgForExport, resolveBackground } from '@/lib/svgExport';
+
+const svg = '<svg id="mermaid-1" viewBox="-8 -8 200 100" style="max-width: 200px;"><g class="node"/></svg>';
+const parse = (source: string) => new DOMParser().parseFromString(source, 'image/svg+xml').documentElement;
+
+describe('svgExport', () => {
+    describe('prepareSvgForExport', () => {
+        it('should pad the viewBox and set explicit dimensions', () => {
+            const prepared = parse(prepareSvgForExport(svg, { ...DEFAULT_EXPORT_OPTIONS, padding: 10 }, 'default'));
+
+            expect(prepared.getAttribute('viewBox')).toBe('-18 -18 220 120');
+            expect(prepared.getAttribute('width')).toBe('220');
+            expect(prepared.getAttribute('height')).toBe('120');
+            expect(prepared.getAttribute('xmlns')).toBe('http://www.w3.org/2000/svg');
+            expect(prepared.getAttribute('style')).not.toContain('max-width');
+        });
+
+        it('should fill the background from the theme, a preset or a custom color', () => {
+            const background = (options: Partial<typeof DEFAULT_EXPORT_OPTIONS>) =>
+                parse(prepareSvgForExport(svg, { ...DEFAULT_EXPORT_OPTIONS, ...options }, 'forest')).querySelector('rect.export-bg');
+
+            expect(background({}).getAttribute('fill')).toBe('#ecfdf5');
+            expect(background({}).getAttribute('x')).toBe('-48');
+            expect(background({ background: 'dark' }).getAttribute('fill')).toBe('#0f172a');
+            expect(background({ background: 'custom', customBackground: '#fef3c7' }).getAttribute('fill')).toBe('#fef3c7');
+            expect(background({ background: 'transparent' })).toBeNull();
+        });
+    });
+
+    describe('getRasterSize', () => {
+        it('should scale the diagram or fit an exact width', () => {
+            const dimensions = getSvgDimensions(prepareSvgForExport(svg, DEFAULT_EXPORT_OPTIONS, 'default'));
+
+            expect(dimensions).toEqual({ width: 280, height: 180 });
+            expect(getRasterSize(dimensions, { scale: 2 })).toEqual({ width: 560, height: 360 });
+            expect(getRasterSize(dimensions, { scale: 2, width: 1400 })).toEqual({ width: 1400, height: 900 });
+        });
+    });
+
+    describe('resolveBackground', () => {
+        it('should return null for transparent exports', () => {
+            expect(resolveBackground({ ...DEFAULT_EXPORT_OPTIONS, background: 'transparent' }, 'dark')).toBeNull();
+            expect(resolveBackground(DEFAULT_EXPORT_OPTIONS, 'dark')).toBe('#0f172a');
+        });
+
+        it('should use the background of a custom theme', () => {
+            const customTheme = { id: 'brand', name: 'Brand', variables: { background: '#fef3c7' } };
+
+            expect(resolveBackground(DEFAULT_EXPORT_OPTIONS, 'default', customTheme)).toBe('#fef3c7');
+            expect(resolveBackground(DEFAULT_EXPORT_OPTIONS, 'default', { ...customTheme, variables: {} })).toBe('#ffffff');
+        });
+    });
+});
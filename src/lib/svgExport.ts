@@ -0,0 +1,185 @@
+import { CustomTheme, ExportOptions, MermaidTheme } from '@/types/diagram';
+
+/**
+ * Shared export pipeline: pad and color the rendered SVG, then rasterize it when needed
+ */
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Match the preview backgrounds
+export const THEME_BACKGROUNDS: Record<MermaidTheme, string> = {
+    default: '#ffffff',
+    dark: '#0f172a', // slate-900
+    forest: '#ecfdf5', // emerald-50
+    neutral: '#f5f5f5', // neutral-100
+};
+
+const FIXED_BACKGROUNDS = {
+    white: '#ffffff',
+    dark: THEME_BACKGROUNDS.dark,
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'png',
+    scale: 3,
+    padding: 40,
+    background: 'theme',
+    customBackground: '#ffffff',
+    quality: 0.95,
+};
+
+export type SvgExportOptions = Pick<ExportOptions, 'padding' | 'background' | 'customBackground'>;
+
+/**
+ * Page background of a theme; a custom theme's own background wins
+ */
+export function getThemeBackground(theme: MermaidTheme, customTheme?: CustomTheme | null): string {
+    return customTheme?.variables.background || THEME_BACKGROUNDS[theme] || THEME_BACKGROUNDS.default;
+}
+
+/**
+ * Background color for the chosen option, or null when transparent
+ */
+export function resolveBackground(options: SvgExportOptions, theme: MermaidTheme, customTheme?: CustomTheme | null): string | null {
+    switch (options.background) {
+        case 'transparent':
+            return null;
+        case 'white':
+        case 'dark':
+            return FIXED_BACKGROUNDS[options.background];
+        case 'custom':
+            return options.customBackground;
+        default:
+            return getThemeBackground(theme, customTheme);
+    }
+}
+
+/**
+ * Get SVG dimensions from viewBox or width/height attributes
+ */
+export function getSvgDimensions(svg: string): { width: number; height: number } {
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    const svgElement = doc.querySelector('svg');
+
+    if (svgElement) {
+        const viewBox = svgElement.getAttribute('viewBox');
+        if (viewBox) {
+            const parts = viewBox.split(/[\s,]+/).map(Number);
+            if (parts.length === 4) {
+                // viewBox format: minX minY width height
+                return { width: parts[2], height: parts[3] };
+            }
+        }
+
+        // Fallback to width/height attributes
+        const width = parseFloat(svgElement.getAttribute('width') || '800');
+        const height = parseFloat(svgElement.getAttribute('height') || '600');
+        return { width, height };
+    }
+
+    return { width: 800, height: 600 };
+}
+
+/**
+ * Add padding and background, and set explicit dimensions from the viewBox so images load at their real size
+ */
+export function prepareSvgForExport(svg: string, options: SvgExportOptions, theme: MermaidTheme, customTheme?: CustomTheme | null): string {
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    const svgElement = doc.querySelector('svg');
+    if (!svgElement) return svg;
+
+    // Ensure xmlns is set
+    if (!svgElement.hasAttribute('xmlns')) {
+        svgElement.setAttribute('xmlns', SVG_NS);
+    }
+
+    const viewBox = (svgElement.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+    if (viewBox.length === 4 && viewBox.every(Number.isFinite)) {
+        const [minX, minY, width, height] = viewBox;
+        const { padding } = options;
+        const newWidth = width + padding * 2;
+        const newHeight = height + padding * 2;
+        svgElement.setAttribute('viewBox', `${minX - padding} ${minY - padding} ${newWidth} ${newHeight}`);
+        svgElement.setAttribute('width', String(newWidth));
+        svgElement.setAttribute('height', String(newHeight));
+        // Mermaid caps the rendered width for the page layout
+        const style = svgElement.getAttribute('style');
+        if (style) svgElement.setAttribute('style', style.replace(/max-width:[^;]*;?/i, '').trim());
+    }
+
+    svgElement.querySelector('rect.export-bg')?.remove();
+    const background = resolveBackground(options, theme, customTheme);
+    if (background) {
+        const [x, y] = (svgElement.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+        const bgRect = doc.createElementNS(SVG_NS, 'rect');
+        bgRect.setAttribute('class', 'export-bg');
+        bgRect.setAttribute('x', String(x || 0));
+        bgRect.setAttribute('y', String(y || 0));
+        bgRect.setAttribute('width', '100%');
+        bgRect.setAttribute('height', '100%');
+        bgRect.setAttribute('fill', background);
+        svgElement.insertBefore(bgRect, svgElement.firstChild);
+    }
+
+    return new XMLSerializer().serializeToString(svgElement);
+}
+
+/**
+ * Pixel size of a raster export, from an exact width or a scale
+ */
+export function getRasterSize(dimensions: { width: number; height: number }, options: Pick<ExportOptions, 'scale' | 'width'>): { width: number; height: number } {
+    const scale = options.width ? options.width / dimensions.width : options.scale;
+    return {
+        width: Math.max(1, Math.round(dimensions.width * scale)),
+        height: Math.max(1, Math.round(dimensions.height * scale)),
+    };
+}
+
+/**
+ * Render the diagram to a PNG or JPEG blob using a canvas
+ */
+export function exportRaster(svg: string, options: ExportOptions, theme: MermaidTheme, customTheme?: CustomTheme | null): Promise<Blob> {
+    const preparedSvg = prepareSvgForExport(svg, options, theme, customTheme);
+    const size = getRasterSize(getSvgDimensions(preparedSvg), options);
+    const isJpeg = options.format === 'jpg';
+    // JPEG has no alpha channel, so transparent exports get a white background
+    const background = resolveBackground(options, theme, customTheme) ?? (isJpeg ? FIXED_BACKGROUNDS.white : null);
+
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(new Blob([preparedSvg], { type: 'image/svg+xml;charset=utf-8' }));
+        const img = new window.Image();
+
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+
+            const canvas = document.createElement('canvas');
+            canvas.width = size.width;
+            canvas.height = size.height;
+
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                reject(new Error('Could not get canvas context'));
+                return;
+            }
+
+            if (background) {
+                ctx.fillStyle = background;
+                ctx.fillRect(0, 0, canvas.width, canvas.height);
+            }
+            ctx.drawImage(img, 0, 0, size.width, size.height);
+
+            canvas.toBlob(
+                (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+                isJpeg ? 'image/jpeg' : 'image/png',
+                isJpeg ? options.quality : undefined
+            );
+        };
+
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Failed to load SVG for export'));
+        };
+
+        img.src = url;
+    });
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, summarizeLineDiff } from '@/lib/textDiff';
+
+describe('textDiff', () => {
+    describe('diffLines', () => {
+        it('should mark every line unchanged for identical texts', () => {
+            const diff = diffLines('graph TD\n    A --> B', 'graph TD\n    A --> B');
+
+            expect(diff.every(line => line.type === 'unchanged')).toBe(true);
+            expect(diff).toHaveLength(2);
+        });
+
+        it('should report replaced lines as a removal followed by an addition', () => {
+            const diff = diffLines('graph TD\n    A --> B\n    B --> C', 'graph TD\n    A --> X\n    B --> C');
+
+            expect(diff.map(line => line.type)).toEqual(['unchanged', 'removed', 'added', 'unchanged']);
+            expect(diff[1]).toMatchObject({ text: '    A --> B', oldLine: 2 });
+            expect(diff[2]).toMatchObject({ text: '    A --> X', newLine: 2 });
+            expect(diff[3]).toMatchObject({ oldLine: 3, newLine: 3 });
+        });
+
+        it('should handle empty texts', () => {
+            expect(diffLines('', 'pie')).toEqual([{ type: 'added', text: 'pie', newLine: 1 }]);
+            expect(diffLines('pie', '')).toEqual([{ type: 'removed', text: 'pie', oldLine: 1 }]);
+        });
+    });
+
+    describe('summarizeLineDiff', () => {
+        it('should count added and removed lines', () => {
+            const diff = diffLines('a\nb\nc', 'a\nc\nd\ne');
+
+            expect(summarizeLineDiff(diff)).toEqual({ added: 2, removed: 1 });
+        });
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * Line-based diff of two texts (longest common subsequence)
+ */
+
+export type LineChange = 'added' | 'removed' | 'unchanged';
+
+export interface LineDiff {
+    type: LineChange;
+    text: string;
+    /** 1-based line number in the old text (unset for added lines) */
+    oldLine?: number;
+    /** 1-based line number in the new text (unset for removed lines) */
+    newLine?: number;
+}
+
+export interface LineDiffSummary {
+    added: number;
+    removed: number;
+}
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n?/g, '\n').split('\n'));
+
+export function diffLines(oldText: string, newText: string): LineDiff[] {
+    const oldLines = splitLines(oldText);
+    const newLines = splitLines(newText);
+
+    // Skip the common prefix and suffix so the table only covers the changed middle
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+        start++;
+    }
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+        oldEnd--;
+        newEnd--;
+    }
+
+    const oldMiddle = oldLines.slice(start, oldEnd);
+    const newMiddle = newLines.slice(start, newEnd);
+    const rows = oldMiddle.length;
+    const cols = newMiddle.length;
+
+    // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths: Uint32Array[] = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = cols - 1; j >= 0; j--) {
+            lengths[i][j] = oldMiddle[i] === newMiddle[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const result: LineDiff[] = [];
+    for (let k = 0; k < start; k++) {
+        result.push({ type: 'unchanged', text: oldLines[k], oldLine: k + 1, newLine: k + 1 });
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+        if (i < rows && j < cols && oldMiddle[i] === newMiddle[j]) {
+            result.push({ type: 'unchanged', text: oldMiddle[i], oldLine: start + i + 1, newLine: start + j + 1 });
+            i++;
+            j++;
+        } else if (i < rows && (j === cols || lengths[i + 1][j] >= lengths[i][j + 1])) {
+            result.push({ type: 'removed', text: oldMiddle[i], oldLine: start + i + 1 });
+            i++;
+        } else {
+            result.push({ type: 'added', text: newMiddle[j], newLine: start + j + 1 });
+            j++;
+        }
+    }
+
+    for (let k = 0; k < oldLines.length - oldEnd; k++) {
+        result.push({
+            type: 'unchanged',
+            text: oldLines[oldEnd + k],
+            oldLine: oldEnd + k + 1,
+            newLine: newEnd + k + 1,
+        });
+    }
+
+    return result;
+}
+
+export function summarizeLineDiff(diff: LineDiff[]): LineDiffSummary {
+    return {
+        added: diff.filter(line => line.type === 'added').length,
+        removed: diff.filter(line => line.type === 'removed').length,
+    };
+}
@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DiagramPreview } from '@/components/editor/DiagramPreview';
+import { useDiagramEditor } from '@/hooks/useDiagramEditor';
+import { createDocument } from '@/lib/diagramRepository';
+import { decodeSharedDiagram, parseEmbedOptions } from '@/lib/shareLink';
+import { resolveBackground } from '@/lib/svgExport';
+import { EmbedOptions, SharedDiagram } from '@/types/diagram';
+
+interface EmbeddedDiagramProps {
+  diagram: SharedDiagram;
+  options: EmbedOptions;
+}
+
+const EmbeddedDiagram = ({ diagram, options }: EmbeddedDiagramProps) => {
+  const [initialDocument] = useState(() => createDocument({
+    code: diagram.code,
+    diagramType: diagram.diagramType,
+    theme: options.theme ?? diagram.theme,
+  }));
+  const { theme, svgOutput, isRendering, isValid } = useDiagramEditor({ initialDocument });
+  const background = resolveBackground({ padding: 0, background: options.background, customBackground: options.customBackground }, theme);
+
+  return (
+    <div className="h-screen">
+      <DiagramPreview
+        svgOutput={svgOutput}
+        theme={theme}
+        isRendering={isRendering}
+        isValid={isValid}
+        initialScale={options.zoom}
+        interactive={options.interactive}
+        background={background ?? 'transparent'}
+      />
+    </div>
+  );
+};
+
+/**
+ * Just the rendered diagram, for iframes. The diagram comes from the `d` query parameter,
+ * with theme, background, zoom and interactive options next to it.
+ */
+const Embed = () => {
+  const [params] = useSearchParams();
+  const payload = params.get('d');
+  const options = useMemo(() => parseEmbedOptions(params), [params]);
+  const [shared, setShared] = useState<{ payload: string; diagram?: SharedDiagram; error?: string } | null>(null);
+
+  // The page behind a transparent embed must not show through
+  useEffect(() => {
+    const { documentElement, body } = document;
+    documentElement.style.background = 'transparent';
+    body.style.background = 'transparent';
+    return () => {
+      documentElement.style.background = '';
+      body.style.background = '';
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!payload) return;
+    let cancelled = false;
+    decodeSharedDiagram(payload).then(
+      (diagram) => !cancelled && setShared({ payload, diagram }),
+      (error) => !cancelled && setShared({ payload, error: error instanceof Error ? error.message : 'This diagram could not be shown.' })
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [payload]);
+
+  if (!payload || (shared?.payload === payload && !shared.diagram)) {
+    return (
+      <div className="h-screen flex items-center justify-center p-4 text-center text-sm text-muted-foreground">
+        {payload ? shared?.error : 'No diagram to show. Copy the embed code from Export → Copy embed code.'}
+      </div>
+    );
+  }
+
+  if (shared?.payload !== payload) return null;
+
+  return <EmbeddedDiagram key={payload} diagram={shared.diagram} options={options} />;
+};
+
+export default Embed;
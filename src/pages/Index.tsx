@@ -1,7 +1,31 @@
-import { FlowEditor } from '@/components/editor/FlowEditor';
+import { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { DiagramWorkspace } from '@/components/editor/DiagramWorkspace';
+import { SharedDiagramView } from '@/components/editor/SharedDiagramView';
+import { getSharePayload } from '@/lib/shareLink';
+import { SharedDiagram } from '@/types/diagram';
 
 const Index = () => {
-  return <FlowEditor />;
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+  // Shared diagram the user chose to edit, waiting for the workspace to open it
+  const [sharedCopy, setSharedCopy] = useState<SharedDiagram | null>(null);
+
+  const payload = getSharePayload(hash);
+  if (payload) {
+    return (
+      <SharedDiagramView
+        payload={payload}
+        onEditCopy={(diagram) => {
+          setSharedCopy(diagram);
+          navigate('/', { replace: true });
+        }}
+        onExit={() => navigate('/')}
+      />
+    );
+  }
+
+  return <DiagramWorkspace sharedDiagram={sharedCopy} onSharedDiagramOpened={() => setSharedCopy(null)} />;
 };
 
 export default Index;
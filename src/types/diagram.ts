@@ -17,6 +17,49 @@ export type DiagramType =
 
 export type MermaidTheme = 'default' | 'dark' | 'forest' | 'neutral';
 
+/**
+ * Mermaid themeVariables a custom theme sets on top of the `base` theme
+ */
+export interface ThemeVariables {
+  primaryColor?: string;
+  primaryTextColor?: string;
+  primaryBorderColor?: string;
+  secondaryColor?: string;
+  tertiaryColor?: string;
+  lineColor?: string;
+  textColor?: string;
+  background?: string;
+  fontFamily?: string;
+  fontSize?: string;
+}
+
+/**
+ * Named set of colours and fonts, saved in the theme library and in project files
+ */
+export interface CustomTheme {
+  id: string;
+  name: string;
+  variables: ThemeVariables;
+}
+
+export type FlowchartCurve = 'basis' | 'linear' | 'cardinal' | 'monotoneX' | 'step' | 'natural';
+
+/**
+ * Rendering preferences from the settings panel. Config in a diagram's own
+ * `%%{init}%%` directive or frontmatter takes precedence over them.
+ */
+export interface RenderSettings {
+  flowchartCurve: FlowchartCurve;
+  /** Number the messages of sequence diagrams */
+  showSequenceNumbers: boolean;
+  /** Repeat the actors below sequence diagrams */
+  mirrorActors: boolean;
+  /** Wrap long labels and messages */
+  wrap: boolean;
+  /** Base font size in pixels */
+  fontSize: number;
+}
+
 export interface DiagramTemplate {
   type: DiagramType;
   name: string;
@@ -34,10 +77,88 @@ export interface EditorState {
   error: string | null;
 }
 
+/**
+ * A single diagram stored in the workspace library.
+ */
+export interface DiagramDocument extends Pick<EditorState, 'code' | 'diagramType' | 'theme'> {
+  id: string;
+  projectTitle: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Renders the diagram with these colours and fonts instead of `theme` */
+  customTheme?: CustomTheme;
+  /** Set for diagrams imported from a Markdown file, so edits can be written back to it */
+  markdownSource?: MarkdownSource;
+}
+
+/**
+ * The Markdown document a diagram was imported from
+ */
+export interface MarkdownSource {
+  /** Shared by every diagram imported from the same file */
+  id: string;
+  fileName: string;
+  markdown: string;
+  /** Position among the Mermaid blocks of the document, from 0 */
+  blockIndex: number;
+}
+
+/**
+ * Diagram carried in a share link
+ */
+export interface SharedDiagram extends Pick<DiagramDocument, 'code' | 'diagramType' | 'theme'> {
+  title?: string;
+}
+
+export type DiagramDocumentContent = Pick<DiagramDocument, 'code' | 'diagramType' | 'theme' | 'projectTitle' | 'customTheme'>;
+
+export interface WorkspaceState {
+  activeId: string;
+  documents: DiagramDocument[];
+}
+
+/**
+ * Structured description of a Mermaid parse/render failure (1-based positions)
+ */
+export interface DiagramDiagnostic {
+  message: string;
+  line: number;
+  column: number;
+  endColumn?: number;
+  expected: string[];
+  found?: string;
+}
+
+export type ExportBackground = 'theme' | 'transparent' | 'white' | 'dark' | 'custom';
+
 export interface ExportOptions {
   format: 'svg' | 'png' | 'jpg';
+  /** Raster pixels per SVG unit; ignored when `width` is set */
   scale: number;
-  background: 'transparent' | 'white' | 'dark';
+  /** Exact raster width in pixels */
+  width?: number;
+  /** Space around the diagram in SVG units */
+  padding: number;
+  background: ExportBackground;
+  /** CSS color used when `background` is 'custom' */
+  customBackground: string;
+  /** JPEG quality between 0 and 1 */
+  quality: number;
+}
+
+/**
+ * How an embedded diagram looks and behaves, set by the embed URL's query
+ */
+export interface EmbedOptions {
+  /** Overrides the diagram's own theme */
+  theme?: MermaidTheme;
+  background: ExportBackground;
+  /** CSS color used when `background` is 'custom' */
+  customBackground?: string;
+  /** Initial zoom, 1 being the rendered size */
+  zoom: number;
+  /** Whether viewers can pan and zoom */
+  interactive: boolean;
 }
 
 export interface MermaidProjectFile {
@@ -49,7 +170,31 @@ export interface MermaidProjectFile {
   code: string;
   title?: string;
   description?: string;
+  /** Colours and fonts replacing `theme`, so recipients see the same look */
+  customTheme?: CustomTheme;
 }
 
-export type ImportableFileType = 'mmd' | 'txt' | 'flowilham' | 'json';
+/**
+ * Named snapshot of a workspace document, stored as a project file
+ */
+export interface DiagramVersion extends MermaidProjectFile {
+  id: string;
+  documentId: string;
+  name: string;
+}
 
+export type ImportableFileType =
+  | 'mmd' | 'txt' | 'flowilham' | 'json'
+  | 'puml' | 'plantuml' | 'pu' | 'iuml'
+  | 'dot' | 'gv'
+  | 'drawio' | 'xml'
+  | 'md' | 'markdown';
+
+
+/**
+ * Conversion warnings of one imported file
+ */
+export interface ImportReport {
+  fileName: string;
+  warnings: string[];
+}